@@ -0,0 +1,67 @@
+import { Link, useFetcher } from "@remix-run/react";
+import { useEffect, useRef } from "react";
+import { tipoPlaca } from "~/utils/placa";
+import { ESTADO_LABELS } from "~/utils/vehiculoEstado";
+import type { DuplicadoVehiculo } from "~/utils/vehiculoDuplicados.server";
+
+type AvisoDuplicadosProps = {
+  placa: string;
+  marca: string;
+  modelo: string;
+  anio: string;
+  km: string;
+  color: string;
+  // Vehículo en edición, que no cuenta como duplicado de sí mismo
+  excluir?: string;
+};
+
+// Espera a que el vendedor deje de escribir antes de consultar
+const ESPERA_MS = 400;
+
+// Avisa si la placa ya está en el inventario propio (impide guardar) o si el
+// mismo vehículo parece publicado por otro concesionario (solo informativo)
+export default function AvisoDuplicados({ placa, marca, modelo, anio, km, color, excluir }: AvisoDuplicadosProps) {
+  const fetcher = useFetcher<{ placaError: string | null; duplicados: DuplicadoVehiculo[] }>();
+  const placaValida = !!tipoPlaca(placa);
+  const conCaracteristicas = !!(marca && modelo && anio && km && color);
+  const consulta =
+    placaValida || conCaracteristicas
+      ? new URLSearchParams({ placa, marca, modelo, anio, km, color, ...(excluir ? { excluir } : {}) }).toString()
+      : "";
+
+  // load se lee de la última render
+  const cargar = useRef(fetcher.load);
+  cargar.current = fetcher.load;
+  useEffect(() => {
+    if (!consulta) return;
+    const timer = setTimeout(() => cargar.current(`/api/vehiculos/duplicados?${consulta}`), ESPERA_MS);
+    return () => clearTimeout(timer);
+  }, [consulta]);
+
+  if (!consulta || !fetcher.data) return null;
+  const { placaError, duplicados } = fetcher.data;
+  if (!placaError && duplicados.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-2 text-sm">
+      {placaError && placaValida && <p className="rounded-md bg-red-50 p-2 text-red-700">{placaError}</p>}
+      {duplicados.length > 0 && (
+        <div className="rounded-md bg-yellow-50 p-3 text-yellow-800">
+          <p className="font-medium">Este vehículo podría estar publicado por otro vendedor:</p>
+          <ul className="mt-1 list-disc list-inside">
+            {duplicados.map((duplicado) => (
+              <li key={duplicado.uuid}>
+                <Link to={`/vehiculos/${duplicado.uuid}`} target="_blank" rel="noreferrer" className="underline hover:no-underline">
+                  {[duplicado.marca, duplicado.modelo, duplicado.anio].filter(Boolean).join(" ")}
+                </Link>{" "}
+                ({ESTADO_LABELS[duplicado.estado].toLowerCase()}) —{" "}
+                {duplicado.motivo === "placa" ? "misma placa" : "mismo año, kilometraje y color"}
+              </li>
+            ))}
+          </ul>
+          <p className="mt-1 text-xs">Puedes publicarlo igualmente si se trata de otro vehículo.</p>
+        </div>
+      )}
+    </div>
+  );
+}
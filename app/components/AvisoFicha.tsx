@@ -0,0 +1,25 @@
+type AvisoFichaProps = {
+  // Valor de la ficha técnica del catálogo; sin valor no se muestra nada
+  catalogo?: string;
+  valor: string;
+  onRestaurar: () => void;
+};
+
+// Indica bajo un campo del formulario si su valor viene del catálogo o si el
+// vendedor lo cambió, con la opción de volver al del catálogo
+export default function AvisoFicha({ catalogo, valor, onRestaurar }: AvisoFichaProps) {
+  if (!catalogo) return null;
+  if (valor === catalogo) {
+    return <p className="mt-1 text-xs text-green-700">Autocompletado del catálogo</p>;
+  }
+
+  return (
+    <p className="mt-1 rounded-md bg-yellow-50 p-2 text-xs text-yellow-800">
+      {valor === "" ? "Sin valor" : "Modificado"}: el catálogo indica <span className="font-semibold">{catalogo}</span>{" "}
+      para esta versión.{" "}
+      <button type="button" onClick={onRestaurar} className="font-medium underline hover:no-underline">
+        Usar el del catálogo
+      </button>
+    </p>
+  );
+}
@@ -0,0 +1,127 @@
+import { useFetcher, useRouteLoaderData } from "@remix-run/react";
+import { useEffect, useState, type MouseEvent } from "react";
+import type { loader as rootLoader } from "~/root";
+import { FAVORITOS_STORAGE_KEY, MAX_FAVORITOS, limpiarUuids } from "~/utils/favoritos";
+
+// Evento con el que se avisan entre sí los botones de la misma pestaña
+const FAVORITOS_EVENT = "favoritos-locales";
+
+function leerLocales() {
+  try {
+    const guardados: unknown = JSON.parse(localStorage.getItem(FAVORITOS_STORAGE_KEY) || "[]");
+    return Array.isArray(guardados) ? limpiarUuids(guardados, MAX_FAVORITOS) : [];
+  } catch {
+    return [];
+  }
+}
+
+function escribirLocales(uuids: string[]) {
+  if (uuids.length === 0) localStorage.removeItem(FAVORITOS_STORAGE_KEY);
+  else localStorage.setItem(FAVORITOS_STORAGE_KEY, JSON.stringify(uuids));
+  window.dispatchEvent(new Event(FAVORITOS_EVENT));
+}
+
+// Favoritos del visitante: en la base de datos para suscriptores (loader de
+// root) y en localStorage para el resto. Al iniciar sesión como suscriptor los
+// del navegador se importan a la cuenta.
+export function useFavoritos() {
+  const root = useRouteLoaderData<typeof rootLoader>("root");
+  const persistidos = root?.favoritos ?? null;
+  const fetcher = useFetcher();
+  // null hasta leer localStorage (no existe durante el render en el servidor)
+  const [locales, setLocales] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    const sincronizar = () => setLocales(leerLocales());
+    sincronizar();
+    window.addEventListener(FAVORITOS_EVENT, sincronizar);
+    window.addEventListener("storage", sincronizar);
+    return () => {
+      window.removeEventListener(FAVORITOS_EVENT, sincronizar);
+      window.removeEventListener("storage", sincronizar);
+    };
+  }, []);
+
+  const esComprador = persistidos !== null;
+  const submit = fetcher.submit;
+  useEffect(() => {
+    if (!esComprador) return;
+    const pendientes = leerLocales();
+    if (pendientes.length === 0) return;
+    // Se vacían antes de enviar para que los demás botones no los importen de nuevo
+    escribirLocales([]);
+    const formData = new FormData();
+    formData.set("_method", "agregar");
+    for (const uuid of pendientes) formData.append("v", uuid);
+    submit(formData, { method: "post", action: "/favoritos" });
+  }, [esComprador, submit]);
+
+  // Cambio en curso, para reflejarlo antes de que responda el servidor
+  const enviando = fetcher.formData?.get("_method");
+  const enviandoUuid = fetcher.formData?.get("v");
+  const favoritos = persistidos ?? locales ?? [];
+
+  const esFavorito = (uuid: string) => {
+    if (enviandoUuid === uuid && (enviando === "agregar" || enviando === "quitar")) return enviando === "agregar";
+    return favoritos.includes(uuid);
+  };
+
+  const alternar = (uuid: string) => {
+    const activo = favoritos.includes(uuid);
+    if (persistidos) {
+      submit({ _method: activo ? "quitar" : "agregar", v: uuid }, { method: "post", action: "/favoritos" });
+    } else {
+      const actuales = leerLocales();
+      escribirLocales(activo ? actuales.filter((f) => f !== uuid) : [uuid, ...actuales].slice(0, MAX_FAVORITOS));
+    }
+  };
+
+  return { favoritos, esFavorito, alternar, persistidos: esComprador, listo: esComprador || locales !== null };
+}
+
+type BotonFavoritoProps = {
+  uuid: string;
+  className?: string;
+};
+
+// Corazón para marcar o quitar un vehículo de favoritos
+export default function BotonFavorito({
+  uuid,
+  className = "rounded-full bg-white/90 p-2 shadow-md hover:bg-white",
+}: BotonFavoritoProps) {
+  const { esFavorito, alternar } = useFavoritos();
+  const activo = esFavorito(uuid);
+
+  const handleClick = (e: MouseEvent<HTMLButtonElement>) => {
+    // Las tarjetas del catálogo navegan al hacer click
+    e.stopPropagation();
+    e.preventDefault();
+    alternar(uuid);
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-pressed={activo}
+      aria-label={activo ? "Quitar de favoritos" : "Agregar a favoritos"}
+      title={activo ? "Quitar de favoritos" : "Agregar a favoritos"}
+      className={className}
+    >
+      <svg
+        className={`h-5 w-5 ${activo ? "text-red-500" : "text-brand-title"}`}
+        fill={activo ? "currentColor" : "none"}
+        stroke="currentColor"
+        viewBox="0 0 24 24"
+        xmlns="http://www.w3.org/2000/svg"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z"
+        />
+      </svg>
+    </button>
+  );
+}
@@ -0,0 +1,135 @@
+import { useFetcher } from "@remix-run/react";
+import { useEffect, useId, useRef, useState, type KeyboardEvent } from "react";
+import { BUSQUEDA_MIN_SUGERENCIAS, TIPO_SUGERENCIA_LABELS, limpiarConsulta, type Sugerencia } from "~/utils/busqueda";
+
+type BuscadorVehiculosProps = {
+  // Búsqueda aplicada (parámetro `search` de la URL)
+  valor: string;
+  onBuscar: (valor: string) => void;
+  placeholder?: string;
+  inputClassName?: string;
+};
+
+// Espera tras la última tecla antes de buscar y pedir sugerencias
+const DEBOUNCE_MS = 300;
+
+// Buscador del inventario con autocompletado (teclado: flechas, Enter y Escape)
+export default function BuscadorVehiculos({
+  valor,
+  onBuscar,
+  placeholder = "Buscar por marca, modelo, año o placa...",
+  inputClassName = "w-full bg-transparent outline-none text-sm text-brand-title placeholder:text-gray-400 focus:outline-none",
+}: BuscadorVehiculosProps) {
+  const sugerenciasFetcher = useFetcher<{ sugerencias: Sugerencia[] }>();
+  const listaId = useId();
+  const [texto, setTexto] = useState(valor);
+  const [abierto, setAbierto] = useState(false);
+  const [activa, setActiva] = useState(-1);
+
+  // Si la búsqueda cambia desde fuera (p. ej. "Limpiar filtros") se refleja aquí
+  useEffect(() => {
+    setTexto(valor);
+  }, [valor]);
+
+  // El debounce solo depende del texto; el resto se lee de la última render
+  const ultimo = useRef({ valor, onBuscar, cargar: sugerenciasFetcher.load });
+  ultimo.current = { valor, onBuscar, cargar: sugerenciasFetcher.load };
+
+  useEffect(() => {
+    const consulta = limpiarConsulta(texto);
+    const timer = setTimeout(() => {
+      const { valor, onBuscar, cargar } = ultimo.current;
+      if (consulta !== limpiarConsulta(valor)) onBuscar(consulta);
+      if (consulta.length >= BUSQUEDA_MIN_SUGERENCIAS) {
+        cargar(`/api/vehiculos/sugerencias?${new URLSearchParams({ q: consulta })}`);
+      }
+    }, DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [texto]);
+
+  const sugerencias =
+    limpiarConsulta(texto).length >= BUSQUEDA_MIN_SUGERENCIAS ? sugerenciasFetcher.data?.sugerencias ?? [] : [];
+  const mostrarLista = abierto && sugerencias.length > 0;
+
+  const elegir = (sugerencia: string) => {
+    setTexto(sugerencia);
+    setAbierto(false);
+    setActiva(-1);
+    onBuscar(sugerencia);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" && sugerencias.length > 0) {
+      e.preventDefault();
+      setAbierto(true);
+      setActiva((i) => (i + 1) % sugerencias.length);
+    } else if (e.key === "ArrowUp" && sugerencias.length > 0) {
+      e.preventDefault();
+      setActiva((i) => (i <= 0 ? sugerencias.length - 1 : i - 1));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (mostrarLista && activa >= 0) elegir(sugerencias[activa].sugerencia);
+      else {
+        setAbierto(false);
+        onBuscar(limpiarConsulta(texto));
+      }
+    } else if (e.key === "Escape") {
+      setAbierto(false);
+      setActiva(-1);
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      <input
+        type="search"
+        role="combobox"
+        aria-expanded={mostrarLista}
+        aria-controls={listaId}
+        aria-autocomplete="list"
+        aria-activedescendant={mostrarLista && activa >= 0 ? `${listaId}-${activa}` : undefined}
+        autoComplete="off"
+        className={inputClassName}
+        placeholder={placeholder}
+        value={texto}
+        onChange={(e) => {
+          setTexto(e.target.value);
+          setAbierto(true);
+          setActiva(-1);
+        }}
+        onFocus={() => setAbierto(true)}
+        onBlur={() => setAbierto(false)}
+        onKeyDown={handleKeyDown}
+      />
+      {mostrarLista && (
+        <ul
+          id={listaId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full z-20 mt-2 max-h-72 overflow-y-auto rounded-lg border border-gray-200 bg-white py-1 shadow-lg"
+        >
+          {sugerencias.map((s, i) => (
+            <li
+              key={`${s.tipo}-${s.sugerencia}`}
+              id={`${listaId}-${i}`}
+              role="option"
+              aria-selected={i === activa}
+              // mousedown en lugar de click para elegir antes del blur del input
+              onMouseDown={(e) => {
+                e.preventDefault();
+                elegir(s.sugerencia);
+              }}
+              className={`flex cursor-pointer items-center justify-between gap-4 px-3 py-2 text-sm ${
+                i === activa ? "bg-brand-secondary text-brand-title" : "text-brand-title hover:bg-gray-50"
+              }`}
+            >
+              <span>{s.sugerencia}</span>
+              <span className="text-xs text-gray-400">
+                {TIPO_SUGERENCIA_LABELS[s.tipo]} · {s.total}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,901 @@
+import { useLoaderData, useNavigate, useSearchParams, useFetcher } from "@remix-run/react";
+import { useState, useEffect, useCallback, Fragment } from "react";
+import { Range } from 'react-range';
+import type { IRenderThumbParams, IRenderTrackParams } from 'react-range/lib/types';
+import type { LoaderData, VehiculoType, loadCatalogo } from "~/utils/catalogo.server";
+import BotonFavorito from "~/components/BotonFavorito";
+import GuardarBusqueda from "~/components/GuardarBusqueda";
+import { FACETAS_VACIAS, FACETA_LABELS, type Faceta, type FacetaValor, type Facetas, type Histograma } from "~/utils/facetas";
+
+// --- Componente Skeleton ---
+const VehiculoCardSkeleton = () => (
+  <div className="bg-white rounded-xl border border-brand-secondary shadow-md overflow-hidden animate-pulse">
+    <div className="h-48 bg-gray-200" />
+    <div className="p-4 space-y-4">
+      <div className="h-6 bg-gray-200 rounded w-3/4" />
+      <div className="flex items-center space-x-2">
+        <div className="w-5 h-5 bg-gray-200 rounded-full" />
+        <div className="h-4 bg-gray-200 rounded w-1/2" />
+      </div>
+      <div className="pt-3 border-t border-brand-secondary">
+        <div className="h-8 bg-gray-200 rounded w-1/3" />
+      </div>
+      <div className="h-10 bg-gray-300 rounded w-full mt-2" />
+    </div>
+  </div>
+);
+
+function useDebounce<T>(value: T, delay: number): T {
+  const [debouncedValue, setDebouncedValue] = useState<T>(value);
+  useEffect(() => {
+    const handler = setTimeout(() => {
+      setDebouncedValue(value);
+    }, delay);
+    return () => {
+      clearTimeout(handler);
+    };
+  }, [value, delay]);
+  return debouncedValue;
+}
+
+function PriceRangeFilter({
+  minSlider,
+  maxSlider,
+  priceRange,
+  setPriceRange,
+  setMinPrice,
+  setMaxPrice,
+  setPrecioRango,
+  formatPrice
+}: {
+  minSlider: number,
+  maxSlider: number,
+  priceRange: [number, number],
+  setPriceRange: (v: [number, number]) => void,
+  setMinPrice: (v: string) => void,
+  setMaxPrice: (v: string) => void,
+  setPrecioRango: (v: string | null) => void,
+  formatPrice: (v: number) => string
+}) {
+  return (
+    <div className="mt-4 w-full flex flex-col items-center">
+      <Range
+        step={100000}
+        min={minSlider}
+        max={maxSlider}
+        values={priceRange}
+        onChange={values => {
+          setPriceRange(values as [number, number]);
+          setMinPrice(values[0].toString());
+          setMaxPrice(values[1].toString());
+          setPrecioRango(null);
+        }}
+        renderTrack={({ props, children }: IRenderTrackParams) => (
+          <div
+            {...props}
+            className="w-full h-2 bg-gray-200 rounded-full"
+            style={{ ...props.style, width: '100%' }}
+          >
+            <div
+              className="h-2 bg-brand-primary rounded-full"
+              style={{
+                position: 'absolute',
+                left: `${((priceRange[0] - minSlider) / (maxSlider - minSlider)) * 100}%`,
+                right: `${100 - ((priceRange[1] - minSlider) / (maxSlider - minSlider)) * 100}%`,
+                top: 0,
+                bottom: 0,
+              }}
+            />
+            {children}
+          </div>
+        )}
+        renderThumb={({ props }: IRenderThumbParams) => (
+          <div
+            {...props}
+            className="w-5 h-5 bg-brand-primary rounded-full border-2 border-white shadow flex items-center justify-center cursor-pointer"
+            style={{ ...props.style, zIndex: 10 }}
+          />
+        )}
+      />
+      <div className="w-full flex justify-between text-xs mt-2">
+        <span>Min: {formatPrice(priceRange[0])}</span>
+        <span>Max: {formatPrice(priceRange[1])}</span>
+      </div>
+    </div>
+  );
+}
+
+// Lista de valores de una faceta con su conteo; un segundo clic quita el filtro
+function ListaFaceta({
+  faceta,
+  valores,
+  seleccionado,
+  onSelect,
+}: {
+  faceta: Faceta;
+  valores: FacetaValor[];
+  seleccionado: string;
+  onSelect: (valor: string) => void;
+}) {
+  if (valores.length === 0 && !seleccionado) return null;
+  return (
+    <div>
+      <h3 className="font-semibold text-brand-title mb-2">{FACETA_LABELS[faceta]}</h3>
+      <div className="max-h-48 overflow-y-auto space-y-0.5 pr-2">
+        {valores.map(({ valor, total }) => (
+          <button
+            key={valor}
+            onClick={() => onSelect(valor === seleccionado ? "" : valor)}
+            className={`w-full flex justify-between gap-2 text-left px-2 py-1 rounded text-xs transition-colors ${
+              seleccionado === valor
+                ? 'bg-brand-primary text-white font-semibold shadow'
+                : 'text-brand-text hover:bg-brand-secondary'
+            }`}
+          >
+            <span>{valor}</span>
+            <span className="opacity-70">{total}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Barras del histograma de una faceta numérica (precio o kilometraje)
+function HistogramaBarras({ histograma }: { histograma?: Histograma }) {
+  if (!histograma || histograma.buckets.length < 2) return null;
+  const maximo = Math.max(...histograma.buckets.map((b) => b.total), 1);
+  return (
+    <div className="flex h-10 w-full items-end gap-0.5" aria-hidden="true">
+      {histograma.buckets.map((bucket) => (
+        <div
+          key={bucket.desde}
+          title={`${bucket.total}`}
+          className="flex-1 rounded-t bg-brand-secondary"
+          style={{ height: `${Math.max((bucket.total / maximo) * 100, bucket.total > 0 ? 8 : 0)}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+type Bucket = Histograma["buckets"][number];
+
+type FiltrosContentProps = {
+  facetas: Facetas;
+  marca: string;
+  setMarca: (v: string) => void;
+  modelo: string;
+  setModelo: (v: string) => void;
+  anio: string;
+  setAnio: (v: string) => void;
+  precioRango: string | null;
+  handlePrecioRangoClick: (rango: string, min: string, max: string) => void;
+  minSlider: number;
+  maxSlider: number;
+  priceRange: [number, number];
+  setPriceRange: (v: [number, number]) => void;
+  setMinPrice: (v: string) => void;
+  setMaxPrice: (v: string) => void;
+  setPrecioRango: (v: string | null) => void;
+  formatPrice: (v: number) => string;
+  handleClearFilters: () => void;
+  combustible: string;
+  setCombustible: (v: string) => void;
+  transmision: string;
+  setTransmision: (v: string) => void;
+  carroceria: string;
+  setCarroceria: (v: string) => void;
+  traccion: string;
+  setTraccion: (v: string) => void;
+  minKm: string;
+  maxKm: string;
+  handleKmClick: (rango: Bucket | null) => void;
+};
+
+// Componente encapsulado para el contenido de los filtros
+const FiltrosContent = ({
+  facetas,
+  marca, setMarca,
+  modelo, setModelo,
+  anio, setAnio,
+  precioRango, handlePrecioRangoClick,
+  minSlider, maxSlider,
+  priceRange, setPriceRange,
+  setMinPrice, setMaxPrice,
+  setPrecioRango, formatPrice,
+  handleClearFilters,
+  combustible, setCombustible,
+  transmision, setTransmision,
+  carroceria, setCarroceria,
+  traccion, setTraccion,
+  minKm, maxKm, handleKmClick,
+}: FiltrosContentProps) => (
+  <Fragment>
+    <div className="space-y-6">
+      <ListaFaceta
+        faceta="marca"
+        valores={facetas.valores.marca ?? []}
+        seleccionado={marca}
+        onSelect={(valor: string) => {
+          setMarca(valor);
+          setModelo("");
+          setAnio("");
+        }}
+      />
+
+      {marca && (
+        <ListaFaceta
+          faceta="modelo"
+          valores={facetas.valores.modelo ?? []}
+          seleccionado={modelo}
+          onSelect={(valor: string) => {
+            setModelo(valor);
+            setAnio("");
+          }}
+        />
+      )}
+
+      {modelo && (
+        <ListaFaceta faceta="anio" valores={facetas.valores.anio ?? []} seleccionado={anio} onSelect={setAnio} />
+      )}
+
+      {/* Filtro por Precio */}
+      <div>
+        <h3 className="font-semibold text-brand-title mb-2">Precio</h3>
+        <div className="space-y-1">
+          <button onClick={() => handlePrecioRangoClick('low', '', '20000000')} className={`w-full text-left px-2 py-1 rounded text-xs transition-colors ${precioRango === 'low' ? 'bg-brand-primary text-white font-semibold shadow' : 'text-brand-text hover:bg-brand-secondary'}`}>
+            &lt; $20M
+          </button>
+          <button onClick={() => handlePrecioRangoClick('mid', '20000000', '50000000')} className={`w-full text-left px-2 py-1 rounded text-xs transition-colors ${precioRango === 'mid' ? 'bg-brand-primary text-white font-semibold shadow' : 'text-brand-text hover:bg-brand-secondary'}`}>
+            $20M - $50M
+          </button>
+          <button onClick={() => handlePrecioRangoClick('high', '50000000', '')} className={`w-full text-left px-2 py-1 rounded text-xs transition-colors ${precioRango === 'high' ? 'bg-brand-primary text-white font-semibold shadow' : 'text-brand-text hover:bg-brand-secondary'}`}>
+            &gt; $50M
+          </button>
+        </div>
+        <div className="mt-4">
+          <HistogramaBarras histograma={facetas.histogramas.precio} />
+        </div>
+        <PriceRangeFilter
+          minSlider={minSlider}
+          maxSlider={maxSlider}
+          priceRange={priceRange}
+          setPriceRange={setPriceRange}
+          setMinPrice={setMinPrice}
+          setMaxPrice={setMaxPrice}
+          setPrecioRango={setPrecioRango}
+          formatPrice={formatPrice}
+        />
+      </div>
+
+      <ListaFaceta
+        faceta="combustible"
+        valores={facetas.valores.combustible ?? []}
+        seleccionado={combustible}
+        onSelect={setCombustible}
+      />
+      <ListaFaceta
+        faceta="transmision"
+        valores={facetas.valores.transmision ?? []}
+        seleccionado={transmision}
+        onSelect={setTransmision}
+      />
+      <ListaFaceta
+        faceta="carroceria"
+        valores={facetas.valores.carroceria ?? []}
+        seleccionado={carroceria}
+        onSelect={setCarroceria}
+      />
+      <ListaFaceta
+        faceta="traccion"
+        valores={facetas.valores.traccion ?? []}
+        seleccionado={traccion}
+        onSelect={setTraccion}
+      />
+
+      {/* Filtro por Kilometraje: cada barra del histograma es un rango */}
+      {facetas.histogramas.km && (
+        <div>
+          <h3 className="font-semibold text-brand-title mb-2">Kilometraje</h3>
+          <div className="space-y-0.5">
+            {facetas.histogramas.km.buckets
+              .filter((bucket) => bucket.total > 0)
+              .map((bucket) => {
+                const activo = minKm === String(bucket.desde) && maxKm === String(bucket.hasta);
+                return (
+                  <button
+                    key={bucket.desde}
+                    onClick={() => handleKmClick(activo ? null : bucket)}
+                    className={`w-full flex justify-between gap-2 text-left px-2 py-1 rounded text-xs transition-colors ${
+                      activo ? 'bg-brand-primary text-white font-semibold shadow' : 'text-brand-text hover:bg-brand-secondary'
+                    }`}
+                  >
+                    <span>
+                      {new Intl.NumberFormat('es-CO').format(bucket.desde)} - {new Intl.NumberFormat('es-CO').format(bucket.hasta)} km
+                    </span>
+                    <span className="opacity-70">{bucket.total}</span>
+                  </button>
+                );
+              })}
+          </div>
+        </div>
+      )}
+    </div>
+
+    {/* Botón Limpiar Filtros */}
+    <div className="mt-8 pt-4 border-t border-brand-secondary">
+      <button
+        type="button"
+        onClick={handleClearFilters}
+        className="w-full inline-flex justify-center rounded-md border border-brand-secondary px-4 py-2 text-sm font-medium text-brand-text bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2"
+      >
+        Limpiar Filtros
+      </button>
+    </div>
+  </Fragment>
+);
+
+type CatalogoVehiculosProps = {
+  // Ruta cuyo loader llama a loadCatalogo (para scroll infinito y opciones de filtro)
+  basePath: string;
+  titulo?: string;
+  // Muestra "Guardar búsqueda" (compradores en el catálogo general)
+  guardarBusqueda?: boolean;
+};
+
+// Grid del catálogo con filtros, orden y scroll infinito. Se usa en el catálogo
+// general (/vehiculosAdminGrid) y en la vitrina de cada concesionario.
+export default function CatalogoVehiculos({
+  basePath,
+  titulo = "Listado de Vehículos",
+  guardarBusqueda = false,
+}: CatalogoVehiculosProps) {
+  const loaderData = useLoaderData<typeof loadCatalogo>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const fetcher = useFetcher<typeof loadCatalogo>();
+  const navigate = useNavigate();
+  const [modalFiltrosOpen, setModalFiltrosOpen] = useState(false);
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [modalOrdenOpen, setModalOrdenOpen] = useState(false);
+  const [isOrdenModalVisible, setIsOrdenModalVisible] = useState(false);
+
+  // Efecto para controlar la animación de entrada del modal de filtros
+  useEffect(() => {
+    if (modalFiltrosOpen) {
+      setIsModalVisible(true);
+    }
+  }, [modalFiltrosOpen]);
+
+  // Efecto para animación del modal de ordenamiento
+  useEffect(() => {
+    if (modalOrdenOpen) {
+      setIsOrdenModalVisible(true);
+    }
+  }, [modalOrdenOpen]);
+
+  const closeModal = () => {
+    setIsModalVisible(false);
+    setTimeout(() => {
+      setModalFiltrosOpen(false);
+    }, 500); // Coincide con la duración de la animación
+  };
+
+  const closeOrdenModal = () => {
+    setIsOrdenModalVisible(false);
+    setTimeout(() => {
+      setModalOrdenOpen(false);
+    }, 500);
+  };
+
+  // Type guard para saber si tenemos los datos principales o solo opciones
+  const isMainData = (data: unknown): data is LoaderData =>
+    typeof data === 'object' && data !== null && 'vehiculos' in data;
+  
+  // Estados para la lista de vehículos y scroll
+  const [items, setItems] = useState(isMainData(loaderData) ? loaderData.vehiculos : []);
+  const [hasMore, setHasMore] = useState(isMainData(loaderData) ? loaderData.hasMore : false);
+  const [totalResultados, setTotalResultados] = useState(isMainData(loaderData) ? loaderData.totalVehiculos : 0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  // Estados locales para los filtros
+  const [marca, setMarca] = useState(isMainData(loaderData) ? loaderData.filtrosActivos.marca || "" : "");
+  const [modelo, setModelo] = useState(isMainData(loaderData) ? loaderData.filtrosActivos.modelo || "" : "");
+  const [anio, setAnio] = useState(isMainData(loaderData) ? loaderData.filtrosActivos.anio || "" : "");
+  const [precioRango, setPrecioRango] = useState<string | null>(null);
+  const [minPrice, setMinPrice] = useState(isMainData(loaderData) ? loaderData.filtrosActivos.precioMin || "" : "");
+  const [maxPrice, setMaxPrice] = useState(isMainData(loaderData) ? loaderData.filtrosActivos.precioMax || "" : "");
+  const [combustible, setCombustible] = useState(isMainData(loaderData) ? loaderData.filtrosActivos.combustible || "" : "");
+  const [transmision, setTransmision] = useState(isMainData(loaderData) ? loaderData.filtrosActivos.transmision || "" : "");
+  const [carroceria, setCarroceria] = useState(isMainData(loaderData) ? loaderData.filtrosActivos.carroceria || "" : "");
+  const [traccion, setTraccion] = useState(isMainData(loaderData) ? loaderData.filtrosActivos.traccion || "" : "");
+  const [minKm, setMinKm] = useState(isMainData(loaderData) ? loaderData.filtrosActivos.kmMin || "" : "");
+  const [maxKm, setMaxKm] = useState(isMainData(loaderData) ? loaderData.filtrosActivos.kmMax || "" : "");
+
+  // Facetas con conteo; se actualizan con cada búsqueda (primera página)
+  const [facetas, setFacetas] = useState<Facetas>(
+    isMainData(loaderData) && loaderData.facetas ? loaderData.facetas : FACETAS_VACIAS
+  );
+
+  const debouncedMinPrice = useDebounce(minPrice, 500);
+  const debouncedMaxPrice = useDebounce(maxPrice, 500);
+  const debouncedCombustible = useDebounce(combustible, 500);
+  const debouncedTransmision = useDebounce(transmision, 500);
+
+  // Referencia para el último elemento (infinite scroll)
+  const lastItemRef = useCallback((node: HTMLDivElement) => {
+    if (fetcher.state === 'loading' || !hasMore) return;
+    if (node) {
+      const observer = new IntersectionObserver((entries) => {
+        if (entries[0].isIntersecting) {
+          setIsLoadingMore(true);
+          const newOffset = items.length;
+    const params = new URLSearchParams(searchParams);
+          params.set("offset", String(newOffset));
+          fetcher.load(`${basePath}?${params.toString()}`);
+        }
+      });
+      observer.observe(node);
+      return () => observer.disconnect();
+    }
+  }, [fetcher.state, hasMore, items.length, searchParams]);
+  
+  // Estados para ordenamiento
+  const [selectedSortBy, setSelectedSortBy] = useState(() => searchParams.get("sortBy") || "");
+  const [selectedSortOrder, setSelectedSortOrder] = useState(() => searchParams.get("sortOrder") || "");
+
+  // Sincronizar estado de filtros con searchParams y disparar recarga
+  useEffect(() => {
+    const params = new URLSearchParams();
+    if (marca) params.set("marca", marca);
+    if (modelo) params.set("modelo", modelo);
+    if (anio) params.set("anio", anio);
+    if (debouncedMinPrice) params.set("precioMin", debouncedMinPrice);
+    if (debouncedMaxPrice) params.set("precioMax", debouncedMaxPrice);
+    if (debouncedCombustible) params.set("combustible", debouncedCombustible);
+    if (debouncedTransmision) params.set("transmision", debouncedTransmision);
+    if (carroceria) params.set("carroceria", carroceria);
+    if (traccion) params.set("traccion", traccion);
+    if (minKm) params.set("kmMin", minKm);
+    if (maxKm) params.set("kmMax", maxKm);
+    if (selectedSortBy) params.set("sortBy", selectedSortBy);
+    if (selectedSortOrder) params.set("sortOrder", selectedSortOrder);
+    
+    // Comparamos solo la parte de filtros, no el offset
+    const currentFilterParams = new URLSearchParams(searchParams);
+    currentFilterParams.delete("offset");
+
+    if (params.toString() !== currentFilterParams.toString()) {
+      setItems([]); // Limpiar items para una nueva búsqueda
+      params.set("offset", "0"); // Reiniciar paginación
+      fetcher.load(`${basePath}?${params.toString()}`);
+      setSearchParams(params, { replace: true });
+    }
+  }, [marca, modelo, anio, debouncedMinPrice, debouncedMaxPrice, debouncedCombustible, debouncedTransmision, carroceria, traccion, minKm, maxKm, selectedSortBy, selectedSortOrder, searchParams, setSearchParams]);
+
+  // Actualizar la lista de items cuando el fetcher trae nuevos datos
+  useEffect(() => {
+    const data = fetcher.data;
+    if (data && isMainData(data)) {
+      if (data.offset === 0) {
+        setItems(data.vehiculos);
+      } else {
+        setItems(prevItems => {
+          // Evita duplicados por uuid
+          const existingUuids = new Set(prevItems.map(v => v.uuid));
+          const nuevos = data.vehiculos.filter(v => !existingUuids.has(v.uuid));
+          const merged = [...prevItems, ...nuevos];
+          // Nunca mostrar más de totalVehiculos
+          return merged.slice(0, data.totalVehiculos);
+        });
+      }
+      if (data.facetas) setFacetas(data.facetas);
+      setHasMore(data.hasMore);
+      setTotalResultados(data.totalVehiculos);
+      setIsLoadingMore(false);
+    }
+  }, [fetcher.data]);
+
+  const handleClearFilters = () => {
+    setMarca("");
+    setModelo("");
+    setAnio("");
+    setPrecioRango(null);
+    setMinPrice("");
+    setMaxPrice("");
+    setMinKm("");
+    setMaxKm("");
+    setCombustible("");
+    setTransmision("");
+    setCarroceria("");
+    setTraccion("");
+    setSearchParams({}, { replace: true });
+    if (modalFiltrosOpen) closeModal();
+  };
+  
+  const handlePrecioRangoClick = (rango: string, min: string, max: string) => {
+    if (precioRango === rango) {
+      setPrecioRango(null);
+      setMinPrice("");
+      setMaxPrice("");
+    } else {
+      setPrecioRango(rango);
+      setMinPrice(min);
+      setMaxPrice(max);
+    }
+  };
+
+  const handleKmClick = (rango: Bucket | null) => {
+    setMinKm(rango ? String(rango.desde) : "");
+    setMaxKm(rango ? String(rango.hasta) : "");
+  };
+
+  const formatPrice = (price: number | null) => {
+    if (!price) return "-";
+    return new Intl.NumberFormat('es-CO', {
+      style: 'currency', currency: 'COP', minimumFractionDigits: 0, maximumFractionDigits: 0,
+    }).format(price);
+  };
+
+  const formatMileage = (km: number | null) => {
+    if (!km) return "-";
+    return new Intl.NumberFormat('es-CO').format(km) + " km";
+  };
+  
+  // Justo después de const loaderData = useLoaderData<typeof loader>();
+  const isMain = isMainData(loaderData);
+  // Rango del slider según las facetas (ignoran el propio filtro de precio)
+  const overallMinPrice = facetas.histogramas.precio?.min ?? 0;
+  const overallMaxPrice = Math.max(facetas.histogramas.precio?.max ?? 1000000000, overallMinPrice + 100000);
+
+  // Estado para el slider de precio (dinámico y reactivo a los filtros)
+  const [priceRange, setPriceRange] = useState<[number, number]>([overallMinPrice, overallMaxPrice]);
+  useEffect(() => {
+    setPriceRange([overallMinPrice, overallMaxPrice]);
+    setMinPrice("");
+    setMaxPrice("");
+  }, [overallMinPrice, overallMaxPrice]);
+
+  const commonFilterProps = {
+    facetas,
+    marca, setMarca,
+    modelo, setModelo,
+    anio, setAnio,
+    precioRango, handlePrecioRangoClick,
+    minSlider: overallMinPrice,
+    maxSlider: overallMaxPrice,
+    priceRange, setPriceRange,
+    setMinPrice, setMaxPrice,
+    setPrecioRango, formatPrice,
+    handleClearFilters,
+    combustible, setCombustible,
+    transmision, setTransmision,
+    carroceria, setCarroceria,
+    traccion, setTraccion,
+    minKm, maxKm, handleKmClick,
+  };
+
+  if (!isMain) {
+    // Si no es la carga principal, no renderizar el componente completo.
+    // Esto previene errores en el cliente cuando el loader devuelve solo opciones.
+    return null;
+  }
+
+  return (
+    <div className="flex font-sans bg-brand-bg min-h-screen">
+      {/* Sidebar de Filtros (Desktop) */}
+      <aside className="w-64 p-6 bg-white border-r border-brand-secondary flex-shrink-0 hidden lg:block">
+        <h2 className="text-xl font-bold text-brand-title mb-6">Filtros</h2>
+        <FiltrosContent {...commonFilterProps} />
+      </aside>
+
+      {/* Contenido Principal */}
+      <main className="flex-1 p-8 overflow-y-auto">
+        <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex flex-col gap-2 sm:gap-0 sm:flex-row sm:items-center">
+          <h1 className="text-2xl font-bold text-brand-title">
+              {titulo} ({totalResultados})
+          </h1>
+          </div>
+          {guardarBusqueda && <GuardarBusqueda />}
+          {/* Selector de ordenamiento - Desktop visible, Mobile oculto */}
+          <div className="hidden lg:block ml-auto">
+            <label htmlFor="sort-select" className="font-medium text-brand-title mr-2">Ordenar por:</label>
+            <select
+              id="sort-select"
+              value={`${selectedSortBy}|${selectedSortOrder}`}
+              onChange={e => {
+                const [by, order] = e.target.value.split('|');
+                setSelectedSortBy(by);
+                setSelectedSortOrder(order);
+              }}
+              className="bg-white border border-brand-secondary rounded-md px-3 py-2 text-brand-title shadow-sm w-auto focus:outline-none focus:ring-2 focus:ring-brand-highlight"
+            >
+              <option value="precio|asc">Precio: Menor a Mayor</option>
+              <option value="precio|desc">Precio: Mayor a Menor</option>
+              <option value="anio|desc">Año: Más Nuevo</option>
+              <option value="anio|asc">Año: Más Antiguo</option>
+              <option value="km|asc">Kilometraje: Menor a Mayor</option>
+              <option value="km|desc">Kilometraje: Mayor a Menor</option>
+            </select>
+          </div>
+        </div>
+        {/* Selector de ordenamiento - Mobile visible, Desktop oculto */}
+        <div className="flex items-center justify-between mb-4 lg:hidden">
+        <button
+          type="button"
+            onClick={() => setModalFiltrosOpen(true)}
+            className="inline-flex items-center rounded-md border border-brand-secondary bg-white px-4 py-2 text-sm font-medium text-brand-text shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2"
+          >
+            <svg className="-ml-1 mr-2 h-5 w-5 text-brand-text" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
+              <path fillRule="evenodd" d="M2 4.75A.75.75 0 012.75 4h14.5a.75.75 0 010 1.5H2.75A.75.75 0 012 4.75zM2 10a.75.75 0 01.75-.75h14.5a.75.75 0 010 1.5H2.75A.75.75 0 012 10zm0 5.25a.75.75 0 01.75-.75h14.5a.75.75 0 010 1.5H2.75a.75.75 0 01-.75-.75z" clipRule="evenodd" />
+            </svg>
+            Filtros
+          </button>
+          <button
+            type="button"
+            onClick={() => setModalOrdenOpen(true)}
+            className="inline-flex items-center rounded-md border border-brand-secondary bg-white px-4 py-2 text-sm font-medium text-brand-title shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-brand-highlight ml-4 flex-1 justify-center"
+          >
+            <svg className="-ml-1 mr-2 h-5 w-5 text-brand-title" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
+              <path fillRule="evenodd" d="M3 7a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h8a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h4a1 1 0 110 2H4a1 1 0 01-1-1z" clipRule="evenodd" />
+          </svg>
+            Ordenar
+        </button>
+      </div>
+
+        {loaderData.error ? (
+        <div className="rounded-md bg-red-100 p-4">
+          <div className="flex">
+            <div className="flex-shrink-0">
+              <svg
+                className="h-5 w-5 text-red-400"
+                viewBox="0 0 20 20"
+                fill="currentColor"
+                aria-hidden="true"
+              >
+                <path
+                  fillRule="evenodd"
+                  d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.28 7.22a.75.75 0 00-1.06 1.06L8.94 10l-1.72 1.72a.75.75 0 101.06 1.06L10 11.06l1.72 1.72a.75.75 0 101.06-1.06L11.06 10l1.72-1.72a.75.75 0 00-1.06-1.06L10 8.94 8.28 7.22z"
+                  clipRule="evenodd"
+                />
+              </svg>
+            </div>
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">
+                Error al cargar los vehículos
+              </h3>
+              <div className="mt-2 text-sm text-red-700">
+                  {loaderData.error}
+                </div>
+              </div>
+            </div>
+          </div>
+        ) : fetcher.state === 'loading' && !isLoadingMore ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-3 gap-6">
+              {Array.from({ length: 6 }).map((_, i) => <VehiculoCardSkeleton key={i} />)}
+        </div>
+        ) : items.length > 0 ? (
+        <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-3 gap-6">
+              {items.map((vehiculo: VehiculoType, index: number) => (
+              <div
+                  key={`${vehiculo.uuid}-${index}`}
+                  ref={index === items.length - 1 ? lastItemRef : null}
+                className="bg-white rounded-xl border border-brand-secondary shadow-md hover:shadow-xl transition-all duration-300 overflow-hidden group cursor-pointer"
+                role="link"
+                tabIndex={0}
+                onClick={() => navigate(`/vehiculos/${vehiculo.uuid}`)}
+                onKeyDown={(e) => {
+                  // Solo la tarjeta: Enter en el botón de favorito no navega
+                  if (e.key === 'Enter' && e.target === e.currentTarget) navigate(`/vehiculos/${vehiculo.uuid}`);
+                }}
+              >
+                {/* Imagen del vehículo */}
+                <div className="relative h-48 overflow-hidden">
+                  {vehiculo.url_img ? (
+                    <img 
+                      src={vehiculo.url_img} 
+                      alt={`${vehiculo.marca || 'Vehículo'} ${vehiculo.modelo || ''}`} 
+                      className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300" 
+                    />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center bg-brand-bg text-brand-highlight">
+                      <svg className="w-12 h-12 opacity-50" fill="currentColor" viewBox="0 0 20 20">
+                        <path fillRule="evenodd" d="M4 3a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V5a2 2 0 00-2-2H4zm12 12H4l4-8 3 6 2-4 3 6z" clipRule="evenodd" />
+                      </svg>
+                    </div>
+                  )}
+                  {/* Overlay con año y transmisión */}
+                  <div className="absolute top-3 left-3 bg-black bg-opacity-75 text-white px-2 py-1 rounded-md text-xs font-medium">
+                    {vehiculo.anio || '-'} • {vehiculo.transmision || '-'}
+                  </div>
+                  <div className="absolute top-3 right-3">
+                    <BotonFavorito uuid={vehiculo.uuid} />
+                  </div>
+                </div>
+
+                {/* Contenido de la tarjeta */}
+                <div className="p-4 space-y-3">
+                  {/* Marca y Modelo */}
+                  <div>
+                    <h3 className="text-lg font-bold text-brand-title leading-tight">
+                      {vehiculo.marca || '-'} {vehiculo.modelo || ''}
+                    </h3>
+                  </div>
+
+                  {/* Kilometraje */}
+                  <div className="flex items-center text-sm text-brand-text">
+                    <svg className="w-4 h-4 mr-2 text-brand-highlight" fill="currentColor" viewBox="0 0 20 20">
+                      <path d="M10 12a2 2 0 100-4 2 2 0 000 4z" />
+                      <path fillRule="evenodd" d="M.458 10C1.732 5.943 5.522 3 10 3s8.268 2.943 9.542 7c-1.274 4.057-5.064 7-9.542 7S1.732 14.057.458 10zM14 10a4 4 0 11-8 0 4 4 0 018 0z" clipRule="evenodd" />
+                    </svg>
+                    <span>{formatMileage(vehiculo.km)}</span>
+                  </div>
+
+                  {/* Precio */}
+                  <div className="pt-2 border-t border-brand-secondary">
+                    <div className="text-xl font-bold text-brand-primary">
+                      {formatPrice(vehiculo.precio)}
+                    </div>
+                  </div>
+
+                  {/* Botón Ver más */}
+                  <button
+                    type="button"
+                    className="w-full mt-3 inline-flex items-center justify-center rounded-md border border-transparent bg-brand-primary px-4 py-2 text-sm font-medium text-brand-title shadow-sm hover:bg-brand-secondary focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2 transition-colors duration-200"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      navigate(`/vehiculos/${vehiculo.uuid}`);
+                    }}
+                  >
+                    Ver más
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+            {isLoadingMore && (
+              <div className="text-center p-4 text-brand-text">Cargando más vehículos...</div>
+            )}
+            {!hasMore && items.length > 0 && (
+              <div className="text-center p-4 text-brand-text">No hay más resultados.</div>
+            )}
+        </>
+      ) : (
+          <div className="text-center p-12 rounded-lg bg-gray-50 border border-gray-200">
+            <div className="flex flex-col items-center justify-center">
+                <svg className="h-12 w-12 text-gray-400" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+                    <circle cx="11" cy="11" r="8" />
+                    <line x1="21" y1="21" x2="16.65" y2="16.65" />
+                </svg>
+                <h3 className="mt-4 text-lg font-semibold text-brand-title">
+                    No se encontraron vehículos
+                </h3>
+                <p className="mt-1 text-sm text-brand-text">
+                    Intenta ajustar los filtros para encontrar lo que buscas.
+                </p>
+                <button
+                  type="button"
+                  onClick={handleClearFilters}
+                  className="mt-6 inline-flex items-center rounded-md border border-transparent bg-brand-primary px-6 py-2.5 text-sm font-semibold text-white shadow-sm transition-colors hover:bg-opacity-90 focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2"
+                >
+                  Limpiar filtros y empezar de nuevo
+                </button>
+            </div>
+          </div>
+        )}
+      </main>
+
+      {/* Modal de Filtros (Mobile) */}
+      {modalFiltrosOpen && (
+        <>
+          <div
+            className={`fixed inset-0 bg-black z-40 lg:hidden transition-opacity duration-500 ease-in-out ${isModalVisible ? 'bg-opacity-50' : 'bg-opacity-0'}`}
+            onClick={closeModal}
+            aria-hidden="true"
+          />
+          <div
+            className={`fixed bottom-0 left-0 right-0 z-50 lg:hidden h-[90vh] max-h-[90vh] bg-white rounded-t-xl shadow-lg flex flex-col transition-transform duration-500 ease-in-out transform ${isModalVisible ? 'translate-y-0' : 'translate-y-full'}`}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="catalogo-filtros-titulo"
+          >
+            <div className="flex justify-between items-center p-6 border-b border-brand-secondary">
+              <h2 id="catalogo-filtros-titulo" className="text-xl font-bold text-brand-title">Filtros</h2>
+              <button
+                type="button"
+                onClick={closeModal}
+                className="p-1 rounded-full text-brand-text hover:bg-gray-100"
+              >
+                <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+              </button>
+            </div>
+            <div className="p-6 flex-grow overflow-y-auto [scrollbar-width:none] [-ms-overflow-style:none] [&::-webkit-scrollbar]:hidden max-h-full">
+              <FiltrosContent {...commonFilterProps} />
+              </div>
+            <div className="p-6 border-t border-brand-secondary bg-white">
+              <button
+                type="button"
+                onClick={closeModal}
+                className="w-full inline-flex justify-center rounded-md border border-transparent bg-brand-primary px-4 py-2 text-base font-medium text-brand-title shadow-sm hover:bg-brand-secondary focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2"
+              >
+                Aplicar Filtros
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* Modal de Ordenamiento (Mobile) */}
+      {modalOrdenOpen && (
+        <>
+          <div
+            className={`fixed inset-0 bg-black z-40 lg:hidden transition-opacity duration-500 ease-in-out ${isOrdenModalVisible ? 'bg-opacity-50' : 'bg-opacity-0'}`}
+            onClick={closeOrdenModal}
+            aria-hidden="true"
+          />
+          <div
+            className={`fixed bottom-0 left-0 right-0 z-50 lg:hidden h-auto bg-white rounded-t-xl shadow-lg flex flex-col transition-transform duration-500 ease-in-out transform ${isOrdenModalVisible ? 'translate-y-0' : 'translate-y-full'}`}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="catalogo-orden-titulo"
+          >
+            <div className="flex justify-between items-center p-6 border-b border-brand-secondary">
+              <h2 id="catalogo-orden-titulo" className="text-xl font-bold text-brand-title">Ordenar por</h2>
+          <button
+                type="button"
+                onClick={closeOrdenModal}
+                className="p-1 rounded-full text-brand-text hover:bg-gray-100"
+              >
+                <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+          </button>
+        </div>
+            <div className="p-6 flex flex-col gap-2">
+              <button
+                className={`w-full text-left px-4 py-3 rounded-md text-base transition-colors ${selectedSortBy === 'precio' && selectedSortOrder === 'asc' ? 'bg-brand-primary text-white font-semibold shadow' : 'text-brand-title hover:bg-brand-secondary'}`}
+                onClick={() => { setSelectedSortBy('precio'); setSelectedSortOrder('asc'); closeOrdenModal(); }}
+              >
+                Precio: Menor a Mayor
+              </button>
+              <button
+                className={`w-full text-left px-4 py-3 rounded-md text-base transition-colors ${selectedSortBy === 'precio' && selectedSortOrder === 'desc' ? 'bg-brand-primary text-white font-semibold shadow' : 'text-brand-title hover:bg-brand-secondary'}`}
+                onClick={() => { setSelectedSortBy('precio'); setSelectedSortOrder('desc'); closeOrdenModal(); }}
+              >
+                Precio: Mayor a Menor
+              </button>
+              <button
+                className={`w-full text-left px-4 py-3 rounded-md text-base transition-colors ${selectedSortBy === 'anio' && selectedSortOrder === 'desc' ? 'bg-brand-primary text-white font-semibold shadow' : 'text-brand-title hover:bg-brand-secondary'}`}
+                onClick={() => { setSelectedSortBy('anio'); setSelectedSortOrder('desc'); closeOrdenModal(); }}
+              >
+                Año: Más Nuevo
+              </button>
+              <button
+                className={`w-full text-left px-4 py-3 rounded-md text-base transition-colors ${selectedSortBy === 'anio' && selectedSortOrder === 'asc' ? 'bg-brand-primary text-white font-semibold shadow' : 'text-brand-title hover:bg-brand-secondary'}`}
+                onClick={() => { setSelectedSortBy('anio'); setSelectedSortOrder('asc'); closeOrdenModal(); }}
+              >
+                Año: Más Antiguo
+              </button>
+              <button
+                className={`w-full text-left px-4 py-3 rounded-md text-base transition-colors ${selectedSortBy === 'km' && selectedSortOrder === 'asc' ? 'bg-brand-primary text-white font-semibold shadow' : 'text-brand-title hover:bg-brand-secondary'}`}
+                onClick={() => { setSelectedSortBy('km'); setSelectedSortOrder('asc'); closeOrdenModal(); }}
+              >
+                Kilometraje: Menor a Mayor
+              </button>
+              <button
+                className={`w-full text-left px-4 py-3 rounded-md text-base transition-colors ${selectedSortBy === 'km' && selectedSortOrder === 'desc' ? 'bg-brand-primary text-white font-semibold shadow' : 'text-brand-title hover:bg-brand-secondary'}`}
+                onClick={() => { setSelectedSortBy('km'); setSelectedSortOrder('desc'); closeOrdenModal(); }}
+              >
+                Kilometraje: Mayor a Menor
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
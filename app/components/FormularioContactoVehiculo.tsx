@@ -2,6 +2,8 @@ import { Form, useActionData, useNavigation } from "@remix-run/react";
 
 interface FormularioContactoVehiculoProps {
   vehiculo_uuid: string;
+  // Marca de tiempo firmada por el servidor (control anti-spam)
+  token: string;
 }
 
 interface ActionData {
@@ -14,7 +16,7 @@ interface ActionData {
   };
 }
 
-const FormularioContactoVehiculo = ({ vehiculo_uuid }: FormularioContactoVehiculoProps) => {
+const FormularioContactoVehiculo = ({ vehiculo_uuid, token }: FormularioContactoVehiculoProps) => {
   const actionData = useActionData<ActionData>();
   const navigation = useNavigation();
   const loading = navigation.state === "submitting";
@@ -22,6 +24,12 @@ const FormularioContactoVehiculo = ({ vehiculo_uuid }: FormularioContactoVehicul
   return (
     <Form method="post" className="w-full bg-white rounded-lg shadow-md p-4 space-y-3 border border-gray-200" style={{ fontFamily: 'inherit' }}>
       <input type="hidden" name="vehiculo_uuid" value={vehiculo_uuid} />
+      <input type="hidden" name="_contacto_token" value={token} />
+      {/* Campo trampa para bots: oculto a la vista y a lectores de pantalla */}
+      <div className="absolute -left-[9999px] h-px w-px overflow-hidden" aria-hidden="true">
+        <label htmlFor="website">No llenar este campo</label>
+        <input type="text" id="website" name="website" tabIndex={-1} autoComplete="off" />
+      </div>
       <h2 className="text-lg font-bold mb-1 text-brand-title">Contáctanos por este vehículo</h2>
       <div>
         <label htmlFor="nombre" className="block text-xs font-medium text-brand-text mb-1">Nombre</label>
@@ -0,0 +1,97 @@
+import { Link, useFetcher, useSearchParams } from "@remix-run/react";
+import { useEffect, useState } from "react";
+import {
+  BUSQUEDA_NOMBRE_MAX_LENGTH,
+  describirFiltros,
+  filtrosAQuery,
+  filtrosDesdeQuery,
+} from "~/utils/busquedasGuardadas";
+
+type GuardarBusquedaResultado = {
+  errors?: { nombre?: string; filtros?: string; form?: string };
+  success?: string;
+};
+
+// Botón del catálogo para guardar los filtros actuales como búsqueda con alertas
+export default function GuardarBusqueda() {
+  const [searchParams] = useSearchParams();
+  const fetcher = useFetcher<GuardarBusquedaResultado>();
+  const [abierto, setAbierto] = useState(false);
+  // Filtros del último envío, para no mostrar "guardada" si ya cambiaron
+  const [enviada, setEnviada] = useState<string | null>(null);
+  const filtros = filtrosDesdeQuery(searchParams);
+  const query = filtrosAQuery(filtros);
+  const sinFiltros = query === "";
+
+  const errores = enviada === query ? fetcher.data?.errors : undefined;
+  const guardada = fetcher.state === "idle" && !!fetcher.data?.success && enviada === query;
+
+  // Al cambiar los filtros se puede guardar otra búsqueda
+  useEffect(() => {
+    setAbierto(false);
+  }, [query]);
+
+  if (!abierto) {
+    return (
+      <button
+        type="button"
+        onClick={() => setAbierto(true)}
+        disabled={sinFiltros}
+        title={sinFiltros ? "Aplica al menos un filtro para guardar la búsqueda" : undefined}
+        className="inline-flex items-center rounded-md border border-brand-secondary bg-white px-4 py-2 text-sm font-medium text-brand-title shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-brand-highlight disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        Guardar búsqueda
+      </button>
+    );
+  }
+
+  if (guardada) {
+    return (
+      <p className="text-sm text-green-700">
+        Búsqueda guardada.{" "}
+        <Link to="/busquedas" className="font-medium text-brand-title hover:underline">
+          Ver mis búsquedas
+        </Link>
+      </p>
+    );
+  }
+
+  return (
+    <fetcher.Form
+      method="post"
+      action="/busquedas"
+      className="flex flex-wrap items-start gap-2"
+      onSubmit={() => setEnviada(query)}
+    >
+      <input type="hidden" name="_method" value="guardar" />
+      <input type="hidden" name="filtros" value={query} />
+      <div>
+        <input
+          type="text"
+          name="nombre"
+          maxLength={BUSQUEDA_NOMBRE_MAX_LENGTH}
+          placeholder={describirFiltros(filtros)}
+          aria-label="Nombre de la búsqueda"
+          className="w-64 rounded-md border border-brand-secondary bg-white px-3 py-2 text-sm text-brand-title shadow-sm focus:outline-none focus:ring-2 focus:ring-brand-highlight"
+        />
+        {errores && (
+          <p className="mt-1 text-sm text-red-600">{errores.nombre || errores.filtros || errores.form}</p>
+        )}
+      </div>
+      <button
+        type="submit"
+        disabled={fetcher.state !== "idle"}
+        className="rounded-md border border-transparent bg-brand-primary px-4 py-2 text-sm font-medium text-brand-title shadow-sm hover:bg-brand-highlight disabled:opacity-50"
+      >
+        {fetcher.state !== "idle" ? "Guardando..." : "Guardar"}
+      </button>
+      <button
+        type="button"
+        onClick={() => setAbierto(false)}
+        className="rounded-md border border-brand-secondary bg-white px-4 py-2 text-sm font-medium text-brand-text hover:bg-gray-50"
+      >
+        Cancelar
+      </button>
+    </fetcher.Form>
+  );
+}
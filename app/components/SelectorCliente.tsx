@@ -0,0 +1,128 @@
+import { useFetcher } from "@remix-run/react";
+import { useEffect, useId, useRef, useState, type KeyboardEvent } from "react";
+import type { ClienteResumen } from "~/utils/clientes.server";
+
+type SelectorClienteProps = {
+  id: string;
+  // Campo oculto del formulario con el id del cliente elegido
+  name: string;
+  inputClassName: string;
+};
+
+// Espera tras la última tecla antes de buscar
+const DEBOUNCE_MS = 300;
+const MIN_CARACTERES = 2;
+
+// Busca el comprador entre los clientes del tenant mientras se escribe
+// (teclado: flechas, Enter y Escape)
+export default function SelectorCliente({ id, name, inputClassName }: SelectorClienteProps) {
+  const clientesFetcher = useFetcher<{ clientes: ClienteResumen[] }>();
+  const listaId = useId();
+  const [texto, setTexto] = useState("");
+  const [elegido, setElegido] = useState<ClienteResumen | null>(null);
+  const [abierto, setAbierto] = useState(false);
+  const [activa, setActiva] = useState(-1);
+
+  const cargar = useRef(clientesFetcher.load);
+  cargar.current = clientesFetcher.load;
+
+  useEffect(() => {
+    const consulta = texto.trim();
+    if (elegido || consulta.length < MIN_CARACTERES) return;
+    const timer = setTimeout(() => {
+      cargar.current(`/api/clientes/buscar?${new URLSearchParams({ q: consulta })}`);
+    }, DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [texto, elegido]);
+
+  const clientes = !elegido && texto.trim().length >= MIN_CARACTERES ? clientesFetcher.data?.clientes ?? [] : [];
+  const mostrarLista = abierto && clientes.length > 0;
+  const sinResultados =
+    abierto &&
+    !elegido &&
+    texto.trim().length >= MIN_CARACTERES &&
+    clientesFetcher.state === "idle" &&
+    clientesFetcher.data?.clientes.length === 0;
+
+  const elegir = (cliente: ClienteResumen) => {
+    setElegido(cliente);
+    setTexto(`${cliente.name} (${cliente.email})`);
+    setAbierto(false);
+    setActiva(-1);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" && clientes.length > 0) {
+      e.preventDefault();
+      setAbierto(true);
+      setActiva((i) => (i + 1) % clientes.length);
+    } else if (e.key === "ArrowUp" && clientes.length > 0) {
+      e.preventDefault();
+      setActiva((i) => (i <= 0 ? clientes.length - 1 : i - 1));
+    } else if (e.key === "Enter" && mostrarLista) {
+      // Enter elige el cliente resaltado en lugar de enviar el formulario
+      e.preventDefault();
+      if (activa >= 0) elegir(clientes[activa]);
+    } else if (e.key === "Escape") {
+      setAbierto(false);
+      setActiva(-1);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input type="hidden" name={name} value={elegido?.id ?? ""} />
+      <input
+        id={id}
+        type="search"
+        role="combobox"
+        aria-expanded={mostrarLista}
+        aria-controls={listaId}
+        aria-autocomplete="list"
+        aria-activedescendant={mostrarLista && activa >= 0 ? `${listaId}-${activa}` : undefined}
+        autoComplete="off"
+        className={inputClassName}
+        placeholder="Busca por nombre o email..."
+        value={texto}
+        onChange={(e) => {
+          setTexto(e.target.value);
+          setElegido(null);
+          setAbierto(true);
+          setActiva(-1);
+        }}
+        onFocus={() => setAbierto(true)}
+        onBlur={() => setAbierto(false)}
+        onKeyDown={handleKeyDown}
+      />
+      {mostrarLista && (
+        <ul
+          id={listaId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full z-20 mt-2 max-h-72 overflow-y-auto rounded-lg border border-gray-200 bg-white py-1 shadow-lg"
+        >
+          {clientes.map((cliente, i) => (
+            <li
+              key={cliente.id}
+              id={`${listaId}-${i}`}
+              role="option"
+              aria-selected={i === activa}
+              // mousedown en lugar de click para elegir antes del blur del input
+              onMouseDown={(e) => {
+                e.preventDefault();
+                elegir(cliente);
+              }}
+              className={`cursor-pointer px-3 py-2 text-sm ${
+                i === activa ? "bg-brand-secondary text-brand-title" : "text-brand-title hover:bg-gray-50"
+              }`}
+            >
+              {cliente.name} <span className="text-gray-400">({cliente.email})</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {sinResultados && (
+        <p className="mt-1 text-sm text-brand-text">Ningún cliente coincide con la búsqueda.</p>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,22 @@
 import { NavLink } from "@remix-run/react";
-import { useState, useEffect, useMemo } from "react";
+import { useState } from "react";
 
-export default function Sidebar() {
-  const [isOpen, setIsOpen] = useState(false);
-  const [hasSession, setHasSession] = useState(false);
+type SidebarProps = {
+  // Usuario de la sesión (loader de root); null si no hay sesión
+  usuario: { rol: string | null; adminCatalogo?: boolean } | null;
+  // Marca del concesionario del usuario
+  concesionario: { nombre: string; logo: string | null } | null;
+  // Alertas de búsquedas guardadas sin leer (suscriptores)
+  alertasSinLeer?: number;
+};
 
-  useEffect(() => {
-    // Detecta si hay sesión leyendo la cookie (simple, no seguro, pero suficiente para navegación UI)
-    setHasSession(document.cookie.includes("concesionario_id"));
-  }, []);
+export default function Sidebar({ usuario, concesionario, alertasSinLeer = 0 }: SidebarProps) {
+  const [isOpen, setIsOpen] = useState(false);
 
-  const dashboardTo = useMemo(() => (hasSession ? "/dashboard" : "/login"), [hasSession]);
+  const dashboardTo = usuario ? "/dashboard" : "/login";
+  // Equipo y configuración solo para administradores de un concesionario
+  const esAdminConcesionario = usuario?.rol === "concesionario" && !!concesionario;
+  const esComprador = usuario?.rol === "suscriptor";
 
   return (
     <>
@@ -55,6 +61,14 @@ export default function Sidebar() {
         <div className="flex h-16 items-center justify-center px-6">
           <img src="/images/logo-arrankar.png" alt="Arrankar Logo" className="h-12" />
         </div>
+        {concesionario && (
+          <div className="mx-4 flex items-center gap-3 rounded-lg border border-gray-200 px-3 py-2">
+            {concesionario.logo && (
+              <img src={concesionario.logo} alt="" className="h-8 w-8 rounded object-contain" />
+            )}
+            <span className="truncate text-sm font-semibold text-brand-title">{concesionario.nombre}</span>
+          </div>
+        )}
 
         {/* Navigation */}
         <nav className="flex-1 space-y-1 p-4">
@@ -110,6 +124,203 @@ export default function Sidebar() {
             </svg>
             Vehículos
           </NavLink>
+          <NavLink
+            to="/leads"
+            className={({ isActive }) =>
+              `flex items-center rounded-lg px-4 py-2 text-sm font-medium transition-colors font-sans ` +
+              (isActive
+                ? "bg-brand-primary text-brand-title"
+                : "text-brand-text hover:bg-brand-secondary hover:text-brand-title")
+            }
+            onClick={() => setIsOpen(false)}
+          >
+            <svg
+              className="mr-3 h-5 w-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+              xmlns="http://www.w3.org/2000/svg"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4"
+              />
+            </svg>
+            Leads
+          </NavLink>
+          {(!usuario || esComprador) && (
+            <NavLink
+              to="/favoritos"
+              className={({ isActive }) =>
+                `flex items-center rounded-lg px-4 py-2 text-sm font-medium transition-colors font-sans ` +
+                (isActive
+                  ? "bg-brand-primary text-brand-title"
+                  : "text-brand-text hover:bg-brand-secondary hover:text-brand-title")
+              }
+              onClick={() => setIsOpen(false)}
+            >
+              <svg
+                className="mr-3 h-5 w-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z"
+                />
+              </svg>
+              Favoritos
+            </NavLink>
+          )}
+          {esComprador && (
+            <NavLink
+              to="/busquedas"
+              className={({ isActive }) =>
+                `flex items-center rounded-lg px-4 py-2 text-sm font-medium transition-colors font-sans ` +
+                (isActive
+                  ? "bg-brand-primary text-brand-title"
+                  : "text-brand-text hover:bg-brand-secondary hover:text-brand-title")
+              }
+              onClick={() => setIsOpen(false)}
+            >
+              <svg
+                className="mr-3 h-5 w-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+                />
+              </svg>
+              Mis búsquedas
+              {alertasSinLeer > 0 && (
+                <span className="ml-auto rounded-full bg-brand-highlight px-2 py-0.5 text-xs font-semibold text-brand-title">
+                  {alertasSinLeer > 99 ? "99+" : alertasSinLeer}
+                </span>
+              )}
+            </NavLink>
+          )}
+          {esAdminConcesionario && (
+            <>
+              <NavLink
+                to="/equipo"
+                className={({ isActive }) =>
+                  `flex items-center rounded-lg px-4 py-2 text-sm font-medium transition-colors font-sans ` +
+                  (isActive
+                    ? "bg-brand-primary text-brand-title"
+                    : "text-brand-text hover:bg-brand-secondary hover:text-brand-title")
+                }
+                onClick={() => setIsOpen(false)}
+              >
+                <svg
+                  className="mr-3 h-5 w-5"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                  xmlns="http://www.w3.org/2000/svg"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z"
+                  />
+                </svg>
+                Equipo
+              </NavLink>
+              <NavLink
+                to="/configuracion"
+                className={({ isActive }) =>
+                  `flex items-center rounded-lg px-4 py-2 text-sm font-medium transition-colors font-sans ` +
+                  (isActive
+                    ? "bg-brand-primary text-brand-title"
+                    : "text-brand-text hover:bg-brand-secondary hover:text-brand-title")
+                }
+                onClick={() => setIsOpen(false)}
+              >
+                <svg
+                  className="mr-3 h-5 w-5"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                  xmlns="http://www.w3.org/2000/svg"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065zM15 12a3 3 0 11-6 0 3 3 0 016 0z"
+                  />
+                </svg>
+                Configuración
+              </NavLink>
+            </>
+          )}
+          {usuario?.adminCatalogo && (
+            <NavLink
+              to="/catalogo"
+              className={({ isActive }) =>
+                `flex items-center rounded-lg px-4 py-2 text-sm font-medium transition-colors font-sans ` +
+                (isActive
+                  ? "bg-brand-primary text-brand-title"
+                  : "text-brand-text hover:bg-brand-secondary hover:text-brand-title")
+              }
+              onClick={() => setIsOpen(false)}
+            >
+              <svg
+                className="mr-3 h-5 w-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4"
+                />
+              </svg>
+              Catálogo
+            </NavLink>
+          )}
+          <NavLink
+            to="/perfil"
+            className={({ isActive }) =>
+              `flex items-center rounded-lg px-4 py-2 text-sm font-medium transition-colors font-sans ` +
+              (isActive
+                ? "bg-brand-primary text-brand-title"
+                : "text-brand-text hover:bg-brand-secondary hover:text-brand-title")
+            }
+            onClick={() => setIsOpen(false)}
+          >
+            <svg
+              className="mr-3 h-5 w-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+              xmlns="http://www.w3.org/2000/svg"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z"
+              />
+            </svg>
+            Perfil
+          </NavLink>
         </nav>
       </aside>
     </>
@@ -0,0 +1,88 @@
+import { useFetcher } from "@remix-run/react";
+import { useEffect, useRef } from "react";
+import { evaluarPrecio, sugerirPrecio } from "~/utils/precioReferencia";
+
+type SugerenciaPrecioProps = {
+  marca: string;
+  modelo: string;
+  anio: string;
+  version: string;
+  km: string;
+  precio: string;
+  // Valor guardado al publicar; si se indica no se consulta el cotizador
+  referenciaGuardada?: number | null;
+  onUsarPrecio?: (precio: number) => void;
+};
+
+const formatPrice = (valor: number) =>
+  new Intl.NumberFormat("es-CO", { style: "currency", currency: "COP", maximumFractionDigits: 0 }).format(valor);
+
+// Rango de precio sugerido según el cotizador y aviso si el precio se aleja mucho
+export default function SugerenciaPrecio({
+  marca,
+  modelo,
+  anio,
+  version,
+  km,
+  precio,
+  referenciaGuardada = null,
+  onUsarPrecio,
+}: SugerenciaPrecioProps) {
+  const fetcher = useFetcher<{ referencia: number | null }>();
+  const completo = !!(marca && modelo && anio && version);
+  const consulta = completo ? new URLSearchParams({ marca, modelo, anio, version }).toString() : "";
+
+  // Solo depende de la versión elegida; load se lee de la última render
+  const cargar = useRef(fetcher.load);
+  cargar.current = fetcher.load;
+  useEffect(() => {
+    if (consulta && referenciaGuardada === null) cargar.current(`/api/vehiculos/referencia?${consulta}`);
+  }, [consulta, referenciaGuardada]);
+
+  const referencia = referenciaGuardada ?? (consulta ? fetcher.data?.referencia ?? null : null);
+  if (!completo) return null;
+  if (referencia === null) {
+    return fetcher.state === "loading" ? (
+      <p className="text-sm text-brand-text">Consultando el precio de referencia...</p>
+    ) : (
+      <p className="text-sm text-brand-text">No hay precio de referencia en el cotizador para esta versión.</p>
+    );
+  }
+
+  const sugerencia = sugerirPrecio(referencia, Number(anio), km === "" ? NaN : Number(km));
+  const evaluacion = precio !== "" && Number(precio) > 0 ? evaluarPrecio(Number(precio), sugerencia) : null;
+  const porcentaje = evaluacion ? Math.round(Math.abs(evaluacion.desviacion) * 100) : 0;
+
+  return (
+    <div className="rounded-lg border border-brand-secondary bg-brand-bg p-4 text-sm space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-brand-title">
+          Precio sugerido:{" "}
+          <span className="font-semibold">
+            {formatPrice(sugerencia.min)} – {formatPrice(sugerencia.max)}
+          </span>
+        </p>
+        {onUsarPrecio && (
+          <button
+            type="button"
+            onClick={() => onUsarPrecio(sugerencia.sugerido)}
+            className="rounded-lg border border-gray-200 bg-white px-3 py-1 text-xs font-medium text-brand-title hover:bg-brand-secondary transition-colors"
+          >
+            Usar {formatPrice(sugerencia.sugerido)}
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-brand-text">
+        Referencia del cotizador {formatPrice(referencia)}
+        {referenciaGuardada !== null && " (al publicar)"}, ajustada por kilometraje
+        {km === "" ? "" : ` (se esperan unos ${new Intl.NumberFormat("es-CO").format(sugerencia.kmEsperado)} km)`}.
+      </p>
+      {evaluacion?.atipico && (
+        <p className="rounded-md bg-yellow-50 p-2 text-yellow-800">
+          El precio está {porcentaje}% {evaluacion.desviacion > 0 ? "por encima" : "por debajo"} del sugerido. Revisa que
+          sea correcto antes de publicar.
+        </p>
+      )}
+    </div>
+  );
+}
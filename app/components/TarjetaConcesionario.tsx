@@ -0,0 +1,102 @@
+import { Link } from "@remix-run/react";
+import { REDES_SOCIALES, RED_SOCIAL_LABELS, whatsappUrl, type MarcaConcesionario } from "~/utils/concesionario";
+
+type TarjetaConcesionarioProps = {
+  concesionario: MarcaConcesionario;
+  // Texto prellenado del mensaje de WhatsApp
+  mensajeWhatsapp?: string;
+};
+
+// Datos de contacto y marca del concesionario que publica un vehículo
+export default function TarjetaConcesionario({ concesionario, mensajeWhatsapp }: TarjetaConcesionarioProps) {
+  const redes = REDES_SOCIALES.filter((red) => concesionario.redes[red]);
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6 space-y-4">
+      <div className="flex items-center gap-4">
+        {concesionario.logo && (
+          <img
+            src={concesionario.logo}
+            alt={`Logo de ${concesionario.nombre}`}
+            className="h-14 w-14 rounded-lg border border-gray-200 object-contain"
+          />
+        )}
+        <div>
+          <p className="text-xs text-brand-text">Publicado por</p>
+          <p className="text-base font-semibold text-brand-title">{concesionario.nombre}</p>
+        </div>
+      </div>
+
+      <dl className="space-y-2 text-sm">
+        {concesionario.direccion && (
+          <div>
+            <dt className="font-medium text-brand-title">Dirección</dt>
+            <dd className="text-brand-text">{concesionario.direccion}</dd>
+          </div>
+        )}
+        {concesionario.horario && (
+          <div>
+            <dt className="font-medium text-brand-title">Horario</dt>
+            <dd className="whitespace-pre-line text-brand-text">{concesionario.horario}</dd>
+          </div>
+        )}
+        {concesionario.telefono && (
+          <div>
+            <dt className="font-medium text-brand-title">Teléfono</dt>
+            <dd>
+              <a href={`tel:${concesionario.telefono}`} className="text-brand-text hover:text-brand-title">
+                {concesionario.telefono}
+              </a>
+            </dd>
+          </div>
+        )}
+        {concesionario.email && (
+          <div>
+            <dt className="font-medium text-brand-title">Email</dt>
+            <dd>
+              <a href={`mailto:${concesionario.email}`} className="text-brand-text hover:text-brand-title">
+                {concesionario.email}
+              </a>
+            </dd>
+          </div>
+        )}
+      </dl>
+
+      {concesionario.whatsapp && (
+        <a
+          href={whatsappUrl(concesionario.whatsapp, mensajeWhatsapp)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex w-full items-center justify-center rounded-lg bg-green-500 px-4 py-2 text-sm font-medium text-white hover:bg-green-600 transition-colors"
+        >
+          Escribir por WhatsApp
+        </a>
+      )}
+
+      {redes.length > 0 && (
+        <div className="flex flex-wrap gap-3 text-sm">
+          {redes.map((red) => (
+            <a
+              key={red}
+              href={concesionario.redes[red]}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-brand-text underline hover:text-brand-title"
+            >
+              {RED_SOCIAL_LABELS[red]}
+            </a>
+          ))}
+        </div>
+      )}
+
+      {concesionario.slug && (
+        <Link
+          to={`/concesionario/${concesionario.slug}`}
+          className="block text-sm font-medium text-brand-text underline hover:text-brand-title"
+        >
+          Ver más vehículos de {concesionario.nombre}
+        </Link>
+      )}
+    </div>
+  );
+}
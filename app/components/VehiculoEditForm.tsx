@@ -0,0 +1,282 @@
+import React, { useCallback, useRef, useState } from "react";
+import { useSubmit } from "@remix-run/react";
+import ImageUploader, { type ImageUploaderChanges } from "~/components/ImageUploader";
+import PdfUploader from "~/components/pdfUploader";
+import type { ImageGalleryImage } from "~/components/ImageGallery";
+import SugerenciaPrecio from "~/components/SugerenciaPrecio";
+import AvisoDuplicados from "~/components/AvisoDuplicados";
+import { PLACA_FORMATO_AYUDA } from "~/utils/placa";
+import {
+  OPCIONES_CARROCERIA,
+  OPCIONES_COLOR,
+  OPCIONES_COMBUSTIBLE,
+  OPCIONES_PUERTAS,
+  OPCIONES_TRACCION,
+  OPCIONES_TRANSMISION,
+  type VehiculoFormErrors,
+  type VehiculoFormValues,
+} from "~/utils/vehiculoForm";
+
+type VehiculoEditable = { [K in keyof VehiculoFormValues]: VehiculoFormValues[K] | null } & {
+  uuid: string;
+  // Valor del cotizador guardado al publicar
+  precio_referencia?: number | null;
+};
+
+// Campos que determinan el precio sugerido
+const CAMPOS_PRECIO = ["marca", "modelo", "anio", "version", "km", "precio"] as const;
+type CamposPrecio = Record<(typeof CAMPOS_PRECIO)[number], string>;
+// Campos adicionales para detectar publicaciones duplicadas
+const CAMPOS_DUPLICADO = ["placa", "color"] as const;
+type CamposDuplicado = Record<(typeof CAMPOS_DUPLICADO)[number], string>;
+
+type Documento = {
+  id: string;
+  nombre_archivo: string;
+  url_documento: string;
+};
+
+interface VehiculoEditFormProps {
+  vehiculo: VehiculoEditable;
+  images: ImageGalleryImage[];
+  pdfs: Documento[];
+  errors?: VehiculoFormErrors;
+  failures?: { file: string; error: string }[];
+  isSubmitting: boolean;
+}
+
+const inputClassName =
+  "mt-1 block w-full rounded-lg border border-gray-200 px-3 py-2 shadow-sm focus:border-brand-primary focus:outline-none focus:ring-1 focus:ring-brand-primary bg-white text-brand-title";
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="mt-1 text-sm text-red-600 dark:text-red-400">{message}</p>;
+}
+
+// Incluye el valor actual aunque ya no forme parte de las opciones estáticas
+function withCurrent(options: (string | number)[], current: string | number | null) {
+  if (current === null || current === "" || options.some((op) => String(op) === String(current))) {
+    return options;
+  }
+  return [current, ...options];
+}
+
+const VehiculoEditForm: React.FC<VehiculoEditFormProps> = ({
+  vehiculo,
+  images,
+  pdfs,
+  errors,
+  failures,
+  isSubmitting,
+}) => {
+  const submit = useSubmit();
+  const pdfInputRef = useRef<HTMLInputElement>(null);
+  const [imageUploaderData, setImageUploaderData] = useState<ImageUploaderChanges | null>(null);
+  const [documentIdsToDelete, setDocumentIdsToDelete] = useState<string[]>([]);
+  const precioRef = useRef<HTMLInputElement>(null);
+  const [camposPrecio, setCamposPrecio] = useState<CamposPrecio>(() =>
+    Object.fromEntries(CAMPOS_PRECIO.map((campo) => [campo, String(vehiculo[campo] ?? "")])) as CamposPrecio
+  );
+  const [camposDuplicado, setCamposDuplicado] = useState<CamposDuplicado>(() =>
+    Object.fromEntries(CAMPOS_DUPLICADO.map((campo) => [campo, String(vehiculo[campo] ?? "")])) as CamposDuplicado
+  );
+  // La referencia guardada solo vale mientras no cambie la versión del vehículo
+  const mismaVersion = (["marca", "modelo", "anio", "version"] as const).every(
+    (campo) => camposPrecio[campo] === String(vehiculo[campo] ?? "")
+  );
+
+  const handleChange = (event: React.FormEvent<HTMLFormElement>) => {
+    const formData = new FormData(event.currentTarget);
+    setCamposPrecio(
+      Object.fromEntries(CAMPOS_PRECIO.map((campo) => [campo, String(formData.get(campo) ?? "").trim()])) as CamposPrecio
+    );
+    setCamposDuplicado(
+      Object.fromEntries(CAMPOS_DUPLICADO.map((campo) => [campo, String(formData.get(campo) ?? "").trim()])) as CamposDuplicado
+    );
+  };
+
+  const usarPrecio = (sugerido: number) => {
+    if (precioRef.current) precioRef.current.value = String(sugerido);
+    setCamposPrecio((actual) => ({ ...actual, precio: String(sugerido) }));
+  };
+
+  const handleImagesChange = useCallback((changes: ImageUploaderChanges) => {
+    setImageUploaderData(changes);
+  }, []);
+
+  const toggleDocumento = (id: string) => {
+    setDocumentIdsToDelete((prev) => (prev.includes(id) ? prev.filter((d) => d !== id) : [...prev, id]));
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    // Los campos del formulario y los PDF (input documentosPdf) se toman directamente del form
+    const formData = new FormData(event.currentTarget);
+
+    if (imageUploaderData) {
+      formData.append("orderedImagesMetadata", JSON.stringify(imageUploaderData.orderedImagesMetadata));
+      formData.append("imageIdsToDelete", JSON.stringify(imageUploaderData.imageIdsToDelete));
+      for (const [storage_id, file] of imageUploaderData.filesToUpload.entries()) {
+        formData.append(storage_id, file);
+      }
+    }
+    formData.append("documentIdsToDelete", JSON.stringify(documentIdsToDelete));
+
+    submit(formData, { method: "post", encType: "multipart/form-data", replace: true });
+    if (pdfInputRef.current) pdfInputRef.current.value = "";
+  };
+
+  const textField = (name: "marca" | "modelo" | "version" | "placa", label: string) => (
+    <div>
+      <label htmlFor={name} className="block text-sm font-medium text-brand-text">
+        {label}
+      </label>
+      <input type="text" name={name} id={name} defaultValue={vehiculo[name] || ""} className={inputClassName} />
+      <FieldError message={errors?.[name]} />
+      {name === "placa" && !errors?.placa && <p className="mt-1 text-xs text-brand-text">{PLACA_FORMATO_AYUDA}</p>}
+    </div>
+  );
+
+  const numberField = (name: "anio" | "km" | "precio" | "cilindraje", label: string) => (
+    <div>
+      <label htmlFor={name} className="block text-sm font-medium text-brand-text">
+        {label}
+      </label>
+      <input
+        type="number"
+        name={name}
+        id={name}
+        ref={name === "precio" ? precioRef : undefined}
+        defaultValue={vehiculo[name] ?? ""}
+        className={inputClassName}
+      />
+      <FieldError message={errors?.[name]} />
+    </div>
+  );
+
+  const selectField = (
+    name: "puertas" | "combustible" | "color" | "transmision" | "carroceria" | "traccion",
+    label: string,
+    options: (string | number)[]
+  ) => (
+    <div>
+      <label htmlFor={name} className="block text-sm font-medium text-brand-text">
+        {label}
+      </label>
+      <select name={name} id={name} defaultValue={vehiculo[name] ?? ""} className={inputClassName}>
+        <option value="">Seleccione...</option>
+        {withCurrent(options, vehiculo[name]).map((op) => (
+          <option key={op} value={op}>
+            {op}
+          </option>
+        ))}
+      </select>
+      <FieldError message={errors?.[name]} />
+    </div>
+  );
+
+  return (
+    <form
+      method="post"
+      encType="multipart/form-data"
+      onSubmit={handleSubmit}
+      onChange={handleChange}
+      className="space-y-6"
+    >
+      <input type="hidden" name="_method" value="update" />
+
+      {errors?.form && (
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700 dark:bg-red-900/50 dark:text-red-200">
+          {errors.form}
+          {failures && failures.length > 0 && (
+            <ul className="mt-2 list-disc list-inside">
+              {failures.map((failure, index) => (
+                <li key={`${failure.file}-${index}`}>
+                  {failure.file}: {failure.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+        {textField("marca", "Marca")}
+        {textField("modelo", "Modelo")}
+        {numberField("anio", "Año")}
+        {textField("version", "Versión")}
+        {selectField("puertas", "Puertas", OPCIONES_PUERTAS)}
+        {selectField("combustible", "Combustible", OPCIONES_COMBUSTIBLE)}
+        {selectField("color", "Color", OPCIONES_COLOR)}
+        {textField("placa", "Placa")}
+        {numberField("km", "Kilometraje")}
+        {numberField("precio", "Precio")}
+        {selectField("transmision", "Transmisión", OPCIONES_TRANSMISION)}
+        {selectField("carroceria", "Carrocería", OPCIONES_CARROCERIA)}
+        {selectField("traccion", "Tracción", OPCIONES_TRACCION)}
+        {numberField("cilindraje", "Cilindraje")}
+      </div>
+
+      <SugerenciaPrecio
+        {...camposPrecio}
+        referenciaGuardada={mismaVersion ? vehiculo.precio_referencia ?? null : null}
+        onUsarPrecio={usarPrecio}
+      />
+
+      <AvisoDuplicados
+        {...camposDuplicado}
+        marca={camposPrecio.marca}
+        modelo={camposPrecio.modelo}
+        anio={camposPrecio.anio}
+        km={camposPrecio.km}
+        excluir={vehiculo.uuid}
+      />
+
+      <ImageUploader existingImages={images} onImagesChange={handleImagesChange} />
+
+      {pdfs.length > 0 && (
+        <div>
+          <p className="block text-sm font-medium text-brand-title mb-2">Documentos actuales</p>
+          <ul className="space-y-2">
+            {pdfs.map((pdf) => {
+              const marcado = documentIdsToDelete.includes(pdf.id);
+              return (
+                <li key={pdf.id} className="flex items-center justify-between gap-3 rounded-lg border border-gray-200 px-3 py-2">
+                  <a
+                    href={pdf.url_documento}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className={`text-sm truncate ${marcado ? "line-through text-gray-400" : "text-brand-title"}`}
+                  >
+                    {pdf.nombre_archivo}
+                  </a>
+                  <button
+                    type="button"
+                    onClick={() => toggleDocumento(pdf.id)}
+                    className="text-xs font-medium text-red-600 hover:text-red-700"
+                  >
+                    {marcado ? "Conservar" : "Eliminar"}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <PdfUploader inputRef={pdfInputRef} label="Agregar Documentos PDF" />
+
+      <div>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="inline-flex justify-center rounded-lg border border-transparent bg-brand-primary px-4 py-2 text-sm font-medium text-brand-title shadow-sm hover:bg-brand-highlight focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-colors duration-200"
+        >
+          {isSubmitting ? "Guardando..." : "Guardar Cambios"}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default VehiculoEditForm;
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { Form } from "@remix-run/react";
+import SelectorCliente from "~/components/SelectorCliente";
+import type { CambioEstadoErrors, GestionEstado } from "~/utils/vehiculoEstado.server";
+import {
+  ESTADO_BADGE_CLASSES,
+  ESTADO_LABELS,
+  TRANSICIONES_ESTADO,
+  isEstadoVehiculo,
+  type EstadoVehiculo,
+} from "~/utils/vehiculoEstado";
+
+interface VehiculoEstadoPanelProps {
+  estado: EstadoVehiculo;
+  gestion: GestionEstado;
+  errors?: CambioEstadoErrors;
+  isSubmitting: boolean;
+}
+
+const inputClassName =
+  "mt-1 block w-full rounded-lg border border-gray-200 px-3 py-2 shadow-sm focus:border-brand-primary focus:outline-none focus:ring-1 focus:ring-brand-primary bg-white text-brand-title";
+
+export function EstadoBadge({ estado }: { estado: string }) {
+  const valido = isEstadoVehiculo(estado) ? estado : "disponible";
+  return (
+    <span className={`inline-block rounded-full px-3 py-1 text-xs font-semibold ${ESTADO_BADGE_CLASSES[valido]}`}>
+      {ESTADO_LABELS[valido]}
+    </span>
+  );
+}
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="mt-1 text-sm text-red-600 dark:text-red-400">{message}</p>;
+}
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat("es-CO", {
+    style: "currency",
+    currency: "COP",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(price);
+
+const formatFecha = (fecha: string) =>
+  new Date(fecha).toLocaleString("es-CO", { dateStyle: "medium", timeStyle: "short" });
+
+export default function VehiculoEstadoPanel({ estado, gestion, errors, isSubmitting }: VehiculoEstadoPanelProps) {
+  const opciones = TRANSICIONES_ESTADO[estado];
+  const [nuevoEstado, setNuevoEstado] = useState<string>("");
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold text-brand-title">Estado del Vehículo</h2>
+        <EstadoBadge estado={estado} />
+      </div>
+
+      {gestion.venta && (
+        <div className="mb-6 rounded-lg bg-blue-50 p-4 text-sm text-blue-800">
+          Vendido a <strong>{gestion.venta.cliente?.name ?? "cliente"}</strong>
+          {gestion.venta.cliente?.email && <> ({gestion.venta.cliente.email})</>} por{" "}
+          <strong>{formatPrice(gestion.venta.precio_final)}</strong> el {gestion.venta.fecha_venta}.
+        </div>
+      )}
+
+      {opciones.length > 0 && (
+        <Form method="post" className="space-y-4 mb-6">
+          <input type="hidden" name="_method" value="estado" />
+          {errors?.form && (
+            <div className="rounded-md bg-red-50 p-4 text-sm text-red-700 dark:bg-red-900/50 dark:text-red-200">
+              {errors.form}
+            </div>
+          )}
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div>
+              <label htmlFor="estado" className="block text-sm font-medium text-brand-text">
+                Nuevo estado
+              </label>
+              <select
+                id="estado"
+                name="estado"
+                value={nuevoEstado}
+                onChange={(e) => setNuevoEstado(e.target.value)}
+                className={inputClassName}
+              >
+                <option value="">Seleccione...</option>
+                {opciones.map((op) => (
+                  <option key={op} value={op}>
+                    {ESTADO_LABELS[op]}
+                  </option>
+                ))}
+              </select>
+              <FieldError message={errors?.estado} />
+            </div>
+            <div>
+              <label htmlFor="nota" className="block text-sm font-medium text-brand-text">
+                Nota (opcional)
+              </label>
+              <input type="text" id="nota" name="nota" className={inputClassName} />
+            </div>
+
+            {nuevoEstado === "vendido" && (
+              <>
+                <div>
+                  <label htmlFor="cliente_id" className="block text-sm font-medium text-brand-text">
+                    Comprador
+                  </label>
+                  <SelectorCliente id="cliente_id" name="cliente_id" inputClassName={inputClassName} />
+                  <FieldError message={errors?.cliente_id} />
+                </div>
+                <div>
+                  <label htmlFor="precio_final" className="block text-sm font-medium text-brand-text">
+                    Precio final
+                  </label>
+                  <input type="number" id="precio_final" name="precio_final" min={1} className={inputClassName} />
+                  <FieldError message={errors?.precio_final} />
+                </div>
+                <div>
+                  <label htmlFor="fecha_venta" className="block text-sm font-medium text-brand-text">
+                    Fecha de venta
+                  </label>
+                  <input
+                    type="date"
+                    id="fecha_venta"
+                    name="fecha_venta"
+                    defaultValue={new Date().toISOString().slice(0, 10)}
+                    className={inputClassName}
+                  />
+                  <FieldError message={errors?.fecha_venta} />
+                </div>
+              </>
+            )}
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting || !nuevoEstado}
+            className="inline-flex justify-center rounded-lg border border-transparent bg-brand-primary px-4 py-2 text-sm font-medium text-brand-title shadow-sm hover:bg-brand-highlight focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-colors duration-200"
+          >
+            {isSubmitting ? "Guardando..." : "Cambiar estado"}
+          </button>
+        </Form>
+      )}
+
+      <h3 className="text-sm font-semibold text-brand-title mb-3">Historial</h3>
+      {gestion.historial.length === 0 ? (
+        <p className="text-sm text-brand-text">Sin cambios registrados.</p>
+      ) : (
+        <ol className="space-y-3">
+          {gestion.historial.map((item) => (
+            <li key={item.id} className="flex flex-wrap items-center gap-2 text-sm text-brand-text">
+              <span className="text-xs text-gray-500 w-40">{formatFecha(item.created_at)}</span>
+              {item.estado_anterior && (
+                <>
+                  <EstadoBadge estado={item.estado_anterior} />
+                  <span aria-hidden="true">→</span>
+                </>
+              )}
+              <EstadoBadge estado={item.estado_nuevo} />
+              {item.nota && <span className="italic">{item.nota}</span>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -5,10 +5,19 @@ import {
   Scripts,
   ScrollRestoration,
   LiveReload,
+  Link,
+  isRouteErrorResponse,
+  useLoaderData,
   useLocation,
+  useRouteError,
 } from "@remix-run/react";
-import type { LinksFunction } from "@remix-run/node";
+import { json, type LinksFunction, type LoaderFunctionArgs } from "@remix-run/node";
 import Sidebar from "./components/Sidebar";
+import { getOptionalUser } from "./utils/auth.server";
+import { loadMarcaConcesionario } from "./utils/concesionario.server";
+import { contarAlertasSinLeer } from "./utils/busquedasGuardadas.server";
+import { listFavoritos } from "./utils/favoritos.server";
+import { esAdminCatalogo } from "./utils/catalogoReferencia.server";
 
 import "./tailwind.css";
 
@@ -30,6 +39,24 @@ export const links: LinksFunction = () => [
   },
 ];
 
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await getOptionalUser(request);
+  const marca = user?.concesionario_id ? await loadMarcaConcesionario(user.concesionario_id) : null;
+  // Alertas de búsquedas guardadas pendientes y favoritos (solo compradores;
+  // sin sesión los favoritos viven en el navegador)
+  const esComprador = user?.rol === "suscriptor";
+  const [alertasSinLeer, favoritos] = esComprador
+    ? await Promise.all([contarAlertasSinLeer(user.uuid), listFavoritos(user.uuid)])
+    : [0, null];
+
+  return json({
+    usuario: user ? { rol: user.rol, adminCatalogo: esAdminCatalogo(user) } : null,
+    concesionario: marca ? { nombre: marca.nombre, logo: marca.logo } : null,
+    alertasSinLeer,
+    favoritos,
+  });
+}
+
 export function Layout({ children }: { children: React.ReactNode }) {
   return (
     <html lang="es" className="h-full font-sans" style={{ fontFamily: 'Poppins, sans-serif' }}>
@@ -49,11 +76,13 @@ export function Layout({ children }: { children: React.ReactNode }) {
   );
 }
 
+const AUTH_PATHS = ["/login", "/register", "/completar-perfil", "/forgot-password", "/reset-password", "/verify-email"];
+
 export default function App() {
+  const { usuario, concesionario, alertasSinLeer } = useLoaderData<typeof loader>();
   const location = useLocation();
-  const isLogin = location.pathname === "/login";
-  const isRegister = location.pathname === "/register";
-  const isCompletarPerfil = location.pathname === "/completar-perfil";
+  // Pantallas de autenticación, sin Sidebar
+  const isAuthPage = AUTH_PATHS.includes(location.pathname);
   return (
     <html lang="es" className="h-full font-sans" style={{ fontFamily: 'Poppins, sans-serif' }}>
       <head>
@@ -63,13 +92,13 @@ export default function App() {
         <Links />
       </head>
       <body className="h-full bg-white text-brand-text font-sans" style={{ fontFamily: 'Poppins, sans-serif' }}>
-        {(isLogin || isRegister || isCompletarPerfil) ? (
+        {isAuthPage ? (
           <main className="flex-1 overflow-y-auto bg-white p-4 pt-16 lg:p-8 lg:pt-8">
             <Outlet />
           </main>
         ) : (
           <div className="flex min-h-screen">
-            <Sidebar />
+            <Sidebar usuario={usuario} concesionario={concesionario} alertasSinLeer={alertasSinLeer} />
             <main className="flex-1 overflow-y-auto bg-white p-4 pt-16 lg:p-8 lg:pt-8">
               <Outlet />
             </main>
@@ -83,3 +112,34 @@ export default function App() {
   );
 }
 
+export function ErrorBoundary() {
+  const error = useRouteError();
+  const status = isRouteErrorResponse(error) ? error.status : 500;
+  const message = isRouteErrorResponse(error)
+    ? error.data?.message || error.statusText
+    : "Ocurrió un error inesperado.";
+
+  return (
+    <main className="min-h-screen bg-brand-bg flex items-center justify-center p-4">
+      <div className="text-center bg-white rounded-2xl border border-gray-200 shadow-sm p-8 max-w-md">
+        <p className="mb-2 text-sm font-semibold text-brand-highlight">{status}</p>
+        <h1 className="mb-6 text-2xl font-bold text-brand-title">{message}</h1>
+        {status === 401 ? (
+          <Link
+            to="/login"
+            className="inline-flex items-center rounded-lg bg-brand-primary px-4 py-2 text-sm font-medium text-brand-title hover:bg-brand-highlight focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2 transition-colors"
+          >
+            Iniciar sesión
+          </Link>
+        ) : (
+          <Link
+            to="/"
+            className="inline-flex items-center rounded-lg bg-brand-primary px-4 py-2 text-sm font-medium text-brand-title hover:bg-brand-highlight focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2 transition-colors"
+          >
+            Volver al inicio
+          </Link>
+        )}
+      </div>
+    </main>
+  );
+}
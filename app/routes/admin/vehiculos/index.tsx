@@ -1,7 +1,8 @@
 import { json, redirect, type LoaderFunctionArgs } from "@remix-run/node";
 import { useLoaderData, useNavigate, useSearchParams } from "@remix-run/react";
 import { useState, useMemo } from "react";
-import { supabase } from "~/utils/supabase.server";
+import { requireUser } from "~/utils/auth.server";
+import { createTenantDb } from "~/utils/tenant.server";
 
 // Tipos para los datos de vehículos
 export type VehiculoType = {
@@ -26,6 +27,7 @@ type LoaderData = {
 };
 
 export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request, { roles: ["concesionario"] });
   const url = new URL(request.url);
   const searchParams = new URLSearchParams(url.search);
   const page = Number(searchParams.get("page")) || 1;
@@ -35,8 +37,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
 
   try {
     // Consulta paginada a la tabla vehiculos con todos los campos necesarios
-    const { data: vehiculos, error, count } = await supabase
-      .from("vehiculos")
+    const { data: vehiculos, error, count } = await createTenantDb(user).vehiculos
       .select("uuid, marca, modelo, anio, km, precio, transmision, url_img, version, combustible", { count: "exact", head: false })
       .order("anio", { ascending: false })
       .range(offset, to);
@@ -0,0 +1,13 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { requireUser } from "~/utils/auth.server";
+import { createTenantDb } from "~/utils/tenant.server";
+import { VEHICLE_MANAGER_ROLES } from "~/utils/roles";
+import { buscarClientes } from "~/utils/clientes.server";
+
+// Selector de comprador al registrar una venta: GET ?q=<nombre o email>
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request, { roles: VEHICLE_MANAGER_ROLES });
+  const consulta = new URL(request.url).searchParams.get("q") ?? "";
+  const clientes = await buscarClientes(createTenantDb(user), consulta);
+  return json({ clientes });
+}
@@ -0,0 +1,21 @@
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { procesarOutbox } from "~/utils/notificaciones.server";
+
+// Reintenta los envíos pendientes de la cola de notificaciones. Pensado para
+// un cron: POST con la cabecera `Authorization: Bearer $NOTIFICATIONS_CRON_SECRET`.
+export async function action({ request }: ActionFunctionArgs) {
+  const secret = process.env.NOTIFICATIONS_CRON_SECRET;
+  if (!secret) {
+    return json({ message: "Procesamiento de notificaciones no configurado" }, { status: 503 });
+  }
+  if (request.headers.get("Authorization") !== `Bearer ${secret}`) {
+    return json({ message: "No autorizado" }, { status: 401 });
+  }
+
+  const resultado = await procesarOutbox({ limite: 200 });
+  return json(resultado);
+}
+
+export function loader() {
+  return json({ message: "Método no permitido" }, { status: 405 });
+}
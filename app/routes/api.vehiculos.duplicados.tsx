@@ -0,0 +1,32 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { requireUser } from "~/utils/auth.server";
+import { VEHICLE_MANAGER_ROLES } from "~/utils/roles";
+import { createTenantDb } from "~/utils/tenant.server";
+import { buscarDuplicados, validarPlacaUnica } from "~/utils/vehiculoDuplicados.server";
+import { tipoPlaca } from "~/utils/placa";
+
+// Avisos de placa para los formularios de vehículo:
+// GET ?placa=&marca=&modelo=&anio=&km=&color=&excluir=<uuid del vehículo en edición>
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request, { roles: VEHICLE_MANAGER_ROLES });
+  const { searchParams } = new URL(request.url);
+  const placa = searchParams.get("placa") ?? "";
+  const excluir = searchParams.get("excluir") || undefined;
+
+  const [placaError, duplicados] = await Promise.all([
+    tipoPlaca(placa) ? validarPlacaUnica(createTenantDb(user), placa, excluir) : Promise.resolve(null),
+    buscarDuplicados(
+      user,
+      {
+        placa,
+        marca: searchParams.get("marca") ?? "",
+        modelo: searchParams.get("modelo") ?? "",
+        anio: searchParams.get("anio") ?? "",
+        km: searchParams.get("km") ?? "",
+        color: searchParams.get("color") ?? "",
+      },
+      excluir
+    ),
+  ]);
+  return json({ placaError, duplicados });
+}
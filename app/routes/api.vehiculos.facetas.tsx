@@ -0,0 +1,22 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { loadFacetas, parseFiltrosCatalogo } from "~/utils/facetas.server";
+import { loadMarcaPorSlug } from "~/utils/concesionario.server";
+
+// Facetas del catálogo público (vehículos disponibles). Acepta los mismos
+// filtros que el grid y, con `concesionario=<slug>`, se limita a su vitrina.
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { searchParams } = new URL(request.url);
+  const slug = searchParams.get("concesionario");
+
+  let concesionarioId: string | null = null;
+  if (slug) {
+    const concesionario = await loadMarcaPorSlug(slug);
+    if (!concesionario) {
+      return json({ message: "Concesionario no encontrado" }, { status: 404 });
+    }
+    concesionarioId = concesionario.id;
+  }
+
+  const facetas = await loadFacetas(parseFiltrosCatalogo(searchParams), { concesionarioId, estado: "disponible" });
+  return json(facetas, { headers: { "Cache-Control": "public, max-age=60" } });
+}
@@ -0,0 +1,17 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { requireUser } from "~/utils/auth.server";
+import { VEHICLE_MANAGER_ROLES } from "~/utils/roles";
+import { loadValorReferencia } from "~/utils/precioReferencia.server";
+
+// Valor de referencia del cotizador: GET ?marca=&modelo=&anio=&version=
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireUser(request, { roles: VEHICLE_MANAGER_ROLES });
+  const { searchParams } = new URL(request.url);
+  const referencia = await loadValorReferencia({
+    marca: searchParams.get("marca") ?? "",
+    modelo: searchParams.get("modelo") ?? "",
+    anio: searchParams.get("anio") ?? "",
+    version: searchParams.get("version") ?? "",
+  });
+  return json({ referencia });
+}
@@ -0,0 +1,12 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { requireUser } from "~/utils/auth.server";
+import { createTenantDb } from "~/utils/tenant.server";
+import { VEHICLE_MANAGER_ROLES } from "~/utils/roles";
+
+// Autocompletado del buscador del inventario: GET ?q=<texto>
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request, { roles: VEHICLE_MANAGER_ROLES });
+  const consulta = new URL(request.url).searchParams.get("q") ?? "";
+  const sugerencias = await createTenantDb(user).sugerencias(consulta);
+  return json({ sugerencias });
+}
@@ -0,0 +1,35 @@
+import { redirect, type LoaderFunctionArgs } from "@remix-run/node";
+import type { EmailOtpType } from "@supabase/supabase-js";
+import { createUserSession, homePathFor } from "~/utils/auth.server";
+import { createAuthClient, supabase } from "~/utils/supabase.server";
+
+// Tipos de enlace que Supabase envía por email
+const TIPOS_ENLACE: EmailOtpType[] = ["signup", "invite", "magiclink", "recovery", "email_change", "email"];
+
+// Destino de los enlaces de los emails de Supabase Auth (confirmación de
+// registro, enlace mágico y recuperación de contraseña). Las plantillas deben
+// apuntar a /auth/confirm?token_hash={{ .TokenHash }}&type=<tipo>.
+export async function loader({ request }: LoaderFunctionArgs) {
+  const url = new URL(request.url);
+  const tokenHash = url.searchParams.get("token_hash");
+  const type = url.searchParams.get("type") as EmailOtpType | null;
+
+  if (!tokenHash || !type || !TIPOS_ENLACE.includes(type)) {
+    return redirect("/login?enlace=invalido");
+  }
+
+  const { data, error } = await createAuthClient().auth.verifyOtp({ token_hash: tokenHash, type });
+  if (error || !data.session || !data.user) {
+    if (error) console.error("Error verificando el enlace de email:", error.message);
+    return redirect("/login?enlace=invalido");
+  }
+
+  const recovery = type === "recovery";
+  const cookie = await createUserSession(request, data.session, { recovery });
+  if (recovery) {
+    return redirect("/reset-password", { headers: { "Set-Cookie": cookie } });
+  }
+
+  const { data: userRow } = await supabase.from("users").select("rol").eq("auth_id", data.user.id).maybeSingle();
+  return redirect(homePathFor(userRow?.rol ?? null), { headers: { "Set-Cookie": cookie } });
+}
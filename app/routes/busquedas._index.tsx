@@ -0,0 +1,190 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs, type MetaFunction } from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { requireUser } from "~/utils/auth.server";
+import {
+  cambiarAlertas,
+  eliminarBusqueda,
+  guardarBusqueda,
+  listAlertas,
+  listBusquedas,
+  marcarAlertasLeidas,
+  type BusquedaErrors,
+} from "~/utils/busquedasGuardadas.server";
+import { describirFiltros, filtrosAQuery } from "~/utils/busquedasGuardadas";
+
+type ActionData = {
+  errors?: BusquedaErrors;
+  intent?: string;
+  success?: string;
+};
+
+export const meta: MetaFunction = () => [{ title: "Mis búsquedas" }];
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request, { roles: ["suscriptor"] });
+  const [busquedas, alertas] = await Promise.all([listBusquedas(user), listAlertas(user)]);
+  return json({ busquedas, alertas });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireUser(request, { roles: ["suscriptor"] });
+  const formData = await request.formData();
+  const intent = String(formData.get("_method") || "");
+  const id = String(formData.get("id") || "");
+
+  switch (intent) {
+    case "guardar": {
+      const { errors } = await guardarBusqueda(user, formData);
+      return json<ActionData>(
+        { errors, intent, success: errors ? undefined : "Búsqueda guardada. Te avisaremos cuando lleguen vehículos nuevos." },
+        { status: errors ? 400 : 200 }
+      );
+    }
+    case "alertas": {
+      const { errors } = await cambiarAlertas(user, id, formData.get("alertas") === "true");
+      return json<ActionData>({ errors, intent }, { status: errors ? 400 : 200 });
+    }
+    case "eliminar": {
+      const { errors } = await eliminarBusqueda(user, id);
+      return json<ActionData>(
+        { errors, intent, success: errors ? undefined : "Búsqueda eliminada." },
+        { status: errors ? 400 : 200 }
+      );
+    }
+    case "leer": {
+      const { errors } = await marcarAlertasLeidas(user);
+      return json<ActionData>({ errors, intent }, { status: errors ? 400 : 200 });
+    }
+    default:
+      return json<ActionData>({ errors: { form: "Acción no válida." } }, { status: 400 });
+  }
+}
+
+const smallButtonClassName =
+  "rounded-lg border border-gray-200 bg-white px-3 py-1 text-xs font-medium text-brand-title hover:bg-brand-secondary disabled:opacity-50 transition-colors";
+
+const formatFecha = (fecha: string) => new Date(fecha).toLocaleDateString("es-CO", { dateStyle: "medium" });
+
+const formatPrice = (precio: number | null) =>
+  precio
+    ? new Intl.NumberFormat("es-CO", { style: "currency", currency: "COP", maximumFractionDigits: 0 }).format(precio)
+    : "-";
+
+export default function BusquedasPage() {
+  const { busquedas, alertas } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>() as ActionData | undefined;
+  const isSubmitting = useNavigation().state === "submitting";
+  const errores = actionData?.errors;
+  const sinLeer = alertas.filter((a) => !a.leida_at).length;
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <h1 className="text-2xl font-bold text-brand-title">Mis búsquedas</h1>
+
+      {actionData?.success && (
+        <div className="rounded-md bg-green-50 p-4 text-sm text-green-700">{actionData.success}</div>
+      )}
+      {errores && (
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">
+          {errores.form || errores.filtros || errores.nombre}
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-xl font-bold text-brand-title">Vehículos nuevos para ti</h2>
+          {sinLeer > 0 && (
+            <Form method="post">
+              <button type="submit" name="_method" value="leer" disabled={isSubmitting} className={smallButtonClassName}>
+                Marcar como vistas ({sinLeer})
+              </button>
+            </Form>
+          )}
+        </div>
+        {alertas.length === 0 ? (
+          <p className="text-sm text-brand-text">
+            Aún no hay alertas. Cuando se publique un vehículo que coincida con tus búsquedas aparecerá aquí.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {alertas.map((alerta) => (
+              <li key={alerta.id} className="flex flex-wrap items-center justify-between gap-3 py-3 text-sm">
+                <div>
+                  <p className="font-medium text-brand-title">
+                    {alerta.vehiculo ? (
+                      <Link to={`/vehiculos/${alerta.vehiculo.uuid}`} className="hover:underline">
+                        {[alerta.vehiculo.marca, alerta.vehiculo.modelo, alerta.vehiculo.anio].filter(Boolean).join(" ")}
+                      </Link>
+                    ) : (
+                      "Vehículo no disponible"
+                    )}
+                    {!alerta.leida_at && (
+                      <span className="ml-2 rounded-full bg-brand-secondary px-2 py-0.5 text-xs font-semibold">Nuevo</span>
+                    )}
+                  </p>
+                  <p className="text-brand-text">
+                    {formatPrice(alerta.vehiculo?.precio ?? null)} · {alerta.busqueda?.nombre} ·{" "}
+                    {formatFecha(alerta.created_at)}
+                  </p>
+                </div>
+                {alerta.vehiculo && alerta.vehiculo.estado !== "disponible" && (
+                  <span className="text-xs text-gray-500">Ya no está disponible</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+        <h2 className="text-xl font-bold text-brand-title mb-4">Búsquedas guardadas</h2>
+        {busquedas.length === 0 ? (
+          <p className="text-sm text-brand-text">
+            Aplica filtros en el{" "}
+            <Link to="/vehiculosAdminGrid" className="font-medium text-brand-title hover:underline">
+              catálogo
+            </Link>{" "}
+            y pulsa &quot;Guardar búsqueda&quot; para recibir alertas de vehículos nuevos.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {busquedas.map((busqueda) => (
+              <li key={busqueda.id} className="flex flex-wrap items-center justify-between gap-3 py-3 text-sm">
+                <div>
+                  <Link
+                    to={`/vehiculosAdminGrid?${filtrosAQuery(busqueda.filtros)}`}
+                    className="font-medium text-brand-title hover:underline"
+                  >
+                    {busqueda.nombre}
+                  </Link>
+                  <p className="text-brand-text">
+                    {describirFiltros(busqueda.filtros)} · {formatFecha(busqueda.created_at)}
+                  </p>
+                </div>
+                <Form method="post" className="flex gap-2">
+                  <input type="hidden" name="id" value={busqueda.id} />
+                  <input type="hidden" name="alertas" value={String(!busqueda.alertas)} />
+                  <button type="submit" name="_method" value="alertas" disabled={isSubmitting} className={smallButtonClassName}>
+                    {busqueda.alertas ? "Pausar alertas" : "Activar alertas"}
+                  </button>
+                  <button
+                    type="submit"
+                    name="_method"
+                    value="eliminar"
+                    disabled={isSubmitting}
+                    className={smallButtonClassName}
+                    onClick={(e) => {
+                      if (!confirm("¿Eliminar esta búsqueda guardada?")) e.preventDefault();
+                    }}
+                  >
+                    Eliminar
+                  </button>
+                </Form>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
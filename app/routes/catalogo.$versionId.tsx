@@ -0,0 +1,235 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs, type MetaFunction } from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import {
+  descartarVersion,
+  loadVersion,
+  publicarVersion,
+  requireAdminCatalogo,
+  type CatalogoErrors,
+} from "~/utils/catalogoReferencia.server";
+import {
+  CATALOGO_ESTADO_BADGE_CLASSES,
+  CATALOGO_ESTADO_LABELS,
+  type CatalogoCambio,
+  type CatalogoFila,
+} from "~/utils/catalogoReferencia";
+import { CAMPOS_FICHA } from "~/utils/fichaTecnica";
+
+type ActionData = {
+  errors?: CatalogoErrors;
+  success?: string;
+};
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => [
+  { title: data ? `Catálogo: ${data.version.nombre}` : "Catálogo de referencia" },
+];
+
+async function requireVersion(id: string | undefined) {
+  const version = await loadVersion(id ?? "");
+  if (!version) throw json({ message: "Versión del catálogo no encontrada" }, { status: 404 });
+  return version;
+}
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  await requireAdminCatalogo(request);
+  return json({ version: await requireVersion(params.versionId) });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  await requireAdminCatalogo(request);
+  const version = await requireVersion(params.versionId);
+  const intent = String((await request.formData()).get("_method") || "");
+
+  switch (intent) {
+    case "publicar": {
+      const { errors } = await publicarVersion(version.id);
+      return json<ActionData>(
+        { errors, success: errors ? undefined : "Versión publicada. Los nuevos vehículos usarán estos valores." },
+        { status: errors ? 400 : 200 }
+      );
+    }
+    case "descartar": {
+      const { errors } = await descartarVersion(version.id);
+      return json<ActionData>(
+        { errors, success: errors ? undefined : "Borrador descartado." },
+        { status: errors ? 400 : 200 }
+      );
+    }
+    default:
+      return json<ActionData>({ errors: { form: "Acción no válida." } }, { status: 400 });
+  }
+}
+
+const formatPrice = (valor: number | null) =>
+  valor === null
+    ? "-"
+    : new Intl.NumberFormat("es-CO", { style: "currency", currency: "COP", maximumFractionDigits: 0 }).format(valor);
+
+const ETIQUETAS_CAMBIO: Record<string, string> = {
+  valor: "Valor",
+  ...Object.fromEntries(CAMPOS_FICHA.map((c) => [c.campo, c.label])),
+};
+
+const formatFecha = (fecha: string) => new Date(fecha).toLocaleString("es-CO", { dateStyle: "medium", timeStyle: "short" });
+
+function TablaFilas({
+  titulo,
+  total,
+  filas,
+}: {
+  titulo: string;
+  total: number;
+  filas: (CatalogoFila | CatalogoCambio)[];
+}) {
+  const conCambio = filas.some((fila) => "valor_anterior" in fila);
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+      <h2 className="text-xl font-bold text-brand-title mb-1">
+        {titulo} ({total.toLocaleString("es-CO")})
+      </h2>
+      {total > filas.length && <p className="mb-3 text-xs text-brand-text">Se muestran las primeras {filas.length}.</p>}
+      {filas.length === 0 ? (
+        <p className="text-sm text-brand-text">Ninguna.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-brand-text">
+                <th className="py-2 pr-4 font-medium">Marca</th>
+                <th className="py-2 pr-4 font-medium">Modelo</th>
+                <th className="py-2 pr-4 font-medium">Año</th>
+                <th className="py-2 pr-4 font-medium">Versión</th>
+                {conCambio && <th className="py-2 pr-4 font-medium">Valor anterior</th>}
+                <th className="py-2 pr-4 font-medium">Valor</th>
+                {conCambio && <th className="py-2 font-medium">Cambios</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 text-brand-title">
+              {filas.map((fila) => (
+                <tr key={[fila.marca, fila.modelo, fila.anio, fila.version].join("|")}>
+                  <td className="py-2 pr-4">{fila.marca}</td>
+                  <td className="py-2 pr-4">{fila.modelo}</td>
+                  <td className="py-2 pr-4">{fila.anio}</td>
+                  <td className="py-2 pr-4">{fila.version}</td>
+                  {conCambio && (
+                    <td className="py-2 pr-4 text-brand-text">
+                      {formatPrice("valor_anterior" in fila ? fila.valor_anterior : null)}
+                    </td>
+                  )}
+                  <td className="py-2 pr-4">{formatPrice(fila.valor)}</td>
+                  {conCambio && (
+                    <td className="py-2 text-brand-text">
+                      {"cambios" in fila && fila.cambios
+                        ? fila.cambios.map((campo) => ETIQUETAS_CAMBIO[campo] ?? campo).join(", ")
+                        : ETIQUETAS_CAMBIO.valor}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function CatalogoVersionPage() {
+  const { version } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>() as ActionData | undefined;
+  const isSubmitting = useNavigation().state === "submitting";
+  const { resumen } = version;
+
+  const conteos = [
+    { label: "Filas válidas", valor: resumen.total },
+    { label: "Agregadas", valor: resumen.agregadas },
+    { label: "Con cambios", valor: resumen.modificadas },
+    { label: "Descontinuadas", valor: resumen.descontinuadas },
+    { label: "Sin cambios", valor: resumen.sin_cambios },
+  ];
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <Link to="/catalogo" className="text-sm text-brand-highlight hover:text-brand-primary transition-colors">
+            ← Volver al catálogo
+          </Link>
+          <h1 className="text-2xl font-bold text-brand-title">{version.nombre}</h1>
+          <p className="text-sm text-brand-text">
+            {version.archivo} · importada el {formatFecha(version.created_at)}
+            {version.publicada_at && ` · publicada el ${formatFecha(version.publicada_at)}`}
+          </p>
+        </div>
+        <span
+          className={`rounded-full px-3 py-1 text-sm font-semibold ${CATALOGO_ESTADO_BADGE_CLASSES[version.estado]}`}
+        >
+          {CATALOGO_ESTADO_LABELS[version.estado]}
+        </span>
+      </div>
+
+      {actionData?.success && (
+        <div className="rounded-md bg-green-50 p-4 text-sm text-green-700">{actionData.success}</div>
+      )}
+      {actionData?.errors?.form && (
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">{actionData.errors.form}</div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+        {conteos.map((conteo) => (
+          <div key={conteo.label} className="bg-white rounded-2xl border border-gray-200 shadow-sm p-4">
+            <p className="text-xs text-brand-text">{conteo.label}</p>
+            <p className="text-2xl font-bold text-brand-title">{conteo.valor.toLocaleString("es-CO")}</p>
+          </div>
+        ))}
+      </div>
+
+      {version.estado === "borrador" && (
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6 space-y-3">
+          <p className="text-sm text-brand-text">
+            Al publicar, esta versión reemplaza el catálogo vigente: los selectores de marca, modelo y versión y los
+            precios sugeridos usarán sus valores. Los vehículos ya publicados conservan su referencia original.
+          </p>
+          <Form method="post" className="flex flex-wrap gap-3">
+            <button
+              type="submit"
+              name="_method"
+              value="publicar"
+              disabled={isSubmitting}
+              className="inline-flex justify-center rounded-lg bg-brand-primary px-4 py-2 text-sm font-medium text-brand-title shadow-sm hover:bg-brand-highlight disabled:opacity-50 transition-colors"
+            >
+              Publicar versión
+            </button>
+            <button
+              type="submit"
+              name="_method"
+              value="descartar"
+              disabled={isSubmitting}
+              className="inline-flex justify-center rounded-lg border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-brand-title hover:bg-brand-secondary disabled:opacity-50 transition-colors"
+            >
+              Descartar
+            </button>
+          </Form>
+        </div>
+      )}
+
+      {resumen.errores.length > 0 && (
+        <div className="rounded-2xl border border-yellow-200 bg-yellow-50 p-6 text-sm text-yellow-800">
+          <h2 className="mb-2 font-bold">Filas omitidas por errores</h2>
+          <ul className="space-y-1">
+            {resumen.errores.map((error) => (
+              <li key={`${error.fila}-${error.mensaje}`}>
+                {error.fila > 0 && `Fila ${error.fila}: `}
+                {error.mensaje}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <TablaFilas titulo="Agregadas" total={resumen.agregadas} filas={resumen.muestras.agregadas} />
+      <TablaFilas titulo="Con cambios" total={resumen.modificadas} filas={resumen.muestras.modificadas} />
+      <TablaFilas titulo="Descontinuadas" total={resumen.descontinuadas} filas={resumen.muestras.descontinuadas} />
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import {
+  json,
+  redirect,
+  unstable_createMemoryUploadHandler,
+  unstable_parseMultipartFormData,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+  type MetaFunction,
+} from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import {
+  importarCatalogo,
+  listVersiones,
+  requireAdminCatalogo,
+  type CatalogoErrors,
+} from "~/utils/catalogoReferencia.server";
+import { HOJA_CALCULO_ACCEPT, HOJA_CALCULO_MAX_BYTES } from "~/utils/hojaCalculo.server";
+import { CATALOGO_ESTADO_BADGE_CLASSES, CATALOGO_ESTADO_LABELS } from "~/utils/catalogoReferencia";
+
+type ActionData = {
+  errors?: CatalogoErrors;
+};
+
+export const meta: MetaFunction = () => [{ title: "Catálogo de referencia" }];
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  await requireAdminCatalogo(request);
+  return json({
+    versiones: await listVersiones(),
+    accept: HOJA_CALCULO_ACCEPT,
+    maxMb: HOJA_CALCULO_MAX_BYTES / 1024 / 1024,
+  });
+}
+
+// Importa el archivo como borrador y lleva a la vista previa del diff
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireAdminCatalogo(request);
+
+  let formData: FormData;
+  try {
+    formData = await unstable_parseMultipartFormData(
+      request,
+      unstable_createMemoryUploadHandler({ maxPartSize: HOJA_CALCULO_MAX_BYTES })
+    );
+  } catch (err) {
+    console.error("Error leyendo el archivo del catálogo:", err);
+    return json<ActionData>(
+      { errors: { archivo: `El archivo no puede superar ${HOJA_CALCULO_MAX_BYTES / 1024 / 1024} MB.` } },
+      { status: 400 }
+    );
+  }
+
+  const { errors, version } = await importarCatalogo(user, formData);
+  if (errors || !version) {
+    return json<ActionData>({ errors }, { status: 400 });
+  }
+  return redirect(`/catalogo/${version.id}`);
+}
+
+const inputClassName =
+  "mt-1 block w-full rounded-lg border border-gray-200 px-3 py-2 shadow-sm focus:border-brand-primary focus:outline-none focus:ring-1 focus:ring-brand-primary bg-white text-brand-title";
+
+const labelClassName = "block text-sm font-medium text-brand-text";
+
+const formatFecha = (fecha: string) => new Date(fecha).toLocaleDateString("es-CO", { dateStyle: "medium" });
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="mt-1 text-sm text-red-600">{message}</p>;
+}
+
+export default function CatalogoPage() {
+  const { versiones, accept, maxMb } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>() as ActionData | undefined;
+  const isSubmitting = useNavigation().state === "submitting";
+  const errors = actionData?.errors;
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <h1 className="text-2xl font-bold text-brand-title">Catálogo de referencia</h1>
+
+      {errors?.form && <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">{errors.form}</div>}
+
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+        <h2 className="text-xl font-bold text-brand-title mb-2">Importar nueva versión</h2>
+        <p className="mb-4 text-sm text-brand-text">
+          Sube un CSV o Excel (.xlsx, hasta {maxMb} MB) con las columnas marca, modelo, año, versión y valor, y
+          opcionalmente la ficha técnica: puertas, combustible, transmisión, carrocería, tracción y cilindraje. Antes de
+          publicarlo verás qué versiones se agregan, cambian o se descontinúan.
+        </p>
+        <Form method="post" encType="multipart/form-data" className="grid gap-4 md:grid-cols-2">
+          <div>
+            <label htmlFor="nombre" className={labelClassName}>
+              Nombre
+            </label>
+            <input id="nombre" name="nombre" type="text" placeholder="Ej. Guía de valores enero" className={inputClassName} />
+            <FieldError message={errors?.nombre} />
+          </div>
+          <div>
+            <label htmlFor="archivo" className={labelClassName}>
+              Archivo
+            </label>
+            <input id="archivo" name="archivo" type="file" accept={accept} required className={inputClassName} />
+            <FieldError message={errors?.archivo} />
+          </div>
+          <div className="md:col-span-2">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="inline-flex justify-center rounded-lg bg-brand-primary px-4 py-2 text-sm font-medium text-brand-title shadow-sm hover:bg-brand-highlight disabled:opacity-50 transition-colors"
+            >
+              {isSubmitting ? "Procesando archivo..." : "Importar y revisar cambios"}
+            </button>
+          </div>
+        </Form>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+        <h2 className="text-xl font-bold text-brand-title mb-4">Versiones</h2>
+        {versiones.length === 0 ? (
+          <p className="text-sm text-brand-text">Aún no se ha importado ninguna versión del catálogo.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {versiones.map((version) => (
+              <li key={version.id} className="flex flex-wrap items-center justify-between gap-3 py-3 text-sm">
+                <div>
+                  <Link to={`/catalogo/${version.id}`} className="font-medium text-brand-title hover:underline">
+                    {version.nombre}
+                  </Link>
+                  <p className="text-brand-text">
+                    {formatFecha(version.created_at)} · {version.resumen.total ?? 0} filas · +
+                    {version.resumen.agregadas ?? 0} / ~{version.resumen.modificadas ?? 0} / −
+                    {version.resumen.descontinuadas ?? 0}
+                  </p>
+                </div>
+                <span
+                  className={`rounded-full px-2 py-0.5 text-xs font-semibold ${CATALOGO_ESTADO_BADGE_CLASSES[version.estado]}`}
+                >
+                  {CATALOGO_ESTADO_LABELS[version.estado]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import { json, redirect } from "@remix-run/node";
 import { useLoaderData, Link, Form, useActionData, useNavigation } from "@remix-run/react";
 import type { LoaderFunction, ActionFunction } from "@remix-run/node";
-import { supabase } from "~/utils/supabase.server";
+import { requireUser } from "~/utils/auth.server";
+import { STAFF_ROLES } from "~/utils/roles";
+import { createTenantDb } from "~/utils/tenant.server";
+import { loadClienteInteracciones, type InteraccionCliente } from "~/utils/clientes.server";
 import { useState, useEffect } from "react";
 
 type Cliente = {
@@ -19,7 +22,8 @@ type ActionData = {
   };
 };
 
-export const loader: LoaderFunction = async ({ params }) => {
+export const loader: LoaderFunction = async ({ request, params }) => {
+  const user = await requireUser(request, { roles: STAFF_ROLES });
   const clienteId = params.clienteId;
 
   if (!clienteId) {
@@ -29,11 +33,12 @@ export const loader: LoaderFunction = async ({ params }) => {
     );
   }
 
-  const { data: cliente, error } = await supabase
-    .from("clientes")
+  // Solo los clientes del tenant de la sesión
+  const db = createTenantDb(user);
+  const { data: cliente, error } = await db.clientes
     .select("*")
     .eq("id", clienteId)
-    .single();
+    .maybeSingle();
 
   if (error) {
     console.error("Error al cargar cliente:", error);
@@ -50,10 +55,15 @@ export const loader: LoaderFunction = async ({ params }) => {
     );
   }
 
-  return json({ cliente });
+  // Solicitudes de contacto del cliente y los vehículos (del concesionario) por los que preguntó
+  const { interacciones, vehiculos } = await loadClienteInteracciones(db, clienteId);
+
+  return json({ cliente, interacciones, vehiculos });
 };
 
 export const action: ActionFunction = async ({ request, params }) => {
+  const user = await requireUser(request, { roles: STAFF_ROLES });
+  const db = createTenantDb(user);
   const formData = await request.formData();
   const method = formData.get("_method") as string;
 
@@ -61,8 +71,7 @@ export const action: ActionFunction = async ({ request, params }) => {
     const clienteId = params.clienteId;
 
     try {
-      const { error } = await supabase
-        .from("clientes")
+      const { error } = await db.clientes
         .delete()
         .eq("id", clienteId);
 
@@ -99,13 +108,16 @@ export const action: ActionFunction = async ({ request, params }) => {
   }
 
   try {
-    const { error } = await supabase
-      .from("clientes")
+    const { error } = await db.clientes
       .update({ name, email })
       .eq("id", params.clienteId)
       .select()
       .single();
 
+    if (error?.code === "23505") {
+      return json<ActionData>({ errors: { email: "Ya existe otro cliente con ese email" } });
+    }
+
     if (error) {
       console.error("Error al actualizar cliente:", error);
       return json<ActionData>({
@@ -222,7 +234,12 @@ function DeleteModal({
 }
 
 export default function ClienteDetallePage() {
-  const { cliente, message } = useLoaderData<{ cliente?: Cliente; message?: string }>();
+  const { cliente, interacciones = [], vehiculos = [], message } = useLoaderData<{
+    cliente?: Cliente;
+    interacciones?: InteraccionCliente[];
+    vehiculos?: NonNullable<InteraccionCliente["vehiculo"]>[];
+    message?: string;
+  }>();
   const actionData = useActionData<ActionData>();
   const navigation = useNavigation();
   const isSubmitting = navigation.state === "submitting";
@@ -347,6 +364,78 @@ export default function ClienteDetallePage() {
         </dl>
       </div>
 
+      <div className="mb-8 rounded-lg border border-gray-200 bg-white p-6 shadow-sm dark:border-gray-800 dark:bg-gray-900">
+        <h2 className="mb-4 text-lg font-medium text-gray-900 dark:text-white">
+          Vehículos de Interés
+        </h2>
+        {vehiculos.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            El cliente no ha preguntado por ningún vehículo.
+          </p>
+        ) : (
+          <ul className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {vehiculos.map((vehiculo) => (
+              <li key={vehiculo.uuid}>
+                <Link
+                  to={`/vehiculos/${vehiculo.uuid}`}
+                  className="flex items-center gap-3 rounded-md border border-gray-200 p-3 hover:bg-gray-50 dark:border-gray-700 dark:hover:bg-gray-800"
+                >
+                  {vehiculo.url_img && (
+                    <img src={vehiculo.url_img} alt="" className="h-12 w-16 rounded object-cover" />
+                  )}
+                  <div className="text-sm">
+                    <div className="font-medium text-gray-900 dark:text-white">
+                      {vehiculo.marca} {vehiculo.modelo} {vehiculo.anio}
+                    </div>
+                    {vehiculo.precio !== null && (
+                      <div className="text-gray-500 dark:text-gray-400">
+                        {new Intl.NumberFormat("es-CO", { style: "currency", currency: "COP", maximumFractionDigits: 0 }).format(vehiculo.precio)}
+                      </div>
+                    )}
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="mb-8 rounded-lg border border-gray-200 bg-white p-6 shadow-sm dark:border-gray-800 dark:bg-gray-900">
+        <h2 className="mb-4 text-lg font-medium text-gray-900 dark:text-white">
+          Interacciones
+        </h2>
+        {interacciones.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Sin interacciones registradas.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {interacciones.map((interaccion) => (
+              <li key={interaccion.id} className="py-3 text-sm">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    Solicitud de contacto
+                    {interaccion.vehiculo && ` · ${interaccion.vehiculo.marca} ${interaccion.vehiculo.modelo}`}
+                  </span>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {new Date(interaccion.created_at).toLocaleDateString("es-ES")}
+                  </span>
+                </div>
+                {interaccion.detalle && (
+                  <p className="mt-1 whitespace-pre-line text-gray-600 dark:text-gray-300">{interaccion.detalle}</p>
+                )}
+                {interaccion.solicitud_id && (
+                  <Link
+                    to={`/leads/${interaccion.solicitud_id}`}
+                    className="mt-1 inline-block text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
+                  >
+                    Ver lead
+                  </Link>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
       <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm dark:border-gray-800 dark:bg-gray-900">
         <h2 className="mb-6 text-lg font-medium text-gray-900 dark:text-white">
           Editar Cliente
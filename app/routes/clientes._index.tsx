@@ -2,15 +2,19 @@ import { json, redirect, type LoaderFunctionArgs } from "@remix-run/node";
 import { Link, useLoaderData, useSearchParams } from "@remix-run/react";
 import { ClientFilterSearch } from "~/components/ClientFilterSearch";
 import { getFilteredClients } from "~/utils/clientQueries.server";
+import { requireUser } from "~/utils/auth.server";
+import { STAFF_ROLES } from "~/utils/roles";
+import { createTenantDb } from "~/utils/tenant.server";
 
 export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request, { roles: STAFF_ROLES });
   const url = new URL(request.url);
   const searchParams = new URLSearchParams(url.search);
   
   const page = Number(searchParams.get("page")) || 1;
   const limit = Number(searchParams.get("limit")) || 10;
   
-  const result = await getFilteredClients(request, page, limit);
+  const result = await getFilteredClients(createTenantDb(user), request, page, limit);
 
   // Si hay un error de página inválida y hay resultados,
   // redirigir a la primera página manteniendo los filtros
@@ -1,6 +1,8 @@
 import { json, redirect } from "@remix-run/node";
 import { Form, useActionData } from "@remix-run/react";
-import { supabase } from "~/utils/supabase.server";
+import { requireUser } from "~/utils/auth.server";
+import { STAFF_ROLES } from "~/utils/roles";
+import { createTenantDb } from "~/utils/tenant.server";
 
 type ActionData = {
   errors?: {
@@ -11,6 +13,7 @@ type ActionData = {
 };
 
 export const action = async ({ request }: { request: Request }) => {
+  const user = await requireUser(request, { roles: STAFF_ROLES });
   console.log("Action started - Processing form submission");
   
   const formData = await request.formData();
@@ -31,11 +34,14 @@ export const action = async ({ request }: { request: Request }) => {
   try {
     console.log("Attempting to insert into Supabase...");
     
-    const { data, error } = await supabase
-      .from("clientes")
-      .insert([{ name: nombre, email }])
+    const { data, error } = await createTenantDb(user)
+      .clientes.insert([{ name: nombre, email }])
       .select();
 
+    if (error?.code === "23505") {
+      return json<ActionData>({ errors: { email: "Ya existe un cliente con ese email" } });
+    }
+
     if (error) {
       console.error("Supabase error details:", {
         code: error.code,
@@ -1,6 +1,9 @@
 import { json, type ActionFunctionArgs } from "@remix-run/node";
 import { Form, useActionData, useNavigation } from "@remix-run/react";
-import { supabase } from "~/utils/supabase.server";
+import { requireUser } from "~/utils/auth.server";
+import { STAFF_ROLES } from "~/utils/roles";
+import { createTenantDb } from "~/utils/tenant.server";
+import { upsertClientePorEmail } from "~/utils/clientes.server";
 
 type ActionData = {
   success?: string;
@@ -8,6 +11,8 @@ type ActionData = {
 };
 
 export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireUser(request, { roles: STAFF_ROLES });
+  const db = createTenantDb(user);
   try {
     const formData = await request.formData();
     const file = formData.get("file") as File | null;
@@ -53,10 +58,26 @@ export async function action({ request }: ActionFunctionArgs) {
       return { name, email };
     });
 
+    // Un email solo puede aparecer una vez (sin distinguir mayúsculas)
+    const unicos = Array.from(new Map(clients.map((c) => [c.email.toLowerCase(), c])).values());
+
     // Insertar en Supabase
-    const { error: insertError } = await supabase
-      .from("clientes")
-      .insert(clients);
+    const { error: insertError } = await db.clientes.insert(unicos);
+
+    // Si algún email ya existe se procesan uno a uno, reutilizando los existentes
+    if (insertError?.code === "23505") {
+      const ids = await Promise.all(unicos.map((c) => upsertClientePorEmail(db.clientes, c.name, c.email)));
+      const fallidos = ids.filter((id) => !id).length;
+      if (fallidos > 0) {
+        return json<ActionData>(
+          { error: `No se pudieron guardar ${fallidos} de ${unicos.length} clientes.` },
+          { status: 500 }
+        );
+      }
+      return json<ActionData>({
+        success: `${unicos.length} clientes procesados (los emails ya registrados se conservaron).`,
+      });
+    }
 
     if (insertError) {
       console.error("Error al insertar clientes:", insertError);
@@ -67,7 +88,7 @@ export async function action({ request }: ActionFunctionArgs) {
     }
 
     return json<ActionData>({
-      success: `${clients.length} clientes subidos exitosamente.`,
+      success: `${unicos.length} clientes subidos exitosamente.`,
     });
   } catch (error) {
     console.error("Error procesando el archivo:", error);
@@ -0,0 +1,143 @@
+import { json, type LoaderFunctionArgs, type MetaFunction } from "@remix-run/node";
+import { Link, useLoaderData } from "@remix-run/react";
+import { useState } from "react";
+import BotonFavorito from "~/components/BotonFavorito";
+import { loadVehiculosPorUuid } from "~/utils/favoritos.server";
+import { MAX_COMPARACION, limpiarUuids, urlComparacion } from "~/utils/favoritos";
+import { ATRIBUTOS_VEHICULO, type Vehiculo } from "~/utils/vehiculo";
+
+export const meta: MetaFunction = () => [{ title: "Comparar vehículos" }];
+
+// Comparador público: /comparar?v=uuid&v=uuid (hasta MAX_COMPARACION)
+export async function loader({ request }: LoaderFunctionArgs) {
+  const uuids = limpiarUuids(new URL(request.url).searchParams.getAll("v"), MAX_COMPARACION);
+  return json({ vehiculos: await loadVehiculosPorUuid(uuids) });
+}
+
+type Atributo = (typeof ATRIBUTOS_VEHICULO)[number];
+
+const mostrarValor = (atributo: Atributo, valor: Vehiculo[Atributo["campo"]]) => {
+  if (valor === null || valor === "") return "-";
+  return atributo.formato ? (atributo.formato as (v: unknown) => string)(valor) : String(valor);
+};
+
+// Valor a destacar en la fila (menor precio, menos km, año más reciente)
+function mejorValor(atributo: Atributo, vehiculos: Vehiculo[]) {
+  if (!atributo.mejor) return null;
+  const numeros = vehiculos.map((v) => v[atributo.campo]).filter((v): v is number => typeof v === "number");
+  if (numeros.length < 2) return null;
+  return atributo.mejor === "menor" ? Math.min(...numeros) : Math.max(...numeros);
+}
+
+export default function CompararPage() {
+  const { vehiculos } = useLoaderData<typeof loader>();
+  const [soloDiferencias, setSoloDiferencias] = useState(false);
+
+  const filas = ATRIBUTOS_VEHICULO.map((atributo) => {
+    const valores = vehiculos.map((v) => mostrarValor(atributo, v[atributo.campo]));
+    return { atributo, valores, distinto: new Set(valores).size > 1, mejor: mejorValor(atributo, vehiculos) };
+  }).filter((fila) => !soloDiferencias || fila.distinto);
+
+  if (vehiculos.length === 0) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center p-12 rounded-lg bg-gray-50 border border-gray-200">
+          <h1 className="mb-2 text-xl font-bold text-brand-title">No hay vehículos para comparar</h1>
+          <p className="text-brand-text">
+            Elige hasta {MAX_COMPARACION} vehículos desde tus{" "}
+            <Link to="/favoritos" className="font-medium text-brand-title hover:underline">
+              favoritos
+            </Link>
+            .
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <Link to="/favoritos" className="text-sm text-brand-highlight hover:text-brand-primary transition-colors">
+            ← Volver a favoritos
+          </Link>
+          <h1 className="text-2xl font-bold text-brand-title">Comparar vehículos ({vehiculos.length})</h1>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-brand-text cursor-pointer">
+          <input
+            type="checkbox"
+            checked={soloDiferencias}
+            onChange={(e) => setSoloDiferencias(e.target.checked)}
+            className="h-4 w-4 rounded border-gray-300 text-brand-primary focus:ring-brand-primary"
+          />
+          Mostrar solo diferencias
+        </label>
+      </div>
+
+      <div className="overflow-x-auto bg-white rounded-2xl border border-gray-200 shadow-sm">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th className="w-40 p-4" />
+              {vehiculos.map((vehiculo) => (
+                <th key={vehiculo.uuid} className="min-w-[200px] p-4 text-left align-top font-normal">
+                  <div className="relative mb-3 h-32 overflow-hidden rounded-lg bg-brand-bg">
+                    {vehiculo.url_img && (
+                      <img
+                        src={vehiculo.url_img}
+                        alt={`${vehiculo.marca || "Vehículo"} ${vehiculo.modelo || ""}`}
+                        className="h-full w-full object-cover"
+                      />
+                    )}
+                    <div className="absolute top-2 right-2">
+                      <BotonFavorito uuid={vehiculo.uuid} />
+                    </div>
+                  </div>
+                  <Link to={`/vehiculos/${vehiculo.uuid}`} className="block font-bold text-brand-title hover:underline">
+                    {vehiculo.marca} {vehiculo.modelo} {vehiculo.anio}
+                  </Link>
+                  {vehiculos.length > 1 && (
+                    <Link
+                      to={urlComparacion(vehiculos.filter((v) => v.uuid !== vehiculo.uuid).map((v) => v.uuid))}
+                      className="text-xs text-brand-text hover:underline"
+                    >
+                      Quitar de la comparación
+                    </Link>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {filas.map(({ atributo, valores, distinto, mejor }) => (
+              <tr key={atributo.campo} className={distinto ? "bg-yellow-50" : undefined}>
+                <th scope="row" className="p-4 text-left font-medium text-brand-text">
+                  {atributo.label}
+                </th>
+                {vehiculos.map((vehiculo, i) => {
+                  const destacado = distinto && mejor !== null && vehiculo[atributo.campo] === mejor;
+                  return (
+                    <td
+                      key={vehiculo.uuid}
+                      className={`p-4 ${destacado ? "font-bold text-green-700" : "text-brand-title"}`}
+                    >
+                      {valores[i]}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            {filas.length === 0 && (
+              <tr>
+                <td colSpan={vehiculos.length + 1} className="p-4 text-center text-brand-text">
+                  Los vehículos no tienen diferencias.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -2,12 +2,15 @@ import { json, redirect, type ActionFunctionArgs, type LoaderFunctionArgs } from
 import { Form, useActionData, useLoaderData } from "@remix-run/react";
 import { useEffect, useState } from "react";
 import { supabase } from "~/utils/supabase.server";
+import { getOptionalUser, homePathFor } from "~/utils/auth.server";
+import { solicitarMembresia } from "~/utils/equipo.server";
+import { isRolEquipo } from "~/utils/equipo";
+import { isRol } from "~/utils/roles";
 
 export async function loader({ request }: LoaderFunctionArgs) {
-  // Obtener la sesión actual
-  const { data: { session } } = await supabase.auth.getSession();
-  
-  if (!session) {
+  // Usuario de la sesión de esta petición
+  const sessionUser = await getOptionalUser(request);
+  if (!sessionUser) {
     return redirect("/login");
   }
 
@@ -15,7 +18,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
   const { data: user, error: userError } = await supabase
     .from("users")
     .select("*")
-    .eq("auth_id", session.user.id)
+    .eq("auth_id", sessionUser.auth_id)
     .single();
 
   if (userError || !user) {
@@ -48,10 +51,9 @@ export async function action({ request }: ActionFunctionArgs) {
     return json({ error: "Debe seleccionar un rol." }, { status: 400 });
   }
 
-  // Obtener la sesión actual
-  const { data: { session } } = await supabase.auth.getSession();
-  
-  if (!session) {
+  // Usuario de la sesión de esta petición
+  const sessionUser = await getOptionalUser(request);
+  if (!sessionUser) {
     return redirect("/login");
   }
 
@@ -59,26 +61,28 @@ export async function action({ request }: ActionFunctionArgs) {
   const { data: user, error: userError } = await supabase
     .from("users")
     .select("*")
-    .eq("auth_id", session.user.id)
+    .eq("auth_id", sessionUser.auth_id)
     .single();
 
   if (userError || !user) {
     return json({ error: "Usuario no encontrado." }, { status: 400 });
   }
 
-  // Preparar datos para actualizar
-  const updateData: any = { rol };
-  
-  // Solo incluir concesionario_id si se seleccionó uno
-  if (concesionarioId && concesionarioId !== "null") {
-    updateData.concesionario_id = concesionarioId;
+  if (!isRol(rol)) {
+    return json({ error: "Rol no válido." }, { status: 400 });
   }
 
-  // Actualizar usuario en la base de datos
+  // El rol de un miembro activo lo gestiona el administrador del concesionario
+  if (sessionUser.concesionario_id && rol !== sessionUser.rol) {
+    return json({ error: "Tu rol lo gestiona el administrador de tu concesionario." }, { status: 400 });
+  }
+
+  // Actualizar usuario en la base de datos. El concesionario no se asigna aquí:
+  // se crea una solicitud de unión que un administrador debe aprobar.
   const { data: updatedUser, error: updateError } = await supabase
     .from("users")
-    .update(updateData)
-    .eq("auth_id", session.user.id)
+    .update({ rol })
+    .eq("auth_id", sessionUser.auth_id)
     .select()
     .single();
 
@@ -88,9 +92,17 @@ export async function action({ request }: ActionFunctionArgs) {
   }
 
   console.log("✅ [COMPLETAR PERFIL] Usuario actualizado exitosamente:", updatedUser);
-  
-  // Redirigir al dashboard
-  return redirect("/dashboard");
+
+  if (concesionarioId && concesionarioId !== "null" && isRolEquipo(rol) && concesionarioId !== sessionUser.concesionario_id) {
+    const { error: membresiaError } = await solicitarMembresia(sessionUser, concesionarioId, rol);
+    if (membresiaError) {
+      return json({ error: "No se pudo enviar la solicitud al concesionario." }, { status: 400 });
+    }
+    // En el perfil se ve el estado de la solicitud
+    return redirect("/perfil");
+  }
+
+  return redirect(homePathFor(rol));
 }
 
 export default function CompletarPerfilPage() {
@@ -100,7 +112,7 @@ export default function CompletarPerfilPage() {
   const [showConcesionarioSelect, setShowConcesionarioSelect] = useState(false);
 
   useEffect(() => {
-    setShowConcesionarioSelect(selectedRol === "concesionario");
+    setShowConcesionarioSelect(isRolEquipo(selectedRol));
   }, [selectedRol]);
 
   return (
@@ -155,6 +167,9 @@ export default function CompletarPerfilPage() {
                   </option>
                 ))}
               </select>
+              <p className="mt-1 text-xs text-brand-text">
+                Un administrador del concesionario debe aprobar tu solicitud para unirte al equipo.
+              </p>
             </div>
           )}
 
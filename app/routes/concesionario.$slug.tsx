@@ -0,0 +1,121 @@
+import { json, type LoaderFunctionArgs, type MetaFunction } from "@remix-run/node";
+import { useLoaderData } from "@remix-run/react";
+import CatalogoVehiculos from "~/components/CatalogoVehiculos";
+import { loadCatalogo } from "~/utils/catalogo.server";
+import { loadMarcaPorSlug } from "~/utils/concesionario.server";
+import {
+  REDES_SOCIALES,
+  RED_SOCIAL_LABELS,
+  mapsUrl,
+  whatsappUrl,
+  type MarcaConcesionario,
+} from "~/utils/concesionario";
+
+// Vitrina pública: marca del concesionario y solo su inventario disponible
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const concesionario = await loadMarcaPorSlug(params.slug ?? "");
+  if (!concesionario) {
+    throw json({ message: "Concesionario no encontrado" }, { status: 404 });
+  }
+
+  const respuesta = await loadCatalogo(request, { concesionarioId: concesionario.id });
+  // Las búsquedas del grid (fetcher con offset) solo necesitan los datos del catálogo
+  const { searchParams } = new URL(request.url);
+  if (searchParams.has("offset")) {
+    return respuesta;
+  }
+
+  const catalogo = await respuesta.json();
+  return json({ ...catalogo, concesionario }, { status: respuesta.status });
+}
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  const concesionario = data && "concesionario" in data ? (data.concesionario as MarcaConcesionario) : null;
+  if (!concesionario) return [{ title: "Concesionario no encontrado" }];
+  return [
+    { title: `${concesionario.nombre} | Vehículos disponibles` },
+    { name: "description", content: `Inventario disponible de ${concesionario.nombre}.` },
+  ];
+};
+
+function EncabezadoVitrina({ concesionario }: { concesionario: MarcaConcesionario }) {
+  const redes = REDES_SOCIALES.filter((red) => concesionario.redes[red]);
+
+  return (
+    <div className="container mx-auto px-4 pt-8">
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6 flex flex-col gap-6 md:flex-row md:items-center">
+        {concesionario.logo && (
+          <img
+            src={concesionario.logo}
+            alt={`Logo de ${concesionario.nombre}`}
+            className="h-24 w-24 rounded-lg border border-gray-200 object-contain"
+          />
+        )}
+        <div className="flex-1 space-y-2 text-sm">
+          <h1 className="text-2xl font-bold text-brand-title">{concesionario.nombre}</h1>
+          {concesionario.direccion && (
+            <a
+              href={mapsUrl(concesionario.direccion)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block text-brand-text underline hover:text-brand-title"
+            >
+              {concesionario.direccion}
+            </a>
+          )}
+          {concesionario.horario && <p className="whitespace-pre-line text-brand-text">{concesionario.horario}</p>}
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {concesionario.telefono && (
+              <a href={`tel:${concesionario.telefono}`} className="text-brand-text hover:text-brand-title">
+                {concesionario.telefono}
+              </a>
+            )}
+            {concesionario.email && (
+              <a href={`mailto:${concesionario.email}`} className="text-brand-text hover:text-brand-title">
+                {concesionario.email}
+              </a>
+            )}
+            {redes.map((red) => (
+              <a
+                key={red}
+                href={concesionario.redes[red]}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-brand-text underline hover:text-brand-title"
+              >
+                {RED_SOCIAL_LABELS[red]}
+              </a>
+            ))}
+          </div>
+        </div>
+        {concesionario.whatsapp && (
+          <a
+            href={whatsappUrl(concesionario.whatsapp, `Hola ${concesionario.nombre}, vi su inventario en la web.`)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center justify-center rounded-lg bg-green-500 px-4 py-2 text-sm font-medium text-white hover:bg-green-600 transition-colors"
+          >
+            Escribir por WhatsApp
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function VitrinaConcesionarioPage() {
+  const data = useLoaderData<typeof loader>();
+  const concesionario = "concesionario" in data ? (data.concesionario as MarcaConcesionario) : null;
+  if (!concesionario) return null;
+
+  return (
+    <div>
+      <EncabezadoVitrina concesionario={concesionario} />
+      <CatalogoVehiculos
+        key={concesionario.id}
+        basePath={`/concesionario/${concesionario.slug}`}
+        titulo={`Vehículos de ${concesionario.nombre}`}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import {
+  json,
+  unstable_createMemoryUploadHandler,
+  unstable_parseMultipartFormData,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+} from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { requireAdminConcesionario } from "~/utils/equipo.server";
+import {
+  guardarPerfilConcesionario,
+  loadMarcaConcesionario,
+  type PerfilConcesionarioErrors,
+} from "~/utils/concesionario.server";
+import { REDES_SOCIALES, RED_SOCIAL_LABELS } from "~/utils/concesionario";
+import { appUrl } from "~/utils/notificaciones.server";
+
+type ActionData = {
+  errors?: PerfilConcesionarioErrors;
+  success?: string;
+};
+
+// Límite de cada parte del formulario; el logo se redimensiona después
+const MAX_PART_SIZE = 5 * 1024 * 1024;
+
+async function requirePerfil(request: Request) {
+  const { concesionario } = await requireAdminConcesionario(request);
+  const perfil = await loadMarcaConcesionario(concesionario.id);
+  if (!perfil) {
+    throw json({ message: "Concesionario no encontrado" }, { status: 404 });
+  }
+  return perfil;
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  return json({ perfil: await requirePerfil(request), origen: appUrl(request) });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const perfil = await requirePerfil(request);
+
+  let formData: FormData;
+  try {
+    formData = await unstable_parseMultipartFormData(
+      request,
+      unstable_createMemoryUploadHandler({ maxPartSize: MAX_PART_SIZE })
+    );
+  } catch (err) {
+    console.error("Error leyendo el formulario de configuración:", err);
+    return json<ActionData>({ errors: { logo: "El logo no puede superar 5 MB." } }, { status: 400 });
+  }
+
+  const { errors } = await guardarPerfilConcesionario(perfil, formData);
+  if (errors) {
+    return json<ActionData>({ errors }, { status: 400 });
+  }
+  return json<ActionData>({ success: "Cambios guardados." });
+}
+
+const inputClassName =
+  "mt-1 block w-full rounded-lg border border-gray-200 px-3 py-2 shadow-sm focus:border-brand-primary focus:outline-none focus:ring-1 focus:ring-brand-primary bg-white text-brand-title";
+
+const labelClassName = "block text-sm font-medium text-brand-text";
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="mt-1 text-sm text-red-600">{message}</p>;
+}
+
+export default function ConfiguracionPage() {
+  const { perfil, origen } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>() as ActionData | undefined;
+  const isSubmitting = useNavigation().state === "submitting";
+  const errors = actionData?.errors;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <h1 className="text-2xl font-bold text-brand-title mb-6">Configuración del concesionario</h1>
+
+      <Form method="post" encType="multipart/form-data" className="space-y-6">
+        {errors?.form && <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">{errors.form}</div>}
+        {actionData?.success && (
+          <div className="rounded-md bg-green-50 p-4 text-sm text-green-700">{actionData.success}</div>
+        )}
+
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6 space-y-4">
+          <h2 className="text-xl font-bold text-brand-title">Marca</h2>
+          <div>
+            <label htmlFor="nombre" className={labelClassName}>
+              Nombre
+            </label>
+            <input id="nombre" name="nombre" defaultValue={perfil.nombre} required className={inputClassName} />
+            <FieldError message={errors?.nombre} />
+          </div>
+          <div>
+            <label htmlFor="slug" className={labelClassName}>
+              URL de la vitrina pública
+            </label>
+            <div className="mt-1 flex items-center gap-1 text-sm text-brand-text">
+              <span className="whitespace-nowrap">{origen}/concesionario/</span>
+              <input id="slug" name="slug" defaultValue={perfil.slug ?? ""} className={inputClassName + " mt-0"} />
+            </div>
+            <FieldError message={errors?.slug} />
+            {perfil.slug && (
+              <Link
+                to={`/concesionario/${perfil.slug}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-2 inline-block text-sm text-brand-text underline hover:text-brand-title"
+              >
+                Ver vitrina pública
+              </Link>
+            )}
+          </div>
+          <div className="flex items-center gap-6">
+            {perfil.logo ? (
+              <img
+                src={perfil.logo}
+                alt={`Logo de ${perfil.nombre}`}
+                className="h-20 w-20 rounded-lg border border-gray-200 object-contain"
+              />
+            ) : (
+              <div className="flex h-20 w-20 items-center justify-center rounded-lg border border-dashed border-gray-300 text-xs text-gray-400">
+                Sin logo
+              </div>
+            )}
+            <div className="flex-1">
+              <label htmlFor="logo" className={labelClassName}>
+                Logo (PNG, JPG o WebP, máximo 5 MB)
+              </label>
+              <input id="logo" name="logo" type="file" accept="image/png,image/jpeg,image/webp" className="mt-1 text-sm" />
+              <FieldError message={errors?.logo} />
+              {perfil.logo && (
+                <div className="mt-2 flex items-center gap-2 text-sm">
+                  <input id="quitar_logo" name="quitar_logo" type="checkbox" className="h-4 w-4 rounded border-gray-300" />
+                  <label htmlFor="quitar_logo" className="text-brand-text">
+                    Quitar el logo actual
+                  </label>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6 space-y-4">
+          <h2 className="text-xl font-bold text-brand-title">Contacto</h2>
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div>
+              <label htmlFor="email" className={labelClassName}>
+                Email de contacto
+              </label>
+              <input id="email" name="email" type="email" defaultValue={perfil.email ?? ""} className={inputClassName} />
+              <FieldError message={errors?.email} />
+            </div>
+            <div>
+              <label htmlFor="telefono" className={labelClassName}>
+                Teléfono
+              </label>
+              <input id="telefono" name="telefono" type="tel" defaultValue={perfil.telefono ?? ""} className={inputClassName} />
+              <FieldError message={errors?.telefono} />
+            </div>
+            <div>
+              <label htmlFor="whatsapp" className={labelClassName}>
+                WhatsApp (con indicativo)
+              </label>
+              <input
+                id="whatsapp"
+                name="whatsapp"
+                type="tel"
+                placeholder="57 300 123 4567"
+                defaultValue={perfil.whatsapp ?? ""}
+                className={inputClassName}
+              />
+              <FieldError message={errors?.whatsapp} />
+            </div>
+            <div>
+              <label htmlFor="direccion" className={labelClassName}>
+                Dirección
+              </label>
+              <input id="direccion" name="direccion" defaultValue={perfil.direccion ?? ""} className={inputClassName} />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="horario" className={labelClassName}>
+              Horario de atención
+            </label>
+            <textarea
+              id="horario"
+              name="horario"
+              rows={3}
+              placeholder={"Lunes a viernes: 8:00 a. m. - 6:00 p. m.\nSábados: 9:00 a. m. - 1:00 p. m."}
+              defaultValue={perfil.horario ?? ""}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6 space-y-4">
+          <h2 className="text-xl font-bold text-brand-title">Redes sociales</h2>
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            {REDES_SOCIALES.map((red) => (
+              <div key={red}>
+                <label htmlFor={`redes.${red}`} className={labelClassName}>
+                  {RED_SOCIAL_LABELS[red]}
+                </label>
+                <input
+                  id={`redes.${red}`}
+                  name={`redes.${red}`}
+                  type="url"
+                  placeholder="https://"
+                  defaultValue={perfil.redes[red] ?? ""}
+                  className={inputClassName}
+                />
+                <FieldError message={errors?.redes?.[red]} />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="inline-flex justify-center rounded-lg border border-transparent bg-brand-primary px-4 py-2 text-sm font-medium text-brand-title shadow-sm hover:bg-brand-highlight focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-colors duration-200"
+        >
+          {isSubmitting ? "Guardando..." : "Guardar cambios"}
+        </button>
+      </Form>
+    </div>
+  );
+}
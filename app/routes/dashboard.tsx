@@ -1,25 +1,13 @@
 import { json, redirect, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
 import { useLoaderData, Form } from "@remix-run/react";
-import { sessionStorage } from "~/utils/session.server";
 import { supabase } from "~/utils/supabase.server";
+import { logout, requireUser } from "~/utils/auth.server";
+import { createTenantDb } from "~/utils/tenant.server";
+import { VEHICLE_MANAGER_ROLES } from "~/utils/roles";
 
 export async function loader({ request }: LoaderFunctionArgs) {
-  const session = await sessionStorage.getSession(request.headers.get("Cookie"));
-  const concesionario_id = session.get("concesionario_id");
-  const user_id = session.get("user_id");
-  if (!concesionario_id || !user_id) {
-    return redirect("/login");
-  }
-  
-  // Buscar datos del usuario en la tabla users
-  const { data: user, error } = await supabase
-    .from("users")
-    .select("email, name, concesionario_id")
-    .eq("auth_id", user_id)
-    .single();
-  if (error || !user) {
-    return redirect("/login");
-  }
+  const user = await requireUser(request, { roles: VEHICLE_MANAGER_ROLES });
+  const concesionario_id = user.concesionario_id;
 
   // Buscar datos del concesionario
   const { data: concesionario, error: concesionarioError } = await supabase
@@ -29,10 +17,8 @@ export async function loader({ request }: LoaderFunctionArgs) {
     .single();
 
   // Estadísticas de vehículos del concesionario
-  const { data: vehiculos, error: vehiculosError } = await supabase
-    .from("vehiculos")
-    .select("uuid, precio, marca, modelo, anio")
-    .eq("concesionario_id", concesionario_id);
+  const { data: vehiculos, error: vehiculosError } = await createTenantDb(user).vehiculos
+    .select("uuid, precio, marca, modelo, anio");
 
   // Calcular métricas
   const totalVehiculos = vehiculos?.length || 0;
@@ -77,10 +63,9 @@ export async function loader({ request }: LoaderFunctionArgs) {
 }
 
 export async function action({ request }: ActionFunctionArgs) {
-  const session = await sessionStorage.getSession(request.headers.get("Cookie"));
   return redirect("/login", {
     headers: {
-      "Set-Cookie": await sessionStorage.destroySession(session),
+      "Set-Cookie": await logout(request),
     },
   });
 }
@@ -0,0 +1,256 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { Form, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { useEffect, useRef } from "react";
+import {
+  desactivarMiembro,
+  invitarMiembro,
+  loadEquipo,
+  requireAdminConcesionario,
+  revisarSolicitud,
+  revocarInvitacion,
+  transferirPropiedad,
+  type EquipoErrors,
+} from "~/utils/equipo.server";
+import { ESTADO_MIEMBRO_LABELS, ROLES_EQUIPO, ROL_EQUIPO_LABELS } from "~/utils/equipo";
+
+type ActionData = {
+  errors?: EquipoErrors;
+  intent?: string;
+  success?: string;
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { user, concesionario } = await requireAdminConcesionario(request);
+  const { miembros, invitaciones } = await loadEquipo(concesionario);
+
+  return json({
+    concesionario,
+    miembros,
+    invitaciones,
+    usuarioActual: user.uuid,
+    esPropietario: concesionario.owner_id === user.uuid,
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { user, concesionario } = await requireAdminConcesionario(request);
+  const formData = await request.formData();
+  const intent = String(formData.get("_method") || "");
+  const id = Number(formData.get("id"));
+
+  switch (intent) {
+    case "invitar": {
+      const { errors } = await invitarMiembro(request, user, concesionario, formData);
+      return json<ActionData>(
+        { errors, intent, success: errors ? undefined : "Invitación enviada." },
+        { status: errors ? 400 : 200 }
+      );
+    }
+    case "revocar": {
+      const { errors } = await revocarInvitacion(concesionario, id);
+      return json<ActionData>({ errors, intent }, { status: errors ? 400 : 200 });
+    }
+    case "aprobar":
+    case "rechazar": {
+      const { errors } = await revisarSolicitud(user, concesionario, id, intent === "aprobar");
+      return json<ActionData>({ errors, intent: "miembros" }, { status: errors ? 400 : 200 });
+    }
+    case "desactivar": {
+      const { errors } = await desactivarMiembro(user, concesionario, id);
+      return json<ActionData>({ errors, intent: "miembros" }, { status: errors ? 400 : 200 });
+    }
+    case "transferir": {
+      const { errors } = await transferirPropiedad(user, concesionario, id);
+      return json<ActionData>(
+        { errors, intent: "miembros", success: errors ? undefined : "Propiedad transferida." },
+        { status: errors ? 400 : 200 }
+      );
+    }
+    default:
+      return json<ActionData>({ errors: { form: "Acción no válida." }, intent: "miembros" }, { status: 400 });
+  }
+}
+
+const inputClassName =
+  "mt-1 block w-full rounded-lg border border-gray-200 px-3 py-2 shadow-sm focus:border-brand-primary focus:outline-none focus:ring-1 focus:ring-brand-primary bg-white text-brand-title";
+
+const buttonClassName =
+  "inline-flex justify-center rounded-lg border border-transparent bg-brand-primary px-4 py-2 text-sm font-medium text-brand-title shadow-sm hover:bg-brand-highlight focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-colors duration-200";
+
+const smallButtonClassName =
+  "rounded-lg border border-gray-200 bg-white px-3 py-1 text-xs font-medium text-brand-title hover:bg-brand-secondary disabled:opacity-50 transition-colors";
+
+const formatFecha = (fecha: string) => new Date(fecha).toLocaleDateString("es-CO", { dateStyle: "medium" });
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="mt-1 text-sm text-red-600">{message}</p>;
+}
+
+export default function EquipoPage() {
+  const { concesionario, miembros, invitaciones, usuarioActual, esPropietario } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>() as ActionData | undefined;
+  const isSubmitting = useNavigation().state === "submitting";
+  const invitarFormRef = useRef<HTMLFormElement>(null);
+
+  const invitarErrors = actionData?.intent === "invitar" ? actionData.errors : undefined;
+  const miembrosErrors = actionData?.intent !== "invitar" ? actionData?.errors : undefined;
+
+  // Limpiar el formulario tras enviar la invitación
+  useEffect(() => {
+    if (actionData?.intent === "invitar" && !actionData.errors) {
+      invitarFormRef.current?.reset();
+    }
+  }, [actionData]);
+
+  const pendientes = miembros.filter((m) => m.estado === "pendiente");
+  const equipo = miembros.filter((m) => m.estado !== "pendiente");
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <h1 className="text-2xl font-bold text-brand-title">Equipo de {concesionario.nombre}</h1>
+
+      {actionData?.success && (
+        <div className="rounded-md bg-green-50 p-4 text-sm text-green-700">{actionData.success}</div>
+      )}
+      {miembrosErrors?.form && <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">{miembrosErrors.form}</div>}
+
+      {pendientes.length > 0 && (
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+          <h2 className="text-xl font-bold text-brand-title mb-4">Solicitudes para unirse</h2>
+          <ul className="divide-y divide-gray-200">
+            {pendientes.map((miembro) => (
+              <li key={miembro.id} className="flex flex-wrap items-center justify-between gap-3 py-3 text-sm">
+                <div>
+                  <p className="font-medium text-brand-title">{miembro.user?.name || miembro.user?.email}</p>
+                  <p className="text-brand-text">
+                    {miembro.user?.email} · {ROL_EQUIPO_LABELS[miembro.rol]} · {formatFecha(miembro.created_at)}
+                  </p>
+                </div>
+                <Form method="post" className="flex gap-2">
+                  <input type="hidden" name="id" value={miembro.id} />
+                  <button type="submit" name="_method" value="aprobar" disabled={isSubmitting} className={smallButtonClassName}>
+                    Aprobar
+                  </button>
+                  <button type="submit" name="_method" value="rechazar" disabled={isSubmitting} className={smallButtonClassName}>
+                    Rechazar
+                  </button>
+                </Form>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+        <h2 className="text-xl font-bold text-brand-title mb-4">Miembros</h2>
+        <ul className="divide-y divide-gray-200">
+          {equipo.map((miembro) => {
+            const esOwner = miembro.user_id === concesionario.owner_id;
+            const activo = miembro.estado === "activo";
+            return (
+              <li key={miembro.id} className="flex flex-wrap items-center justify-between gap-3 py-3 text-sm">
+                <div>
+                  <p className="font-medium text-brand-title">
+                    {miembro.user?.name || miembro.user?.email}
+                    {esOwner && (
+                      <span className="ml-2 rounded-full bg-brand-secondary px-2 py-0.5 text-xs font-semibold">
+                        Propietario
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-brand-text">
+                    {miembro.user?.email} · {ROL_EQUIPO_LABELS[miembro.rol]}
+                    {!activo && ` · ${ESTADO_MIEMBRO_LABELS[miembro.estado]}`}
+                  </p>
+                </div>
+                {activo && !esOwner && miembro.user_id !== usuarioActual && (
+                  <Form method="post" className="flex gap-2">
+                    <input type="hidden" name="id" value={miembro.id} />
+                    {esPropietario && (
+                      <button
+                        type="submit"
+                        name="_method"
+                        value="transferir"
+                        disabled={isSubmitting}
+                        className={smallButtonClassName}
+                        onClick={(e) => {
+                          if (!confirm("¿Transferir la propiedad del concesionario a este miembro?")) e.preventDefault();
+                        }}
+                      >
+                        Transferir propiedad
+                      </button>
+                    )}
+                    <button
+                      type="submit"
+                      name="_method"
+                      value="desactivar"
+                      disabled={isSubmitting}
+                      className={smallButtonClassName}
+                    >
+                      Desactivar
+                    </button>
+                  </Form>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+        <h2 className="text-xl font-bold text-brand-title mb-4">Invitar al equipo</h2>
+        <Form method="post" ref={invitarFormRef} className="grid grid-cols-1 gap-4 md:grid-cols-3 md:items-end">
+          <input type="hidden" name="_method" value="invitar" />
+          <div className="md:col-span-2">
+            <label htmlFor="email" className="block text-sm font-medium text-brand-text">
+              Email
+            </label>
+            <input type="email" id="email" name="email" required className={inputClassName} />
+            <FieldError message={invitarErrors?.email} />
+          </div>
+          <div>
+            <label htmlFor="rol" className="block text-sm font-medium text-brand-text">
+              Rol
+            </label>
+            <select id="rol" name="rol" defaultValue="agente" className={inputClassName}>
+              {ROLES_EQUIPO.map((rol) => (
+                <option key={rol} value={rol}>
+                  {ROL_EQUIPO_LABELS[rol]}
+                </option>
+              ))}
+            </select>
+            <FieldError message={invitarErrors?.rol} />
+          </div>
+          {invitarErrors?.form && <p className="text-sm text-red-600 md:col-span-3">{invitarErrors.form}</p>}
+          <div>
+            <button type="submit" disabled={isSubmitting} className={buttonClassName}>
+              Enviar invitación
+            </button>
+          </div>
+        </Form>
+
+        {invitaciones.length > 0 && (
+          <>
+            <h3 className="mt-6 mb-2 font-semibold text-brand-title">Invitaciones pendientes</h3>
+            <ul className="divide-y divide-gray-200">
+              {invitaciones.map((invitacion) => (
+                <li key={invitacion.id} className="flex flex-wrap items-center justify-between gap-3 py-3 text-sm">
+                  <p className="text-brand-text">
+                    {invitacion.email} · {ROL_EQUIPO_LABELS[invitacion.rol]} · vence el {formatFecha(invitacion.expires_at)}
+                  </p>
+                  <Form method="post">
+                    <input type="hidden" name="id" value={invitacion.id} />
+                    <button type="submit" name="_method" value="revocar" disabled={isSubmitting} className={smallButtonClassName}>
+                      Revocar
+                    </button>
+                  </Form>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs, type MetaFunction } from "@remix-run/node";
+import { Link, useLoaderData, useNavigate, useSearchParams } from "@remix-run/react";
+import { useEffect, useState } from "react";
+import BotonFavorito, { useFavoritos } from "~/components/BotonFavorito";
+import { getOptionalUser, requireUser } from "~/utils/auth.server";
+import { agregarFavoritos, listFavoritos, loadVehiculosPorUuid, quitarFavorito } from "~/utils/favoritos.server";
+import { MAX_COMPARACION, MAX_FAVORITOS, limpiarUuids, urlComparacion } from "~/utils/favoritos";
+import { ESTADO_BADGE_CLASSES, ESTADO_LABELS } from "~/utils/vehiculoEstado";
+
+export const meta: MetaFunction = () => [{ title: "Favoritos" }];
+
+// Suscriptores: favoritos de la cuenta. Resto: los del navegador, que la
+// página envía como ?v=uuid&v=uuid
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await getOptionalUser(request);
+  const uuids =
+    user?.rol === "suscriptor"
+      ? await listFavoritos(user.uuid)
+      : limpiarUuids(new URL(request.url).searchParams.getAll("v"), MAX_FAVORITOS);
+  return json({ vehiculos: await loadVehiculosPorUuid(uuids) });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireUser(request, { roles: ["suscriptor"] });
+  const formData = await request.formData();
+  const intent = String(formData.get("_method") || "");
+
+  switch (intent) {
+    case "agregar": {
+      const { error } = await agregarFavoritos(user, formData.getAll("v"));
+      return json({ error }, { status: error ? 400 : 200 });
+    }
+    case "quitar": {
+      const { error } = await quitarFavorito(user, String(formData.get("v") || ""));
+      return json({ error }, { status: error ? 400 : 200 });
+    }
+    default:
+      return json({ error: "Acción no válida." }, { status: 400 });
+  }
+}
+
+const formatPrice = (precio: number | null) =>
+  precio
+    ? new Intl.NumberFormat("es-CO", { style: "currency", currency: "COP", maximumFractionDigits: 0 }).format(precio)
+    : "-";
+
+export default function FavoritosPage() {
+  const { vehiculos } = useLoaderData<typeof loader>();
+  const { favoritos, persistidos, listo } = useFavoritos();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [seleccion, setSeleccion] = useState<string[]>([]);
+
+  // Sin cuenta de suscriptor la URL refleja los favoritos del navegador
+  const enUrl = searchParams.getAll("v").join(",");
+  useEffect(() => {
+    if (!listo || persistidos || favoritos.join(",") === enUrl) return;
+    const params = new URLSearchParams();
+    for (const uuid of favoritos) params.append("v", uuid);
+    navigate(`/favoritos?${params}`, { replace: true, preventScrollReset: true });
+  }, [listo, persistidos, favoritos, enUrl, navigate]);
+
+  // Quitados desde esta misma página se ocultan sin esperar la recarga
+  const visibles = listo ? vehiculos.filter((v) => favoritos.includes(v.uuid)) : vehiculos;
+  const seleccionados = seleccion.filter((uuid) => visibles.some((v) => v.uuid === uuid));
+
+  const toggleSeleccion = (uuid: string) => {
+    setSeleccion((actual) =>
+      actual.includes(uuid)
+        ? actual.filter((s) => s !== uuid)
+        : actual.length < MAX_COMPARACION
+          ? [...actual, uuid]
+          : actual
+    );
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h1 className="text-2xl font-bold text-brand-title">Favoritos ({visibles.length})</h1>
+        <Link
+          to={urlComparacion(seleccionados)}
+          aria-disabled={seleccionados.length < 2}
+          onClick={(e) => {
+            if (seleccionados.length < 2) e.preventDefault();
+          }}
+          className={`inline-flex justify-center rounded-lg bg-brand-primary px-4 py-2 text-sm font-medium text-brand-title shadow-sm hover:bg-brand-highlight transition-colors ${
+            seleccionados.length < 2 ? "cursor-not-allowed opacity-50" : ""
+          }`}
+        >
+          Comparar ({seleccionados.length}/{MAX_COMPARACION})
+        </Link>
+      </div>
+
+      {!persistidos && visibles.length > 0 && (
+        <p className="text-sm text-brand-text">
+          Tus favoritos se guardan en este navegador.{" "}
+          <Link to="/login" className="font-medium text-brand-title hover:underline">
+            Inicia sesión
+          </Link>{" "}
+          con una cuenta de suscriptor para tenerlos en todos tus dispositivos.
+        </p>
+      )}
+
+      {visibles.length === 0 ? (
+        <div className="text-center p-12 rounded-lg bg-gray-50 border border-gray-200">
+          <p className="text-brand-text">
+            Aún no tienes favoritos. Marca el corazón de los vehículos que te interesen en el{" "}
+            <Link to="/vehiculosAdminGrid" className="font-medium text-brand-title hover:underline">
+              catálogo
+            </Link>
+            .
+          </p>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-brand-text">
+            Selecciona entre 2 y {MAX_COMPARACION} vehículos para compararlos.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+            {visibles.map((vehiculo) => {
+              const marcado = seleccionados.includes(vehiculo.uuid);
+              const lleno = !marcado && seleccionados.length >= MAX_COMPARACION;
+              return (
+                <div
+                  key={vehiculo.uuid}
+                  className={`bg-white rounded-xl border shadow-md overflow-hidden ${
+                    marcado ? "border-brand-primary ring-2 ring-brand-primary" : "border-brand-secondary"
+                  }`}
+                >
+                  <div className="relative h-40 bg-brand-bg">
+                    {vehiculo.url_img && (
+                      <img
+                        src={vehiculo.url_img}
+                        alt={`${vehiculo.marca || "Vehículo"} ${vehiculo.modelo || ""}`}
+                        className="w-full h-full object-cover"
+                      />
+                    )}
+                    <div className="absolute top-3 right-3">
+                      <BotonFavorito uuid={vehiculo.uuid} />
+                    </div>
+                  </div>
+                  <div className="p-4 space-y-2">
+                    <Link
+                      to={`/vehiculos/${vehiculo.uuid}`}
+                      className="block text-lg font-bold text-brand-title leading-tight hover:underline"
+                    >
+                      {vehiculo.marca} {vehiculo.modelo} {vehiculo.anio}
+                    </Link>
+                    <div className="flex items-center justify-between">
+                      <span className="text-lg font-bold text-brand-primary">{formatPrice(vehiculo.precio)}</span>
+                      <span
+                        className={`rounded-full px-2 py-0.5 text-xs font-semibold ${ESTADO_BADGE_CLASSES[vehiculo.estado]}`}
+                      >
+                        {ESTADO_LABELS[vehiculo.estado]}
+                      </span>
+                    </div>
+                    <label
+                      className={`flex items-center gap-2 text-sm ${lleno ? "text-gray-400" : "text-brand-text cursor-pointer"}`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={marcado}
+                        disabled={lleno}
+                        onChange={() => toggleSeleccion(vehiculo.uuid)}
+                        className="h-4 w-4 rounded border-gray-300 text-brand-primary focus:ring-brand-primary"
+                      />
+                      Comparar
+                    </label>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { Form, useActionData, useNavigation } from "@remix-run/react";
+import { createAuthClient } from "~/utils/supabase.server";
+import { appUrl } from "~/utils/notificaciones.server";
+
+export async function action({ request }: ActionFunctionArgs) {
+  const formData = await request.formData();
+  const email = String(formData.get("email") || "").trim();
+  if (!email) {
+    return json({ error: "El email es requerido.", success: null }, { status: 400 });
+  }
+
+  const { error } = await createAuthClient().auth.resetPasswordForEmail(email, {
+    redirectTo: `${appUrl(request)}/auth/confirm`,
+  });
+  if (error) console.error("Error solicitando la recuperación de contraseña:", error.message);
+
+  // Misma respuesta exista o no la cuenta
+  return json({
+    error: null,
+    success: "Si existe una cuenta con ese email, te enviamos un enlace para restablecer la contraseña.",
+  });
+}
+
+export default function ForgotPasswordPage() {
+  const actionData = useActionData<typeof action>();
+  const isSubmitting = useNavigation().state === "submitting";
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-brand-bg">
+      <div className="bg-white rounded-lg shadow-md p-8 w-full max-w-md">
+        <h1 className="text-2xl font-bold text-brand-title mb-2 text-center">Recuperar contraseña</h1>
+        <p className="text-sm text-brand-text mb-6 text-center">
+          Te enviaremos un enlace para elegir una contraseña nueva.
+        </p>
+        <Form method="post" className="space-y-6">
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-brand-title mb-1">Email</label>
+            <input
+              type="email"
+              name="email"
+              id="email"
+              className="block w-full rounded-lg border border-brand-secondary px-3 py-2 bg-white text-brand-title shadow-md focus:outline-none focus:ring-2 focus:ring-brand-highlight placeholder:text-brand-text"
+              required
+              autoComplete="email"
+            />
+          </div>
+          {actionData?.error && <div className="text-red-600 text-sm text-center">{actionData.error}</div>}
+          {actionData?.success && <div className="text-green-700 text-sm text-center">{actionData.success}</div>}
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-brand-primary text-brand-title font-semibold py-2 px-4 rounded-md shadow-sm hover:bg-brand-highlight focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2 disabled:opacity-50 transition"
+          >
+            {isSubmitting ? "Enviando..." : "Enviar enlace"}
+          </button>
+        </Form>
+        <div className="text-center mt-4">
+          <a href="/login" className="text-brand-highlight hover:underline text-sm">
+            Volver a iniciar sesión
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
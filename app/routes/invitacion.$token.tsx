@@ -0,0 +1,95 @@
+import { json, redirect, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { getOptionalUser, homePathFor, requireUser } from "~/utils/auth.server";
+import { aceptarInvitacion, loadInvitacion } from "~/utils/equipo.server";
+import { ROL_EQUIPO_LABELS } from "~/utils/equipo";
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const invitacion = await loadInvitacion(params.token ?? "");
+  if (!invitacion) {
+    throw json({ message: "Invitación no encontrada" }, { status: 404 });
+  }
+  const user = await getOptionalUser(request);
+
+  return json({
+    invitacion: {
+      email: invitacion.email,
+      rol: invitacion.rol,
+      concesionario: invitacion.concesionario.nombre,
+      vigente: invitacion.vigente,
+    },
+    usuario: user ? { email: user.email } : null,
+  });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  const invitacion = await loadInvitacion(params.token ?? "");
+  if (!invitacion) {
+    throw json({ message: "Invitación no encontrada" }, { status: 404 });
+  }
+
+  const { error } = await aceptarInvitacion(user, invitacion);
+  if (error) {
+    return json({ error }, { status: 400 });
+  }
+  return redirect(homePathFor(invitacion.rol));
+}
+
+export default function InvitacionPage() {
+  const { invitacion, usuario } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const isSubmitting = useNavigation().state === "submitting";
+  const mismaCuenta = usuario?.email.toLowerCase() === invitacion.email.toLowerCase();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-brand-bg">
+      <div className="bg-white rounded-lg shadow-md p-8 w-full max-w-md space-y-4">
+        <h1 className="text-2xl font-bold text-brand-title text-center">Invitación al equipo</h1>
+        <p className="text-sm text-brand-text text-center">
+          Te invitaron a unirte a <strong>{invitacion.concesionario}</strong> como{" "}
+          {ROL_EQUIPO_LABELS[invitacion.rol]}.
+        </p>
+
+        {!invitacion.vigente ? (
+          <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">
+            Esta invitación ya fue usada, revocada o venció. Pide una nueva al administrador del concesionario.
+          </div>
+        ) : !usuario ? (
+          <div className="rounded-md bg-brand-secondary/40 p-4 text-sm text-brand-title space-y-2">
+            <p>
+              Inicia sesión o crea una cuenta con <strong>{invitacion.email}</strong> y vuelve a abrir este enlace para
+              aceptarla.
+            </p>
+            <div className="flex justify-center gap-4">
+              <Link to="/login" className="text-brand-highlight hover:underline">
+                Iniciar sesión
+              </Link>
+              <Link
+                to={`/register?${new URLSearchParams({ email: invitacion.email })}`}
+                className="text-brand-highlight hover:underline"
+              >
+                Crear cuenta
+              </Link>
+            </div>
+          </div>
+        ) : !mismaCuenta ? (
+          <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">
+            La invitación es para {invitacion.email} y tienes la sesión iniciada como {usuario.email}.
+          </div>
+        ) : (
+          <Form method="post" className="space-y-3">
+            {actionData?.error && <div className="text-red-600 text-sm text-center">{actionData.error}</div>}
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full bg-brand-primary text-brand-title font-semibold py-2 px-4 rounded-md shadow-sm hover:bg-brand-highlight focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2 disabled:opacity-50 transition"
+            >
+              {isSubmitting ? "Aceptando..." : "Aceptar invitación"}
+            </button>
+          </Form>
+        )}
+      </div>
+    </div>
+  );
+}
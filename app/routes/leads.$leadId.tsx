@@ -0,0 +1,246 @@
+import { json, redirect, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { useEffect, useRef } from "react";
+import { requireUser } from "~/utils/auth.server";
+import { createTenantDb } from "~/utils/tenant.server";
+import { STAFF_ROLES, VEHICLE_MANAGER_ROLES } from "~/utils/roles";
+import {
+  addLeadNota,
+  aprobarLead,
+  descartarLead,
+  loadLead,
+  updateLead,
+  type LeadErrors,
+} from "~/utils/leads.server";
+import { ETAPAS_LEAD, ETAPA_BADGE_CLASSES, ETAPA_LABELS } from "~/utils/leads";
+
+type ActionData = {
+  errors?: LeadErrors;
+  intent?: string;
+};
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const user = await requireUser(request, { roles: VEHICLE_MANAGER_ROLES });
+  const db = createTenantDb(user);
+  const solicitud = await db.requireSolicitud(Number(params.leadId));
+  const datos = await loadLead(db, solicitud);
+
+  return json({
+    ...datos,
+    // La ficha de clientes solo está disponible para el equipo del concesionario
+    puedeVerClientes: !!user.rol && STAFF_ROLES.includes(user.rol),
+  });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const user = await requireUser(request, { roles: VEHICLE_MANAGER_ROLES });
+  const db = createTenantDb(user);
+  const solicitud = await db.requireSolicitud(Number(params.leadId));
+  const formData = await request.formData();
+  const intent = formData.get("_method");
+
+  if (intent === "aprobar") {
+    const { errors } = await aprobarLead(db, solicitud);
+    return json<ActionData>({ errors, intent: "cuarentena" }, { status: errors ? 400 : 200 });
+  }
+
+  if (intent === "descartar") {
+    const { errors } = await descartarLead(db, solicitud);
+    if (errors) return json<ActionData>({ errors, intent: "cuarentena" }, { status: 400 });
+    return redirect("/leads?cuarentena=1");
+  }
+
+  if (intent === "nota") {
+    const { errors } = await addLeadNota(db, solicitud, formData);
+    return json<ActionData>({ errors, intent: "nota" }, { status: errors ? 400 : 200 });
+  }
+
+  const { errors } = await updateLead(db, solicitud, formData);
+  return json<ActionData>({ errors, intent: "update" }, { status: errors ? 400 : 200 });
+}
+
+const inputClassName =
+  "mt-1 block w-full rounded-lg border border-gray-200 px-3 py-2 shadow-sm focus:border-brand-primary focus:outline-none focus:ring-1 focus:ring-brand-primary bg-white text-brand-title";
+
+const buttonClassName =
+  "inline-flex justify-center rounded-lg border border-transparent bg-brand-primary px-4 py-2 text-sm font-medium text-brand-title shadow-sm hover:bg-brand-highlight focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-colors duration-200";
+
+const formatFecha = (fecha: string) =>
+  new Date(fecha).toLocaleString("es-CO", { dateStyle: "medium", timeStyle: "short" });
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="mt-1 text-sm text-red-600">{message}</p>;
+}
+
+export default function LeadDetallePage() {
+  const { lead, notas, equipo, cliente, puedeVerClientes } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>() as ActionData | undefined;
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const notaFormRef = useRef<HTMLFormElement>(null);
+
+  const updateErrors = actionData?.intent === "update" ? actionData.errors : undefined;
+  const notaErrors = actionData?.intent === "nota" ? actionData.errors : undefined;
+  const cuarentenaErrors = actionData?.intent === "cuarentena" ? actionData.errors : undefined;
+
+  // Limpiar el campo de nota después de guardarla
+  useEffect(() => {
+    if (actionData?.intent === "nota" && !actionData.errors) {
+      notaFormRef.current?.reset();
+    }
+  }, [actionData]);
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <Link to="/leads" className="text-sm text-brand-text hover:text-brand-title">
+        ← Volver a leads
+      </Link>
+
+      {lead.en_cuarentena && (
+        <div className="rounded-2xl border border-red-200 bg-red-50 p-6">
+          <h2 className="text-lg font-bold text-red-800">Solicitud en cuarentena</h2>
+          <p className="text-sm text-red-700 mt-1">
+            El filtro anti-spam la retuvo{lead.motivo_cuarentena ? `: ${lead.motivo_cuarentena}` : ""}. No se creó el
+            cliente ni se notificó al equipo.
+          </p>
+          {cuarentenaErrors?.form && <p className="mt-2 text-sm text-red-700">{cuarentenaErrors.form}</p>}
+          <div className="mt-4 flex gap-3">
+            <Form method="post">
+              <input type="hidden" name="_method" value="aprobar" />
+              <button type="submit" disabled={isSubmitting} className={buttonClassName}>
+                Aprobar
+              </button>
+            </Form>
+            <Form method="post">
+              <input type="hidden" name="_method" value="descartar" />
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="inline-flex justify-center rounded-lg border border-transparent bg-red-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-50 transition-colors duration-200"
+              >
+                Descartar
+              </button>
+            </Form>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+          <div>
+            <h1 className="text-2xl font-bold text-brand-title">{lead.nombre}</h1>
+            <a href={`mailto:${lead.email}`} className="text-brand-text hover:text-brand-title">
+              {lead.email}
+            </a>
+            <p className="text-xs text-gray-500 mt-1">Recibida el {formatFecha(lead.created_at)}</p>
+          </div>
+          <span className={`inline-block rounded-full px-3 py-1 text-xs font-semibold ${ETAPA_BADGE_CLASSES[lead.etapa]}`}>
+            {ETAPA_LABELS[lead.etapa]}
+          </span>
+        </div>
+
+        {lead.mensaje && <p className="whitespace-pre-line text-brand-text mb-4">{lead.mensaje}</p>}
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2 text-sm">
+          <div>
+            <p className="font-medium text-brand-title">Vehículo</p>
+            {lead.vehiculo ? (
+              <Link to={`/vehiculos/${lead.vehiculo.uuid}`} className="text-brand-text underline hover:text-brand-title">
+                {lead.vehiculo.marca} {lead.vehiculo.modelo} {lead.vehiculo.anio}
+              </Link>
+            ) : (
+              <p className="text-brand-text">No disponible</p>
+            )}
+          </div>
+          <div>
+            <p className="font-medium text-brand-title">Cliente</p>
+            {cliente ? (
+              puedeVerClientes ? (
+                <Link to={`/clientes/${cliente.id}`} className="text-brand-text underline hover:text-brand-title">
+                  {cliente.name} ({cliente.email})
+                </Link>
+              ) : (
+                <p className="text-brand-text">
+                  {cliente.name} ({cliente.email})
+                </p>
+              )
+            ) : (
+              <p className="text-brand-text">Sin cliente registrado con este email</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+        <h2 className="text-xl font-bold text-brand-title mb-4">Seguimiento</h2>
+        <Form method="post" className="space-y-4">
+          <input type="hidden" name="_method" value="update" />
+          {updateErrors?.form && (
+            <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">{updateErrors.form}</div>
+          )}
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div>
+              <label htmlFor="etapa" className="block text-sm font-medium text-brand-text">
+                Etapa
+              </label>
+              <select id="etapa" name="etapa" defaultValue={lead.etapa} className={inputClassName}>
+                {ETAPAS_LEAD.map((etapa) => (
+                  <option key={etapa} value={etapa}>
+                    {ETAPA_LABELS[etapa]}
+                  </option>
+                ))}
+              </select>
+              <FieldError message={updateErrors?.etapa} />
+            </div>
+            <div>
+              <label htmlFor="asignado_a" className="block text-sm font-medium text-brand-text">
+                Responsable
+              </label>
+              <select id="asignado_a" name="asignado_a" defaultValue={lead.asignado_a ?? ""} className={inputClassName}>
+                <option value="">Sin asignar</option>
+                {equipo.map((miembro) => (
+                  <option key={miembro.uuid} value={miembro.uuid}>
+                    {miembro.name || miembro.email}
+                  </option>
+                ))}
+              </select>
+              <FieldError message={updateErrors?.asignado_a} />
+            </div>
+          </div>
+          <button type="submit" disabled={isSubmitting} className={buttonClassName}>
+            {isSubmitting ? "Guardando..." : "Guardar"}
+          </button>
+        </Form>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+        <h2 className="text-xl font-bold text-brand-title mb-4">Notas</h2>
+        <Form method="post" ref={notaFormRef} className="space-y-3 mb-6">
+          <input type="hidden" name="_method" value="nota" />
+          {notaErrors?.form && <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">{notaErrors.form}</div>}
+          <textarea name="texto" rows={3} placeholder="Agregar una nota..." className={inputClassName} />
+          <FieldError message={notaErrors?.texto} />
+          <button type="submit" disabled={isSubmitting} className={buttonClassName}>
+            Agregar nota
+          </button>
+        </Form>
+
+        {notas.length === 0 ? (
+          <p className="text-sm text-brand-text">Sin notas todavía.</p>
+        ) : (
+          <ul className="space-y-4">
+            {notas.map((nota) => (
+              <li key={nota.id} className="border-l-4 border-brand-primary pl-4">
+                <p className="whitespace-pre-line text-sm text-brand-title">{nota.texto}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {nota.autor?.name || nota.autor?.email || "Usuario"} · {formatFecha(nota.created_at)}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { Form, Link, useLoaderData, useSearchParams } from "@remix-run/react";
+import { requireUser } from "~/utils/auth.server";
+import { createTenantDb } from "~/utils/tenant.server";
+import { VEHICLE_MANAGER_ROLES } from "~/utils/roles";
+import { listEquipo, listLeads, parseLeadFiltros } from "~/utils/leads.server";
+import { ETAPAS_LEAD, ETAPA_BADGE_CLASSES, ETAPA_LABELS } from "~/utils/leads";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request, { roles: VEHICLE_MANAGER_ROLES });
+  const db = createTenantDb(user);
+  const filtros = parseLeadFiltros(new URL(request.url).searchParams);
+
+  const [resultado, equipo] = await Promise.all([listLeads(db, filtros), listEquipo(db)]);
+
+  return json({
+    ...resultado,
+    equipo,
+    filtros,
+    usuarioActual: user.uuid,
+  });
+}
+
+const formatFecha = (fecha: string) =>
+  new Date(fecha).toLocaleString("es-CO", { dateStyle: "medium", timeStyle: "short" });
+
+const inputClassName =
+  "rounded-lg border border-gray-200 px-3 py-2 text-sm shadow-sm focus:border-brand-primary focus:outline-none focus:ring-1 focus:ring-brand-primary bg-white text-brand-title";
+
+export default function LeadsPage() {
+  const { leads, total, conteoEtapas, enCuarentena, error, equipo, filtros, usuarioActual } =
+    useLoaderData<typeof loader>();
+  const [searchParams] = useSearchParams();
+
+  const totalPages = Math.max(1, Math.ceil(total / filtros.limit));
+  const totalEtapas = Object.values(conteoEtapas).reduce((sum, n) => sum + n, 0);
+  const nombrePorUuid = new Map(equipo.map((miembro) => [miembro.uuid, miembro.name || miembro.email]));
+
+  const urlCon = (cambios: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(cambios)) {
+      if (value) params.set(key, value);
+      else params.delete(key);
+    }
+    if (!("page" in cambios)) params.delete("page");
+    return `?${params.toString()}`;
+  };
+
+  const tabClassName = (activa: boolean) =>
+    `whitespace-nowrap rounded-full px-4 py-1.5 text-sm font-medium transition-colors ${
+      activa ? "bg-brand-primary text-brand-title" : "bg-white text-brand-text border border-gray-200 hover:bg-brand-secondary"
+    }`;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-6 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <h1 className="text-2xl font-bold text-brand-title">Leads</h1>
+        <Form method="get" className="flex flex-col gap-2 sm:flex-row">
+          {filtros.etapa && <input type="hidden" name="etapa" value={filtros.etapa} />}
+          {filtros.cuarentena && <input type="hidden" name="cuarentena" value="1" />}
+          <input
+            type="search"
+            name="q"
+            defaultValue={filtros.q}
+            placeholder="Buscar por nombre o email"
+            className={inputClassName}
+          />
+          <select name="asignado" defaultValue={filtros.asignado ?? ""} className={inputClassName}>
+            <option value="">Todos los responsables</option>
+            <option value={usuarioActual}>Asignados a mí</option>
+            <option value="sin">Sin asignar</option>
+            {equipo
+              .filter((miembro) => miembro.uuid !== usuarioActual)
+              .map((miembro) => (
+                <option key={miembro.uuid} value={miembro.uuid}>
+                  {miembro.name || miembro.email}
+                </option>
+              ))}
+          </select>
+          <button
+            type="submit"
+            className="rounded-lg bg-brand-primary px-4 py-2 text-sm font-medium text-brand-title hover:bg-brand-highlight transition-colors"
+          >
+            Filtrar
+          </button>
+        </Form>
+      </div>
+
+      {/* Pestañas por etapa */}
+      <div className="mb-6 flex gap-2 overflow-x-auto pb-2">
+        <Link
+          to={urlCon({ etapa: null, cuarentena: null })}
+          className={tabClassName(!filtros.etapa && !filtros.cuarentena)}
+        >
+          Todos ({totalEtapas})
+        </Link>
+        {ETAPAS_LEAD.map((etapa) => (
+          <Link
+            key={etapa}
+            to={urlCon({ etapa, cuarentena: null })}
+            className={tabClassName(filtros.etapa === etapa && !filtros.cuarentena)}
+          >
+            {ETAPA_LABELS[etapa]} ({conteoEtapas[etapa]})
+          </Link>
+        ))}
+        {/* Solicitudes retenidas por el filtro anti-spam */}
+        <Link to={urlCon({ etapa: null, cuarentena: "1" })} className={tabClassName(filtros.cuarentena)}>
+          Cuarentena ({enCuarentena})
+        </Link>
+      </div>
+
+      {error ? (
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+      ) : leads.length === 0 ? (
+        <div className="rounded-2xl border border-gray-200 bg-white p-8 text-center text-brand-text">
+          No hay solicitudes que coincidan con los filtros.
+        </div>
+      ) : (
+        <div className="overflow-hidden rounded-2xl border border-gray-200 bg-white shadow-sm">
+          <ul className="divide-y divide-gray-200">
+            {leads.map((lead) => (
+              <li key={lead.id}>
+                <Link
+                  to={`/leads/${lead.id}`}
+                  className="flex flex-col gap-2 px-6 py-4 hover:bg-brand-secondary/40 md:flex-row md:items-center md:justify-between"
+                >
+                  <div className="min-w-0">
+                    <p className="font-semibold text-brand-title">{lead.nombre}</p>
+                    <p className="text-sm text-brand-text truncate">{lead.email}</p>
+                    {lead.vehiculo && (
+                      <p className="text-xs text-gray-500">
+                        {lead.vehiculo.marca} {lead.vehiculo.modelo} {lead.vehiculo.anio}
+                      </p>
+                    )}
+                    {lead.en_cuarentena && lead.motivo_cuarentena && (
+                      <p className="text-xs text-red-600">{lead.motivo_cuarentena}</p>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3 text-sm">
+                    <span className="text-brand-text">
+                      {lead.asignado_a ? nombrePorUuid.get(lead.asignado_a) ?? "Asignado" : "Sin asignar"}
+                    </span>
+                    <span
+                      className={`inline-block rounded-full px-3 py-1 text-xs font-semibold ${ETAPA_BADGE_CLASSES[lead.etapa]}`}
+                    >
+                      {ETAPA_LABELS[lead.etapa]}
+                    </span>
+                    <span className="text-xs text-gray-500">{formatFecha(lead.created_at)}</span>
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Paginación */}
+      {totalPages > 1 && (
+        <div className="mt-6 flex items-center justify-between text-sm text-brand-text">
+          <Link
+            to={urlCon({ page: String(filtros.page - 1) })}
+            className={`rounded-lg border border-gray-200 bg-white px-4 py-2 ${
+              filtros.page <= 1 ? "pointer-events-none opacity-50" : "hover:bg-brand-secondary"
+            }`}
+            aria-disabled={filtros.page <= 1}
+          >
+            Anterior
+          </Link>
+          <span>
+            Página {filtros.page} de {totalPages}
+          </span>
+          <Link
+            to={urlCon({ page: String(filtros.page + 1) })}
+            className={`rounded-lg border border-gray-200 bg-white px-4 py-2 ${
+              filtros.page >= totalPages ? "pointer-events-none opacity-50" : "hover:bg-brand-secondary"
+            }`}
+            aria-disabled={filtros.page >= totalPages}
+          >
+            Siguiente
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
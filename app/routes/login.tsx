@@ -1,51 +1,68 @@
 import { json, redirect, type ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
-import { Form, useActionData } from "@remix-run/react";
-import { supabase } from "~/utils/supabase.server";
-import { sessionStorage } from "~/utils/session.server";
+import { Form, useActionData, useSearchParams } from "@remix-run/react";
+import { createAuthClient, supabase } from "~/utils/supabase.server";
+import { createUserSession, getOptionalUser, homePathFor } from "~/utils/auth.server";
+import { appUrl } from "~/utils/notificaciones.server";
 
 export async function loader({ request }: LoaderFunctionArgs) {
-  const session = await sessionStorage.getSession(request.headers.get("Cookie"));
-  if (session.has("concesionario_id")) {
-    return redirect("/dashboard");
+  // Cada rol a su página de inicio, igual que al iniciar sesión
+  const user = await getOptionalUser(request);
+  if (user) {
+    return redirect(homePathFor(user.rol));
   }
   return json({});
 }
 
+// Mensaje único para credenciales incorrectas: no revela si el email está registrado
+const CREDENCIALES_INVALIDAS = "Email o contraseña incorrectos.";
+
 export async function action({ request }: ActionFunctionArgs) {
   const formData = await request.formData();
-  const email = formData.get("email");
-  const password = formData.get("password");
+  const email = String(formData.get("email") || "").trim();
+  const password = String(formData.get("password") || "");
+
+  // Enlace mágico: se responde igual exista o no la cuenta
+  if (formData.get("_method") === "magic") {
+    if (!email) {
+      return json({ error: "El email es requerido." }, { status: 400 });
+    }
+    const { error } = await createAuthClient().auth.signInWithOtp({
+      email,
+      options: { shouldCreateUser: false, emailRedirectTo: `${appUrl(request)}/auth/confirm` },
+    });
+    if (error) console.error("Error enviando el enlace mágico:", error.message);
+    return json({ success: "Si existe una cuenta con ese email, te enviamos un enlace para iniciar sesión." });
+  }
+
   if (!email || !password) {
     return json({ error: "Email y contraseña son requeridos." }, { status: 400 });
   }
   // Autenticación con Supabase
-  const { data, error } = await supabase.auth.signInWithPassword({ email: String(email), password: String(password) });
-  if (error || !data.user) {
-    // Detectar error de usuario no encontrado
-    if (error?.message && error.message.toLowerCase().includes("invalid login credentials")) {
-      // Redirigir a /register con el email como parámetro
-      const params = new URLSearchParams({ email: String(email) });
-      return redirect(`/register?${params.toString()}`);
+  const { data, error } = await createAuthClient().auth.signInWithPassword({ email, password });
+  if (error || !data.user || !data.session) {
+    // Cuenta existente con la contraseña correcta pero sin confirmar el email
+    if (error?.code === "email_not_confirmed") {
+      return redirect(`/verify-email?${new URLSearchParams({ email })}`);
+    }
+    if (error && error.code !== "invalid_credentials") {
+      console.error("Error en el inicio de sesión:", error.message);
     }
-    // Otros errores
-    return json({ error: error?.message || "Credenciales inválidas" }, { status: 401 });
+    return json({ error: CREDENCIALES_INVALIDAS }, { status: 401 });
   }
   // Buscar usuario en public.users
-  const { data: userRows, error: userError } = await supabase
+  const { data: userRow, error: userError } = await supabase
     .from("users")
-    .select("concesionario_id")
+    .select("rol")
     .eq("auth_id", data.user.id)
     .single();
-  if (userError || !userRows?.concesionario_id) {
-    return json({ error: "No se encontró el usuario o concesionario." }, { status: 401 });
+  if (userError || !userRow) {
+    return json({ error: "No se encontró el usuario." }, { status: 401 });
   }
-  // Guardar concesionario_id y user_id en la sesión
-  const session = await sessionStorage.getSession(request.headers.get("Cookie"));
-  session.set("concesionario_id", userRows.concesionario_id);
-  session.set("user_id", data.user.id);
-  return redirect("/vehiculos", {
+  // Guardar los tokens de Supabase en la sesión del servidor
+  const cookie = await createUserSession(request, data.session);
+  return redirect(homePathFor(userRow.rol), {
     headers: {
-      "Set-Cookie": await sessionStorage.commitSession(session),
+      "Set-Cookie": cookie,
     },
   });
 }
@@ -55,12 +72,22 @@ function isError(data: any): data is { error: string } {
   return data && typeof data === 'object' && 'error' in data;
 }
 
+function isSuccess(data: unknown): data is { success: string } {
+  return typeof data === "object" && data !== null && "success" in data;
+}
+
 export default function LoginPage() {
   const actionData = useActionData<typeof action>();
+  const [searchParams] = useSearchParams();
   return (
     <div className="min-h-screen flex items-center justify-center bg-brand-bg">
       <div className="bg-white rounded-lg shadow-md p-8 w-full max-w-md">
         <h1 className="text-2xl font-bold text-brand-title mb-6 text-center">Iniciar sesión</h1>
+        {searchParams.get("enlace") === "invalido" && (
+          <div className="mb-6 rounded-md bg-red-50 p-4 text-sm text-red-700">
+            El enlace no es válido o ya expiró. Solicita uno nuevo.
+          </div>
+        )}
         <Form method="post" className="space-y-6">
           <div>
             <label htmlFor="email" className="block text-sm font-medium text-brand-title mb-1">Email</label>
@@ -84,15 +111,33 @@ export default function LoginPage() {
               autoComplete="current-password"
             />
           </div>
+          <div className="text-right -mt-4">
+            <a href="/forgot-password" className="text-brand-highlight hover:underline text-sm">
+              ¿Olvidaste tu contraseña?
+            </a>
+          </div>
           {isError(actionData) && (
             <div className="text-red-600 text-sm text-center">{actionData.error}</div>
           )}
+          {isSuccess(actionData) && (
+            <div className="text-green-700 text-sm text-center">{actionData.success}</div>
+          )}
           <button
             type="submit"
             className="w-full bg-brand-primary text-brand-title font-semibold py-2 px-4 rounded-md shadow-sm hover:bg-brand-highlight focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2 transition"
           >
             Ingresar
           </button>
+          {/* Enlace mágico: solo necesita el email */}
+          <button
+            type="submit"
+            name="_method"
+            value="magic"
+            formNoValidate
+            className="w-full border border-brand-secondary text-brand-title font-semibold py-2 px-4 rounded-md hover:bg-brand-secondary focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2 transition"
+          >
+            Enviarme un enlace de acceso
+          </button>
         </Form>
         <div className="text-center mt-4">
           <a
@@ -0,0 +1,142 @@
+import { json, redirect, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { Form, Link, useLoaderData, useNavigation } from "@remix-run/react";
+import { requireUser, revokeAllSessions } from "~/utils/auth.server";
+import { getSession, listSesiones } from "~/utils/session.server";
+import { ROL_LABELS } from "~/utils/roles";
+import { listMembresias } from "~/utils/equipo.server";
+import { ESTADO_MIEMBRO_LABELS, ROL_EQUIPO_LABELS } from "~/utils/equipo";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  const [session, sesiones, membresias] = await Promise.all([
+    getSession(request),
+    listSesiones(user.auth_id),
+    listMembresias(user),
+  ]);
+
+  return json({
+    user,
+    membresias,
+    sesiones: sesiones.map((sesion) => ({ ...sesion, actual: sesion.id === session.id })),
+  });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  await requireUser(request);
+  return redirect("/login", {
+    headers: {
+      "Set-Cookie": await revokeAllSessions(request),
+    },
+  });
+}
+
+const formatFecha = (fecha: string) =>
+  new Date(fecha).toLocaleString("es-CO", { dateStyle: "medium", timeStyle: "short" });
+
+// Resumen legible del navegador a partir del User-Agent
+function describirDispositivo(userAgent: string | null) {
+  if (!userAgent) return "Dispositivo desconocido";
+  const navegador = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /Chrome\//.test(userAgent)
+      ? "Chrome"
+      : /Firefox\//.test(userAgent)
+        ? "Firefox"
+        : /Safari\//.test(userAgent)
+          ? "Safari"
+          : "Navegador";
+  const sistema = /Android/.test(userAgent)
+    ? "Android"
+    : /iPhone|iPad/.test(userAgent)
+      ? "iOS"
+      : /Windows/.test(userAgent)
+        ? "Windows"
+        : /Mac OS X/.test(userAgent)
+          ? "macOS"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : null;
+  return sistema ? `${navegador} en ${sistema}` : navegador;
+}
+
+export default function PerfilPage() {
+  const { user, membresias, sesiones } = useLoaderData<typeof loader>();
+  const isSubmitting = useNavigation().state === "submitting";
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-2xl space-y-6">
+      <h1 className="text-2xl font-bold text-brand-title">Mi perfil</h1>
+
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6 space-y-2 text-sm">
+        <p>
+          <span className="font-medium text-brand-title">Nombre:</span>{" "}
+          <span className="text-brand-text">{user.name || "Sin nombre"}</span>
+        </p>
+        <p>
+          <span className="font-medium text-brand-title">Email:</span>{" "}
+          <span className="text-brand-text">{user.email}</span>
+        </p>
+        <p>
+          <span className="font-medium text-brand-title">Rol:</span>{" "}
+          <span className="text-brand-text">{user.rol ? ROL_LABELS[user.rol] : "Sin rol"}</span>
+        </p>
+        <Link to="/perfil/notificaciones" className="inline-block pt-2 text-brand-text underline hover:text-brand-title">
+          Preferencias de notificación
+        </Link>
+      </div>
+
+      {membresias.length > 0 && (
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+          <h2 className="text-xl font-bold text-brand-title mb-4">Concesionarios</h2>
+          <ul className="divide-y divide-gray-200">
+            {membresias.map((membresia) => (
+              <li key={membresia.id} className="flex items-center justify-between gap-4 py-3 text-sm">
+                <div>
+                  <p className="font-medium text-brand-title">{membresia.concesionario?.nombre ?? "Concesionario"}</p>
+                  <p className="text-xs text-gray-500">{ROL_EQUIPO_LABELS[membresia.rol]}</p>
+                </div>
+                <span className="rounded-full bg-brand-secondary px-3 py-1 text-xs font-semibold text-brand-title">
+                  {ESTADO_MIEMBRO_LABELS[membresia.estado]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+        <h2 className="text-xl font-bold text-brand-title mb-4">Sesiones activas</h2>
+        <ul className="divide-y divide-gray-200 mb-6">
+          {sesiones.map((sesion) => (
+            <li key={sesion.id} className="flex items-center justify-between gap-4 py-3 text-sm">
+              <div>
+                <p className="font-medium text-brand-title">{describirDispositivo(sesion.user_agent)}</p>
+                <p className="text-xs text-gray-500">
+                  Iniciada el {formatFecha(sesion.created_at)} · Última actividad el {formatFecha(sesion.updated_at)}
+                </p>
+              </div>
+              {sesion.actual && (
+                <span className="rounded-full bg-brand-secondary px-3 py-1 text-xs font-semibold text-brand-title">
+                  Esta sesión
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <Form method="post">
+          <p className="text-sm text-brand-text mb-3">
+            Cierra la sesión en todos los dispositivos, incluido este. Tendrás que volver a iniciar sesión.
+          </p>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="inline-flex justify-center rounded-lg border border-transparent bg-red-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-50 transition-colors duration-200"
+          >
+            Cerrar sesión en todos los dispositivos
+          </button>
+        </Form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { Form, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { requireUser } from "~/utils/auth.server";
+import { cargarPreferencias, guardarPreferencias } from "~/utils/notificaciones.server";
+import { EVENTOS_CONFIGURABLES, EVENTO_DESCRIPCIONES, EVENTO_LABELS } from "~/utils/notificaciones";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request);
+  return json({ preferencias: await cargarPreferencias(user.uuid) });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireUser(request);
+  const { error } = await guardarPreferencias(user.uuid, await request.formData());
+  if (error) {
+    return json({ error, success: null }, { status: 500 });
+  }
+  return json({ error: null, success: "Preferencias guardadas." });
+}
+
+export default function PreferenciasNotificacionPage() {
+  const { preferencias } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const isSubmitting = useNavigation().state === "submitting";
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-2xl">
+      <h1 className="text-2xl font-bold text-brand-title mb-6">Notificaciones por email</h1>
+
+      <Form method="post" className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6 space-y-4">
+        {actionData?.error && <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">{actionData.error}</div>}
+        {actionData?.success && (
+          <div className="rounded-md bg-green-50 p-4 text-sm text-green-700">{actionData.success}</div>
+        )}
+
+        {EVENTOS_CONFIGURABLES.map((evento) => (
+          <div key={evento} className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              id={`evento-${evento}`}
+              name="eventos"
+              value={evento}
+              defaultChecked={preferencias[evento] ?? true}
+              className="mt-1 h-4 w-4 rounded border-gray-300 text-brand-primary focus:ring-brand-primary"
+            />
+            <label htmlFor={`evento-${evento}`} className="cursor-pointer">
+              <span className="block font-medium text-brand-title">{EVENTO_LABELS[evento]}</span>
+              <span className="block text-sm text-brand-text">{EVENTO_DESCRIPCIONES[evento]}</span>
+            </label>
+          </div>
+        ))}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="inline-flex justify-center rounded-lg border border-transparent bg-brand-primary px-4 py-2 text-sm font-medium text-brand-title shadow-sm hover:bg-brand-highlight focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-colors duration-200"
+        >
+          {isSubmitting ? "Guardando..." : "Guardar preferencias"}
+        </button>
+      </Form>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { json, type LoaderFunctionArgs } from "@remix-run/node";
 import { supabase } from "~/utils/supabase.server";
+import { requireUser } from "~/utils/auth.server";
+import { STAFF_ROLES } from "~/utils/roles";
 
 export type LoaderData = {
   product: {
@@ -17,7 +19,8 @@ export type LoaderData = {
   error?: string;
 };
 
-export const loader = async ({ params }: LoaderFunctionArgs) => {
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  await requireUser(request, { roles: STAFF_ROLES });
   try {
     // Validar productId
     if (!params.productId) {
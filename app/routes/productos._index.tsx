@@ -2,6 +2,8 @@ import { json, redirect, type LoaderFunctionArgs } from "@remix-run/node";
 import { useLoaderData, useActionData, useNavigation, useRevalidator, useFetcher, useNavigate, useSearchParams } from "@remix-run/react";
 import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { getFilteredProducts } from "~/utils/productQueries.server";
+import { requireUser } from "~/utils/auth.server";
+import { STAFF_ROLES } from "~/utils/roles";
 import RightSideDrawer from "~/components/RightSideDrawer";
 import ProductForm from "~/components/ProductForm";
 import type { LoaderData as ProductLoaderData } from "./productos.$productId";
@@ -25,6 +27,7 @@ type LoaderData = {
 };
 
 export async function loader({ request }: LoaderFunctionArgs) {
+  await requireUser(request, { roles: STAFF_ROLES });
   const url = new URL(request.url);
   const searchParams = new URLSearchParams(url.search);
   
@@ -1,5 +1,7 @@
 import { json, type ActionFunctionArgs, unstable_parseMultipartFormData, unstable_createMemoryUploadHandler } from "@remix-run/node";
 import { supabase } from "~/utils/supabase.server";
+import { requireUser } from "~/utils/auth.server";
+import { STAFF_ROLES } from "~/utils/roles";
 import { randomUUID } from "crypto";
 import { redirect } from "@remix-run/node";
 
@@ -20,6 +22,7 @@ const MAX_FILE_SIZE = 20_000_000; // 20MB
 const MAX_TOTAL_SIZE = 50_000_000; // 50MB para múltiples archivos
 
 export const action = async ({ request }: ActionFunctionArgs) => {
+  await requireUser(request, { roles: STAFF_ROLES });
   // Configurar el uploadHandler para archivos
   const uploadHandler = unstable_createMemoryUploadHandler({
     maxPartSize: MAX_FILE_SIZE,
@@ -1,7 +1,9 @@
 import { json, redirect, type ActionFunctionArgs } from "@remix-run/node";
 import { Form, useActionData, useSearchParams } from "@remix-run/react";
 import { useRef, useEffect } from "react";
-import { supabase } from "~/utils/supabase.server";
+import { createAuthClient, supabase } from "~/utils/supabase.server";
+import { createUserSession } from "~/utils/auth.server";
+import { appUrl, notificarBienvenida } from "~/utils/notificaciones.server";
 
 export async function action({ request }: ActionFunctionArgs) {
   const formData = await request.formData();
@@ -21,10 +23,10 @@ export async function action({ request }: ActionFunctionArgs) {
   // Registro con Supabase
   console.log("🔍 [REGISTER DEBUG] Intentando registro con:", { email, name, lastName });
   
-  const { data, error } = await supabase.auth.signUp({
+  const { data, error } = await createAuthClient().auth.signUp({
     email,
     password,
-    options: { data: { name, lastName } },
+    options: { data: { name, lastName }, emailRedirectTo: `${appUrl(request)}/auth/confirm` },
   });
   
   console.log("🔍 [REGISTER DEBUG] Respuesta de Supabase:", { 
@@ -35,6 +37,13 @@ export async function action({ request }: ActionFunctionArgs) {
     } : null
   });
   
+  // Email ya registrado: Supabase devuelve un usuario sin identidades (o un
+  // error si no exige confirmación). Se responde igual que a un registro nuevo
+  // para no revelar qué emails tienen cuenta.
+  if (error?.code === "user_already_exists" || (data.user && data.user.identities?.length === 0)) {
+    return redirect(`/verify-email?${new URLSearchParams({ email })}`);
+  }
+
   if (error || !data.user) {
     console.log("❌ [REGISTER DEBUG] Registro falló:", error?.message || "No se creó usuario");
     return json({ error: error?.message || "Error al registrar usuario." }, { status: 400 });
@@ -62,9 +71,19 @@ export async function action({ request }: ActionFunctionArgs) {
     }
 
     console.log("✅ [REGISTER DEBUG] Usuario creado exitosamente en public.users:", userData);
+    await notificarBienvenida(request, { nombre: name, email });
     
-    // Redirigir a completar perfil
-    return redirect("/completar-perfil");
+    // Hasta confirmar el email no se abre sesión
+    if (!data.session || !data.user.email_confirmed_at) {
+      return redirect(`/verify-email?${new URLSearchParams({ email })}`);
+    }
+
+    // Abrir la sesión y redirigir a completar perfil
+    return redirect("/completar-perfil", {
+      headers: {
+        "Set-Cookie": await createUserSession(request, data.session),
+      },
+    });
   } catch (insertError) {
     console.log("❌ [REGISTER DEBUG] Excepción al crear usuario en public.users:", insertError);
     return json({ error: "Error interno al crear perfil de usuario." }, { status: 500 });
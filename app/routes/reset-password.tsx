@@ -0,0 +1,88 @@
+import { json, redirect, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { Form, useActionData, useNavigation } from "@remix-run/react";
+import { getRecoveryUser, homePathFor, resetPassword } from "~/utils/auth.server";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  // Solo se llega aquí desde el enlace de recuperación (ver auth.confirm)
+  if (!(await getRecoveryUser(request))) {
+    return redirect("/forgot-password");
+  }
+  return json({});
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await getRecoveryUser(request);
+  if (!user) {
+    return redirect("/forgot-password");
+  }
+
+  const formData = await request.formData();
+  const password = String(formData.get("password") || "");
+  const confirmacion = String(formData.get("password_confirm") || "");
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return json({ error: `La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.` }, { status: 400 });
+  }
+  if (password !== confirmacion) {
+    return json({ error: "Las contraseñas no coinciden." }, { status: 400 });
+  }
+
+  const { error, cookie } = await resetPassword(request, user, password);
+  if (error || !cookie) {
+    console.error("Error restableciendo la contraseña:", error);
+    return json({ error: "No se pudo cambiar la contraseña. Inténtalo de nuevo." }, { status: 400 });
+  }
+
+  return redirect(homePathFor(user.rol), { headers: { "Set-Cookie": cookie } });
+}
+
+export default function ResetPasswordPage() {
+  const actionData = useActionData<typeof action>();
+  const isSubmitting = useNavigation().state === "submitting";
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-brand-bg">
+      <div className="bg-white rounded-lg shadow-md p-8 w-full max-w-md">
+        <h1 className="text-2xl font-bold text-brand-title mb-6 text-center">Nueva contraseña</h1>
+        <Form method="post" className="space-y-6">
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium text-brand-title mb-1">Contraseña nueva</label>
+            <input
+              type="password"
+              name="password"
+              id="password"
+              minLength={MIN_PASSWORD_LENGTH}
+              className="block w-full rounded-lg border border-brand-secondary px-3 py-2 bg-white text-brand-title shadow-md focus:outline-none focus:ring-2 focus:ring-brand-highlight placeholder:text-brand-text"
+              required
+              autoComplete="new-password"
+            />
+          </div>
+          <div>
+            <label htmlFor="password_confirm" className="block text-sm font-medium text-brand-title mb-1">
+              Confirmar contraseña
+            </label>
+            <input
+              type="password"
+              name="password_confirm"
+              id="password_confirm"
+              minLength={MIN_PASSWORD_LENGTH}
+              className="block w-full rounded-lg border border-brand-secondary px-3 py-2 bg-white text-brand-title shadow-md focus:outline-none focus:ring-2 focus:ring-brand-highlight placeholder:text-brand-text"
+              required
+              autoComplete="new-password"
+            />
+          </div>
+          {actionData?.error && <div className="text-red-600 text-sm text-center">{actionData.error}</div>}
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-brand-primary text-brand-title font-semibold py-2 px-4 rounded-md shadow-sm hover:bg-brand-highlight focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2 disabled:opacity-50 transition"
+          >
+            {isSubmitting ? "Guardando..." : "Cambiar contraseña"}
+          </button>
+        </Form>
+      </div>
+    </div>
+  );
+}
@@ -1,45 +1,53 @@
-import { json, redirect } from "@remix-run/node";
+import { json, redirect, unstable_parseMultipartFormData } from "@remix-run/node";
 import { useLoaderData, Link, Form, useActionData, useNavigation } from "@remix-run/react";
 import type { LoaderFunction, ActionFunction } from "@remix-run/node";
 import { supabase } from "~/utils/supabase.server";
+import { getOptionalUser, requireUser } from "~/utils/auth.server";
+import { VEHICLE_MANAGER_ROLES } from "~/utils/roles";
+import { createTenantDb } from "~/utils/tenant.server";
+import {
+  deleteVehiculoDocumentos,
+  syncFeaturedImage,
+  syncVehiculoImages,
+  uploadVehiculoPdfs,
+  vehiculoUploadHandler,
+  type ArchivoFallido,
+} from "~/utils/vehiculoMedia.server";
+import { deleteVehiculoCascade, VEHICULO_VENDIDO } from "~/utils/vehiculoDeletion.server";
+import { esPlacaDuplicada, PLACA_DUPLICADA, validarPlacaUnica } from "~/utils/vehiculoDuplicados.server";
+import { registrarSolicitudEnCliente } from "~/utils/clientes.server";
+import { referenciaTrasEdicion } from "~/utils/precioReferencia.server";
+import { notificarNuevaSolicitud } from "~/utils/notificaciones.server";
+import { crearTokenContacto, evaluarSolicitudContacto } from "~/utils/contactoAntispam.server";
+import {
+  changeVehiculoEstado,
+  loadGestionEstado,
+  parseCambioEstado,
+  type CambioEstadoErrors,
+  type GestionEstado,
+} from "~/utils/vehiculoEstado.server";
+import { validateVehiculoForm, type VehiculoFormErrors } from "~/utils/vehiculoForm";
+import { formatearPlaca } from "~/utils/placa";
 import { useState, useEffect } from "react";
 import ImageGallery, { type ImageGalleryImage } from "~/components/ImageGallery";
 import FormularioContactoVehiculo from "~/components/FormularioContactoVehiculo";
-
-type Vehiculo = {
-  uuid: string;
-  marca: string | null;
-  modelo: string | null;
-  anio: number | null;
-  km: number | null;
-  precio: number | null;
-  transmision: string | null;
-  url_img: string | null;
-  version: string | null;
-  puertas: number | null;
-  combustible: string | null;
-  color: string | null;
-  placa: string | null;
-  carroceria: string | null;
-  traccion: string | null;
-  cilindraje: number | null;
-};
+import TarjetaConcesionario from "~/components/TarjetaConcesionario";
+import BotonFavorito from "~/components/BotonFavorito";
+import { loadMarcaConcesionario } from "~/utils/concesionario.server";
+import type { MarcaConcesionario } from "~/utils/concesionario";
+import VehiculoEditForm from "~/components/VehiculoEditForm";
+import VehiculoEstadoPanel from "~/components/VehiculoEstadoPanel";
+import { ESTADO_LABELS } from "~/utils/vehiculoEstado";
+import type { Vehiculo } from "~/utils/vehiculo";
 
 type ActionData = {
-  errors?: {
-    marca?: string;
-    modelo?: string;
-    anio?: string;
-    km?: string;
-    precio?: string;
-    transmision?: string;
-    form?: string;
-  };
+  errors?: VehiculoFormErrors;
+  failures?: ArchivoFallido[];
+  estadoErrors?: CambioEstadoErrors;
 };
 
-export const loader: LoaderFunction = async ({ params }) => {
+export const loader: LoaderFunction = async ({ request, params }) => {
   const vehiculoId = params.vehiculoId;
-
   if (!vehiculoId) {
     return json(
       { message: "ID de vehículo no proporcionado" },
@@ -68,6 +76,18 @@ export const loader: LoaderFunction = async ({ params }) => {
     );
   }
 
+  // Solo los roles de gestión del mismo concesionario ven el formulario de edición y el botón de eliminar
+  const user = await getOptionalUser(request);
+  const db = user?.rol && VEHICLE_MANAGER_ROLES.includes(user.rol) ? createTenantDb(user) : null;
+  const owned = db ? await db.findVehiculo(vehiculoId) : null;
+  const canManage = !!owned;
+  // Historial de estados, venta y clientes solo para quien gestiona el vehículo
+  const gestion = db && owned ? await loadGestionEstado(db, owned) : null;
+  // Marca de tiempo firmada para el control anti-spam del formulario de contacto
+  const contactoToken = crearTokenContacto();
+  // Marca y datos de contacto del concesionario que publica el vehículo
+  const concesionario = vehiculo.concesionario_id ? await loadMarcaConcesionario(vehiculo.concesionario_id) : null;
+
   // Obtener imágenes asociadas desde la nueva tabla 'images'
   const { data: imagesData, error: imagesError } = await supabase
     .from("images")
@@ -77,12 +97,13 @@ export const loader: LoaderFunction = async ({ params }) => {
   if (imagesError) {
     console.error("Error al cargar imágenes:", imagesError);
     // Devuelve el vehículo pero con un array de imágenes vacío en caso de error
-    return json({ vehiculo, images: [], pdfs: [] });
+    return json({ vehiculo, images: [], pdfs: [], canManage, gestion, contactoToken, concesionario });
   }
 
-  // Ordenar imágenes por 'order_index' numéricamente
+  // Ordenar imágenes por 'order_index' numéricamente; 'destacada' se guarda como texto
   const images: ImageGalleryImage[] = (imagesData || [])
-    .sort((a, b) => parseInt(a.order_index, 10) - parseInt(b.order_index, 10));
+    .sort((a, b) => parseInt(a.order_index, 10) - parseInt(b.order_index, 10))
+    .map((img) => ({ ...img, id: String(img.id), destacada: String(img.destacada) === "true" }));
 
   // Obtener PDFs asociados desde la tabla documentos_vehiculo
   const { data: pdfsData, error: pdfsError } = await supabase
@@ -92,14 +113,21 @@ export const loader: LoaderFunction = async ({ params }) => {
 
   if (pdfsError) {
     console.error("Error al cargar PDFs:", pdfsError);
-    return json({ vehiculo, images, pdfs: [] });
+    return json({ vehiculo, images, pdfs: [], canManage, gestion, contactoToken, concesionario });
   }
 
-  return json({ vehiculo, images, pdfs: pdfsData || [] });
+  return json({ vehiculo, images, pdfs: pdfsData || [], canManage, gestion, contactoToken, concesionario });
 };
 
 export const action: ActionFunction = async ({ request, params }) => {
-  const formData = await request.formData();
+  // Solo el formulario de edición envía archivos (multipart); se exige sesión antes de leerlos
+  const isMultipart = request.headers.get("Content-Type")?.startsWith("multipart/form-data");
+  if (isMultipart) {
+    await requireUser(request, { roles: VEHICLE_MANAGER_ROLES });
+  }
+  const formData = isMultipart
+    ? await unstable_parseMultipartFormData(request, vehiculoUploadHandler)
+    : await request.formData();
   const method = formData.get("_method") as string;
 
   // --- NUEVO: Manejo de formulario de contacto ---
@@ -119,13 +147,20 @@ export const action: ActionFunction = async ({ request, params }) => {
     }
     if (!mensaje.trim()) errors.mensaje = "El mensaje no puede estar vacío.";
     if (!vehiculo_uuid) errors.form = "Falta el identificador del vehículo.";
+    else if (vehiculo_uuid !== params.vehiculoId) errors.form = "La solicitud no corresponde a este vehículo.";
 
     if (Object.keys(errors).length > 0) {
       return json({ errors });
     }
 
+    // Límites por IP / email y duplicados; lo sospechoso se guarda en cuarentena
+    const evaluacion = await evaluarSolicitudContacto(request, formData, { email, mensaje, vehiculo_uuid });
+    if (!evaluacion.ok) {
+      return json({ errors: { form: evaluacion.message } }, { status: evaluacion.status });
+    }
+
     // Insertar en la tabla solicitud_contacto
-    const { error } = await supabase
+    const { data: solicitud, error } = await supabase
       .from("solicitud_contacto")
       .insert([
         {
@@ -133,32 +168,60 @@ export const action: ActionFunction = async ({ request, params }) => {
           email,
           mensaje,
           vehiculo_uuid,
+          ...evaluacion.huellas,
+          en_cuarentena: evaluacion.cuarentena !== null,
+          motivo_cuarentena: evaluacion.cuarentena,
         },
-      ]);
+      ])
+      .select("id")
+      .single();
 
     if (error) {
       console.error("Error al guardar solicitud de contacto:", error);
       return json({ errors: { form: "Ocurrió un error al enviar tu solicitud. Por favor, inténtalo de nuevo más tarde." } });
     }
 
+    // Las solicitudes en cuarentena no crean cliente ni avisan hasta que alguien las apruebe.
+    // La respuesta es la misma para no dar pistas a los bots.
+    if (evaluacion.cuarentena === null) {
+      // Crear o reutilizar el cliente con ese email y registrar la solicitud como interacción
+      await registrarSolicitudEnCliente({ id: solicitud.id, nombre, email, mensaje, vehiculo_uuid });
+      // Aviso por email al equipo que gestiona el vehículo
+      await notificarNuevaSolicitud(request, { id: solicitud.id, nombre, email, mensaje, vehiculo_uuid });
+    }
+
     return json({ success: "¡Tu solicitud ha sido enviada con éxito! Te contactaremos pronto." });
   }
   // --- FIN NUEVO ---
 
-  if (method === "delete") {
-    const vehiculoId = params.vehiculoId;
+  // Eliminar y actualizar requieren un usuario con permisos de gestión
+  // y que el vehículo pertenezca a su concesionario (404 en caso contrario)
+  const user = await requireUser(request, { roles: VEHICLE_MANAGER_ROLES });
+  const db = createTenantDb(user);
+  const vehiculo = await db.requireVehiculo(params.vehiculoId ?? "");
 
+  if (method === "estado") {
+    const { cambio, errors: estadoErrors } = parseCambioEstado(formData);
+    if (!cambio) {
+      return json<ActionData>({ estadoErrors }, { status: 400 });
+    }
+    const result = await changeVehiculoEstado(request, db, vehiculo, cambio);
+    if (result.errors) {
+      return json<ActionData>({ estadoErrors: result.errors }, { status: 400 });
+    }
+    return redirect(`/vehiculos/${params.vehiculoId}`);
+  }
+
+  if (method === "delete") {
     try {
-      const { error } = await supabase
-        .from("vehiculos")
-        .delete()
-        .eq("uuid", vehiculoId);
+      // Borra también imágenes, PDFs y solicitudes de contacto del vehículo
+      const { error } = await deleteVehiculoCascade(db, vehiculo);
 
       if (error) {
         console.error("Error al eliminar vehículo:", error);
         return json<ActionData>({
           errors: {
-            form: "Error al eliminar el vehículo. Por favor intenta de nuevo.",
+            form: error === VEHICULO_VENDIDO ? error : "Error al eliminar el vehículo. Por favor intenta de nuevo.",
           },
         });
       }
@@ -175,36 +238,26 @@ export const action: ActionFunction = async ({ request, params }) => {
   }
 
   // Si no es delete, es una actualización
-  const marca = formData.get("marca") as string;
-  const modelo = formData.get("modelo") as string;
-  const anio = Number(formData.get("anio"));
-  const km = Number(formData.get("km"));
-  const precio = Number(formData.get("precio"));
-  const transmision = formData.get("transmision") as string;
-
-  // Validación
-  const errors: ActionData["errors"] = {};
-  if (!marca) errors.marca = "La marca es requerida";
-  if (!modelo) errors.modelo = "El modelo es requerido";
-  if (!anio || isNaN(anio)) errors.anio = "El año es requerido";
-  if (!km || isNaN(km)) errors.km = "El kilometraje es requerido";
-  if (!precio || isNaN(precio)) errors.precio = "El precio es requerido";
-  if (!transmision) errors.transmision = "La transmisión es requerida";
-  
+  const { values, errors } = validateVehiculoForm(formData);
   if (Object.keys(errors).length > 0) {
-    return json<ActionData>({ errors });
+    return json<ActionData>({ errors }, { status: 400 });
+  }
+  const placaError = await validarPlacaUnica(db, values.placa, vehiculo.uuid);
+  if (placaError) {
+    return json<ActionData>({ errors: { placa: placaError } }, { status: 400 });
   }
 
   try {
-    const { error } = await supabase
-      .from("vehiculos")
-      .update({ marca, modelo, anio, km, precio, transmision })
-      .eq("uuid", params.vehiculoId)
-      .select()
-      .single();
+    const referencia = await referenciaTrasEdicion(db, vehiculo, values);
+    const { error } = await db.vehiculos
+      .update({ ...values, ...referencia })
+      .eq("id", vehiculo.id);
 
     if (error) {
       console.error("Error al actualizar vehículo:", error);
+      if (esPlacaDuplicada(error)) {
+        return json<ActionData>({ errors: { placa: PLACA_DUPLICADA } }, { status: 400 });
+      }
       return json<ActionData>({
         errors: {
           form: "Error al actualizar el vehículo. Por favor intenta de nuevo.",
@@ -212,6 +265,28 @@ export const action: ActionFunction = async ({ request, params }) => {
       });
     }
 
+    // Imágenes (orden, destacada, nuevas y eliminadas) y documentos
+    const documentIdsToDelete: string[] = JSON.parse((formData.get("documentIdsToDelete") as string) || "[]");
+    const [imagenes, pdfs, documentosBorrados] = await Promise.all([
+      syncVehiculoImages(db, vehiculo, formData),
+      uploadVehiculoPdfs(db, vehiculo, formData),
+      deleteVehiculoDocumentos(db, vehiculo, documentIdsToDelete),
+    ]);
+    const { error: urlImgError } = await syncFeaturedImage(db, vehiculo);
+    if (urlImgError) {
+      console.error("Error actualizando url_img:", urlImgError);
+    }
+
+    const failures = [...imagenes.failures, ...pdfs.failures];
+    if (failures.length > 0 || documentosBorrados.error) {
+      return json<ActionData>({
+        errors: {
+          form: "Los datos del vehículo se guardaron, pero algunos archivos no se pudieron procesar.",
+        },
+        failures,
+      });
+    }
+
     return redirect(`/vehiculos/${params.vehiculoId}`);
   } catch (error) {
     console.error("Error inesperado:", error);
@@ -319,7 +394,7 @@ function DeleteModal({
 }
 
 export default function VehiculoDetallePage() {
-  const { vehiculo, message, images = [], pdfs = [] } = useLoaderData<{ vehiculo?: Vehiculo; message?: string; images?: ImageGalleryImage[]; pdfs?: any[] }>();
+  const { vehiculo, message, images = [], pdfs = [], canManage = false, gestion = null, contactoToken = "", concesionario = null } = useLoaderData<{ vehiculo?: Vehiculo & { precio_referencia?: number | null }; message?: string; images?: ImageGalleryImage[]; pdfs?: any[]; canManage?: boolean; gestion?: GestionEstado | null; contactoToken?: string; concesionario?: MarcaConcesionario | null }>();
   const actionData = useActionData<ActionData>();
   const navigation = useNavigation();
   const isSubmitting = navigation.state === "submitting";
@@ -402,6 +477,7 @@ export default function VehiculoDetallePage() {
             <span className="inline-block bg-brand-primary text-white text-xs font-semibold rounded-full px-3 py-1 ml-auto">
               {vehiculo.anio || 'N/A'}
             </span>
+            <BotonFavorito uuid={vehiculo.uuid} />
           </div>
           <h1 className="text-2xl font-bold text-brand-title w-full text-left">
             {vehiculo.marca} {vehiculo.modelo}
@@ -425,7 +501,9 @@ export default function VehiculoDetallePage() {
             <span className="inline-block bg-brand-primary text-white text-sm font-semibold rounded-full px-3 py-1">
               {vehiculo.anio || 'N/A'}
             </span>
+            <BotonFavorito uuid={vehiculo.uuid} />
           </div>
+          {canManage && vehiculo.estado !== "vendido" && (
           <button
             onClick={() => setIsDeleteModalOpen(true)}
             className="inline-flex items-center gap-2 rounded-lg bg-red-600 text-white font-semibold px-4 py-2 shadow-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 transition w-full sm:w-auto text-base sm:text-base"
@@ -435,6 +513,7 @@ export default function VehiculoDetallePage() {
             </svg>
             Eliminar Vehículo
           </button>
+          )}
         </div>
       </div>
 
@@ -447,7 +526,7 @@ export default function VehiculoDetallePage() {
             <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12l5 5L20 7" />
             </svg>
-            Disponible
+            {ESTADO_LABELS[vehiculo.estado] ?? ESTADO_LABELS.disponible}
           </span>
         </div>
         <div className="bg-white rounded-lg shadow-md p-3 min-w-[170px] flex flex-col items-start justify-center sm:p-6">
@@ -512,9 +591,16 @@ export default function VehiculoDetallePage() {
             </div>
             {/* Formulario de contacto */}
             <div className="mt-6">
-              <FormularioContactoVehiculo vehiculo_uuid={vehiculo.uuid} />
+              <FormularioContactoVehiculo vehiculo_uuid={vehiculo.uuid} token={contactoToken} />
             </div>
           </div>
+
+          {concesionario && (
+            <TarjetaConcesionario
+              concesionario={concesionario}
+              mensajeWhatsapp={`Hola, me interesa el ${vehiculo.marca} ${vehiculo.modelo} ${vehiculo.anio ?? ""}`.trim()}
+            />
+          )}
         </div>
       </div>
 
@@ -663,7 +749,7 @@ export default function VehiculoDetallePage() {
             </div>
             <div>
               <p className="text-sm font-medium text-brand-text">Placa</p>
-              <p className="text-sm font-semibold text-brand-title">{vehiculo.placa || "-"}</p>
+              <p className="text-sm font-semibold text-brand-title">{formatearPlaca(vehiculo.placa) || "-"}</p>
             </div>
           </div>
         </div>
@@ -697,159 +783,34 @@ export default function VehiculoDetallePage() {
         </div>
       )}
 
+      {/* Estado, venta e historial */}
+      {canManage && gestion && (
+        <VehiculoEstadoPanel
+          key={vehiculo.estado}
+          estado={vehiculo.estado ?? "disponible"}
+          gestion={gestion}
+          errors={actionData?.estadoErrors}
+          isSubmitting={isSubmitting}
+        />
+      )}
+
       {/* Formulario de Edición - Ancho completo */}
+      {canManage && (
       <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
         <h2 className="text-xl font-bold text-brand-title mb-6">Editar Vehículo</h2>
 
-        <Form method="post" className="space-y-6">
-          {actionData?.errors?.form && (
-            <div className="rounded-md bg-red-50 p-4 text-sm text-red-700 dark:bg-red-900/50 dark:text-red-200">
-              {actionData.errors.form}
-            </div>
-          )}
-
-          <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
-            <div>
-              <label
-                htmlFor="marca"
-                className="block text-sm font-medium text-brand-text"
-              >
-                Marca
-              </label>
-              <input
-                type="text"
-                name="marca"
-                id="marca"
-                defaultValue={vehiculo.marca || ""}
-                className="mt-1 block w-full rounded-lg border border-gray-200 px-3 py-2 shadow-sm focus:border-brand-primary focus:outline-none focus:ring-1 focus:ring-brand-primary bg-white text-brand-title"
-              />
-              {actionData?.errors?.marca && (
-                <p className="mt-1 text-sm text-red-600 dark:text-red-400">
-                  {actionData.errors.marca}
-                </p>
-              )}
-            </div>
-
-            <div>
-              <label
-                htmlFor="modelo"
-                className="block text-sm font-medium text-brand-text"
-              >
-                Modelo
-              </label>
-              <input
-                type="text"
-                name="modelo"
-                id="modelo"
-                defaultValue={vehiculo.modelo || ""}
-                className="mt-1 block w-full rounded-lg border border-gray-200 px-3 py-2 shadow-sm focus:border-brand-primary focus:outline-none focus:ring-1 focus:ring-brand-primary bg-white text-brand-title"
-              />
-              {actionData?.errors?.modelo && (
-                <p className="mt-1 text-sm text-red-600 dark:text-red-400">
-                  {actionData.errors.modelo}
-                </p>
-              )}
-            </div>
-
-            <div>
-              <label
-                htmlFor="anio"
-                className="block text-sm font-medium text-brand-text"
-              >
-                Año
-              </label>
-              <input
-                type="number"
-                name="anio"
-                id="anio"
-                defaultValue={vehiculo.anio || ""}
-                className="mt-1 block w-full rounded-lg border border-gray-200 px-3 py-2 shadow-sm focus:border-brand-primary focus:outline-none focus:ring-1 focus:ring-brand-primary bg-white text-brand-title"
-              />
-              {actionData?.errors?.anio && (
-                <p className="mt-1 text-sm text-red-600 dark:text-red-400">
-                  {actionData.errors.anio}
-                </p>
-              )}
-            </div>
-
-            <div>
-              <label
-                htmlFor="km"
-                className="block text-sm font-medium text-brand-text"
-              >
-                Kilometraje
-              </label>
-              <input
-                type="number"
-                name="km"
-                id="km"
-                defaultValue={vehiculo.km || ""}
-                className="mt-1 block w-full rounded-lg border border-gray-200 px-3 py-2 shadow-sm focus:border-brand-primary focus:outline-none focus:ring-1 focus:ring-brand-primary bg-white text-brand-title"
-              />
-              {actionData?.errors?.km && (
-                <p className="mt-1 text-sm text-red-600 dark:text-red-400">
-                  {actionData.errors.km}
-                </p>
-              )}
-            </div>
-
-            <div>
-              <label
-                htmlFor="precio"
-                className="block text-sm font-medium text-brand-text"
-              >
-                Precio
-              </label>
-              <input
-                type="number"
-                name="precio"
-                id="precio"
-                defaultValue={vehiculo.precio || ""}
-                className="mt-1 block w-full rounded-lg border border-gray-200 px-3 py-2 shadow-sm focus:border-brand-primary focus:outline-none focus:ring-1 focus:ring-brand-primary bg-white text-brand-title"
-              />
-              {actionData?.errors?.precio && (
-                <p className="mt-1 text-sm text-red-600 dark:text-red-400">
-                  {actionData.errors.precio}
-                </p>
-              )}
-            </div>
-
-            <div>
-              <label
-                htmlFor="transmision"
-                className="block text-sm font-medium text-brand-text"
-              >
-                Transmisión
-              </label>
-              <select
-                name="transmision"
-                id="transmision"
-                defaultValue={vehiculo.transmision || ""}
-                className="mt-1 block w-full rounded-lg border border-gray-200 px-3 py-2 shadow-sm focus:border-brand-primary focus:outline-none focus:ring-1 focus:ring-brand-primary bg-white text-brand-title"
-              >
-                <option value="">Seleccione...</option>
-                <option value="Manual">Manual</option>
-                <option value="Automática">Automática</option>
-              </select>
-              {actionData?.errors?.transmision && (
-                <p className="mt-1 text-sm text-red-600 dark:text-red-400">
-                  {actionData.errors.transmision}
-                </p>
-              )}
-            </div>
-          </div>
-
-          <div>
-            <button
-              type="submit"
-              disabled={isSubmitting}
-              className="inline-flex justify-center rounded-lg border border-transparent bg-brand-primary px-4 py-2 text-sm font-medium text-brand-title shadow-sm hover:bg-brand-highlight focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-colors duration-200"
-            >
-              {isSubmitting ? "Guardando..." : "Guardar Cambios"}
-            </button>
-          </div>
-        </Form>
+        {/* La key remonta el formulario tras guardar para partir de las imágenes ya persistidas */}
+        <VehiculoEditForm
+          key={images.map((img) => img.id).join(",")}
+          vehiculo={vehiculo}
+          images={images}
+          pdfs={pdfs}
+          errors={actionData?.errors}
+          failures={actionData?.failures}
+          isSubmitting={isSubmitting}
+        />
       </div>
+      )}
 
       <DeleteModal
         isOpen={isDeleteModalOpen}
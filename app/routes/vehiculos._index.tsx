@@ -1,8 +1,22 @@
-import { json, redirect, type LoaderFunctionArgs } from "@remix-run/node";
-import { useLoaderData, useNavigate, useSearchParams, useFetcher } from "@remix-run/react";
+import { json, redirect, type HeadersFunction, type LoaderFunctionArgs } from "@remix-run/node";
+import { Link, useLoaderData, useNavigate, useSearchParams, useFetcher } from "@remix-run/react";
 import { useState, useMemo, Fragment, useEffect } from "react";
-import { supabase } from "~/utils/supabase.server";
-import { getSession } from "~/utils/session.server";
+import { requireUser } from "~/utils/auth.server";
+import { createTenantDb } from "~/utils/tenant.server";
+import { jsonConEtag } from "~/utils/etag.server";
+import { VEHICLE_MANAGER_ROLES } from "~/utils/roles";
+import {
+  ESTADOS_VEHICULO,
+  ESTADO_BADGE_CLASSES,
+  ESTADO_LABELS,
+  isEstadoVehiculo,
+  type EstadoVehiculo,
+} from "~/utils/vehiculoEstado";
+import { aplicarFiltrosCatalogo, parseFiltrosCatalogo } from "~/utils/facetas.server";
+import { limpiarConsulta } from "~/utils/busqueda";
+import { FILTROS_CATALOGO_VACIOS, type FacetaValor, type Facetas } from "~/utils/facetas";
+import BuscadorVehiculos from "~/components/BuscadorVehiculos";
+import { alertaPrecio } from "~/utils/precioReferencia";
 import { Range } from 'react-range';
 import React from "react";
 
@@ -18,6 +32,8 @@ export type VehiculoType = {
   url_img: string | null;
   version?: string;
   combustible?: string;
+  estado: EstadoVehiculo;
+  precio_referencia: number | null;
 };
 
 type LoaderData = {
@@ -26,91 +42,65 @@ type LoaderData = {
   totalVehiculos: number;
   currentPage: number;
   limit: number;
-  marcas: string[];
-  combustibles: string[];
-  transmisiones: string[];
+  facetas: Facetas;
+  conteoEstados: Record<EstadoVehiculo, number>;
 };
 
 export async function loader({ request }: LoaderFunctionArgs) {
   const url = new URL(request.url);
   const searchParams = url.searchParams;
-  const session = await getSession(request);
-  const concesionario_id = session.get("concesionario_id");
+  const user = await requireUser(request, { roles: VEHICLE_MANAGER_ROLES });
+  // Todas las consultas quedan limitadas al inventario del concesionario de la sesión
+  const db = createTenantDb(user);
   const page = Number(searchParams.get("page")) || 1;
   const limit = 16;
   const offset = (page - 1) * limit;
   const to = offset + limit - 1;
 
+  const filtros = parseFiltrosCatalogo(searchParams);
+  const estado = searchParams.get("estado");
+  const estadoFiltro = isEstadoVehiculo(estado) ? estado : null;
+
   // --- ENDPOINTS PARA SELECTS ANIDADOS DEL MODAL ---
+  // El modal edita filtros aún no aplicados, así que pide sus opciones aparte.
+  // Llevan ETag del contenido para que el navegador reutilice la respuesta.
   const forOptions = searchParams.get("forOptions");
-  if (forOptions === "modelos" && searchParams.get("marca")) {
-    const { data, error } = await supabase
-      .from("vehiculos")
-      .select("modelo")
-      .eq("marca", searchParams.get("marca"))
-      .not("modelo", "is", null)
-      .not("modelo", "eq", "")
-      .order("modelo");
-    if (error) return json({ modelos: [] });
-    const modelos = Array.from(new Set((data || []).map((row: any) => row.modelo).filter(Boolean)));
-    return json({ modelos });
+  if (forOptions === "modelos" && filtros.marca) {
+    const { valores } = await db.facetas({ ...FILTROS_CATALOGO_VACIOS, marca: filtros.marca });
+    return jsonConEtag(request, { modelos: (valores.modelo ?? []).map((v) => v.valor) });
   }
-  if (forOptions === "anios" && searchParams.get("marca") && searchParams.get("modelo")) {
-    const { data, error } = await supabase
-      .from("vehiculos")
-      .select("anio")
-      .eq("marca", searchParams.get("marca"))
-      .eq("modelo", searchParams.get("modelo"))
-      .not("anio", "is", null)
-      .order("anio", { ascending: false });
-    if (error) return json({ anios: [] });
-    const anios = Array.from(new Set((data || []).map((row: any) => String(row.anio)).filter(Boolean)));
-    return json({ anios });
+  if (forOptions === "anios" && filtros.marca && filtros.modelo) {
+    const { valores } = await db.facetas({
+      ...FILTROS_CATALOGO_VACIOS,
+      marca: filtros.marca,
+      modelo: filtros.modelo,
+    });
+    return jsonConEtag(request, { anios: (valores.anio ?? []).map((v) => v.valor) });
   }
 
-  // --- OPCIONES PARA FILTROS (MARCAS, COMBUSTIBLES, TRANSMISIONES) ---
-  const { data: marcasData } = await supabase
-    .from("vehiculos")
-    .select("marca")
-    .not("marca", "is", null)
-    .not("marca", "eq", "")
-    .order("marca");
-  const marcas = Array.from(new Set((marcasData || []).map((row: any) => row.marca).filter(Boolean)));
-
-  const { data: combustiblesData } = await supabase
-    .from("vehiculos")
-    .select("combustible")
-    .not("combustible", "is", null)
-    .not("combustible", "eq", "")
-    .order("combustible");
-  const combustibles = Array.from(new Set((combustiblesData || []).map((row: any) => row.combustible).filter(Boolean)));
-
-  const { data: transmisionesData } = await supabase
-    .from("vehiculos")
-    .select("transmision")
-    .not("transmision", "is", null)
-    .not("transmision", "eq", "")
-    .order("transmision");
-  const transmisiones = Array.from(new Set((transmisionesData || []).map((row: any) => row.transmision).filter(Boolean)));
+  // --- FACETAS PARA FILTROS (valores con conteo calculados en la base de datos) ---
+  const facetas = await db.facetas(filtros, estadoFiltro);
+
+  // Conteo por estado para las tarjetas de métricas
+  const { data: estadosData } = await db.vehiculos.select("estado");
+  const conteoEstados = Object.fromEntries(ESTADOS_VEHICULO.map((estado) => [estado, 0])) as Record<EstadoVehiculo, number>;
+  for (const row of estadosData || []) {
+    if (isEstadoVehiculo(row.estado)) conteoEstados[row.estado] += 1;
+  }
 
   try {
-    // Consulta paginada a la tabla vehiculos con todos los campos necesarios
-    let query = supabase
-      .from("vehiculos")
-      .select("uuid, marca, modelo, anio, km, precio, transmision, url_img, version, combustible", { count: "exact", head: false });
-    if (concesionario_id) query = query.eq('concesionario_id', concesionario_id);
-    if (searchParams.get("marca")) query = query.eq('marca', searchParams.get("marca"));
-    if (searchParams.get("modelo")) query = query.eq('modelo', searchParams.get("modelo"));
-    if (searchParams.get("anio")) query = query.eq('anio', Number(searchParams.get("anio")));
-    if (searchParams.get("precioMin")) query = query.gte('precio', Number(searchParams.get("precioMin")));
-    if (searchParams.get("precioMax")) query = query.lte('precio', Number(searchParams.get("precioMax")));
-    if (searchParams.get("kmMin")) query = query.gte('km', Number(searchParams.get("kmMin")));
-    if (searchParams.get("kmMax")) query = query.lte('km', Number(searchParams.get("kmMax")));
-    if (searchParams.get("combustible")) query = query.eq('combustible', searchParams.get("combustible"));
-    if (searchParams.get("search")) query = query.or(`marca.ilike.%${searchParams.get("search")}%,modelo.ilike.%${searchParams.get("search")}%,version.ilike.%${searchParams.get("search")}%`);
-    const { data: vehiculos, error, count } = await query
-      .order("anio", { ascending: false })
-      .range(offset, to);
+    // Consulta paginada a la tabla vehiculos con todos los campos necesarios.
+    // Con búsqueda de texto se conserva el orden por relevancia de buscar_vehiculos.
+    const columnas =
+      "uuid, marca, modelo, anio, km, precio, transmision, url_img, version, combustible, estado, precio_referencia";
+    const busqueda = limpiarConsulta(searchParams.get("search"));
+    let query = busqueda
+      ? db.vehiculos.buscar(busqueda, { count: "exact" })
+      : db.vehiculos.select(columnas, { count: "exact", head: false }).order("anio", { ascending: false });
+    if (estadoFiltro) query = query.eq('estado', estadoFiltro);
+    query = aplicarFiltrosCatalogo(query, filtros);
+    // select() va al final porque la RPC devuelve filas completas y tras él ya no se puede filtrar
+    const { data: vehiculos, error, count } = await query.select(columnas).range(offset, to);
 
     if (error) throw error;
     const totalVehiculos = count || 0;
@@ -125,9 +115,8 @@ export async function loader({ request }: LoaderFunctionArgs) {
       totalVehiculos,
       currentPage: page,
       limit,
-      marcas,
-      combustibles,
-      transmisiones,
+      facetas,
+      conteoEstados,
     });
   } catch (error: any) {
     return json<LoaderData>({
@@ -136,14 +125,24 @@ export async function loader({ request }: LoaderFunctionArgs) {
       totalVehiculos: 0,
       currentPage: 1,
       limit,
-      marcas,
-      combustibles,
-      transmisiones,
+      facetas,
+      conteoEstados,
     });
   }
 }
 
 // --- PriceRangeFilter ---
+// Aviso de precio muy alejado del sugerido por el cotizador al publicar
+function AvisoPrecio({ vehiculo }: { vehiculo: VehiculoType }) {
+  const aviso = alertaPrecio(vehiculo);
+  if (!aviso) return null;
+  return (
+    <span className="block text-[10px] font-semibold text-yellow-700" title="Comparado con el precio sugerido del cotizador">
+      {aviso}
+    </span>
+  );
+}
+
 function PriceRangeFilter({
   minSlider,
   maxSlider,
@@ -379,6 +378,8 @@ const FiltrosContent = ({
   </Fragment>
 );
 
+export const headers: HeadersFunction = ({ loaderHeaders }) => loaderHeaders;
+
 export default function VehiculosPage() {
   const loaderData = useLoaderData<any>();
   // Type guard para saber si loaderData es LoaderData
@@ -390,9 +391,12 @@ export default function VehiculosPage() {
   const totalVehiculos = isMainData(loaderData) ? loaderData.totalVehiculos : 0;
   const currentPage = isMainData(loaderData) ? loaderData.currentPage : 1;
   const limit = isMainData(loaderData) ? loaderData.limit : 16;
-  const marcas = isMainData(loaderData) ? loaderData.marcas : [];
-  const combustibles = isMainData(loaderData) ? loaderData.combustibles : [];
-  const transmisiones = isMainData(loaderData) ? loaderData.transmisiones : [];
+  // Facetas de los filtros aplicados: cada opción muestra cuántos vehículos quedarían
+  const valores = isMainData(loaderData) ? loaderData.facetas.valores : {};
+  const marcas: FacetaValor[] = valores.marca ?? [];
+  const combustibles: FacetaValor[] = valores.combustible ?? [];
+  const transmisiones: FacetaValor[] = valores.transmision ?? [];
+  const conteoEstados = isMainData(loaderData) ? loaderData.conteoEstados : null;
 
   const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
@@ -406,25 +410,10 @@ export default function VehiculosPage() {
   const [combustibleBarra, setCombustibleBarra] = useState<string>(searchParams.get('combustible') || "");
   const [transmisionBarra, setTransmisionBarra] = useState<string>(searchParams.get('transmision') || "");
   const [searchBarra, setSearchBarra] = useState<string>(searchParams.get('search') || "");
-  const modelosBarraFetcher = useFetcher<any>();
-  const aniosBarraFetcher = useFetcher<any>();
-  const modelosBarra = modelosBarraFetcher.data?.modelos || [];
-  const aniosBarra = aniosBarraFetcher.data?.anios || [];
-
-  // Efectos para cargar modelos/anios dinámicamente (desktop/tablet)
-  useEffect(() => {
-    if (marcaBarra) {
-      modelosBarraFetcher.load(`?forOptions=modelos&marca=${encodeURIComponent(marcaBarra)}`);
-      setModeloBarra("");
-      setAnioBarra("");
-    }
-  }, [marcaBarra]);
-  useEffect(() => {
-    if (marcaBarra && modeloBarra) {
-      aniosBarraFetcher.load(`?forOptions=anios&marca=${encodeURIComponent(marcaBarra)}&modelo=${encodeURIComponent(modeloBarra)}`);
-      setAnioBarra("");
-    }
-  }, [marcaBarra, modeloBarra]);
+  const [estadoBarra, setEstadoBarra] = useState<string>(searchParams.get('estado') || "");
+  // La barra aplica los filtros al instante, así que sus opciones salen de las facetas
+  const modelosBarra: FacetaValor[] = marcaBarra ? valores.modelo ?? [] : [];
+  const aniosBarra: FacetaValor[] = modeloBarra ? valores.anio ?? [] : [];
 
   // Sincronizar filtros con searchParams (desktop/tablet)
   useEffect(() => {
@@ -435,8 +424,9 @@ export default function VehiculosPage() {
     if (combustibleBarra) params.set("combustible", combustibleBarra); else params.delete("combustible");
     if (transmisionBarra) params.set("transmision", transmisionBarra); else params.delete("transmision");
     if (searchBarra) params.set("search", searchBarra); else params.delete("search");
+    if (estadoBarra) params.set("estado", estadoBarra); else params.delete("estado");
     setSearchParams(params, { replace: true });
-  }, [marcaBarra, modeloBarra, anioBarra, combustibleBarra, transmisionBarra, searchBarra]);
+  }, [marcaBarra, modeloBarra, anioBarra, combustibleBarra, transmisionBarra, searchBarra, estadoBarra]);
 
   // --- ESTADOS Y FETCHERS PARA EL MODAL DE FILTROS (MOBILE) ---
   // Estados locales del modal
@@ -446,6 +436,7 @@ export default function VehiculosPage() {
   const [modalCombustible, setModalCombustible] = useState<string>(searchParams.get('combustible') || "");
   const [modalTransmision, setModalTransmision] = useState<string>(searchParams.get('transmision') || "");
   const [modalSearch, setModalSearch] = useState<string>(searchParams.get('search') || "");
+  const [modalEstado, setModalEstado] = useState<string>(searchParams.get('estado') || "");
   const [modalPrecioRango, setModalPrecioRango] = useState<string | null>(null);
   const [modalMinPrice, setModalMinPrice] = useState<string>("");
   const [modalMaxPrice, setModalMaxPrice] = useState<string>("");
@@ -480,6 +471,7 @@ export default function VehiculosPage() {
     setModalCombustible("");
     setModalTransmision("");
     setModalSearch("");
+    setModalEstado("");
     setModalPrecioRango(null);
     setModalMinPrice("");
     setModalMaxPrice("");
@@ -497,6 +489,7 @@ export default function VehiculosPage() {
     if (modalCombustible) params.set("combustible", modalCombustible);
     if (modalTransmision) params.set("transmision", modalTransmision);
     if (modalSearch) params.set("search", modalSearch);
+    if (modalEstado) params.set("estado", modalEstado);
     if (modalMinPrice) params.set("precioMin", modalMinPrice);
     if (modalMaxPrice) params.set("precioMax", modalMaxPrice);
     setSearchParams(params, { replace: true });
@@ -539,17 +532,26 @@ export default function VehiculosPage() {
           <h1 className="text-3xl font-bold text-brand-title">Listado de Vehículos</h1>
           <span className="inline-block bg-brand-primary text-white text-sm font-semibold rounded-full px-3 py-1">{totalVehiculos}</span>
         </div>
-        <button
-          type="button"
-          className="inline-flex items-center gap-2 rounded-lg bg-brand-primary text-brand-title font-semibold px-4 py-2 shadow-md hover:bg-brand-highlight focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2 transition w-full sm:w-auto text-base sm:text-base"
-          onClick={() => navigate('/vehiculos/nuevo')}
-          style={{ minHeight: '40px', maxWidth: '100%' }}
-        >
-          <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-          </svg>
-          Agregar Vehículo
-        </button>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Link
+            to="/vehiculos/importar"
+            className="inline-flex items-center justify-center gap-2 rounded-lg border border-gray-200 bg-white text-brand-title font-semibold px-4 py-2 shadow-sm hover:bg-brand-secondary transition w-full sm:w-auto text-base"
+            style={{ minHeight: '40px' }}
+          >
+            Importar desde Excel
+          </Link>
+          <button
+            type="button"
+            className="inline-flex items-center gap-2 rounded-lg bg-brand-primary text-brand-title font-semibold px-4 py-2 shadow-md hover:bg-brand-highlight focus:outline-none focus:ring-2 focus:ring-brand-highlight focus:ring-offset-2 transition w-full sm:w-auto text-base sm:text-base"
+            onClick={() => navigate('/vehiculos/nuevo')}
+            style={{ minHeight: '40px', maxWidth: '100%' }}
+          >
+            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+            </svg>
+            Agregar Vehículo
+          </button>
+        </div>
       </div>
 
       {/* Tarjetas de Métricas */}
@@ -561,12 +563,12 @@ export default function VehiculosPage() {
         </div>
         <div className="bg-white rounded-lg shadow-md p-3 min-w-[170px] flex flex-col items-start justify-center sm:p-6">
           <span className="text-xs text-brand-text font-semibold mb-1">Vehículos Disponibles</span>
-          <span className="text-lg font-bold text-brand-title">{totalVehiculos}</span>
+          <span className="text-lg font-bold text-brand-title">{conteoEstados?.disponible ?? 0}</span>
           <span className="flex items-center text-green-600 text-xs mt-0.5"><svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12l5 5L20 7" /></svg>+2% este mes</span>
         </div>
         <div className="bg-white rounded-lg shadow-md p-3 min-w-[170px] flex flex-col items-start justify-center sm:p-6">
           <span className="text-xs text-brand-text font-semibold mb-1">Vehículos Vendidos</span>
-          <span className="text-lg font-bold text-brand-title">0</span>
+          <span className="text-lg font-bold text-brand-title">{conteoEstados?.vendido ?? 0}</span>
           <span className="flex items-center text-green-600 text-xs mt-0.5"><svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12l5 5L20 7" /></svg>+0% este mes</span>
         </div>
       </div>
@@ -577,20 +579,18 @@ export default function VehiculosPage() {
           <span className="text-gray-400">
             <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth="1.5" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-4.35-4.35M11 19a8 8 0 100-16 8 8 0 000 16z" /></svg>
           </span>
-          <input
-            type="search"
-            value={searchParams.get('search') || ''}
-            onChange={e => {
+          <BuscadorVehiculos
+            valor={searchParams.get('search') || ''}
+            onBuscar={valor => {
               const params = new URLSearchParams(searchParams);
-              if (e.target.value) {
-                params.set('search', e.target.value);
+              if (valor) {
+                params.set('search', valor);
               } else {
                 params.delete('search');
               }
               setSearchParams(params, { replace: true });
             }}
             placeholder="Buscar vehículo..."
-            className="flex-1 bg-transparent outline-none text-sm text-brand-title placeholder:text-gray-400"
           />
           <button
             type="button"
@@ -614,16 +614,10 @@ export default function VehiculosPage() {
       {/* Barra de filtros horizontal (solo desktop/tablet) */}
       <div className="hidden sm:flex flex-col gap-2 mb-6">
         <div className="flex items-center gap-2 bg-white rounded-xl border border-gray-200 px-4 py-2 shadow-sm">
-          {/* Input de búsqueda (sin funcionalidad por ahora) */}
+          {/* Búsqueda de texto con autocompletado */}
           <div className="flex items-center flex-1">
             <svg className="w-5 h-5 text-gray-400 mr-2" fill="none" stroke="currentColor" strokeWidth="1.5" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-4.35-4.35M11 19a8 8 0 100-16 8 8 0 000 16z" /></svg>
-            <input
-              type="text"
-              className="w-full bg-transparent outline-none text-sm text-brand-title placeholder:text-gray-400 focus:outline-none"
-              placeholder="Buscar por marca, modelo o versión..."
-              value={searchBarra}
-              onChange={e => setSearchBarra(e.target.value)}
-            />
+            <BuscadorVehiculos valor={searchBarra} onBuscar={setSearchBarra} />
           </div>
           {/* Select Marca */}
           <select
@@ -636,8 +630,8 @@ export default function VehiculosPage() {
             }}
           >
             <option value="">Marca</option>
-            {marcas.map((m: string) => (
-              <option key={m} value={m}>{m}</option>
+            {marcas.map(({ valor, total }) => (
+              <option key={valor} value={valor}>{valor} ({total})</option>
             ))}
           </select>
           {/* Select Modelo */}
@@ -651,8 +645,8 @@ export default function VehiculosPage() {
             disabled={!marcaBarra}
           >
             <option value="">Modelo</option>
-            {modelosBarra.map((m: string) => (
-              <option key={m} value={m}>{m}</option>
+            {modelosBarra.map(({ valor, total }) => (
+              <option key={valor} value={valor}>{valor} ({total})</option>
             ))}
           </select>
           {/* Select Año */}
@@ -663,8 +657,8 @@ export default function VehiculosPage() {
             disabled={!marcaBarra || !modeloBarra}
           >
             <option value="">Año</option>
-            {aniosBarra.map((a: string) => (
-              <option key={a} value={a}>{a}</option>
+            {aniosBarra.map(({ valor, total }) => (
+              <option key={valor} value={valor}>{valor} ({total})</option>
             ))}
           </select>
           {/* Select Combustible */}
@@ -674,8 +668,8 @@ export default function VehiculosPage() {
             onChange={e => setCombustibleBarra(e.target.value)}
           >
             <option value="">Combustible</option>
-            {combustibles.map((c: string) => (
-              <option key={c} value={c}>{c}</option>
+            {combustibles.map(({ valor, total }) => (
+              <option key={valor} value={valor}>{valor} ({total})</option>
             ))}
           </select>
           {/* Select Transmisión */}
@@ -685,8 +679,19 @@ export default function VehiculosPage() {
             onChange={e => setTransmisionBarra(e.target.value)}
           >
             <option value="">Transmisión</option>
-            {transmisiones.map((t: string) => (
-              <option key={t} value={t}>{t}</option>
+            {transmisiones.map(({ valor, total }) => (
+              <option key={valor} value={valor}>{valor} ({total})</option>
+            ))}
+          </select>
+          {/* Select Estado */}
+          <select
+            className="ml-2 px-3 py-2 rounded-md border border-gray-200 bg-white text-sm text-brand-title focus:outline-none focus:ring-2 focus:ring-brand-highlight"
+            value={estadoBarra}
+            onChange={e => setEstadoBarra(e.target.value)}
+          >
+            <option value="">Estado</option>
+            {ESTADOS_VEHICULO.map((estado) => (
+              <option key={estado} value={estado}>{ESTADO_LABELS[estado]}</option>
             ))}
           </select>
           {/* Botón Limpiar filtros */}
@@ -700,6 +705,7 @@ export default function VehiculosPage() {
               setCombustibleBarra("");
               setTransmisionBarra("");
               setSearchBarra("");
+              setEstadoBarra("");
               setSearchParams({}, { replace: true });
             }}
           >
@@ -740,10 +746,16 @@ export default function VehiculosPage() {
                     {vehiculo.marca || '-'} {vehiculo.modelo || ''}
                   </span>
                   {vehiculo.version && <span className="text-xs text-brand-text truncate">{vehiculo.version}</span>}
+                  {isEstadoVehiculo(vehiculo.estado) && vehiculo.estado !== "disponible" && (
+                    <span className={`mt-0.5 w-fit rounded-full px-2 py-0.5 text-[10px] font-semibold ${ESTADO_BADGE_CLASSES[vehiculo.estado]}`}>
+                      {ESTADO_LABELS[vehiculo.estado]}
+                    </span>
+                  )}
                 </div>
                 {/* Precio */}
                 <div className="text-right">
                   <span className="text-black font-normal text-xs">{formatPrice(vehiculo.precio)}</span>
+                  <AvisoPrecio vehiculo={vehiculo} />
                 </div>
                 {/* Año */}
                 <div className="text-center text-xs text-brand-text">
@@ -923,9 +935,24 @@ export default function VehiculosPage() {
                   />
                 </div>
               </div>
+              {/* Estado del vehículo */}
+              <div className="mb-6">
+                <label htmlFor="modal-estado" className="block text-sm font-medium text-brand-title mb-2">Estado</label>
+                <select
+                  id="modal-estado"
+                  className="w-full px-3 py-2 rounded-md border border-gray-200 bg-white text-sm text-brand-title focus:outline-none focus:ring-2 focus:ring-brand-highlight"
+                  value={modalEstado}
+                  onChange={e => setModalEstado(e.target.value)}
+                >
+                  <option value="">Todos</option>
+                  {ESTADOS_VEHICULO.map((estado) => (
+                    <option key={estado} value={estado}>{ESTADO_LABELS[estado]}</option>
+                  ))}
+                </select>
+              </div>
               {/* Filtros anidados y lógica completa */}
               <FiltrosContent
-                loaderData={{ marcas, combustibles, transmisiones }}
+                loaderData={{ marcas: marcas.map((v) => v.valor) }}
                 marca={modalMarca}
                 setMarca={setModalMarca}
                 modelo={modalModelo}
@@ -949,10 +976,10 @@ export default function VehiculosPage() {
                 handleClearFilters={handleModalClearFilters}
                 combustible={modalCombustible}
                 setCombustible={setModalCombustible}
-                combustibles={combustibles}
+                combustibles={combustibles.map((v) => v.valor)}
                 transmision={modalTransmision}
                 setTransmision={setModalTransmision}
-                transmisiones={transmisiones}
+                transmisiones={transmisiones.map((v) => v.valor)}
               />
             </div>
             <div className="p-6 border-t border-brand-secondary bg-white">
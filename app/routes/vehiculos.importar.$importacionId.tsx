@@ -0,0 +1,441 @@
+import { json, redirect, type ActionFunctionArgs, type LoaderFunctionArgs, type MetaFunction } from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData, useNavigation, useRevalidator } from "@remix-run/react";
+import { useEffect, useRef, useState } from "react";
+import { requireUser } from "~/utils/auth.server";
+import { VEHICLE_MANAGER_ROLES } from "~/utils/roles";
+import { createTenantDb, type TenantDb } from "~/utils/tenant.server";
+import {
+  asignarColumnas,
+  descartarImportacion,
+  iniciarImportacion,
+  loadFilas,
+  loadImportacion,
+  reanudarImportacion,
+  type ImportacionErrors,
+} from "~/utils/vehiculoImportacion.server";
+import {
+  CAMPOS_IMPORTACION,
+  FILA_ESTADO_BADGE_CLASSES,
+  FILA_ESTADO_LABELS,
+  IMPORTACION_ESTADO_BADGE_CLASSES,
+  IMPORTACION_ESTADO_LABELS,
+  type CampoImportacion,
+  type ImportacionFila,
+  type ImportacionVehiculos,
+  type MapeoColumnas,
+} from "~/utils/vehiculoImportacion";
+import { formatearPlaca, normalizarPlaca } from "~/utils/placa";
+
+type ActionData = {
+  errors?: ImportacionErrors;
+  success?: string;
+};
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => [
+  { title: data ? `Importación: ${data.importacion.archivo}` : "Importar vehículos" },
+];
+
+// Consulta del progreso mientras se crean los vehículos
+const REVISION_PROGRESO_MS = 3000;
+// Filas de ejemplo que se muestran al asignar columnas
+const MUESTRAS = 3;
+
+async function requireImportacion(db: TenantDb, id: string | undefined) {
+  const importacion = await loadImportacion(db, id ?? "");
+  if (!importacion) throw json({ message: "Importación no encontrada" }, { status: 404 });
+  return importacion;
+}
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const user = await requireUser(request, { roles: VEHICLE_MANAGER_ROLES });
+  const importacion = await requireImportacion(createTenantDb(user), params.importacionId);
+  await reanudarImportacion(request, user, importacion);
+  return json({ importacion, filas: await loadFilas(importacion) });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  const user = await requireUser(request, { roles: VEHICLE_MANAGER_ROLES });
+  const db = createTenantDb(user);
+  const importacion = await requireImportacion(db, params.importacionId);
+  const formData = await request.formData();
+
+  switch (String(formData.get("_method") || "")) {
+    case "columnas": {
+      const { errors } = await asignarColumnas(user, importacion, formData);
+      return json<ActionData>({ errors }, { status: errors ? 400 : 200 });
+    }
+    case "iniciar": {
+      const { errors } = await iniciarImportacion(request, user, importacion);
+      return json<ActionData>(
+        { errors, success: errors ? undefined : "Creando los vehículos. Puedes salir de esta página; el proceso continúa." },
+        { status: errors ? 400 : 200 }
+      );
+    }
+    case "descartar": {
+      const { errors } = await descartarImportacion(db, importacion);
+      if (errors) return json<ActionData>({ errors }, { status: 400 });
+      return redirect("/vehiculos/importar");
+    }
+    default:
+      return json<ActionData>({ errors: { form: "Acción no válida." } }, { status: 400 });
+  }
+}
+
+const inputClassName =
+  "mt-1 block w-full rounded-lg border border-gray-200 px-3 py-2 shadow-sm focus:border-brand-primary focus:outline-none focus:ring-1 focus:ring-brand-primary bg-white text-brand-title";
+
+const primaryButtonClassName =
+  "inline-flex justify-center rounded-lg bg-brand-primary px-4 py-2 text-sm font-medium text-brand-title shadow-sm hover:bg-brand-highlight disabled:opacity-50 transition-colors";
+
+const secondaryButtonClassName =
+  "inline-flex justify-center rounded-lg border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-brand-title hover:bg-brand-secondary disabled:opacity-50 transition-colors";
+
+const formatFecha = (fecha: string) => new Date(fecha).toLocaleString("es-CO", { dateStyle: "medium", timeStyle: "short" });
+
+const ETIQUETAS_CAMPO = Object.fromEntries(CAMPOS_IMPORTACION.map((c) => [c.campo, c.label])) as Record<
+  CampoImportacion,
+  string
+>;
+
+// Valor de un campo para mostrar: el validado o, si la fila tiene errores, la celda original
+function valorFila(fila: ImportacionFila, mapeo: MapeoColumnas, campo: CampoImportacion) {
+  if (fila.datos && campo !== "imagenes") return String(fila.datos[campo] ?? "");
+  const indice = mapeo[campo];
+  return indice === undefined ? "" : fila.celdas[indice] ?? "";
+}
+
+function AsignarColumnas({
+  importacion,
+  filas,
+  error,
+  isSubmitting,
+}: {
+  importacion: ImportacionVehiculos;
+  filas: ImportacionFila[];
+  error?: string;
+  isSubmitting: boolean;
+}) {
+  const [mapeo, setMapeo] = useState<MapeoColumnas>(importacion.mapeo);
+  const muestras = filas.slice(0, MUESTRAS);
+
+  return (
+    <Form method="post" className="space-y-4">
+      <input type="hidden" name="_method" value="columnas" />
+      <p className="text-sm text-brand-text">
+        Elige la columna del archivo que corresponde a cada dato. Las sugerencias salen de los encabezados; a la derecha
+        ves los valores de las primeras filas.
+      </p>
+      {error && <p className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</p>}
+      <div className="divide-y divide-gray-200">
+        {CAMPOS_IMPORTACION.map(({ campo, label, opcional }) => {
+          const indice = mapeo[campo];
+          return (
+            <div key={campo} className="grid gap-2 py-3 md:grid-cols-3 md:items-center">
+              <label htmlFor={`columna_${campo}`} className="text-sm font-medium text-brand-title">
+                {label}
+                {opcional && (
+                  <span className="block text-xs font-normal text-brand-text">
+                    {opcional === "catalogo" ? "Opcional: si falta se usa el catálogo" : "Opcional"}
+                  </span>
+                )}
+              </label>
+              <select
+                id={`columna_${campo}`}
+                name={`columna_${campo}`}
+                value={indice ?? ""}
+                onChange={(e) =>
+                  setMapeo((actual) => ({ ...actual, [campo]: e.target.value === "" ? undefined : Number(e.target.value) }))
+                }
+                className={inputClassName}
+              >
+                <option value="">Sin columna</option>
+                {importacion.encabezados.map((encabezado, i) => (
+                  <option key={i} value={i}>
+                    {encabezado || `Columna ${i + 1}`}
+                  </option>
+                ))}
+              </select>
+              <p className="truncate text-xs text-brand-text">
+                {indice === undefined
+                  ? "-"
+                  : muestras
+                      .map((fila) => fila.celdas[indice])
+                      .filter(Boolean)
+                      .join(" · ") || "(vacía)"}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+      <button type="submit" disabled={isSubmitting} className={primaryButtonClassName}>
+        {isSubmitting ? "Revisando filas..." : "Revisar filas"}
+      </button>
+    </Form>
+  );
+}
+
+const FILTROS = [
+  { id: "todas", label: "Todas" },
+  { id: "errores", label: "Con errores" },
+  { id: "avisos", label: "Con avisos" },
+] as const;
+
+function TablaFilas({ importacion, filas }: { importacion: ImportacionVehiculos; filas: ImportacionFila[] }) {
+  const [filtro, setFiltro] = useState<(typeof FILTROS)[number]["id"]>("todas");
+  const visibles = filas.filter((fila) => {
+    if (filtro === "errores") return fila.estado === "invalida" || fila.estado === "fallida";
+    if (filtro === "avisos") return fila.avisos.length > 0;
+    return true;
+  });
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-xl font-bold text-brand-title">Filas</h2>
+        <div className="flex gap-2">
+          {FILTROS.map(({ id, label }) => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => setFiltro(id)}
+              className={`rounded-full px-3 py-1 text-xs font-medium transition-colors ${
+                filtro === id ? "bg-brand-primary text-brand-title" : "bg-gray-100 text-brand-text hover:bg-brand-secondary"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {visibles.length === 0 ? (
+        <p className="text-sm text-brand-text">Ninguna.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-brand-text">
+                <th className="py-2 pr-4 font-medium">Fila</th>
+                <th className="py-2 pr-4 font-medium">Placa</th>
+                <th className="py-2 pr-4 font-medium">Vehículo</th>
+                <th className="py-2 pr-4 font-medium">Fotos</th>
+                <th className="py-2 pr-4 font-medium">Estado</th>
+                <th className="py-2 font-medium">Detalle</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 text-brand-title">
+              {visibles.map((fila) => {
+                const placa = normalizarPlaca(valorFila(fila, importacion.mapeo, "placa"));
+                const fotos = (importacion.fotos[placa]?.length ?? 0) + fila.imagenes.length;
+                return (
+                  <tr key={fila.id} className="align-top">
+                    <td className="py-2 pr-4 text-brand-text">{fila.fila}</td>
+                    <td className="py-2 pr-4 whitespace-nowrap">{formatearPlaca(placa) || "-"}</td>
+                    <td className="py-2 pr-4">
+                      {(["marca", "modelo", "anio", "version"] as const)
+                        .map((campo) => valorFila(fila, importacion.mapeo, campo))
+                        .filter(Boolean)
+                        .join(" ")}
+                    </td>
+                    <td className="py-2 pr-4">{fotos}</td>
+                    <td className="py-2 pr-4">
+                      <span
+                        className={`whitespace-nowrap rounded-full px-2 py-0.5 text-xs font-semibold ${FILA_ESTADO_BADGE_CLASSES[fila.estado]}`}
+                      >
+                        {FILA_ESTADO_LABELS[fila.estado]}
+                      </span>
+                    </td>
+                    <td className="py-2 text-xs">
+                      {fila.vehiculo_uuid && (
+                        <Link to={`/vehiculos/${fila.vehiculo_uuid}`} className="font-medium text-brand-title underline">
+                          Ver vehículo
+                        </Link>
+                      )}
+                      {fila.error && <p className="text-red-700">{fila.error}</p>}
+                      {Object.entries(fila.errores).map(([campo, mensaje]) => (
+                        <p key={campo} className="text-red-700">
+                          {ETIQUETAS_CAMPO[campo as CampoImportacion] ?? campo}: {mensaje}
+                        </p>
+                      ))}
+                      {fila.avisos.map((aviso) => (
+                        <p key={aviso} className="text-yellow-700">
+                          {aviso}
+                        </p>
+                      ))}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ListaArchivos({ titulo, descripcion, archivos }: { titulo: string; descripcion: string; archivos?: string[] }) {
+  if (!archivos?.length) return null;
+  return (
+    <div className="rounded-2xl border border-yellow-200 bg-yellow-50 p-6 text-sm text-yellow-800">
+      <h2 className="mb-1 font-bold">{titulo}</h2>
+      <p className="mb-2">{descripcion}</p>
+      <ul className="list-disc list-inside space-y-0.5">
+        {archivos.map((archivo) => (
+          <li key={archivo}>{archivo}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function ImportacionPage() {
+  const { importacion, filas } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>() as ActionData | undefined;
+  const isSubmitting = useNavigation().state === "submitting";
+  const revalidator = useRevalidator();
+  const { estado, resumen } = importacion;
+
+  // Mientras se crean los vehículos se actualiza el progreso; revalidate se lee de la última render
+  const revalidar = useRef(revalidator.revalidate);
+  revalidar.current = revalidator.revalidate;
+  useEffect(() => {
+    if (estado !== "procesando") return;
+    const timer = setInterval(() => revalidar.current(), REVISION_PROGRESO_MS);
+    return () => clearInterval(timer);
+  }, [estado]);
+
+  const contar = (...estados: ImportacionFila["estado"][]) => filas.filter((f) => estados.includes(f.estado)).length;
+  const creadas = contar("creada");
+  const fallidas = contar("fallida");
+  const aCrear = contar("valida", "creando", "creada", "fallida");
+
+  const conteos =
+    estado === "procesando" || estado === "completada"
+      ? [
+          { label: "Filas", valor: filas.length },
+          { label: "Creadas", valor: creadas },
+          { label: "Fallidas", valor: fallidas },
+          { label: "Pendientes", valor: contar("valida", "creando") },
+          { label: "Omitidas por errores", valor: contar("invalida") },
+        ]
+      : [
+          { label: "Filas", valor: filas.length },
+          { label: "Listas para crear", valor: contar("valida") },
+          { label: "Con errores", valor: contar("invalida") },
+          { label: "Listas con avisos", valor: filas.filter((f) => f.estado === "valida" && f.avisos.length > 0).length },
+          { label: "Fotos en el ZIP", valor: resumen.fotos ?? 0 },
+        ];
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <Link to="/vehiculos/importar" className="text-sm text-brand-highlight hover:text-brand-primary transition-colors">
+            ← Volver a las importaciones
+          </Link>
+          <h1 className="text-2xl font-bold text-brand-title">{importacion.archivo}</h1>
+          <p className="text-sm text-brand-text">
+            Subida el {formatFecha(importacion.created_at)}
+            {importacion.completada_at && ` · completada el ${formatFecha(importacion.completada_at)}`}
+          </p>
+        </div>
+        <span className={`rounded-full px-3 py-1 text-sm font-semibold ${IMPORTACION_ESTADO_BADGE_CLASSES[estado]}`}>
+          {IMPORTACION_ESTADO_LABELS[estado]}
+        </span>
+      </div>
+
+      {actionData?.success && (
+        <div className="rounded-md bg-green-50 p-4 text-sm text-green-700">{actionData.success}</div>
+      )}
+      {actionData?.errors?.form && (
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">{actionData.errors.form}</div>
+      )}
+
+      {estado !== "mapeo" && (
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+          {conteos.map((conteo) => (
+            <div key={conteo.label} className="bg-white rounded-2xl border border-gray-200 shadow-sm p-4">
+              <p className="text-xs text-brand-text">{conteo.label}</p>
+              <p className="text-2xl font-bold text-brand-title">{conteo.valor.toLocaleString("es-CO")}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {estado === "mapeo" && (
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+          <h2 className="text-xl font-bold text-brand-title mb-2">Asignar columnas</h2>
+          <AsignarColumnas importacion={importacion} filas={filas} error={actionData?.errors?.mapeo} isSubmitting={isSubmitting} />
+        </div>
+      )}
+
+      {estado === "revision" && (
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6 space-y-4">
+          <p className="text-sm text-brand-text">
+            Esta es una simulación: todavía no se ha creado ningún vehículo. Al confirmar se crean en segundo plano las
+            filas listas, con sus fotos; las filas con errores se omiten. Corrige el archivo y súbelo de nuevo si
+            necesitas incluirlas.
+          </p>
+          <Form method="post" className="flex flex-wrap gap-3">
+            <button
+              type="submit"
+              name="_method"
+              value="iniciar"
+              disabled={isSubmitting || contar("valida") === 0}
+              className={primaryButtonClassName}
+            >
+              Crear {contar("valida")} vehículos
+            </button>
+            <button type="submit" name="_method" value="descartar" disabled={isSubmitting} className={secondaryButtonClassName}>
+              Descartar
+            </button>
+          </Form>
+          <details open={!!actionData?.errors?.mapeo}>
+            <summary className="cursor-pointer text-sm font-medium text-brand-title">Cambiar columnas</summary>
+            <div className="mt-4">
+              <AsignarColumnas importacion={importacion} filas={filas} error={actionData?.errors?.mapeo} isSubmitting={isSubmitting} />
+            </div>
+          </details>
+        </div>
+      )}
+
+      {estado === "mapeo" && (
+        <Form method="post">
+          <button type="submit" name="_method" value="descartar" disabled={isSubmitting} className={secondaryButtonClassName}>
+            Descartar importación
+          </button>
+        </Form>
+      )}
+
+      {estado === "procesando" && (
+        <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6 space-y-2">
+          <p className="text-sm text-brand-text">
+            Creando vehículos: {creadas + fallidas} de {aCrear}. Puedes salir de esta página; el proceso continúa.
+          </p>
+          <div className="h-2 w-full overflow-hidden rounded-full bg-gray-100">
+            <div
+              className="h-full bg-brand-primary transition-all"
+              style={{ width: `${aCrear ? Math.round(((creadas + fallidas) / aCrear) * 100) : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {estado !== "mapeo" && (
+        <>
+          <ListaArchivos
+            titulo="Fotos sin vehículo"
+            descripcion="Estas fotos del ZIP no corresponden a la placa de ninguna fila lista para crear."
+            archivos={resumen.fotos_sin_vehiculo}
+          />
+          <ListaArchivos
+            titulo="Archivos ignorados"
+            descripcion="No son imágenes JPG, PNG o WebP de hasta 10 MB, o su nombre no empieza con una placa."
+            archivos={resumen.fotos_ignoradas}
+          />
+          {filas.length > 0 && <TablaFilas importacion={importacion} filas={filas} />}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import {
+  json,
+  redirect,
+  unstable_createMemoryUploadHandler,
+  unstable_parseMultipartFormData,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+  type MetaFunction,
+} from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { requireUser } from "~/utils/auth.server";
+import { VEHICLE_MANAGER_ROLES } from "~/utils/roles";
+import { createTenantDb } from "~/utils/tenant.server";
+import { HOJA_CALCULO_ACCEPT, HOJA_CALCULO_MAX_BYTES } from "~/utils/hojaCalculo.server";
+import {
+  crearImportacion,
+  listImportaciones,
+  type ImportacionErrors,
+} from "~/utils/vehiculoImportacion.server";
+import {
+  IMPORTACION_ESTADO_BADGE_CLASSES,
+  IMPORTACION_ESTADO_LABELS,
+  IMPORTACION_MAX_FILAS,
+  IMPORTACION_ZIP_MAX_BYTES,
+} from "~/utils/vehiculoImportacion";
+
+type ActionData = {
+  errors?: ImportacionErrors;
+};
+
+export const meta: MetaFunction = () => [{ title: "Importar vehículos" }];
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const user = await requireUser(request, { roles: VEHICLE_MANAGER_ROLES });
+  return json({
+    importaciones: await listImportaciones(createTenantDb(user)),
+    accept: HOJA_CALCULO_ACCEPT,
+    maxMb: HOJA_CALCULO_MAX_BYTES / 1024 / 1024,
+    zipMaxMb: IMPORTACION_ZIP_MAX_BYTES / 1024 / 1024,
+    maxFilas: IMPORTACION_MAX_FILAS,
+  });
+}
+
+// Guarda el archivo y lleva a la asignación de columnas
+export async function action({ request }: ActionFunctionArgs) {
+  const user = await requireUser(request, { roles: VEHICLE_MANAGER_ROLES });
+
+  let formData: FormData;
+  try {
+    formData = await unstable_parseMultipartFormData(
+      request,
+      unstable_createMemoryUploadHandler({ maxPartSize: IMPORTACION_ZIP_MAX_BYTES })
+    );
+  } catch (err) {
+    console.error("Error leyendo los archivos de la importación:", err);
+    return json<ActionData>(
+      { errors: { form: `Los archivos no pueden superar ${IMPORTACION_ZIP_MAX_BYTES / 1024 / 1024} MB.` } },
+      { status: 400 }
+    );
+  }
+
+  const { errors, importacion } = await crearImportacion(user, formData);
+  if (errors || !importacion) {
+    return json<ActionData>({ errors }, { status: 400 });
+  }
+  return redirect(`/vehiculos/importar/${importacion.id}`);
+}
+
+const inputClassName =
+  "mt-1 block w-full rounded-lg border border-gray-200 px-3 py-2 shadow-sm focus:border-brand-primary focus:outline-none focus:ring-1 focus:ring-brand-primary bg-white text-brand-title";
+
+const labelClassName = "block text-sm font-medium text-brand-text";
+
+const formatFecha = (fecha: string) => new Date(fecha).toLocaleDateString("es-CO", { dateStyle: "medium" });
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="mt-1 text-sm text-red-600">{message}</p>;
+}
+
+export default function ImportarVehiculosPage() {
+  const { importaciones, accept, maxMb, zipMaxMb, maxFilas } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>() as ActionData | undefined;
+  const isSubmitting = useNavigation().state === "submitting";
+  const errors = actionData?.errors;
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h1 className="text-2xl font-bold text-brand-title">Importar vehículos</h1>
+        <Link to="/vehiculos" className="text-sm font-medium text-brand-title hover:underline">
+          Volver al inventario
+        </Link>
+      </div>
+
+      {errors?.form && <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">{errors.form}</div>}
+
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+        <h2 className="text-xl font-bold text-brand-title mb-2">Nueva importación</h2>
+        <p className="mb-4 text-sm text-brand-text">
+          Sube un CSV o Excel (.xlsx, hasta {maxMb} MB y {maxFilas} vehículos) con una fila por vehículo y los mismos
+          datos del formulario: marca, modelo, año, versión, placa, color, kilometraje y precio. La ficha técnica
+          (puertas, combustible, transmisión, carrocería, tracción y cilindraje) es opcional: si falta se toma del
+          catálogo. Las fotos pueden ir en una columna con sus URLs o en un ZIP con la placa en el nombre de cada
+          archivo (ABC123_1.jpg, ABC123_2.jpg) o en una carpeta por placa. Antes de crear nada verás el resultado de
+          cada fila.
+        </p>
+        <Form method="post" encType="multipart/form-data" className="grid gap-4 md:grid-cols-2">
+          <div>
+            <label htmlFor="archivo" className={labelClassName}>
+              Archivo de vehículos
+            </label>
+            <input id="archivo" name="archivo" type="file" accept={accept} required className={inputClassName} />
+            <FieldError message={errors?.archivo} />
+          </div>
+          <div>
+            <label htmlFor="fotos" className={labelClassName}>
+              Fotos (ZIP opcional, hasta {zipMaxMb} MB)
+            </label>
+            <input id="fotos" name="fotos" type="file" accept=".zip,application/zip" className={inputClassName} />
+            <FieldError message={errors?.fotos} />
+          </div>
+          <div className="md:col-span-2">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="inline-flex justify-center rounded-lg bg-brand-primary px-4 py-2 text-sm font-medium text-brand-title shadow-sm hover:bg-brand-highlight disabled:opacity-50 transition-colors"
+            >
+              {isSubmitting ? "Subiendo archivos..." : "Continuar"}
+            </button>
+          </div>
+        </Form>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-gray-200 shadow-sm p-6">
+        <h2 className="text-xl font-bold text-brand-title mb-4">Importaciones recientes</h2>
+        {importaciones.length === 0 ? (
+          <p className="text-sm text-brand-text">Aún no has importado vehículos.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {importaciones.map((importacion) => (
+              <li key={importacion.id} className="flex flex-wrap items-center justify-between gap-3 py-3 text-sm">
+                <div>
+                  <Link
+                    to={`/vehiculos/importar/${importacion.id}`}
+                    className="font-medium text-brand-title hover:underline"
+                  >
+                    {importacion.archivo}
+                  </Link>
+                  <p className="text-brand-text">
+                    {formatFecha(importacion.created_at)} · {importacion.resumen.total ?? 0} filas
+                    {importacion.resumen.fotos ? ` · ${importacion.resumen.fotos} fotos` : ""}
+                  </p>
+                </div>
+                <span
+                  className={`rounded-full px-2 py-0.5 text-xs font-semibold ${IMPORTACION_ESTADO_BADGE_CLASSES[importacion.estado]}`}
+                >
+                  {IMPORTACION_ESTADO_LABELS[importacion.estado]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
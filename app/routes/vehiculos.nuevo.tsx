@@ -1,202 +1,102 @@
 import React, { useState, useEffect, useCallback, useRef } from "react";
 import {
   json,
+  type HeadersFunction,
   type LoaderFunctionArgs,
   type ActionFunctionArgs,
   unstable_parseMultipartFormData,
   redirect,
-  type UploadHandler,
 } from "@remix-run/node";
-import { useLoaderData, useFetcher, useSubmit, useActionData, useNavigate } from "@remix-run/react";
-import { supabase } from "~/utils/supabase.server";
-import { getSession } from "~/utils/session.server";
-import ImageUploader, { type ImageUploaderChanges, type ImageMetadata } from "../components/ImageUploader";
+import { useLoaderData, useFetcher, useSubmit, useActionData, useNavigation } from "@remix-run/react";
+import { requireUser } from "~/utils/auth.server";
+import { VEHICLE_MANAGER_ROLES } from "~/utils/roles";
+import { createTenantDb } from "~/utils/tenant.server";
+import { vehiculoUploadHandler, type ArchivoFallido } from "~/utils/vehiculoMedia.server";
+import { createVehiculoWithMedia } from "~/utils/vehiculoCreation.server";
+import { validarPlacaUnica } from "~/utils/vehiculoDuplicados.server";
+import { notificarVehiculoPublicado } from "~/utils/notificaciones.server";
+import { alertarBusquedasGuardadas } from "~/utils/busquedasGuardadas.server";
+import {
+  etagCatalogo,
+  loadAnios,
+  loadFicha,
+  loadModelos,
+  loadOpcionesIniciales,
+  loadVersiones,
+} from "~/utils/catalogoOpciones.server";
+import { jsonConEtag } from "~/utils/etag.server";
+import {
+  OPCIONES_CARROCERIA,
+  OPCIONES_COLOR,
+  OPCIONES_COMBUSTIBLE,
+  OPCIONES_PUERTAS,
+  OPCIONES_TRACCION,
+  OPCIONES_TRANSMISION,
+  validateVehiculoForm,
+} from "~/utils/vehiculoForm";
+import ImageUploader, { type ImageUploaderChanges } from "../components/ImageUploader";
 import LoadingToast from "../components/LoadingToast";
 import PdfUploader from "~/components/pdfUploader";
-
-// Cache simple en memoria para datos que no cambian frecuentemente
-const cache = {
-  marcas: null as string[] | null,
-  anios: null as string[] | null,
-  lastCacheTime: 0,
-  CACHE_DURATION: 5 * 60 * 1000, // 5 minutos
-};
-
-// Función optimizada para obtener marcas desde marcas_unicas
-async function getMarcasUnicas(): Promise<string[]> {
-  const { data, error } = await supabase
-    .from("marcas_unicas")
-    .select("marca")
-    .not("marca", 'is', null)
-    .not("marca", 'eq', '');
-
-  if (error) throw error;
-
-  const marcas = data.map(row => row.marca).filter(Boolean);
-  return marcas.sort();
-}
-
-// Función optimizada para obtener valores únicos usando SQL DISTINCT
-async function getDistinctValues(column: string, filters: { column: string; value: string }[] = []): Promise<string[]> {
-  let query = supabase
-    .from("cotizador")
-    .select(column)
-    .not(column, 'is', null)
-    .not(column, 'eq', '');
-
-  // Aplicar filtros
-  for (const { column: filterColumn, value } of filters) {
-    query = query.eq(filterColumn, value);
-  }
-
-  const { data, error } = await query;
-  if (error) throw error;
-
-  // Extraer valores únicos y ordenar
-  const uniqueValues = Array.from(new Set(data.map(row => (row as any)[column]).filter(Boolean)));
-  return uniqueValues.sort();
-}
-
-// Función optimizada para obtener años únicos
-async function getDistinctYears(filters: { column: string; value: string }[] = []): Promise<string[]> {
-  let query = supabase
-    .from("cotizador")
-    .select("fecha")
-    .not("fecha", 'is', null);
-
-  // Aplicar filtros
-  for (const { column, value } of filters) {
-    query = query.eq(column, value);
-  }
-
-  const { data, error } = await query;
-  if (error) throw error;
-
-  // Extraer años únicos de las fechas
-  const yearsSet = new Set<string>();
-  data.forEach(row => {
-    if (row.fecha) {
-      const match = String(row.fecha).match(/^(\d{4})/);
-      if (match) yearsSet.add(match[1]);
-    }
-  });
-
-  return Array.from(yearsSet).sort((a, b) => Number(b) - Number(a));
-}
-
-// Función optimizada para obtener versiones filtradas por año
-async function getVersionsByYear(marca: string, modelo: string, anio: string): Promise<string[]> {
-  const { data, error } = await supabase
-    .from("cotizador")
-    .select("version, fecha")
-    .eq("marca", marca)
-    .eq("modelo", modelo)
-    .not("version", 'is', null)
-    .not("version", 'eq', '');
-
-  if (error) throw error;
-
-  // Filtrar por año y extraer versiones únicas
-  const versiones = Array.from(new Set(
-    data
-      .filter(row => {
-        const match = String(row.fecha).match(/^(\d{4})/);
-        return match && match[1] === anio;
-      })
-      .map(row => row.version)
-      .filter(Boolean)
-  )).sort();
-
-  return versiones;
-}
-
-// Loader optimizado
+import SugerenciaPrecio from "~/components/SugerenciaPrecio";
+import AvisoFicha from "~/components/AvisoFicha";
+import AvisoDuplicados from "~/components/AvisoDuplicados";
+import type { CampoFicha, FichaTecnica } from "~/utils/fichaTecnica";
+import { normalizarPlaca, PLACA_FORMATO_AYUDA, validarPlaca } from "~/utils/placa";
+
+// Opciones de los selectores anidados desde el árbol del catálogo en caché
+// (ver catalogoOpciones.server.ts). Las respuestas de forOptions llevan ETag.
 export const loader = async ({ request }: LoaderFunctionArgs) => {
+  await requireUser(request, { roles: VEHICLE_MANAGER_ROLES });
   const url = new URL(request.url);
   const marca = url.searchParams.get("marca");
   const modelo = url.searchParams.get("modelo");
   const anio = url.searchParams.get("anio");
+  const version = url.searchParams.get("version");
   const forOptions = url.searchParams.get("forOptions");
 
   try {
-    // Consultas filtradas para selectores anidados (usando cotizador)
     if (forOptions === "modelos" && marca) {
-      const modelos = await getDistinctValues("modelo", [{ column: "marca", value: marca }]);
-      return json({ modelos });
+      return jsonConEtag(request, { modelos: await loadModelos(marca) }, await etagCatalogo());
     }
 
     if (forOptions === "anios" && marca && modelo) {
-      const anios = await getDistinctYears([
-        { column: "marca", value: marca },
-        { column: "modelo", value: modelo }
-      ]);
-      return json({ anios });
+      return jsonConEtag(request, { anios: await loadAnios(marca, modelo) }, await etagCatalogo());
     }
 
     if (forOptions === "versiones" && marca && modelo && anio) {
-      const versiones = await getVersionsByYear(marca, modelo, anio);
-      return json({ versiones });
+      return jsonConEtag(request, { versiones: await loadVersiones(marca, modelo, anio) }, await etagCatalogo());
     }
 
-    // Carga inicial con caché (marcas desde marcas_unicas, años desde cotizador)
-    const now = Date.now();
-    if (cache.marcas && cache.anios && (now - cache.lastCacheTime) < cache.CACHE_DURATION) {
-      return json({ marcas: cache.marcas, anios: cache.anios });
+    // Ficha técnica de la versión para autocompletar el paso 2
+    if (forOptions === "ficha" && marca && modelo && anio && version) {
+      return jsonConEtag(request, { ficha: await loadFicha(marca, modelo, anio, version) }, await etagCatalogo());
     }
 
-    // Cargar datos frescos en paralelo
-    const [marcas, anios] = await Promise.all([
-      getMarcasUnicas(), // Desde marcas_unicas
-      getDistinctYears()  // Desde cotizador
-    ]);
-
-    // Actualizar caché
-    cache.marcas = marcas;
-    cache.anios = anios;
-    cache.lastCacheTime = now;
-
-    return json({ marcas, anios });
-
+    return json(await loadOpcionesIniciales());
   } catch (error: any) {
     console.error("Error en loader:", error);
     return json({ 
-      marcas: cache.marcas || [], 
-      anios: cache.anios || [], 
+      marcas: [] as string[], 
+      anios: [] as string[], 
       error: error?.message || "Error al consultar datos" 
     }, { status: 500 });
   }
 };
 
-const uploadHandler: UploadHandler = async ({ name, filename, data }) => {
-  // Para campos de formulario que no son archivos
-  if (!filename) {
-    const chunks = [];
-    for await (const chunk of data) {
-      chunks.push(chunk);
-    }
-    return Buffer.concat(chunks).toString();
-  }
-
-  // Para archivos
-  const chunks = [];
-  for await (const chunk of data) {
-    chunks.push(chunk);
-  }
-
-  const buffer = Buffer.concat(chunks);
-  const { fileTypeFromBuffer } = await import("file-type");
-  const type = await fileTypeFromBuffer(buffer);
-
-  return new File([buffer], filename, { type: type?.mime });
-};
+export const headers: HeadersFunction = ({ loaderHeaders }) => loaderHeaders;
 
 export async function action({ request }: ActionFunctionArgs) {
+  // Usuario autenticado con permisos para publicar vehículos
+  const user = await requireUser(request, { roles: VEHICLE_MANAGER_ROLES });
+  // concesionario_id y user_id se asignan desde la sesión, nunca desde el formulario
+  const db = createTenantDb(user);
+
   const contentType = request.headers.get("Content-Type");
   let formData: FormData;
 
   // Manejo robusto de Content-Type
   if (contentType?.startsWith("multipart/form-data")) {
-    formData = await unstable_parseMultipartFormData(request, uploadHandler);
+    formData = await unstable_parseMultipartFormData(request, vehiculoUploadHandler);
   } else {
     formData = await request.formData();
   }
@@ -207,318 +107,29 @@ export async function action({ request }: ActionFunctionArgs) {
   }
 
   try {
-    // Obtener sesión y extraer IDs
-    const session = await getSession(request);
-    const concesionario_id = session.get("concesionario_id");
-    const auth_id = session.get("user_id");
-    if (!concesionario_id || !auth_id) {
-      return json({ error: "No se encontró información de usuario/concesionario en la sesión. Por favor, inicia sesión nuevamente." }, { status: 401 });
-    }
-
-    // Buscar el uuid del usuario en la tabla users usando el auth_id
-    const { data: userRow, error: userLookupError } = await supabase
-      .from("users")
-      .select("uuid")
-      .eq("auth_id", auth_id)
-      .single();
-    if (userLookupError || !userRow?.uuid) {
-      return json({ error: "No se encontró el usuario en la base de datos. Por favor, revisa tu sesión." }, { status: 401 });
-    }
-    const user_id = userRow.uuid;
-
-    // Extraer todos los campos del formulario
-    const marca = formData.get('marca') as string;
-    const modelo = formData.get('modelo') as string;
-    const anioRaw = formData.get('anio');
-    const anio = Number(anioRaw);
-    const version = formData.get('version') as string;
-    const puertasRaw = formData.get('puertas');
-    const puertas = Number(puertasRaw);
-    const combustible = formData.get('combustible') as string;
-    const color = formData.get('color') as string;
-    const placa = formData.get('placa') as string;
-    const kmRaw = formData.get('km');
-    const km = Number(kmRaw);
-    const precioRaw = formData.get('precio');
-    const precio = Number(precioRaw);
-    const transmision = formData.get('transmision') as string;
-    const carroceria = formData.get('carroceria') as string;
-    const traccion = formData.get('traccion') as string;
-    const cilindrajeRaw = formData.get('cilindraje');
-    const cilindraje = Number(cilindrajeRaw);
-
     // Validación de campos requeridos
-    const errors: Record<string, string> = {};
-    if (!marca) errors.marca = "Marca es requerida";
-    if (!modelo) errors.modelo = "Modelo es requerido";
-    if (anioRaw === null || anioRaw === "" || isNaN(anio)) errors.anio = "Año es requerido";
-    if (!version) errors.version = "Versión es requerida";
-    if (puertasRaw === null || puertasRaw === "" || isNaN(puertas)) errors.puertas = "Puertas es requerido";
-    if (!combustible) errors.combustible = "Combustible es requerido";
-    if (!color) errors.color = "Color es requerido";
-    if (!placa?.trim()) errors.placa = "Placa es requerida";
-    if (kmRaw === null || kmRaw === "" || isNaN(km)) errors.km = "Kilometraje es requerido";
-    if (precioRaw === null || precioRaw === "" || isNaN(precio)) errors.precio = "Precio es requerido";
-    if (!transmision) errors.transmision = "Transmisión es requerida";
-    if (!carroceria) errors.carroceria = "Carrocería es requerida";
-    if (!traccion) errors.traccion = "Tracción es requerida";
-    if (cilindrajeRaw === null || cilindrajeRaw === "" || isNaN(cilindraje)) errors.cilindraje = "Cilindraje es requerido";
-
+    const { values, errors } = validateVehiculoForm(formData);
     if (Object.keys(errors).length > 0) {
       return json({ errors }, { status: 400 });
     }
-
-    // Extraer datos de imágenes
-    const orderedImagesMetadata: ImageMetadata[] = JSON.parse(formData.get("orderedImagesMetadata") as string || "[]");
-    const imageIdsToDelete: {id: string, storage_id: string}[] = JSON.parse(formData.get("imageIdsToDelete") as string || "[]");
-
-    console.log("=== DEBUG IMÁGENES ===");
-    console.log("orderedImagesMetadata:", orderedImagesMetadata);
-    console.log("imageIdsToDelete:", imageIdsToDelete);
-
-    // 1. Insertar el vehículo principal
-    const { data: vehicleData, error: vehicleError } = await supabase
-      .from('vehiculos')
-      .insert([{
-        marca,
-        modelo,
-        anio,
-        version,
-        puertas,
-        combustible,
-        color,
-        placa: placa.trim(),
-        km,
-        precio,
-        transmision,
-        carroceria,
-        traccion,
-        cilindraje,
-        concesionario_id,
-        user_id,
-      }])
-      .select('id, uuid')
-      .single();
-
-    if (vehicleError) throw vehicleError;
-    const vehicleId = vehicleData.id;
-    const vehicleUuid = vehicleData.uuid;
-
-    console.log("=== DEBUG IMÁGENES ===");
-    console.log("orderedImagesMetadata:", orderedImagesMetadata);
-    console.log("imageIdsToDelete:", imageIdsToDelete);
-    console.log("vehicleId:", vehicleId);
-    console.log("vehicleUuid:", vehicleUuid);
-
-    // 2. Procesar imágenes nuevas
-    const imageUploadPromises = orderedImagesMetadata
-      .filter((meta) => meta.isNew)
-      .map(async (meta) => {
-        try {
-          console.log("Procesando imagen nueva:", meta);
-          const file = formData.get(meta.storage_id) as File;
-          if (!file || !(file instanceof File)) {
-            console.error("Archivo no encontrado o inválido para storage_id:", meta.storage_id);
-            return;
-          }
-
-          // Usar el id (entero) del vehículo para la carpeta y para id_v
-          const carpetaId = vehicleId; // id entero
-          const filePath = `${carpetaId}/${meta.storage_id}`;
-          console.log("Subiendo a path:", filePath, "(carpetaId:", carpetaId, ", storage_id:", meta.storage_id, ")");
-
-          // Verificar que el bucket existe antes de subir
-          const { data: buckets, error: bucketsError } = await supabase.storage.listBuckets();
-          if (bucketsError) {
-            console.error("Error listando buckets:", bucketsError);
-            throw bucketsError;
-          }
-
-          const bucketExists = buckets?.some(bucket => bucket.name === 'imagen-vehiculo');
-          if (!bucketExists) {
-            console.error("Bucket 'imagen-vehiculo' no existe. Buckets disponibles:", buckets?.map(b => b.name));
-            throw new Error("Bucket 'imagen-vehiculo' no existe. Por favor, créalo en Supabase Storage.");
-          }
-
-          console.log("Bucket 'imagen-vehiculo' existe. Intentando subir archivo...");
-
-          const { error: uploadError } = await supabase.storage
-            .from('imagen-vehiculo')
-            .upload(filePath, file, { cacheControl: '3600', upsert: false });
-
-          if (uploadError) {
-            console.error("Error subiendo archivo:", uploadError);
-            throw uploadError;
-          }
-
-          console.log("Archivo subido exitosamente");
-
-          const { data: urlData } = supabase.storage.from('imagen-vehiculo').getPublicUrl(filePath);
-          console.log("URL pública generada:", urlData.publicUrl);
-
-          // Insertar en la tabla images usando vehicle_id = uuid y id_v = id entero
-          const insertResult = await supabase.from('images').insert({
-            vehicle_id: vehicleUuid, // uuid del vehículo
-            id_v: String(carpetaId), // id entero del vehículo
-            url: urlData.publicUrl,
-            order_index: String(meta.order_index),
-            storage_id: meta.storage_id,
-            destacada: meta.destacada ? 'true' : 'false',
-          });
-
-          if (insertResult.error) {
-            console.error("Error insertando en BD images:", insertResult.error);
-            throw insertResult.error;
-          }
-
-          console.log("Resultado inserción en BD images:", insertResult);
-          return insertResult;
-        } catch (err) {
-          console.error("Error en el procesamiento de imagen nueva:", err);
-          throw err;
-        }
-      });
-
-    // 3. Actualizar orden y estado 'destacada' de imágenes existentes
-    const updateOrderPromises = orderedImagesMetadata
-      .filter((meta) => !meta.isNew)
-      .map(async (meta) => {
-        return supabase
-          .from('images')
-          .update({ 
-            order_index: String(meta.order_index),
-            destacada: meta.destacada ? 'true' : 'false'
-          })
-          .eq('id', meta.id);
-      });
-
-    // 4. Eliminar imágenes marcadas
-    const deletePromises = imageIdsToDelete.map(async (imageToDelete) => {
-      // La ruta en storage se reconstruye con el id de vehículo y el storage_id de la imagen
-      // Nota: Asumimos que el vehicleId (int) está disponible. 
-      // En un formulario de EDICIÓN real, este ID debería ser parte del formulario o cargado.
-      // Para 'nuevo', esta lógica no debería ejecutarse, pero la refactorizamos como se pidió.
-      const storagePath = `${vehicleId}/${imageToDelete.storage_id}`;
-      
-      // Eliminar del storage
-      await supabase.storage
-        .from('imagen-vehiculo')
-        .remove([storagePath]);
-
-      // Eliminar de la base de datos
-      return supabase
-        .from('images')
-        .delete()
-        .eq('id', imageToDelete.id);
-    });
-
-    // Ejecutar todas las operaciones de imágenes en paralelo
-    await Promise.allSettled([
-      ...imageUploadPromises,
-      ...updateOrderPromises,
-      ...deletePromises
-    ]);
-
-    // 5. Actualizar url_img en vehiculos con la imagen destacada
-    console.log("[vehiculos.nuevo.tsx - action] Buscando imagen destacada para actualizar url_img...");
-    
-    // Buscar la imagen destacada entre las imágenes procesadas
-    const featuredImage = orderedImagesMetadata.find(meta => meta.destacada === true);
-    
-    if (featuredImage) {
-      let featuredImageUrl: string;
-      
-      if (featuredImage.isNew) {
-        // Para imágenes nuevas, construir la URL pública
-        const filePath = `${vehicleId}/${featuredImage.storage_id}`;
-        const { data: urlData } = supabase.storage.from('imagen-vehiculo').getPublicUrl(filePath);
-        featuredImageUrl = urlData.publicUrl;
-      } else {
-        // Para imágenes existentes, usar la URL almacenada
-        featuredImageUrl = featuredImage.url || '';
-      }
-      
-      if (featuredImageUrl) {
-        console.log(`[vehiculos.nuevo.tsx - action] Actualizando url_img con: ${featuredImageUrl}`);
-        
-        const { error: updateUrlError } = await supabase
-          .from('vehiculos')
-          .update({ url_img: featuredImageUrl })
-          .eq('uuid', vehicleUuid);
-          
-        if (updateUrlError) {
-          console.error("[vehiculos.nuevo.tsx - action] Error actualizando url_img:", updateUrlError);
-          // No lanzar error aquí para no fallar toda la operación
-        } else {
-          console.log("[vehiculos.nuevo.tsx - action] url_img actualizada exitosamente");
-        }
-      }
-    } else {
-      console.log("[vehiculos.nuevo.tsx - action] No se encontró imagen destacada, url_img permanece sin cambios");
+    const placaError = await validarPlacaUnica(db, values.placa);
+    if (placaError) {
+      return json({ errors: { placa: placaError } }, { status: 400 });
     }
 
-    // LOG: IDs del vehículo
-    console.log("[PDF] vehicleId (BIGINT):", vehicleId);
-    console.log("[PDF] vehicleUuid (UUID):", vehicleUuid);
-
-    // 2b. Procesar PDFs subidos
-    const pdfFiles = formData.getAll('documentosPdf');
-    console.log("[PDF] Archivos recibidos:", pdfFiles);
-    const pdfUploadResults = [];
-    for (const file of pdfFiles) {
-      if (!(file instanceof File) || file.size === 0) {
-        console.warn('[PDF] Archivo ignorado (no File o vacío):', file);
-        continue;
-      }
-      console.log(`[PDF] Procesando archivo: ${file.name}, type: ${file.type}, size: ${file.size}`);
-      if (file.type !== 'application/pdf') {
-        console.warn('[PDF] Archivo ignorado por no ser PDF:', file.name, file.type);
-        continue;
-      }
-      try {
-        // Usar un nombre único para evitar colisiones
-        const uniqueName = `${crypto.randomUUID()}_${file.name}`;
-        const pdfPath = `${vehicleId}/${uniqueName}`;
-        console.log(`[PDF] Subiendo a: documentos-vehiculos/${pdfPath}`);
-        // Subir al bucket documentos-vehiculos
-        const { error: pdfUploadError } = await supabase.storage
-          .from('documentos-vehiculos')
-          .upload(pdfPath, file, { cacheControl: '3600', upsert: false });
-        if (pdfUploadError) {
-          console.error('[PDF] Error subiendo PDF:', pdfUploadError);
-          pdfUploadResults.push({ file: file.name, error: pdfUploadError.message });
-          continue;
-        }
-        // Obtener URL pública
-        const { data: pdfUrlData } = supabase.storage.from('documentos-vehiculos').getPublicUrl(pdfPath);
-        console.log(`[PDF] URL pública generada:`, pdfUrlData.publicUrl);
-        // Insertar en la tabla documentos_vehiculo
-        const { error: dbError } = await supabase.from('documentos_vehiculo').insert({
-          vehiculo_uuid: vehicleUuid,
-          id_v: vehicleId,
-          nombre_archivo: file.name,
-          url_documento: pdfUrlData.publicUrl,
-          tipo_documento: 'general',
-        });
-        if (dbError) {
-          console.error('[PDF] Error insertando en documentos_vehiculo:', dbError);
-          pdfUploadResults.push({ file: file.name, error: dbError.message });
-        } else {
-          console.log(`[PDF] Registro insertado en documentos_vehiculo para: ${file.name}`);
-          pdfUploadResults.push({ file: file.name, success: true });
-        }
-      } catch (err) {
-        console.error('[PDF] Error inesperado subiendo PDF:', err);
-        pdfUploadResults.push({ file: file.name, error: String(err) });
-      }
+    // Vehículo, imágenes y PDFs se crean juntos o no se crea nada
+    const result = await createVehiculoWithMedia(db, values, formData);
+    if (!result.ok) {
+      return json({ error: result.error, failures: result.failures }, { status: 422 });
     }
 
-    console.log("[vehiculos.nuevo.tsx - action] Action finished successfully, redirecting...");
+    await notificarVehiculoPublicado(request, user, result.vehiculo);
+    await alertarBusquedasGuardadas(request, result.vehiculo);
     return redirect('/vehiculos');
 
   } catch (error: any) {
     console.error("Error en la action:", error);
-    return json({ error: error.message }, { status: 500 });
+    return json({ error: String(error?.message ?? error) }, { status: 500 });
   }
 }
 
@@ -526,7 +137,11 @@ export default function NuevoVehiculo() {
   const loaderData = useLoaderData<typeof loader>();
   const submit = useSubmit();
   const actionData = useActionData<typeof action>();
-  const navigate = useNavigate();
+  const navigation = useNavigation();
+  // El toast se mantiene mientras la action procesa; al terminar redirige o muestra los errores
+  const isSaving = navigation.state !== "idle" && navigation.formMethod?.toLowerCase() === "post";
+  // Archivos que impidieron crear el vehículo
+  const failures = actionData && 'failures' in actionData ? (actionData.failures as ArchivoFallido[]) : [];
   const marcas = 'marcas' in loaderData ? loaderData.marcas : [];
   const aniosGlobal = 'anios' in loaderData ? loaderData.anios : [];
   const error = (loaderData as any).error;
@@ -542,6 +157,7 @@ export default function NuevoVehiculo() {
   const modelosFetcher = useFetcher();
   const aniosFetcher = useFetcher();
   const versionesFetcher = useFetcher();
+  const fichaFetcher = useFetcher<{ ficha?: FichaTecnica }>();
 
   // Opciones de modelos
   const modelos = (modelosFetcher.data && typeof modelosFetcher.data === 'object' && Array.isArray((modelosFetcher.data as any).modelos)) ? (modelosFetcher.data as any).modelos : [];
@@ -566,10 +182,25 @@ export default function NuevoVehiculo() {
   const [descripcion, setDescripcion] = useState("");
   const [ubicacion, setUbicacion] = useState("");
 
-  const [imageUploaderData, setImageUploaderData] = useState<ImageUploaderChanges | null>(null);
+  // Ficha técnica de la versión elegida: autocompleta los campos y permite
+  // marcar los que el vendedor cambió (ver AvisoFicha)
+  const fichaCatalogo: FichaTecnica = (versionSeleccionada && fichaFetcher.data?.ficha) || {};
+  const camposFicha: Record<CampoFicha, [string, (valor: string) => void]> = {
+    puertas: [puertas, setPuertas],
+    combustible: [combustible, setCombustible],
+    transmision: [transmision, setTransmision],
+    carroceria: [carroceria, setCarroceria],
+    traccion: [traccion, setTraccion],
+    cilindraje: [cilindraje, setCilindraje],
+  };
+  const autocompletados = Object.entries(fichaCatalogo).filter(
+    ([campo, valor]) => camposFicha[campo as CampoFicha][0] === valor
+  ).length;
+  const modificados = Object.entries(fichaCatalogo).filter(
+    ([campo, valor]) => camposFicha[campo as CampoFicha][0] !== valor
+  ).length;
 
-  // Estado para el toast de loading
-  const [showLoadingToast, setShowLoadingToast] = useState(false);
+  const [imageUploaderData, setImageUploaderData] = useState<ImageUploaderChanges | null>(null);
 
   const handleImagesChange = useCallback((changes: ImageUploaderChanges) => {
     setImageUploaderData(changes);
@@ -580,7 +211,7 @@ export default function NuevoVehiculo() {
     puertas !== "" &&
     combustible !== "" &&
     color !== "" &&
-    placa.trim() !== "" &&
+    validarPlaca(placa) === null &&
     transmision !== "" &&
     carroceria !== "" &&
     traccion !== "" &&
@@ -617,23 +248,48 @@ export default function NuevoVehiculo() {
     }
   }, [marcaSeleccionada, modeloSeleccionado, anioSeleccionado]);
 
+  // Cuando se elige la versión, cargar su ficha técnica (load se lee de la última render)
+  const cargarFicha = useRef(fichaFetcher.load);
+  cargarFicha.current = fichaFetcher.load;
+  useEffect(() => {
+    if (marcaSeleccionada && modeloSeleccionado && anioSeleccionado && versionSeleccionada) {
+      const params = new URLSearchParams({
+        forOptions: "ficha",
+        marca: marcaSeleccionada,
+        modelo: modeloSeleccionado,
+        anio: anioSeleccionado,
+        version: versionSeleccionada,
+      });
+      cargarFicha.current(`/vehiculos/nuevo?${params}`);
+    }
+  }, [marcaSeleccionada, modeloSeleccionado, anioSeleccionado, versionSeleccionada]);
+
+  // Al llegar la ficha se rellenan los campos vacíos o que aún tenían el valor
+  // de la ficha anterior; los que cambió el vendedor se conservan
+  const fichaAplicada = useRef<FichaTecnica>({});
+  const ultimosCampos = useRef(camposFicha);
+  ultimosCampos.current = camposFicha;
+  const fichaNueva = fichaFetcher.data?.ficha;
+  useEffect(() => {
+    if (!fichaNueva) return;
+    for (const [campo, [valor, setValor]] of Object.entries(ultimosCampos.current) as [
+      CampoFicha,
+      [string, (valor: string) => void],
+    ][]) {
+      const catalogo = fichaNueva[campo];
+      if (catalogo !== undefined && (valor === "" || valor === fichaAplicada.current[campo])) setValor(catalogo);
+    }
+    fichaAplicada.current = fichaNueva;
+  }, [fichaNueva]);
+
   // Validación simple para habilitar el botón Siguiente en Paso 1
   const paso1Completo = !!(marcaSeleccionada && modeloSeleccionado && anioSeleccionado && versionSeleccionada);
 
-  // Opciones estáticas para los selectores del Paso 2
-  const opcionesPuertas = [2, 3, 4, 5];
-  const opcionesCombustible = ["Gasolina", "EV Electrico", "Hibrido Gasolina", "Diesel"];
-  const opcionesColor = ["Blanco", "Azul", "Plateado", "Negro", "Rojo", "Verde", "Gris", "Zircón Arena", "Beige"];
-  const opcionesTransmision = ["Automática", "Manual"];
-  const opcionesCarroceria = ["Camioneta", "Sedan", "Hatchback", "Coupe", "Pick Up", "SUV"];
-  const opcionesTraccion = ["4x2", "4x4", "4X3"];
-
   const pdfInputRef = useRef<HTMLInputElement>(null);
 
   const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     if (!imageUploaderData) return;
-    setShowLoadingToast(true);
     const formData = new FormData();
     
     // Añadir datos del Paso 1
@@ -672,15 +328,6 @@ export default function NuevoVehiculo() {
     submit(formData, { method: "post", encType: "multipart/form-data", replace: true });
   };
 
-  // Manejar la finalización del toast
-  const handleToastComplete = () => {
-    setShowLoadingToast(false);
-    // Redirigir a /vehiculos después de que el toast desaparezca
-    setTimeout(() => {
-      navigate('/vehiculos');
-    }, 500);
-  };
-
   return (
     <>
       <form className="max-w-3xl mx-auto p-8 bg-white rounded-xl shadow-lg font-sans" onSubmit={handleSubmit} method="post" encType="multipart/form-data">
@@ -691,6 +338,13 @@ export default function NuevoVehiculo() {
         {actionData && 'error' in actionData && actionData.error && (
           <div className="mb-6 rounded bg-red-100 p-4 text-red-700 text-center">
             Error al guardar: {String(actionData.error)}
+            {failures.length > 0 && (
+              <ul className="mt-2 list-disc list-inside text-left">
+                {failures.map((failure, index) => (
+                  <li key={`${failure.file}-${index}`}>{failure.file}: {failure.error}</li>
+                ))}
+              </ul>
+            )}
           </div>
         )}
 
@@ -801,33 +455,43 @@ export default function NuevoVehiculo() {
         {currentStep === 2 && (
           <section className="mb-8">
             <h2 className="text-xl font-semibold text-brand-title mb-2">Paso 2: Características del Vehículo</h2>
+            {autocompletados + modificados > 0 && (
+              <p className="mb-4 text-sm text-brand-text">
+                {autocompletados} {autocompletados === 1 ? "característica tomada" : "características tomadas"} del
+                catálogo para esta versión
+                {modificados > 0 && ` y ${modificados} ${modificados === 1 ? "modificada" : "modificadas"}`}. Revisa que
+                coincidan con el vehículo.
+              </p>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               {/* Puertas */}
               <div>
                 <label htmlFor="puertas" className="block text-sm font-medium text-brand-title mb-1">Puertas</label>
                 <select id="puertas" name="puertas" className="w-full rounded border border-brand-secondary px-3 py-2 bg-white text-brand-title" value={puertas} onChange={e => setPuertas(e.target.value)}>
                   <option value="">Seleccione...</option>
-                  {opcionesPuertas.map((op) => (
+                  {OPCIONES_PUERTAS.map((op) => (
                     <option key={op} value={op}>{op}</option>
                   ))}
                 </select>
+                <AvisoFicha catalogo={fichaCatalogo.puertas} valor={puertas} onRestaurar={() => setPuertas(fichaCatalogo.puertas ?? "")} />
               </div>
               {/* Combustible */}
               <div>
                 <label htmlFor="combustible" className="block text-sm font-medium text-brand-title mb-1">Combustible</label>
                 <select id="combustible" name="combustible" className="w-full rounded border border-brand-secondary px-3 py-2 bg-white text-brand-title" value={combustible} onChange={e => setCombustible(e.target.value)}>
                   <option value="">Seleccione...</option>
-                  {opcionesCombustible.map((op) => (
+                  {OPCIONES_COMBUSTIBLE.map((op) => (
                     <option key={op} value={op}>{op}</option>
                   ))}
                 </select>
+                <AvisoFicha catalogo={fichaCatalogo.combustible} valor={combustible} onRestaurar={() => setCombustible(fichaCatalogo.combustible ?? "")} />
               </div>
               {/* Color */}
               <div>
                 <label htmlFor="color" className="block text-sm font-medium text-brand-title mb-1">Color</label>
                 <select id="color" name="color" className="w-full rounded border border-brand-secondary px-3 py-2 bg-white text-brand-title" value={color} onChange={e => setColor(e.target.value)}>
                   <option value="">Seleccione...</option>
-                  {opcionesColor.map((op) => (
+                  {OPCIONES_COLOR.map((op) => (
                     <option key={op} value={op}>{op}</option>
                   ))}
                 </select>
@@ -835,7 +499,12 @@ export default function NuevoVehiculo() {
               {/* Placa */}
               <div>
                 <label htmlFor="placa" className="block text-sm font-medium text-brand-title mb-1">Placa</label>
-                <input type="text" id="placa" name="placa" className="w-full rounded border border-brand-secondary px-3 py-2 bg-white text-brand-title" value={placa} onChange={e => setPlaca(e.target.value)} />
+                <input type="text" id="placa" name="placa" className="w-full rounded border border-brand-secondary px-3 py-2 bg-white text-brand-title uppercase" value={placa} onChange={e => setPlaca(e.target.value)} onBlur={() => setPlaca(normalizarPlaca(placa))} placeholder="ABC123" />
+                {placa.trim() !== "" && validarPlaca(placa) ? (
+                  <p className="mt-1 text-xs text-red-600">{validarPlaca(placa)}</p>
+                ) : (
+                  <p className="mt-1 text-xs text-brand-text">{PLACA_FORMATO_AYUDA}</p>
+                )}
               </div>
               {/* Kilometraje */}
               <div>
@@ -847,40 +516,67 @@ export default function NuevoVehiculo() {
                 <label htmlFor="precio" className="block text-sm font-medium text-brand-title mb-1">Precio</label>
                 <input type="number" id="precio" name="precio" className="w-full rounded border border-brand-secondary px-3 py-2 bg-white text-brand-title" value={precio} onChange={e => setPrecio(e.target.value)} placeholder="0.00" step="0.01" />
               </div>
+              {/* Precio sugerido según el cotizador */}
+              <div className="md:col-span-2">
+                <SugerenciaPrecio
+                  marca={marcaSeleccionada}
+                  modelo={modeloSeleccionado}
+                  anio={anioSeleccionado}
+                  version={versionSeleccionada}
+                  km={km}
+                  precio={precio}
+                  onUsarPrecio={(sugerido) => setPrecio(String(sugerido))}
+                />
+              </div>
+              {/* Placa repetida en el inventario o publicaciones parecidas de otros vendedores */}
+              <div className="md:col-span-2">
+                <AvisoDuplicados
+                  placa={placa}
+                  marca={marcaSeleccionada}
+                  modelo={modeloSeleccionado}
+                  anio={anioSeleccionado}
+                  km={km}
+                  color={color}
+                />
+              </div>
               {/* Transmisión */}
               <div>
                 <label htmlFor="transmision" className="block text-sm font-medium text-brand-title mb-1">Transmisión</label>
                 <select id="transmision" name="transmision" className="w-full rounded border border-brand-secondary px-3 py-2 bg-white text-brand-title" value={transmision} onChange={e => setTransmision(e.target.value)}>
                   <option value="">Seleccione...</option>
-                  {opcionesTransmision.map((op) => (
+                  {OPCIONES_TRANSMISION.map((op) => (
                     <option key={op} value={op}>{op}</option>
                   ))}
                 </select>
+                <AvisoFicha catalogo={fichaCatalogo.transmision} valor={transmision} onRestaurar={() => setTransmision(fichaCatalogo.transmision ?? "")} />
               </div>
               {/* Carrocería */}
               <div>
                 <label htmlFor="carroceria" className="block text-sm font-medium text-brand-title mb-1">Carrocería</label>
                 <select id="carroceria" name="carroceria" className="w-full rounded border border-brand-secondary px-3 py-2 bg-white text-brand-title" value={carroceria} onChange={e => setCarroceria(e.target.value)}>
                   <option value="">Seleccione...</option>
-                  {opcionesCarroceria.map((op) => (
+                  {OPCIONES_CARROCERIA.map((op) => (
                     <option key={op} value={op}>{op}</option>
                   ))}
                 </select>
+                <AvisoFicha catalogo={fichaCatalogo.carroceria} valor={carroceria} onRestaurar={() => setCarroceria(fichaCatalogo.carroceria ?? "")} />
               </div>
               {/* Tracción */}
               <div>
                 <label htmlFor="traccion" className="block text-sm font-medium text-brand-title mb-1">Tracción</label>
                 <select id="traccion" name="traccion" className="w-full rounded border border-brand-secondary px-3 py-2 bg-white text-brand-title" value={traccion} onChange={e => setTraccion(e.target.value)}>
                   <option value="">Seleccione...</option>
-                  {opcionesTraccion.map((op) => (
+                  {OPCIONES_TRACCION.map((op) => (
                     <option key={op} value={op}>{op}</option>
                   ))}
                 </select>
+                <AvisoFicha catalogo={fichaCatalogo.traccion} valor={traccion} onRestaurar={() => setTraccion(fichaCatalogo.traccion ?? "")} />
               </div>
               {/* Cilindraje */}
               <div>
                 <label htmlFor="cilindraje" className="block text-sm font-medium text-brand-title mb-1">Cilindraje</label>
                 <input type="number" id="cilindraje" name="cilindraje" className="w-full rounded border border-brand-secondary px-3 py-2 bg-white text-brand-title" value={cilindraje} onChange={e => setCilindraje(e.target.value)} />
+                <AvisoFicha catalogo={fichaCatalogo.cilindraje} valor={cilindraje} onRestaurar={() => setCilindraje(fichaCatalogo.cilindraje ?? "")} />
               </div>
             </div>
             <div className="mt-8 flex justify-between">
@@ -935,8 +631,7 @@ export default function NuevoVehiculo() {
       {/* Toast de Loading */}
       <LoadingToast
         message="Creando vehículo..."
-        isVisible={showLoadingToast}
-        onComplete={handleToastComplete}
+        isVisible={isSaving}
       />
     </>
   );
@@ -0,0 +1,197 @@
+import { json } from "@remix-run/node";
+import type { Session as SupabaseSession } from "@supabase/supabase-js";
+import { deleteSesiones, getSession, sessionStorage } from "~/utils/session.server";
+import { createAuthClient, supabase } from "~/utils/supabase.server";
+import { isRol, type Rol } from "~/utils/roles";
+
+export type SessionUser = {
+  uuid: string;
+  auth_id: string;
+  email: string;
+  name: string | null;
+  rol: Rol | null;
+  concesionario_id: string | null;
+};
+
+type RequireUserOptions = {
+  roles?: readonly Rol[];
+};
+
+export function unauthorized(message = "Debes iniciar sesión para continuar.") {
+  return json({ message }, { status: 401 });
+}
+
+export function forbidden(message = "No tienes permisos para realizar esta acción.") {
+  return json({ message }, { status: 403 });
+}
+
+// Una sesión sin actividad durante este tiempo se cierra (SESSION_IDLE_MINUTES, 60 por defecto)
+const IDLE_TIMEOUT_MS = (Number(process.env.SESSION_IDLE_MINUTES) || 60) * 60 * 1000;
+// El access token se renueva cuando le queda menos de este margen
+const REFRESH_MARGIN_S = 60;
+// La última actividad se guarda como mucho una vez por minuto
+const LAST_SEEN_THROTTLE_MS = 60 * 1000;
+
+// Valida la sesión de la petición: cierra las inactivas, renueva el access
+// token de Supabase cuando está por vencer y registra la actividad. Devuelve
+// el auth id o null si no hay sesión válida.
+async function getSessionAuthId(request: Request): Promise<string | null> {
+  const session = await getSession(request);
+  const authId = session.get("user_id");
+  const refreshToken = session.get("refresh_token");
+  if (!authId || !refreshToken) return null;
+
+  const now = Date.now();
+  const lastSeen = session.get("last_seen") ?? 0;
+  if (now - lastSeen > IDLE_TIMEOUT_MS) {
+    await sessionStorage.destroySession(session);
+    return null;
+  }
+
+  let changed = false;
+  const expiresAt = session.get("expires_at") ?? 0;
+  if (expiresAt - REFRESH_MARGIN_S <= now / 1000) {
+    const { data, error } = await createAuthClient().auth.refreshSession({ refresh_token: refreshToken });
+    if (error || !data.session) {
+      // Refresh token revocado o caducado: la sesión ya no sirve
+      if (error) console.error("No se pudo renovar la sesión:", error.message);
+      await sessionStorage.destroySession(session);
+      return null;
+    }
+    session.set("access_token", data.session.access_token);
+    session.set("refresh_token", data.session.refresh_token);
+    session.set("expires_at", data.session.expires_at ?? Math.floor(now / 1000) + data.session.expires_in);
+    changed = true;
+  }
+
+  if (changed || now - lastSeen > LAST_SEEN_THROTTLE_MS) {
+    session.set("last_seen", now);
+    // La cookie solo lleva el id de la sesión, así que basta con guardar los datos
+    await sessionStorage.commitSession(session);
+  }
+
+  return authId;
+}
+
+// Obtiene el usuario de la sesión (fila de public.users) o null si no hay sesión válida
+export async function getOptionalUser(request: Request): Promise<SessionUser | null> {
+  const authId = await getSessionAuthId(request);
+  if (!authId) return null;
+
+  const { data: user, error } = await supabase
+    .from("users")
+    .select("uuid, auth_id, email, name, rol, concesionario_id")
+    .eq("auth_id", authId)
+    .single();
+
+  if (error || !user) {
+    if (error) console.error("Error al cargar el usuario de la sesión:", error);
+    return null;
+  }
+
+  return {
+    uuid: user.uuid,
+    auth_id: user.auth_id,
+    email: user.email,
+    name: user.name,
+    rol: isRol(user.rol) ? user.rol : null,
+    concesionario_id: user.concesionario_id ?? null,
+  };
+}
+
+// Exige un usuario autenticado y, opcionalmente, uno de los roles indicados.
+// Lanza una respuesta 401 (sin sesión) o 403 (rol no permitido).
+export async function requireUser(request: Request, { roles }: RequireUserOptions = {}): Promise<SessionUser> {
+  const user = await getOptionalUser(request);
+  if (!user) {
+    throw unauthorized();
+  }
+  if (roles && (!user.rol || !roles.includes(user.rol))) {
+    throw forbidden();
+  }
+  return user;
+}
+
+// Abre una sesión a partir de la sesión de Supabase Auth recién obtenida
+// (login o registro) y devuelve la cabecera Set-Cookie.
+export async function createUserSession(
+  request: Request,
+  authSession: SupabaseSession,
+  { recovery = false }: { recovery?: boolean } = {}
+) {
+  // Siempre una sesión nueva: no se reutiliza un id de sesión previo a la autenticación
+  const session = await sessionStorage.getSession();
+  session.set("user_id", authSession.user.id);
+  session.set("access_token", authSession.access_token);
+  session.set("refresh_token", authSession.refresh_token);
+  session.set("expires_at", authSession.expires_at ?? Math.floor(Date.now() / 1000) + authSession.expires_in);
+  session.set("last_seen", Date.now());
+  session.set("user_agent", request.headers.get("User-Agent")?.slice(0, 255) ?? "");
+  if (recovery) session.set("recovery_at", Date.now());
+  return sessionStorage.commitSession(session);
+}
+
+// Cierra la sesión actual (también en Supabase) y devuelve la cabecera Set-Cookie
+export async function logout(request: Request) {
+  const session = await getSession(request);
+  const accessToken = session.get("access_token");
+  if (accessToken) {
+    const { error } = await supabase.auth.admin.signOut(accessToken, "local");
+    if (error) console.error("Error cerrando la sesión en Supabase:", error.message);
+  }
+  return sessionStorage.destroySession(session);
+}
+
+// Cierra todas las sesiones del usuario: las filas de public.sesiones y los
+// refresh tokens emitidos por Supabase en cualquier dispositivo.
+export async function revokeAllSessions(request: Request) {
+  const session = await getSession(request);
+  const authId = session.get("user_id");
+  const accessToken = session.get("access_token");
+  if (!authId) return sessionStorage.destroySession(session);
+
+  if (accessToken) {
+    const { error } = await supabase.auth.admin.signOut(accessToken, "global");
+    if (error) console.error("Error revocando las sesiones en Supabase:", error.message);
+  }
+  await deleteSesiones(authId);
+  return sessionStorage.destroySession(session);
+}
+
+// Página inicial según el rol: los suscriptores van al catálogo público y el
+// resto al inventario; sin rol todavía hay que completar el perfil.
+export function homePathFor(rol: string | null) {
+  if (!rol) return "/completar-perfil";
+  return rol === "suscriptor" ? "/vehiculosAdminGrid" : "/vehiculos";
+}
+
+// Tiempo para elegir una contraseña nueva tras abrir el enlace de recuperación
+const RECOVERY_WINDOW_MS = 15 * 60 * 1000;
+
+// Usuario que llegó desde un enlace de recuperación reciente, o null
+export async function getRecoveryUser(request: Request) {
+  const user = await getOptionalUser(request);
+  if (!user) return null;
+  const session = await getSession(request);
+  const recoveryAt = session.get("recovery_at");
+  if (!recoveryAt || Date.now() - recoveryAt > RECOVERY_WINDOW_MS) return null;
+  return user;
+}
+
+// Cambia la contraseña del usuario en recuperación y cierra el resto de sus
+// sesiones. Devuelve la cabecera Set-Cookie de la sesión actual.
+export async function resetPassword(request: Request, user: SessionUser, password: string) {
+  const { error } = await supabase.auth.admin.updateUserById(user.auth_id, { password });
+  if (error) return { error: error.message, cookie: null };
+
+  const session = await getSession(request);
+  const accessToken = session.get("access_token");
+  if (accessToken) {
+    const { error: signOutError } = await supabase.auth.admin.signOut(accessToken, "others");
+    if (signOutError) console.error("Error cerrando las otras sesiones en Supabase:", signOutError.message);
+  }
+  await deleteSesiones(user.auth_id, { except: session.id });
+
+  session.unset("recovery_at");
+  return { error: null, cookie: await sessionStorage.commitSession(session) };
+}
@@ -0,0 +1,31 @@
+import { supabase } from "~/utils/supabase.server";
+import { BUSQUEDA_MIN_SUGERENCIAS, limpiarConsulta, type Sugerencia } from "~/utils/busqueda";
+
+// Alcance de las sugerencias: inventario de un concesionario o de un vendedor
+// particular, y opcionalmente un estado concreto
+export type AlcanceBusqueda = {
+  concesionarioId?: string | null;
+  userId?: string | null;
+  estado?: string | null;
+};
+
+// Sugerencias de autocompletado; ante un error devuelve una lista vacía
+export async function sugerirBusqueda(consulta: string, alcance: AlcanceBusqueda = {}, limite = 8): Promise<Sugerencia[]> {
+  const texto = limpiarConsulta(consulta);
+  if (texto.length < BUSQUEDA_MIN_SUGERENCIAS) return [];
+
+  const { data, error } = await supabase.rpc("sugerir_busqueda", {
+    consulta: texto,
+    alcance: {
+      concesionario_id: alcance.concesionarioId ?? null,
+      user_id: alcance.userId ?? null,
+      estado: alcance.estado ?? null,
+    },
+    limite,
+  });
+  if (error) {
+    console.error("Error obteniendo sugerencias de búsqueda:", error);
+    return [];
+  }
+  return (data ?? []) as Sugerencia[];
+}
@@ -0,0 +1,22 @@
+// Búsqueda de vehículos (ver las funciones SQL buscar_vehiculos y sugerir_busqueda)
+
+export const TIPOS_SUGERENCIA = ["marca", "modelo", "version", "placa"] as const;
+
+export type TipoSugerencia = (typeof TIPOS_SUGERENCIA)[number];
+
+export const TIPO_SUGERENCIA_LABELS: Record<TipoSugerencia, string> = {
+  marca: "Marca",
+  modelo: "Modelo",
+  version: "Versión",
+  placa: "Placa",
+};
+
+export type Sugerencia = { sugerencia: string; tipo: TipoSugerencia; total: number };
+
+// Longitud mínima para pedir sugerencias y máxima de una consulta
+export const BUSQUEDA_MIN_SUGERENCIAS = 2;
+export const BUSQUEDA_MAX_LENGTH = 100;
+
+export function limpiarConsulta(consulta: string | null | undefined) {
+  return (consulta ?? "").replace(/\s+/g, " ").trim().slice(0, BUSQUEDA_MAX_LENGTH);
+}
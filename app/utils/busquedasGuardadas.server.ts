@@ -0,0 +1,177 @@
+import { supabase } from "~/utils/supabase.server";
+import type { SessionUser } from "~/utils/auth.server";
+import { parseFiltrosCatalogo } from "~/utils/facetas.server";
+import { notificarAlertaBusqueda } from "~/utils/notificaciones.server";
+import {
+  BUSQUEDA_NOMBRE_MAX_LENGTH,
+  MAX_BUSQUEDAS_GUARDADAS,
+  describirFiltros,
+  filtrosAQuery,
+  filtrosGuardados,
+  type AlertaBusqueda,
+  type BusquedaGuardada,
+} from "~/utils/busquedasGuardadas";
+
+export type BusquedaErrors = {
+  nombre?: string;
+  filtros?: string;
+  form?: string;
+};
+
+const BUSQUEDA_COLUMNS = "id, nombre, filtros, alertas, created_at";
+
+// Alertas que se muestran en /busquedas
+const ALERTAS_RECIENTES = 50;
+
+export async function listBusquedas(user: SessionUser) {
+  const { data, error } = await supabase
+    .from("busquedas_guardadas")
+    .select(BUSQUEDA_COLUMNS)
+    .eq("user_id", user.uuid)
+    .order("created_at", { ascending: false });
+  if (error) console.error("Error cargando las búsquedas guardadas:", error);
+  return (data || []) as BusquedaGuardada[];
+}
+
+// Guarda los filtros del catálogo (campo `filtros` con la query string del
+// grid). Sin nombre se usa el resumen de los filtros.
+export async function guardarBusqueda(
+  user: SessionUser,
+  formData: FormData
+): Promise<{ errors?: BusquedaErrors; busqueda?: BusquedaGuardada }> {
+  const filtros = filtrosGuardados(parseFiltrosCatalogo(new URLSearchParams(String(formData.get("filtros") || ""))));
+  if (Object.keys(filtros).length === 0) {
+    return { errors: { filtros: "Aplica al menos un filtro antes de guardar la búsqueda." } };
+  }
+
+  const nombre = String(formData.get("nombre") || "").trim() || describirFiltros(filtros);
+  if (nombre.length > BUSQUEDA_NOMBRE_MAX_LENGTH) {
+    return { errors: { nombre: `El nombre no puede superar ${BUSQUEDA_NOMBRE_MAX_LENGTH} caracteres.` } };
+  }
+
+  const existentes = await listBusquedas(user);
+  if (existentes.some((b) => filtrosAQuery(b.filtros) === filtrosAQuery(filtros))) {
+    return { errors: { filtros: "Ya tienes guardada una búsqueda con estos filtros." } };
+  }
+  if (existentes.length >= MAX_BUSQUEDAS_GUARDADAS) {
+    return {
+      errors: { form: `Puedes guardar hasta ${MAX_BUSQUEDAS_GUARDADAS} búsquedas. Elimina alguna para guardar otra.` },
+    };
+  }
+
+  const { data, error } = await supabase
+    .from("busquedas_guardadas")
+    .insert({ user_id: user.uuid, nombre, filtros })
+    .select(BUSQUEDA_COLUMNS)
+    .single();
+  if (error || !data) {
+    console.error("Error guardando la búsqueda:", error);
+    return { errors: { form: "No se pudo guardar la búsqueda." } };
+  }
+  return { busqueda: data as BusquedaGuardada };
+}
+
+export async function cambiarAlertas(user: SessionUser, busquedaId: string, alertas: boolean) {
+  const { error } = await supabase
+    .from("busquedas_guardadas")
+    .update({ alertas, updated_at: new Date().toISOString() })
+    .eq("id", busquedaId)
+    .eq("user_id", user.uuid);
+  if (error) {
+    console.error("Error actualizando las alertas de la búsqueda:", error);
+    return { errors: { form: "No se pudieron actualizar las alertas." } as BusquedaErrors };
+  }
+  return {};
+}
+
+export async function eliminarBusqueda(user: SessionUser, busquedaId: string) {
+  const { error } = await supabase.from("busquedas_guardadas").delete().eq("id", busquedaId).eq("user_id", user.uuid);
+  if (error) {
+    console.error("Error eliminando la búsqueda:", error);
+    return { errors: { form: "No se pudo eliminar la búsqueda." } as BusquedaErrors };
+  }
+  return {};
+}
+
+export async function listAlertas(user: SessionUser) {
+  const { data, error } = await supabase
+    .from("alertas_busqueda")
+    .select(
+      "id, busqueda_id, leida_at, created_at, busqueda:busquedas_guardadas(nombre), vehiculo:vehiculos(uuid, marca, modelo, anio, precio, estado)"
+    )
+    .eq("user_id", user.uuid)
+    .order("created_at", { ascending: false })
+    .limit(ALERTAS_RECIENTES);
+  if (error) console.error("Error cargando las alertas de búsqueda:", error);
+  return (data || []) as unknown as AlertaBusqueda[];
+}
+
+// Para el contador del menú lateral
+export async function contarAlertasSinLeer(userId: string) {
+  const { count, error } = await supabase
+    .from("alertas_busqueda")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .is("leida_at", null);
+  if (error) console.error("Error contando las alertas de búsqueda:", error);
+  return count ?? 0;
+}
+
+export async function marcarAlertasLeidas(user: SessionUser) {
+  const { error } = await supabase
+    .from("alertas_busqueda")
+    .update({ leida_at: new Date().toISOString() })
+    .eq("user_id", user.uuid)
+    .is("leida_at", null);
+  if (error) {
+    console.error("Error marcando las alertas como leídas:", error);
+    return { errors: { form: "No se pudieron marcar las alertas como leídas." } as BusquedaErrors };
+  }
+  return {};
+}
+
+// Crea las alertas de las búsquedas que cumple un vehículo recién publicado o
+// que vuelve a estar disponible, y avisa por email. Una búsqueda no recibe dos
+// alertas del mismo vehículo.
+export async function alertarBusquedasGuardadas(request: Request, vehiculo: { uuid: string }) {
+  try {
+    const { data: busquedas, error } = await supabase.rpc("busquedas_para_vehiculo", { vehiculo: vehiculo.uuid });
+    if (error) {
+      console.error("Error buscando búsquedas para el vehículo:", error);
+      return;
+    }
+    if (!busquedas || busquedas.length === 0) return;
+
+    const { data: creadas, error: insertError } = await supabase
+      .from("alertas_busqueda")
+      .upsert(
+        (busquedas as { id: string; user_id: string }[]).map((b) => ({
+          busqueda_id: b.id,
+          user_id: b.user_id,
+          vehiculo_uuid: vehiculo.uuid,
+        })),
+        { onConflict: "busqueda_id,vehiculo_uuid", ignoreDuplicates: true }
+      )
+      .select("busqueda_id");
+    if (insertError) {
+      console.error("Error creando las alertas de búsqueda:", insertError);
+      return;
+    }
+
+    const nuevas = new Set((creadas || []).map((a) => a.busqueda_id as string));
+    const { data: datos } = await supabase
+      .from("vehiculos")
+      .select("uuid, marca, modelo, anio")
+      .eq("uuid", vehiculo.uuid)
+      .maybeSingle();
+    if (!datos || nuevas.size === 0) return;
+
+    await notificarAlertaBusqueda(
+      request,
+      datos,
+      (busquedas as { id: string; user_id: string; nombre: string }[]).filter((b) => nuevas.has(b.id))
+    );
+  } catch (error) {
+    console.error("Error generando las alertas de búsqueda:", error);
+  }
+}
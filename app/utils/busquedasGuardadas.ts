@@ -0,0 +1,81 @@
+import { FILTROS_CATALOGO, type FiltrosCatalogo } from "~/utils/facetas";
+
+// Búsquedas guardadas por comprador
+export const MAX_BUSQUEDAS_GUARDADAS = 20;
+
+export const BUSQUEDA_NOMBRE_MAX_LENGTH = 80;
+
+// Filtros guardados: solo los que tienen valor, con las claves de la URL
+export type FiltrosGuardados = Partial<Record<(typeof FILTROS_CATALOGO)[number], string>>;
+
+export type BusquedaGuardada = {
+  id: string;
+  nombre: string;
+  filtros: FiltrosGuardados;
+  alertas: boolean;
+  created_at: string;
+};
+
+export type AlertaBusqueda = {
+  id: number;
+  busqueda_id: string;
+  leida_at: string | null;
+  created_at: string;
+  busqueda: { nombre: string } | null;
+  vehiculo: {
+    uuid: string;
+    marca: string | null;
+    modelo: string | null;
+    anio: number | null;
+    precio: number | null;
+    estado: string | null;
+  } | null;
+};
+
+export function filtrosGuardados(filtros: FiltrosCatalogo): FiltrosGuardados {
+  return Object.fromEntries(
+    FILTROS_CATALOGO.flatMap((filtro) => (filtros[filtro] ? [[filtro, filtros[filtro]]] : []))
+  ) as FiltrosGuardados;
+}
+
+// Filtros con valor de la URL del catálogo (el servidor los vuelve a validar)
+export function filtrosDesdeQuery(searchParams: URLSearchParams): FiltrosGuardados {
+  return Object.fromEntries(
+    FILTROS_CATALOGO.flatMap((filtro) => {
+      const valor = searchParams.get(filtro)?.trim();
+      return valor ? [[filtro, valor]] : [];
+    })
+  ) as FiltrosGuardados;
+}
+
+// Parámetros para abrir la búsqueda en el catálogo
+export function filtrosAQuery(filtros: FiltrosGuardados) {
+  return new URLSearchParams(filtros as Record<string, string>).toString();
+}
+
+const numero = (valor: string) => new Intl.NumberFormat("es-CO").format(Number(valor));
+
+const rango = (min: string | undefined, max: string | undefined, prefijo: string, sufijo: string) => {
+  if (min && max) return `${prefijo}${numero(min)} - ${prefijo}${numero(max)}${sufijo}`;
+  if (min) return `desde ${prefijo}${numero(min)}${sufijo}`;
+  if (max) return `hasta ${prefijo}${numero(max)}${sufijo}`;
+  return null;
+};
+
+// Resumen legible de los filtros, p. ej. "Mazda CX-5 · 2020 · hasta $80.000.000"
+export function describirFiltros(filtros: FiltrosGuardados) {
+  return (
+    [
+      [filtros.marca, filtros.modelo].filter(Boolean).join(" "),
+      filtros.anio,
+      rango(filtros.precioMin, filtros.precioMax, "$", ""),
+      rango(filtros.kmMin, filtros.kmMax, "", " km"),
+      filtros.combustible,
+      filtros.transmision,
+      filtros.carroceria,
+      filtros.traccion,
+    ]
+      .filter(Boolean)
+      .join(" · ") || "Todos los vehículos"
+  );
+}
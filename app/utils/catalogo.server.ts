@@ -0,0 +1,95 @@
+import { json } from "@remix-run/node";
+import { supabase } from "~/utils/supabase.server";
+import { aplicarFiltrosCatalogo, loadFacetas, parseFiltrosCatalogo } from "~/utils/facetas.server";
+import type { Facetas, FiltrosCatalogo } from "~/utils/facetas";
+
+// Columnas por las que se puede ordenar el catálogo
+const SORT_COLUMNS = ["precio", "anio", "km"];
+
+// Alcance del catálogo: global o solo el inventario de un concesionario (vitrina)
+export type CatalogoScope = { concesionarioId?: string | null };
+
+// El catálogo público solo muestra vehículos disponibles (ver vehiculoEstado.ts)
+function selectPublicos<Columns extends string>(
+  scope: CatalogoScope,
+  columns: Columns,
+  options?: { count?: "exact" | "planned" | "estimated"; head?: boolean }
+) {
+  const query = supabase.from("vehiculos").select(columns, options).eq("estado", "disponible");
+  return scope.concesionarioId ? query.eq("concesionario_id", scope.concesionarioId) : query;
+}
+
+// --- Tipos ---
+
+export type VehiculoType = {
+  uuid: string;
+  marca: string | null;
+  modelo: string | null;
+  anio: number | null;
+  km: number | null;
+  precio: number | null;
+  transmision: string | null;
+  url_img: string | null;
+};
+
+export type LoaderData = {
+  vehiculos: VehiculoType[];
+  // Solo en la primera página: las siguientes conservan las del cliente
+  facetas: Facetas | null;
+  filtrosActivos: FiltrosCatalogo;
+  error?: string;
+  totalVehiculos: number;
+  hasMore: boolean;
+  offset: number;
+};
+
+// Loader del catálogo público (grid con filtros, facetas, orden y scroll infinito)
+export async function loadCatalogo(request: Request, scope: CatalogoScope = {}) {
+  const { searchParams } = new URL(request.url);
+  const offset = Number(searchParams.get("offset")) || 0;
+  const filtros = parseFiltrosCatalogo(searchParams);
+  const sortBy = searchParams.get("sortBy");
+  const sortOrder = searchParams.get("sortOrder");
+  const limit = 20;
+
+  try {
+    const facetas =
+      offset === 0
+        ? loadFacetas(filtros, { concesionarioId: scope.concesionarioId, estado: "disponible" })
+        : Promise.resolve(null);
+
+    let query = aplicarFiltrosCatalogo(
+      selectPublicos(scope, "uuid, marca, modelo, anio, km, precio, transmision, url_img", { count: "exact" }),
+      filtros
+    );
+    if (sortBy && sortOrder && SORT_COLUMNS.includes(sortBy)) {
+      query = query.order(sortBy, { ascending: sortOrder === 'asc' });
+    } else {
+      query = query.order("anio", { ascending: false });
+    }
+
+    const { data: vehiculos, error, count } = await query.range(offset, offset + limit - 1);
+    if (error) throw error;
+
+    const totalVehiculos = count || 0;
+    return json<LoaderData>({
+      vehiculos: vehiculos || [],
+      facetas: await facetas,
+      filtrosActivos: filtros,
+      totalVehiculos,
+      hasMore: offset + (vehiculos?.length || 0) < totalVehiculos,
+      offset,
+    });
+  } catch (error: unknown) {
+    return json<LoaderData>({
+      vehiculos: [],
+      facetas: null,
+      filtrosActivos: filtros,
+      // Los errores de Supabase son objetos con message, no instancias de Error
+      error: (error as { message?: string } | null)?.message || "Error desconocido",
+      totalVehiculos: 0,
+      hasMore: false,
+      offset: 0,
+    });
+  }
+}
@@ -0,0 +1,132 @@
+import { supabase } from "~/utils/supabase.server";
+import { normalizarFicha, type CampoFicha, type FichaTecnica } from "~/utils/fichaTecnica";
+
+// Opciones de los selectores marca → modelo → año → versión a partir del
+// árbol precalculado en catalogo_cache (ver la migración catalogo_cache). El
+// árbol se guarda en memoria entre peticiones y se recarga cuando cambia su
+// revisión, es decir, cuando se modifica cotizador.
+
+// {"Mazda": {"3": {"2020": ["Grand Touring", ...]}}}
+export type ArbolCatalogo = Record<string, Record<string, Record<string, string[]>>>;
+
+type CatalogoEnMemoria = {
+  revision: number;
+  arbol: ArbolCatalogo;
+  marcas: string[];
+  anios: string[];
+  revisadoAt: number;
+};
+
+// Cada cuánto se comprueba la revisión, para enterarse de importaciones
+// hechas desde otra instancia del servidor
+const REVISION_TTL_MS = 30 * 1000;
+
+let cache: CatalogoEnMemoria | null = null;
+// Carga en curso compartida por las peticiones simultáneas
+let cargando: Promise<CatalogoEnMemoria> | null = null;
+// Aumenta al invalidar, para no guardar una carga que empezó antes
+let generacion = 0;
+
+const ordenarTexto = (valores: string[]) => [...valores].sort((a, b) => a.localeCompare(b, "es"));
+const ordenarAnios = (valores: string[]) => [...valores].sort((a, b) => Number(b) - Number(a));
+
+async function recargar(actual: CatalogoEnMemoria | null): Promise<CatalogoEnMemoria> {
+  if (actual) {
+    const { data, error } = await supabase.from("catalogo_cache").select("revision").maybeSingle();
+    if (error) console.error("Error consultando la revisión del catálogo:", error);
+    // Sin cambios (o sin poder comprobarlo) se sigue usando el árbol en memoria
+    if (error || data?.revision === actual.revision) {
+      return { ...actual, revisadoAt: Date.now() };
+    }
+  }
+
+  const { data, error } = await supabase.from("catalogo_cache").select("revision, arbol").maybeSingle();
+  if (error) throw error;
+
+  const arbol = (data?.arbol ?? {}) as ArbolCatalogo;
+  const anios = new Set<string>();
+  for (const modelos of Object.values(arbol)) {
+    for (const porAnio of Object.values(modelos)) {
+      for (const anio of Object.keys(porAnio)) anios.add(anio);
+    }
+  }
+  return {
+    revision: data?.revision ?? 0,
+    arbol,
+    marcas: ordenarTexto(Object.keys(arbol)),
+    anios: ordenarAnios(Array.from(anios)),
+    revisadoAt: Date.now(),
+  };
+}
+
+async function loadCatalogo() {
+  if (cache && Date.now() - cache.revisadoAt < REVISION_TTL_MS) return cache;
+  if (!cargando) {
+    const inicio = generacion;
+    const carga = recargar(cache)
+      .then((catalogo) => {
+        if (inicio === generacion) cache = catalogo;
+        return catalogo;
+      })
+      .finally(() => {
+        if (cargando === carga) cargando = null;
+      });
+    cargando = carga;
+  }
+  return cargando;
+}
+
+// Descarta el árbol en memoria; la siguiente consulta lo lee de la base de datos
+export function invalidarCatalogo() {
+  generacion++;
+  cache = null;
+  cargando = null;
+}
+
+// ETag de las opciones: cambia con cada modificación del cotizador
+export async function etagCatalogo() {
+  const { revision } = await loadCatalogo();
+  return `W/"catalogo-${revision}"`;
+}
+
+// Marcas y años de todo el catálogo (carga inicial del formulario)
+export async function loadOpcionesIniciales() {
+  const { marcas, anios } = await loadCatalogo();
+  return { marcas, anios };
+}
+
+export async function loadModelos(marca: string) {
+  const { arbol } = await loadCatalogo();
+  return ordenarTexto(Object.keys(arbol[marca] ?? {}));
+}
+
+export async function loadAnios(marca: string, modelo: string) {
+  const { arbol } = await loadCatalogo();
+  return ordenarAnios(Object.keys(arbol[marca]?.[modelo] ?? {}));
+}
+
+export async function loadVersiones(marca: string, modelo: string, anio: string) {
+  const { arbol } = await loadCatalogo();
+  return ordenarTexto(arbol[marca]?.[modelo]?.[anio] ?? []);
+}
+
+// Ficha técnica de una versión y año según cotizador (ver fichaTecnica.ts).
+// Si hay varias filas vale el primer dato no vacío de cada campo.
+export async function loadFicha(marca: string, modelo: string, anio: string, version: string): Promise<FichaTecnica> {
+  const { data, error } = await supabase
+    .from("cotizador")
+    .select("fecha, puertas, combustible, transmision, carroceria, traccion, cilindraje")
+    .eq("marca", marca)
+    .eq("modelo", modelo)
+    .eq("version", version);
+  if (error) throw error;
+
+  const filas = (data || []).filter((row) => String(row.fecha).match(/^(\d{4})/)?.[1] === anio);
+  const ficha: FichaTecnica = {};
+  for (const fila of filas) {
+    for (const [campo, valor] of Object.entries(normalizarFicha(fila)) as [CampoFicha, string][]) {
+      ficha[campo] ??= valor;
+    }
+  }
+  return ficha;
+}
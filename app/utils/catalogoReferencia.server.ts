@@ -0,0 +1,328 @@
+import { supabase } from "~/utils/supabase.server";
+import { forbidden, requireUser, type SessionUser } from "~/utils/auth.server";
+import { leerHojaCalculo, normalizarEncabezado, parseNumero } from "~/utils/hojaCalculo.server";
+import { invalidarCatalogo } from "~/utils/catalogoOpciones.server";
+import { CAMPOS_FICHA, normalizarCampoFicha, type CampoFicha } from "~/utils/fichaTecnica";
+import {
+  CATALOGO_MUESTRAS,
+  claveCatalogo,
+  type CatalogoCambio,
+  type CatalogoErrorFila,
+  type CatalogoFila,
+  type CatalogoResumen,
+  type CatalogoVersion,
+} from "~/utils/catalogoReferencia";
+
+export type CatalogoErrors = {
+  nombre?: string;
+  archivo?: string;
+  form?: string;
+};
+
+const VERSION_COLUMNS = "id, nombre, archivo, estado, resumen, created_at, publicada_at";
+
+// Filas por petición al leer o insertar (límite de PostgREST por defecto)
+const LOTE = 1000;
+const MAX_FILAS = 100_000;
+// Errores por fila que se guardan en el resumen
+const MAX_ERRORES = 100;
+
+// Encabezados aceptados para cada columna (ya normalizados)
+const COLUMNAS: Record<keyof CatalogoFila, string[]> = {
+  marca: ["marca"],
+  modelo: ["modelo", "linea"],
+  anio: ["anio", "ano", "year", "fecha"],
+  version: ["version", "referencia"],
+  valor: ["valor", "precio", "valor_referencia"],
+  puertas: ["puertas", "numero_puertas"],
+  combustible: ["combustible"],
+  transmision: ["transmision", "caja"],
+  carroceria: ["carroceria", "tipo_carroceria"],
+  traccion: ["traccion"],
+  cilindraje: ["cilindraje", "cilindrada"],
+};
+
+// Valor de la ficha para guardar: la opción del formulario si se reconoce;
+// los textos que no se reconocen se guardan tal cual
+function parseCampoFicha(campo: CampoFicha, texto: string) {
+  const normalizado = normalizarCampoFicha(campo, texto);
+  if (campo === "puertas" || campo === "cilindraje") return normalizado === null ? null : Number(normalizado);
+  return normalizado ?? (texto.trim() || null);
+}
+
+// Los administradores del catálogo se definen por email en CATALOGO_ADMINS
+// (separados por comas); el catálogo es común a todos los concesionarios.
+export function esAdminCatalogo(user: Pick<SessionUser, "email"> | null) {
+  if (!user) return false;
+  const admins = (process.env.CATALOGO_ADMINS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  return admins.includes(user.email.toLowerCase());
+}
+
+export async function requireAdminCatalogo(request: Request) {
+  const user = await requireUser(request);
+  if (!esAdminCatalogo(user)) throw forbidden();
+  return user;
+}
+
+function parseFilas(encabezados: string[], filas: string[][]) {
+  const normalizados = encabezados.map(normalizarEncabezado);
+  const indices = Object.fromEntries(
+    Object.entries(COLUMNAS).map(([campo, alias]) => [campo, normalizados.findIndex((e) => alias.includes(e))])
+  ) as Record<keyof CatalogoFila, number>;
+
+  const faltantes = (["marca", "modelo", "anio", "version"] as const).filter((campo) => indices[campo] < 0);
+  if (faltantes.length > 0) {
+    return { error: `Faltan columnas en el archivo: ${faltantes.join(", ")}. Se esperan marca, modelo, año, versión y valor.` };
+  }
+
+  const anioMaximo = new Date().getFullYear() + 2;
+  const validas = new Map<string, CatalogoFila>();
+  const errores: CatalogoErrorFila[] = [];
+  const agregarError = (fila: number, mensaje: string) => {
+    if (errores.length < MAX_ERRORES) errores.push({ fila, mensaje });
+  };
+  let totalErrores = 0;
+
+  filas.forEach((celdas, i) => {
+    // Numeración como en la hoja: encabezado en la fila 1
+    const numero = i + 2;
+    const marca = celdas[indices.marca];
+    const modelo = celdas[indices.modelo];
+    const version = celdas[indices.version];
+    const anio = Number(celdas[indices.anio].match(/^(\d{4})/)?.[1]);
+    const valor = indices.valor < 0 ? null : parseNumero(celdas[indices.valor]);
+
+    let mensaje: string | null = null;
+    if (!marca || !modelo || !version) mensaje = "Marca, modelo y versión son obligatorios.";
+    else if (!Number.isInteger(anio) || anio < 1950 || anio > anioMaximo) mensaje = "Año no válido.";
+    else if (valor === undefined) mensaje = "Valor no válido.";
+    else {
+      const fila: CatalogoFila = { marca, modelo, anio, version, valor };
+      for (const { campo } of CAMPOS_FICHA) {
+        if (indices[campo] >= 0) Object.assign(fila, { [campo]: parseCampoFicha(campo, celdas[indices[campo]]) });
+      }
+      const clave = claveCatalogo(fila);
+      if (validas.has(clave)) mensaje = "Fila duplicada (misma marca, modelo, año y versión).";
+      else validas.set(clave, fila);
+    }
+    if (mensaje) {
+      totalErrores++;
+      agregarError(numero, mensaje);
+    }
+  });
+
+  return { filas: Array.from(validas.values()), errores, totalErrores };
+}
+
+// Catálogo vigente (cotizador) indexado por clave; los valores repetidos de
+// una misma versión y año se promedian, como en loadValorReferencia
+async function loadCotizadorVigente() {
+  const valores = new Map<string, { fila: CatalogoFila; suma: number; cantidad: number }>();
+  for (let desde = 0; ; desde += LOTE) {
+    const { data, error } = await supabase
+      .from("cotizador")
+      .select("marca, modelo, version, fecha, valor, puertas, combustible, transmision, carroceria, traccion, cilindraje")
+      .order("marca")
+      .order("modelo")
+      .order("version")
+      .order("fecha")
+      .range(desde, desde + LOTE - 1);
+    if (error) throw error;
+
+    for (const row of data || []) {
+      const anio = Number(String(row.fecha).match(/^(\d{4})/)?.[1]);
+      if (!row.marca || !row.modelo || !row.version || !anio) continue;
+      const fila: CatalogoFila = { marca: row.marca, modelo: row.modelo, anio, version: row.version, valor: null };
+      const clave = claveCatalogo(fila);
+      const actual = valores.get(clave) ?? { fila, suma: 0, cantidad: 0 };
+      // Con filas repetidas vale el primer dato de ficha no vacío
+      for (const { campo } of CAMPOS_FICHA) {
+        if ((actual.fila[campo] ?? null) === null && row[campo] !== null) Object.assign(actual.fila, { [campo]: row[campo] });
+      }
+      const valor = Number(row.valor);
+      if (row.valor !== null && Number.isFinite(valor)) {
+        actual.suma += valor;
+        actual.cantidad++;
+      }
+      valores.set(clave, actual);
+    }
+    if (!data || data.length < LOTE) break;
+  }
+
+  return new Map(
+    Array.from(valores, ([clave, { fila, suma, cantidad }]) => [
+      clave,
+      { ...fila, valor: cantidad > 0 ? Math.round(suma / cantidad) : null },
+    ])
+  );
+}
+
+function calcularDiff(
+  nuevas: CatalogoFila[],
+  vigentes: Map<string, CatalogoFila>
+): Omit<CatalogoResumen, "total" | "errores"> {
+  const agregadas: CatalogoFila[] = [];
+  const modificadas: CatalogoCambio[] = [];
+  let sinCambios = 0;
+  const claves = new Set<string>();
+
+  for (const fila of nuevas) {
+    const clave = claveCatalogo(fila);
+    claves.add(clave);
+    const anterior = vigentes.get(clave);
+    if (!anterior) {
+      agregadas.push(fila);
+      continue;
+    }
+    const cambios: NonNullable<CatalogoCambio["cambios"]> = anterior.valor !== fila.valor ? ["valor"] : [];
+    for (const { campo } of CAMPOS_FICHA) {
+      if ((anterior[campo] ?? null) !== (fila[campo] ?? null)) cambios.push(campo);
+    }
+    if (cambios.length > 0) modificadas.push({ ...fila, valor_anterior: anterior.valor, cambios });
+    else sinCambios++;
+  }
+  const descontinuadas = Array.from(vigentes.entries())
+    .filter(([clave]) => !claves.has(clave))
+    .map(([, fila]) => fila);
+
+  return {
+    agregadas: agregadas.length,
+    modificadas: modificadas.length,
+    descontinuadas: descontinuadas.length,
+    sin_cambios: sinCambios,
+    muestras: {
+      agregadas: agregadas.slice(0, CATALOGO_MUESTRAS),
+      // Primero los cambios de valor más grandes
+      modificadas: modificadas
+        .sort((a, b) => Math.abs((b.valor ?? 0) - (b.valor_anterior ?? 0)) - Math.abs((a.valor ?? 0) - (a.valor_anterior ?? 0)))
+        .slice(0, CATALOGO_MUESTRAS),
+      descontinuadas: descontinuadas.slice(0, CATALOGO_MUESTRAS),
+    },
+  };
+}
+
+export async function listVersiones() {
+  const { data, error } = await supabase
+    .from("catalogo_versiones")
+    .select(VERSION_COLUMNS)
+    .order("created_at", { ascending: false });
+  if (error) console.error("Error cargando las versiones del catálogo:", error);
+  return (data || []) as CatalogoVersion[];
+}
+
+export async function loadVersion(id: string) {
+  if (!/^\d+$/.test(id)) return null;
+  const { data, error } = await supabase.from("catalogo_versiones").select(VERSION_COLUMNS).eq("id", id).maybeSingle();
+  if (error) console.error("Error cargando la versión del catálogo:", error);
+  return (data as CatalogoVersion | null) ?? null;
+}
+
+// Versión vigente, que se guarda en cada vehículo al publicarlo
+export async function loadCatalogoVigenteId(): Promise<number | null> {
+  const { data, error } = await supabase
+    .from("catalogo_versiones")
+    .select("id")
+    .eq("estado", "publicada")
+    .maybeSingle();
+  if (error) console.error("Error cargando la versión vigente del catálogo:", error);
+  return data?.id ?? null;
+}
+
+// Importa un CSV/XLSX como borrador y calcula el diff con el catálogo vigente.
+// Las filas con errores se omiten y se listan en el resumen.
+export async function importarCatalogo(
+  user: SessionUser,
+  formData: FormData
+): Promise<{ errors?: CatalogoErrors; version?: CatalogoVersion }> {
+  const archivo = formData.get("archivo");
+  if (!(archivo instanceof File) || archivo.size === 0) {
+    return { errors: { archivo: "Selecciona el archivo del catálogo." } };
+  }
+  const nombre = String(formData.get("nombre") || "").trim() || archivo.name;
+  if (nombre.length > 120) return { errors: { nombre: "El nombre no puede superar 120 caracteres." } };
+
+  const { hoja, error: errorLectura } = await leerHojaCalculo(archivo);
+  if (!hoja) return { errors: { archivo: errorLectura } };
+  if (hoja.filas.length > MAX_FILAS) {
+    return { errors: { archivo: `El archivo supera el máximo de ${MAX_FILAS.toLocaleString("es-CO")} filas.` } };
+  }
+
+  const parsed = parseFilas(hoja.encabezados, hoja.filas);
+  if (!parsed.filas) return { errors: { archivo: parsed.error } };
+  if (parsed.filas.length === 0) {
+    return { errors: { archivo: "Ninguna fila del archivo es válida. Revisa el formato de las columnas." } };
+  }
+
+  let vigentes: Map<string, CatalogoFila>;
+  try {
+    vigentes = await loadCotizadorVigente();
+  } catch (error) {
+    console.error("Error cargando el catálogo vigente:", error);
+    return { errors: { form: "No se pudo leer el catálogo vigente." } };
+  }
+
+  const resumen: CatalogoResumen = {
+    total: parsed.filas.length,
+    errores: parsed.errores,
+    ...calcularDiff(parsed.filas, vigentes),
+  };
+  if (parsed.totalErrores > parsed.errores.length) {
+    resumen.errores.push({ fila: 0, mensaje: `Y ${parsed.totalErrores - parsed.errores.length} filas más con errores.` });
+  }
+
+  const { data: version, error } = await supabase
+    .from("catalogo_versiones")
+    .insert({ nombre, archivo: archivo.name, resumen, creada_por: user.uuid })
+    .select(VERSION_COLUMNS)
+    .single();
+  if (error || !version) {
+    console.error("Error creando la versión del catálogo:", error);
+    return { errors: { form: "No se pudo guardar la importación." } };
+  }
+
+  for (let desde = 0; desde < parsed.filas.length; desde += LOTE) {
+    const lote = parsed.filas.slice(desde, desde + LOTE).map((fila) => ({ ...fila, version_id: version.id }));
+    const { error: errorFilas } = await supabase.from("catalogo_filas").insert(lote);
+    if (errorFilas) {
+      console.error("Error guardando las filas del catálogo:", errorFilas);
+      await supabase.from("catalogo_versiones").delete().eq("id", version.id);
+      return { errors: { form: "No se pudieron guardar las filas del catálogo." } };
+    }
+  }
+
+  return { version: version as CatalogoVersion };
+}
+
+// Reemplaza el cotizador con las filas del borrador (ver publicar_catalogo);
+// marcas_unicas y catalogo_cache se actualizan por trigger
+export async function publicarVersion(id: number): Promise<{ errors?: CatalogoErrors }> {
+  const { error } = await supabase.rpc("publicar_catalogo", { id_version: id });
+  if (error) {
+    console.error("Error publicando la versión del catálogo:", error);
+    return { errors: { form: "No se pudo publicar la versión. Revisa que siga en borrador." } };
+  }
+  // Las demás instancias lo notan al comprobar la revisión
+  invalidarCatalogo();
+  return {};
+}
+
+// Un borrador descartado conserva su resumen pero no sus filas
+export async function descartarVersion(id: number): Promise<{ errors?: CatalogoErrors }> {
+  const { data, error } = await supabase
+    .from("catalogo_versiones")
+    .update({ estado: "descartada" })
+    .eq("id", id)
+    .eq("estado", "borrador")
+    .select("id");
+  if (error || !data?.length) {
+    if (error) console.error("Error descartando la versión del catálogo:", error);
+    return { errors: { form: "Solo se pueden descartar versiones en borrador." } };
+  }
+
+  const { error: errorFilas } = await supabase.from("catalogo_filas").delete().eq("version_id", id);
+  if (errorFilas) console.error("Error eliminando las filas del borrador descartado:", errorFilas);
+  return {};
+}
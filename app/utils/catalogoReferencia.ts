@@ -0,0 +1,76 @@
+import type { CampoFicha } from "~/utils/fichaTecnica";
+
+// Versiones del catálogo de referencia (tabla cotizador). Ver
+// catalogoReferencia.server.ts y la migración catalogo_versiones.
+
+export const CATALOGO_ESTADOS = ["borrador", "publicada", "reemplazada", "descartada"] as const;
+export type CatalogoEstado = (typeof CATALOGO_ESTADOS)[number];
+
+export const CATALOGO_ESTADO_LABELS: Record<CatalogoEstado, string> = {
+  borrador: "Borrador",
+  publicada: "Vigente",
+  reemplazada: "Reemplazada",
+  descartada: "Descartada",
+};
+
+export const CATALOGO_ESTADO_BADGE_CLASSES: Record<CatalogoEstado, string> = {
+  borrador: "bg-yellow-100 text-yellow-800",
+  publicada: "bg-green-100 text-green-800",
+  reemplazada: "bg-gray-100 text-gray-700",
+  descartada: "bg-red-100 text-red-700",
+};
+
+// Filas de ejemplo por tipo de cambio que se guardan en el resumen
+export const CATALOGO_MUESTRAS = 50;
+
+export type CatalogoFila = {
+  marca: string;
+  modelo: string;
+  anio: number;
+  version: string;
+  valor: number | null;
+  // Ficha técnica (ver fichaTecnica.ts); null si el archivo no la trae
+  puertas?: number | null;
+  combustible?: string | null;
+  transmision?: string | null;
+  carroceria?: string | null;
+  traccion?: string | null;
+  cilindraje?: number | null;
+};
+
+// Campos que cambian respecto al catálogo vigente (valor o ficha técnica)
+export type CatalogoCambio = CatalogoFila & {
+  valor_anterior: number | null;
+  cambios?: ("valor" | CampoFicha)[];
+};
+
+export type CatalogoErrorFila = { fila: number; mensaje: string };
+
+// Diff de un borrador contra el catálogo vigente al importarlo
+export type CatalogoResumen = {
+  total: number;
+  agregadas: number;
+  modificadas: number;
+  descontinuadas: number;
+  sin_cambios: number;
+  errores: CatalogoErrorFila[];
+  muestras: {
+    agregadas: CatalogoFila[];
+    modificadas: CatalogoCambio[];
+    descontinuadas: CatalogoFila[];
+  };
+};
+
+export type CatalogoVersion = {
+  id: number;
+  nombre: string;
+  archivo: string | null;
+  estado: CatalogoEstado;
+  resumen: CatalogoResumen;
+  created_at: string;
+  publicada_at: string | null;
+};
+
+// Clave de una versión del cotizador para un año
+export const claveCatalogo = (fila: Pick<CatalogoFila, "marca" | "modelo" | "anio" | "version">) =>
+  [fila.marca, fila.modelo, fila.anio, fila.version].join("|");
@@ -1,4 +1,4 @@
-import { supabase } from "~/utils/supabase.server";
+import type { TenantDb } from "~/utils/tenant.server";
 
 export type Cliente = {
   id: string;
@@ -31,7 +31,9 @@ function getStartOfNextDay(date: string): string {
   return d.toISOString();
 }
 
+// Clientes del tenant de la sesión
 export async function getFilteredClients(
+  db: TenantDb,
   request: Request,
   page: number = 1,
   limit: number = 10
@@ -46,8 +48,7 @@ export async function getFilteredClients(
   const to = offset + limit - 1;
 
   // Construir la consulta base
-  let supabaseQuery = supabase
-    .from("clientes")
+  let supabaseQuery = db.clientes
     .select("*", { count: "exact", head: false })
     .order("created_at", { ascending: false });
 
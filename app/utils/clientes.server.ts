@@ -0,0 +1,153 @@
+import { supabase } from "~/utils/supabase.server";
+import { clientesDe, type ClientesDb, type TenantDb } from "~/utils/tenant.server";
+
+// Escapa los comodines de ILIKE para comparar el email tal cual
+export function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+async function findClienteIdPorEmail(clientes: ClientesDb, email: string): Promise<string | null> {
+  const { data, error } = await clientes
+    .select("id")
+    .ilike("email", escapeLike(email))
+    .limit(1)
+    .maybeSingle();
+  if (error) console.error("Error buscando cliente por email:", error);
+  return (data?.id as string | undefined) ?? null;
+}
+
+// Devuelve el cliente del tenant con ese email (sin distinguir mayúsculas) o
+// lo crea. El índice único por tenant sobre lower(email) resuelve dos altas
+// simultáneas: si el insert choca, se relee el cliente que ganó la carrera.
+export async function upsertClientePorEmail(clientes: ClientesDb, nombre: string, email: string): Promise<string | null> {
+  const normalizado = email.trim();
+  const existente = await findClienteIdPorEmail(clientes, normalizado);
+  if (existente) return existente;
+
+  const { data, error } = await clientes
+    .insert({ name: nombre.trim(), email: normalizado })
+    .select("id")
+    .single();
+
+  if (error) {
+    if (error.code === "23505") return findClienteIdPorEmail(clientes, normalizado);
+    console.error("Error creando cliente desde solicitud de contacto:", error);
+    return null;
+  }
+  return data.id as string;
+}
+
+export type ClienteResumen = {
+  id: string;
+  name: string;
+  email: string;
+};
+
+const MAX_RESULTADOS_CLIENTES = 10;
+
+// Clientes del tenant cuyo nombre o email contiene el texto (selector de comprador)
+export async function buscarClientes(db: TenantDb, consulta: string): Promise<ClienteResumen[]> {
+  // Se quitan los caracteres reservados de la sintaxis de or() y los comodines
+  const texto = consulta.replace(/[,()"\\%_*]/g, " ").trim();
+  if (!texto) return [];
+  const { data, error } = await db.clientes
+    .select("id, name, email")
+    .or(`name.ilike.%${texto}%,email.ilike.%${texto}%`)
+    .order("name")
+    .limit(MAX_RESULTADOS_CLIENTES);
+  if (error) console.error("Error buscando clientes:", error);
+  return (data || []) as ClienteResumen[];
+}
+
+type SolicitudRecibida = {
+  id: number;
+  nombre: string;
+  email: string;
+  mensaje: string;
+  vehiculo_uuid: string;
+};
+
+// Vincula una solicitud de contacto recién creada con su cliente y la registra
+// como interacción. Los errores solo se registran: la solicitud ya quedó guardada.
+// El cliente se crea en el tenant dueño del vehículo.
+export async function registrarSolicitudEnCliente(solicitud: SolicitudRecibida) {
+  const { data: vehiculo, error } = await supabase
+    .from("vehiculos")
+    .select("concesionario_id, user_id")
+    .eq("uuid", solicitud.vehiculo_uuid)
+    .maybeSingle();
+  if (error || !vehiculo || (!vehiculo.concesionario_id && !vehiculo.user_id)) {
+    console.error("No se encontró el propietario del vehículo de la solicitud:", error ?? solicitud.vehiculo_uuid);
+    return null;
+  }
+
+  const clienteId = await upsertClientePorEmail(clientesDe(vehiculo), solicitud.nombre, solicitud.email);
+  if (!clienteId) return null;
+
+  const [vinculo, interaccion] = await Promise.all([
+    supabase.from("solicitud_contacto").update({ cliente_id: clienteId }).eq("id", solicitud.id),
+    supabase.from("cliente_interacciones").insert({
+      cliente_id: clienteId,
+      tipo: "solicitud_contacto",
+      solicitud_id: solicitud.id,
+      vehiculo_uuid: solicitud.vehiculo_uuid,
+      detalle: solicitud.mensaje,
+    }),
+  ]);
+  if (vinculo.error) console.error("Error vinculando la solicitud con el cliente:", vinculo.error);
+  if (interaccion.error) console.error("Error registrando la interacción del cliente:", interaccion.error);
+
+  return clienteId;
+}
+
+export type InteraccionCliente = {
+  id: number;
+  tipo: string;
+  solicitud_id: number | null;
+  detalle: string | null;
+  created_at: string;
+  vehiculo: {
+    uuid: string;
+    marca: string | null;
+    modelo: string | null;
+    anio: number | null;
+    precio: number | null;
+    url_img: string | null;
+    estado: string | null;
+  } | null;
+};
+
+// Interacciones del cliente y vehículos por los que ha preguntado. Solo se
+// muestran los vehículos del tenant de la sesión; los de otros concesionarios
+// se ocultan junto con su interacción.
+export async function loadClienteInteracciones(db: TenantDb, clienteId: string) {
+  const { data, error } = await supabase
+    .from("cliente_interacciones")
+    .select(
+      "id, tipo, solicitud_id, detalle, created_at, vehiculo:vehiculos(uuid, marca, modelo, anio, precio, url_img, estado)"
+    )
+    .eq("cliente_id", clienteId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error cargando interacciones del cliente:", error);
+    return { interacciones: [] as InteraccionCliente[], vehiculos: [] as NonNullable<InteraccionCliente["vehiculo"]>[] };
+  }
+
+  const todas = (data || []) as unknown as InteraccionCliente[];
+  const uuids = Array.from(new Set(todas.flatMap((i) => (i.vehiculo ? [i.vehiculo.uuid] : []))));
+  const { data: propios } = uuids.length
+    ? await db.vehiculos.select("uuid").in("uuid", uuids)
+    : { data: [] as { uuid: string }[] };
+  const propiosSet = new Set((propios || []).map((v) => v.uuid as string));
+
+  const interacciones = todas.filter((i) => i.vehiculo && propiosSet.has(i.vehiculo.uuid));
+  const vehiculos = new Map<string, NonNullable<InteraccionCliente["vehiculo"]>>();
+  for (const interaccion of interacciones) {
+    if (interaccion.vehiculo && !vehiculos.has(interaccion.vehiculo.uuid)) {
+      vehiculos.set(interaccion.vehiculo.uuid, interaccion.vehiculo);
+    }
+  }
+
+  return { interacciones, vehiculos: Array.from(vehiculos.values()) };
+}
@@ -0,0 +1,157 @@
+import { randomUUID } from "node:crypto";
+import sharp from "sharp";
+import { supabase } from "~/utils/supabase.server";
+import { storagePathFromPublicUrl } from "~/utils/vehiculoMedia.server";
+import { REDES_SOCIALES, SLUG_REGEX, slugify, type MarcaConcesionario, type RedSocial } from "~/utils/concesionario";
+
+export const LOGOS_BUCKET = "logos-concesionario";
+
+// Tamaño máximo del archivo subido y del logo guardado (lado mayor, en px)
+const LOGO_MAX_BYTES = 5 * 1024 * 1024;
+const LOGO_MAX_PX = 512;
+
+const MARCA_COLUMNS = "id, nombre, slug, logo, email, telefono, whatsapp, direccion, horario, redes";
+
+const EMAIL_REGEX = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+// Teléfonos: dígitos con espacios, guiones, paréntesis y "+" opcional
+const TELEFONO_REGEX = /^\+?[\d\s()-]{7,20}$/;
+
+export type PerfilConcesionarioErrors = {
+  nombre?: string;
+  slug?: string;
+  email?: string;
+  telefono?: string;
+  whatsapp?: string;
+  logo?: string;
+  redes?: Partial<Record<RedSocial, string>>;
+  form?: string;
+};
+
+async function loadMarca(columna: "id" | "slug", valor: string): Promise<MarcaConcesionario | null> {
+  const { data, error } = await supabase.from("concesionario").select(MARCA_COLUMNS).eq(columna, valor).maybeSingle();
+  if (error) console.error("Error cargando el perfil del concesionario:", error);
+  if (!data) return null;
+  return { ...data, redes: (data.redes ?? {}) as MarcaConcesionario["redes"] } as MarcaConcesionario;
+}
+
+export function loadMarcaConcesionario(concesionarioId: string) {
+  return loadMarca("id", concesionarioId);
+}
+
+// Concesionario de una vitrina pública, o null si el slug no existe
+export function loadMarcaPorSlug(slug: string) {
+  return SLUG_REGEX.test(slug) ? loadMarca("slug", slug) : Promise.resolve(null);
+}
+
+const texto = (formData: FormData, campo: string) => String(formData.get(campo) ?? "").trim();
+
+function parsePerfil(formData: FormData) {
+  const errors: PerfilConcesionarioErrors = {};
+  const nombre = texto(formData, "nombre");
+  const values = {
+    nombre,
+    slug: slugify(texto(formData, "slug") || nombre),
+    email: texto(formData, "email") || null,
+    telefono: texto(formData, "telefono") || null,
+    whatsapp: texto(formData, "whatsapp").replace(/\D/g, "") || null,
+    direccion: texto(formData, "direccion") || null,
+    horario: texto(formData, "horario") || null,
+    redes: {} as Partial<Record<RedSocial, string>>,
+  };
+
+  if (!values.nombre) errors.nombre = "El nombre es obligatorio.";
+  else if (values.nombre.length > 120) errors.nombre = "Máximo 120 caracteres.";
+  if (values.slug.length < 3) errors.slug = "La URL debe tener al menos 3 letras o números.";
+  if (values.email && !EMAIL_REGEX.test(values.email)) errors.email = "Email inválido.";
+  if (values.telefono && !TELEFONO_REGEX.test(values.telefono)) errors.telefono = "Teléfono inválido.";
+  if (values.whatsapp && (values.whatsapp.length < 10 || values.whatsapp.length > 15)) {
+    errors.whatsapp = "Incluye el indicativo del país, por ejemplo 57 300 123 4567.";
+  }
+
+  for (const red of REDES_SOCIALES) {
+    const url = texto(formData, `redes.${red}`);
+    if (!url) continue;
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== "https:" && parsed.protocol !== "http:") throw new Error("protocolo");
+      values.redes[red] = parsed.toString();
+    } catch {
+      errors.redes = { ...errors.redes, [red]: "Ingresa una URL completa (https://...)." };
+    }
+  }
+
+  return { values, errors };
+}
+
+// Redimensiona el logo a un WebP de como máximo LOGO_MAX_PX por lado y lo sube
+async function subirLogo(concesionarioId: string, file: File) {
+  if (!file.type.startsWith("image/")) {
+    return { url: null, error: "El logo debe ser una imagen." };
+  }
+  if (file.size > LOGO_MAX_BYTES) {
+    return { url: null, error: "El logo no puede superar 5 MB." };
+  }
+
+  let buffer: Buffer;
+  try {
+    buffer = await sharp(Buffer.from(await file.arrayBuffer()))
+      .rotate()
+      .resize(LOGO_MAX_PX, LOGO_MAX_PX, { fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 85 })
+      .toBuffer();
+  } catch (err) {
+    console.error("Error procesando el logo:", err);
+    return { url: null, error: "No se pudo procesar la imagen." };
+  }
+
+  const path = `${concesionarioId}/${randomUUID()}.webp`;
+  const { error } = await supabase.storage
+    .from(LOGOS_BUCKET)
+    .upload(path, buffer, { contentType: "image/webp", cacheControl: "31536000", upsert: false });
+  if (error) {
+    console.error("Error subiendo el logo:", error);
+    return { url: null, error: "No se pudo subir el logo." };
+  }
+  return { url: supabase.storage.from(LOGOS_BUCKET).getPublicUrl(path).data.publicUrl, error: null };
+}
+
+async function eliminarLogo(url: string | null) {
+  const path = url ? storagePathFromPublicUrl(url, LOGOS_BUCKET) : null;
+  if (path) await supabase.storage.from(LOGOS_BUCKET).remove([path]);
+}
+
+// Guarda el perfil del concesionario. El logo nuevo reemplaza al anterior,
+// que se borra del bucket una vez actualizada la fila.
+export async function guardarPerfilConcesionario(
+  actual: MarcaConcesionario,
+  formData: FormData
+): Promise<{ errors?: PerfilConcesionarioErrors }> {
+  const { values, errors } = parsePerfil(formData);
+  if (Object.keys(errors).length > 0) return { errors };
+
+  const archivo = formData.get("logo");
+  const quitarLogo = formData.get("quitar_logo") === "on";
+  let logo = actual.logo;
+
+  if (archivo instanceof File && archivo.size > 0) {
+    const subida = await subirLogo(actual.id, archivo);
+    if (subida.error) return { errors: { logo: subida.error } };
+    logo = subida.url;
+  } else if (quitarLogo) {
+    logo = null;
+  }
+
+  const { error } = await supabase
+    .from("concesionario")
+    .update({ ...values, logo, updated_at: new Date().toISOString() })
+    .eq("id", actual.id);
+  if (error) {
+    console.error("Error guardando el perfil del concesionario:", error);
+    if (logo !== actual.logo) await eliminarLogo(logo);
+    if (error.code === "23505") return { errors: { slug: "Esa URL ya la usa otro concesionario." } };
+    return { errors: { form: "No se pudieron guardar los cambios." } };
+  }
+
+  if (logo !== actual.logo) await eliminarLogo(actual.logo);
+  return {};
+}
@@ -0,0 +1,50 @@
+// Redes sociales que se pueden mostrar en el perfil del concesionario
+export const REDES_SOCIALES = ["sitio_web", "facebook", "instagram", "tiktok"] as const;
+
+export type RedSocial = (typeof REDES_SOCIALES)[number];
+
+export const RED_SOCIAL_LABELS: Record<RedSocial, string> = {
+  sitio_web: "Sitio web",
+  facebook: "Facebook",
+  instagram: "Instagram",
+  tiktok: "TikTok",
+};
+
+// Datos públicos del concesionario (detalle de vehículo, Sidebar)
+export type MarcaConcesionario = {
+  id: string;
+  nombre: string;
+  // Vitrina pública en /concesionario/:slug
+  slug: string | null;
+  logo: string | null;
+  email: string | null;
+  telefono: string | null;
+  whatsapp: string | null;
+  direccion: string | null;
+  horario: string | null;
+  redes: Partial<Record<RedSocial, string>>;
+};
+
+// Enlace de WhatsApp (solo dígitos, con indicativo de país) con un mensaje opcional
+export function whatsappUrl(numero: string, mensaje?: string) {
+  const url = `https://wa.me/${numero.replace(/\D/g, "")}`;
+  return mensaje ? `${url}?text=${encodeURIComponent(mensaje)}` : url;
+}
+
+// Enlace de Google Maps para una dirección
+export function mapsUrl(direccion: string) {
+  return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(direccion)}`;
+}
+
+// Slug para la URL de la vitrina: minúsculas, sin tildes y con guiones
+export function slugify(texto: string) {
+  return texto
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+}
+
+export const SLUG_REGEX = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
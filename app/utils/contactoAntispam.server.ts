@@ -0,0 +1,155 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { supabase } from "~/utils/supabase.server";
+import { escapeLike } from "~/utils/clientes.server";
+
+// Límites del formulario público de contacto
+const VENTANA_LIMITE_MS = 10 * 60 * 1000;
+const MAX_POR_IP = 5;
+const MAX_POR_EMAIL = 3;
+const VENTANA_DUPLICADOS_MS = 24 * 60 * 60 * 1000;
+// Tiempo mínimo entre cargar la página y enviar el formulario
+const TIEMPO_MINIMO_MS = 3000;
+const MAX_ENLACES = 2;
+
+// Nombres de campo usados en FormularioContactoVehiculo. El campo trampa está
+// oculto para las personas; los bots suelen rellenarlo.
+const HONEYPOT_FIELD = "website";
+const TOKEN_FIELD = "_contacto_token";
+
+// Primer secreto de sesión (el que firma, ver session.server)
+const secret = () =>
+  (process.env.SESSION_SECRETS || process.env.SESSION_SECRET || "").split(",")[0].trim() || "dev_secret";
+
+function firmar(valor: string) {
+  return createHmac("sha256", secret()).update(valor).digest("hex");
+}
+
+function sha256(valor: string) {
+  return createHash("sha256").update(valor).digest("hex");
+}
+
+// Marca de tiempo firmada que el loader incluye en el formulario
+export function crearTokenContacto() {
+  const ts = String(Date.now());
+  return `${ts}.${firmar(ts)}`;
+}
+
+// Milisegundos desde que se generó el token, o null si no es válido
+function edadToken(token: string | null) {
+  const [ts, firma] = (token ?? "").split(".");
+  if (!ts || !firma) return null;
+  const esperada = Buffer.from(firmar(ts));
+  const recibida = Buffer.from(firma);
+  if (esperada.length !== recibida.length || !timingSafeEqual(esperada, recibida)) return null;
+  return Date.now() - Number(ts);
+}
+
+// Proxies de confianza delante de la app (TRUSTED_PROXY_COUNT, 1 por defecto).
+// Cada proxy añade a X-Forwarded-For la IP de quien le habló: la del cliente
+// es la que queda a esa distancia desde la derecha. Lo que hay más a la
+// izquierda lo puede escribir el propio cliente.
+function proxiesDeConfianza() {
+  const valor = Number.parseInt(process.env.TRUSTED_PROXY_COUNT ?? "", 10);
+  return Number.isNaN(valor) ? 1 : valor;
+}
+
+function ipDe(request: Request) {
+  const proxies = proxiesDeConfianza();
+  if (proxies <= 0) return null;
+  const saltos = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((salto) => salto.trim())
+    .filter(Boolean);
+  return saltos[saltos.length - proxies] ?? null;
+}
+
+// Mismo texto aunque cambien mayúsculas o espacios
+function normalizarMensaje(mensaje: string) {
+  return mensaje.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+export type EvaluacionContacto =
+  | { ok: false; status: number; message: string }
+  | { ok: true; huellas: { ip_hash: string | null; mensaje_hash: string }; cuarentena: string | null };
+
+// Revisa una solicitud de contacto antes de guardarla. Rechaza los excesos de
+// envíos y los duplicados exactos; lo sospechoso se guarda en cuarentena para
+// que el equipo lo revise en /leads.
+export async function evaluarSolicitudContacto(
+  request: Request,
+  formData: FormData,
+  solicitud: { email: string; mensaje: string; vehiculo_uuid: string }
+): Promise<EvaluacionContacto> {
+  const ip = ipDe(request);
+  const ip_hash = ip ? firmar(`ip:${ip}`) : null;
+  const mensaje_hash = sha256(normalizarMensaje(solicitud.mensaje));
+  const desde = new Date(Date.now() - VENTANA_LIMITE_MS).toISOString();
+
+  const [porIp, porEmail, duplicados] = await Promise.all([
+    ip_hash
+      ? supabase
+          .from("solicitud_contacto")
+          .select("id", { count: "exact", head: true })
+          .eq("ip_hash", ip_hash)
+          .gte("created_at", desde)
+      : Promise.resolve({ count: 0, error: null }),
+    supabase
+      .from("solicitud_contacto")
+      .select("id", { count: "exact", head: true })
+      .ilike("email", escapeLike(solicitud.email.trim()))
+      .gte("created_at", desde),
+    supabase
+      .from("solicitud_contacto")
+      .select("email")
+      .eq("vehiculo_uuid", solicitud.vehiculo_uuid)
+      .eq("mensaje_hash", mensaje_hash)
+      .gte("created_at", new Date(Date.now() - VENTANA_DUPLICADOS_MS).toISOString())
+      .limit(20),
+  ]);
+
+  // Sin poder comprobar los límites no se acepta la solicitud
+  const consultaError = porIp.error || porEmail.error || duplicados.error;
+  if (consultaError) {
+    console.error("Error verificando límites del formulario de contacto:", consultaError);
+    return {
+      ok: false,
+      status: 503,
+      message: "No pudimos procesar tu solicitud en este momento. Por favor, inténtalo de nuevo en unos minutos.",
+    };
+  }
+
+  if ((porIp.count ?? 0) >= MAX_POR_IP || (porEmail.count ?? 0) >= MAX_POR_EMAIL) {
+    return {
+      ok: false,
+      status: 429,
+      message: "Has enviado demasiadas solicitudes. Por favor, inténtalo de nuevo en unos minutos.",
+    };
+  }
+
+  const emailNormalizado = solicitud.email.trim().toLowerCase();
+  const repetidos = duplicados.data || [];
+  if (repetidos.some((row) => String(row.email).trim().toLowerCase() === emailNormalizado)) {
+    return { ok: false, status: 409, message: "Ya recibimos este mensaje sobre este vehículo. Te contactaremos pronto." };
+  }
+
+  const huellas = { ip_hash, mensaje_hash };
+
+  if (String(formData.get(HONEYPOT_FIELD) ?? "").trim()) {
+    return { ok: true, huellas, cuarentena: "Campo oculto rellenado" };
+  }
+  const edad = edadToken(formData.get(TOKEN_FIELD) as string | null);
+  if (edad === null) {
+    return { ok: true, huellas, cuarentena: "Formulario sin token válido" };
+  }
+  if (edad < TIEMPO_MINIMO_MS) {
+    return { ok: true, huellas, cuarentena: "Enviado demasiado rápido" };
+  }
+  if (repetidos.length > 0) {
+    return { ok: true, huellas, cuarentena: "Mismo mensaje enviado con otro email" };
+  }
+  if ((solicitud.mensaje.match(/https?:\/\/|www\./gi) || []).length > MAX_ENLACES) {
+    return { ok: true, huellas, cuarentena: "Demasiados enlaces en el mensaje" };
+  }
+
+  return { ok: true, huellas, cuarentena: null };
+}
@@ -0,0 +1,149 @@
+import { lookup } from "node:dns";
+import http from "node:http";
+import https from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+
+// Descargas de direcciones que escribe el usuario (p. ej. las fotos de una
+// importación). El servidor solo se conecta a IPs públicas: se comprueba cada
+// IP resuelta en el momento de abrir el socket y en cada redirección, para
+// que un nombre o una redirección no lleven a la red interna.
+
+// Redes que no son Internet pública: privadas, loopback, enlace local, CGNAT,
+// documentación, multicast y reservadas
+const NO_PUBLICAS_V4 = new BlockList();
+for (const [red, prefijo] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  NO_PUBLICAS_V4.addSubnet(red, prefijo, "ipv4");
+}
+
+// Las IPv6 que llevan una IPv4 dentro (mapeadas, compatibles, NAT64) se
+// rechazan enteras
+const NO_PUBLICAS_V6 = new BlockList();
+for (const [red, prefijo] of [
+  ["::", 96],
+  ["::ffff:0:0", 96],
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NO_PUBLICAS_V6.addSubnet(red, prefijo, "ipv6");
+}
+
+const MAX_REDIRECCIONES = 3;
+
+export function esIpPublica(ip: string) {
+  const version = isIP(ip);
+  if (version === 4) return !NO_PUBLICAS_V4.check(ip, "ipv4");
+  if (version === 6) return !NO_PUBLICAS_V6.check(ip, "ipv6");
+  return false;
+}
+
+// "[::1]" → "::1"
+const hostDe = (url: URL) => url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+
+// Comprobación sin red: http(s), sin credenciales y, si el host es una IP, que
+// sea pública. URL normaliza las IPv4 escritas en decimal u hexadecimal
+// ("http://2130706433/" → 127.0.0.1). Los nombres se comprueban al descargar.
+export function esUrlPublica(valor: string) {
+  let url: URL;
+  try {
+    url = new URL(valor);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return false;
+  if (url.username || url.password) return false;
+  const host = hostDe(url);
+  if (isIP(host)) return esIpPublica(host);
+  return host.includes(".") && !/\.(localhost|local|internal)$/.test(host);
+}
+
+// Resolución DNS que falla si el nombre apunta a alguna IP no pública. Al
+// usarse como `lookup` del socket, la IP comprobada es la misma a la que se
+// conecta.
+const lookupPublico: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, direcciones) => {
+    if (error) return callback(error, "", 0);
+    if (direcciones.length === 0 || direcciones.some((d) => !esIpPublica(d.address))) {
+      return callback(new Error(`${hostname} no es una dirección pública`), "", 0);
+    }
+    if (options.all) return callback(null, direcciones);
+    callback(null, direcciones[0].address, direcciones[0].family);
+  });
+};
+
+type Respuesta = { status: number; location?: string; bytes?: Uint8Array };
+
+function pedir(url: URL, maxBytes: number, signal: AbortSignal): Promise<Respuesta> {
+  return new Promise((resolve, reject) => {
+    const cliente = url.protocol === "https:" ? https : http;
+    const peticion = cliente.get(url, { lookup: lookupPublico, signal }, (respuesta) => {
+      const status = respuesta.statusCode ?? 0;
+      if (status < 200 || status >= 300) {
+        respuesta.resume();
+        return resolve({ status, location: respuesta.headers.location });
+      }
+      const demasiado = () => new Error(`el archivo supera ${maxBytes / 1024 / 1024} MB`);
+      if (Number(respuesta.headers["content-length"]) > maxBytes) {
+        respuesta.destroy();
+        return reject(demasiado());
+      }
+
+      // El cuerpo se lee por partes y se corta al pasar del máximo
+      const partes: Buffer[] = [];
+      let total = 0;
+      respuesta.on("data", (parte: Buffer) => {
+        total += parte.length;
+        if (total > maxBytes) {
+          respuesta.destroy();
+          reject(demasiado());
+          return;
+        }
+        partes.push(parte);
+      });
+      respuesta.on("end", () => resolve({ status, bytes: new Uint8Array(Buffer.concat(partes)) }));
+      respuesta.on("error", reject);
+    });
+    peticion.on("error", reject);
+  });
+}
+
+// Descarga una dirección pública siguiendo hasta MAX_REDIRECCIONES
+// redirecciones, cada una validada de nuevo. Lanza un Error con el motivo.
+export async function descargarPublica(
+  valor: string,
+  { maxBytes, timeoutMs }: { maxBytes: number; timeoutMs: number }
+): Promise<Uint8Array> {
+  const signal = AbortSignal.timeout(timeoutMs);
+  let url = valor;
+  for (let saltos = 0; saltos <= MAX_REDIRECCIONES; saltos++) {
+    if (!esUrlPublica(url)) throw new Error("la dirección no es válida");
+    const respuesta = await pedir(new URL(url), maxBytes, signal).catch((error) => {
+      throw signal.aborted ? new Error("el servidor tardó demasiado en responder") : error;
+    });
+    if (respuesta.bytes) return respuesta.bytes;
+    if (respuesta.status >= 300 && respuesta.status < 400 && respuesta.location) {
+      url = new URL(respuesta.location, url).toString();
+      continue;
+    }
+    throw new Error(`el servidor respondió ${respuesta.status}`);
+  }
+  throw new Error("demasiadas redirecciones");
+}
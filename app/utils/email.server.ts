@@ -0,0 +1,90 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import nodemailer from "nodemailer";
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+};
+
+// Transporte de envío. En producción SMTP; en desarrollo y pruebas los
+// mensajes se escriben como archivos en una carpeta local (outbox).
+export interface EmailTransport {
+  readonly nombre: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+type SmtpConfig = {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+};
+
+export function createSmtpTransport(config: SmtpConfig): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+  });
+
+  return {
+    nombre: "smtp",
+    async send(message) {
+      await transporter.sendMail({ from: config.from, ...message });
+    },
+  };
+}
+
+// Guarda cada mensaje como JSON en `dir` (por defecto .outbox en la raíz del proyecto)
+export function createFileTransport(dir: string, from: string): EmailTransport {
+  return {
+    nombre: "file",
+    async send(message) {
+      await mkdir(dir, { recursive: true });
+      const destinatario = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+      const archivo = path.join(dir, `${Date.now()}-${Math.random().toString(36).slice(2, 8)}-${destinatario}.json`);
+      await writeFile(archivo, JSON.stringify({ from, ...message, date: new Date().toISOString() }, null, 2), "utf8");
+    },
+  };
+}
+
+let transport: EmailTransport | null = null;
+
+// Transporte configurado por variables de entorno:
+//   EMAIL_TRANSPORT=smtp|file (file por defecto fuera de producción)
+//   SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, EMAIL_FROM
+//   EMAIL_OUTBOX_DIR (transporte file)
+export function getEmailTransport(): EmailTransport {
+  if (transport) return transport;
+
+  const from = process.env.EMAIL_FROM || "Arrankar <no-reply@arrankar.com>";
+  const tipo = process.env.EMAIL_TRANSPORT || (process.env.NODE_ENV === "production" ? "smtp" : "file");
+
+  if (tipo === "smtp") {
+    if (!process.env.SMTP_HOST) {
+      throw new Error("Falta la variable de entorno SMTP_HOST");
+    }
+    transport = createSmtpTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === "true",
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+      from,
+    });
+  } else {
+    transport = createFileTransport(path.resolve(process.env.EMAIL_OUTBOX_DIR || ".outbox"), from);
+  }
+  return transport;
+}
+
+// Permite inyectar otro transporte (p. ej. en pruebas)
+export function setEmailTransport(nuevo: EmailTransport | null) {
+  transport = nuevo;
+}
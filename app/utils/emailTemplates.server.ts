@@ -0,0 +1,98 @@
+// Plantillas de los emails de notificación. Cada plantilla devuelve asunto,
+// versión HTML y versión de texto plano.
+export type EmailRenderizado = {
+  asunto: string;
+  html: string;
+  texto: string;
+};
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function layout(titulo: string, cuerpo: string, enlace?: { url: string; texto: string }) {
+  const boton = enlace
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(enlace.url)}" style="background:#00dada;color:#0d0d0d;padding:10px 18px;border-radius:8px;text-decoration:none;font-weight:600">${escapeHtml(enlace.texto)}</a></p>`
+    : "";
+  return `<!doctype html>
+<html lang="es">
+  <body style="font-family:Arial,Helvetica,sans-serif;background:#f9fafb;padding:24px;color:#111827">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:24px;border:1px solid #e5e7eb">
+      <h1 style="font-size:20px;margin:0 0 16px">${escapeHtml(titulo)}</h1>
+      ${cuerpo}
+      ${boton}
+      <p style="font-size:12px;color:#6b7280;margin-top:32px">
+        Recibes este correo por tu cuenta en Arrankar. Puedes cambiar qué avisos recibes en tu perfil.
+      </p>
+    </div>
+  </body>
+</html>`;
+}
+
+const parrafo = (texto: string) => `<p style="margin:0 0 12px;white-space:pre-line">${escapeHtml(texto)}</p>`;
+
+export function plantillaNuevaSolicitud(datos: {
+  nombre: string;
+  email: string;
+  mensaje: string;
+  vehiculo: string;
+  url: string;
+}): EmailRenderizado {
+  const asunto = `Nueva solicitud por ${datos.vehiculo}`;
+  const html = layout(
+    asunto,
+    parrafo(`${datos.nombre} (${datos.email}) preguntó por ${datos.vehiculo}:`) + parrafo(datos.mensaje),
+    { url: datos.url, texto: "Ver solicitud" }
+  );
+  const texto = `${datos.nombre} (${datos.email}) preguntó por ${datos.vehiculo}:\n\n${datos.mensaje}\n\nVer solicitud: ${datos.url}`;
+  return { asunto, html, texto };
+}
+
+export function plantillaVehiculoPublicado(datos: { vehiculo: string; publicadoPor: string; url: string }): EmailRenderizado {
+  const asunto = `Vehículo publicado: ${datos.vehiculo}`;
+  const html = layout(asunto, parrafo(`${datos.publicadoPor} publicó ${datos.vehiculo} en el inventario.`), {
+    url: datos.url,
+    texto: "Ver vehículo",
+  });
+  const texto = `${datos.publicadoPor} publicó ${datos.vehiculo} en el inventario.\n\nVer vehículo: ${datos.url}`;
+  return { asunto, html, texto };
+}
+
+export function plantillaBienvenida(datos: { nombre: string; url: string }): EmailRenderizado {
+  const asunto = "Bienvenido a Arrankar";
+  const html = layout(
+    `¡Hola, ${datos.nombre}!`,
+    parrafo("Tu cuenta fue creada. Completa tu perfil para empezar a publicar y gestionar vehículos."),
+    { url: datos.url, texto: "Completar perfil" }
+  );
+  const texto = `¡Hola, ${datos.nombre}!\n\nTu cuenta fue creada. Completa tu perfil para empezar a publicar y gestionar vehículos.\n\n${datos.url}`;
+  return { asunto, html, texto };
+}
+
+export function plantillaInvitacionEquipo(datos: {
+  concesionario: string;
+  rol: string;
+  invitadoPor: string;
+  url: string;
+}): EmailRenderizado {
+  const asunto = `Invitación al equipo de ${datos.concesionario}`;
+  const mensaje = `${datos.invitadoPor} te invitó a unirte al equipo de ${datos.concesionario} en Arrankar como ${datos.rol}. La invitación vence en 7 días.`;
+  const html = layout("Te invitaron a un equipo", parrafo(mensaje), { url: datos.url, texto: "Ver invitación" });
+  const texto = `Te invitaron a un equipo\n\n${mensaje}\n\n${datos.url}`;
+  return { asunto, html, texto };
+}
+
+export function plantillaAlertaBusqueda(datos: { busquedas: string[]; vehiculo: string; url: string }): EmailRenderizado {
+  const asunto = `Nuevo vehículo para tu búsqueda: ${datos.vehiculo}`;
+  const mensaje = `Se publicó ${datos.vehiculo}, que coincide con ${
+    datos.busquedas.length === 1 ? "tu búsqueda" : "tus búsquedas"
+  } ${datos.busquedas.map((b) => `"${b}"`).join(", ")}.`;
+  const html = layout(asunto, parrafo(mensaje), { url: datos.url, texto: "Ver vehículo" });
+  const texto = `${mensaje}\n\nVer vehículo: ${datos.url}`;
+  return { asunto, html, texto };
+}
@@ -0,0 +1,399 @@
+import { createHash, randomBytes } from "node:crypto";
+import { supabase } from "~/utils/supabase.server";
+import { forbidden, requireUser, type SessionUser } from "~/utils/auth.server";
+import { deleteSesiones } from "~/utils/session.server";
+import { escapeLike } from "~/utils/clientes.server";
+import { notificarInvitacionEquipo } from "~/utils/notificaciones.server";
+import { ROL_EQUIPO_LABELS, isRolEquipo, type EstadoMiembro, type RolEquipo } from "~/utils/equipo";
+
+// Vigencia de una invitación (ver plantillaInvitacionEquipo)
+const INVITACION_VIGENCIA_MS = 7 * 24 * 60 * 60 * 1000;
+
+const EMAIL_REGEX = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+export type Concesionario = {
+  id: string;
+  nombre: string;
+  owner_id: string | null;
+};
+
+export type MiembroConcesionario = {
+  id: number;
+  user_id: string;
+  rol: RolEquipo;
+  estado: EstadoMiembro;
+  created_at: string;
+  user: { uuid: string; name: string | null; email: string } | null;
+};
+
+export type InvitacionEquipo = {
+  id: number;
+  email: string;
+  rol: RolEquipo;
+  expires_at: string;
+  created_at: string;
+};
+
+export type EquipoErrors = {
+  email?: string;
+  rol?: string;
+  form?: string;
+};
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+// Exige un administrador (rol concesionario) con un concesionario activo
+export async function requireAdminConcesionario(request: Request) {
+  const user = await requireUser(request, { roles: ["concesionario"] });
+  if (!user.concesionario_id) {
+    throw forbidden("Tu cuenta no pertenece a ningún concesionario.");
+  }
+  const { data: concesionario, error } = await supabase
+    .from("concesionario")
+    .select("id, nombre, owner_id")
+    .eq("id", user.concesionario_id)
+    .single();
+  if (error || !concesionario) {
+    console.error("Error cargando el concesionario:", error);
+    throw forbidden("No se encontró tu concesionario.");
+  }
+  return { user, concesionario: concesionario as Concesionario };
+}
+
+export async function loadEquipo(concesionario: Concesionario) {
+  const [miembros, invitaciones] = await Promise.all([
+    supabase
+      .from("concesionario_miembros")
+      .select("id, user_id, rol, estado, created_at, user:users!concesionario_miembros_user_id_fkey(uuid, name, email)")
+      .eq("concesionario_id", concesionario.id)
+      .in("estado", ["pendiente", "activo", "inactivo"])
+      .order("created_at"),
+    supabase
+      .from("concesionario_invitaciones")
+      .select("id, email, rol, expires_at, created_at")
+      .eq("concesionario_id", concesionario.id)
+      .eq("estado", "pendiente")
+      .gt("expires_at", new Date().toISOString())
+      .order("created_at", { ascending: false }),
+  ]);
+  if (miembros.error) console.error("Error cargando miembros del equipo:", miembros.error);
+  if (invitaciones.error) console.error("Error cargando invitaciones:", invitaciones.error);
+
+  return {
+    miembros: (miembros.data || []) as unknown as MiembroConcesionario[],
+    invitaciones: (invitaciones.data || []) as InvitacionEquipo[],
+  };
+}
+
+// Vincula al usuario con el concesionario: su membresía queda activa, la de
+// cualquier otro concesionario se desactiva y se actualiza public.users.
+async function activarMembresia(userId: string, concesionarioId: string, rol: RolEquipo, revisadoPor: string | null) {
+  const ahora = new Date().toISOString();
+  const { error } = await supabase.from("concesionario_miembros").upsert(
+    { concesionario_id: concesionarioId, user_id: userId, rol, estado: "activo", revisado_por: revisadoPor, updated_at: ahora },
+    { onConflict: "concesionario_id,user_id" }
+  );
+  if (error) return { error };
+
+  await supabase
+    .from("concesionario_miembros")
+    .update({ estado: "inactivo", updated_at: ahora })
+    .eq("user_id", userId)
+    .eq("estado", "activo")
+    .neq("concesionario_id", concesionarioId);
+
+  const { error: userError } = await supabase
+    .from("users")
+    .update({ concesionario_id: concesionarioId, rol })
+    .eq("uuid", userId);
+  return { error: userError };
+}
+
+// Membresía del equipo por id, solo si pertenece al concesionario
+async function findMiembro(concesionario: Concesionario, miembroId: number) {
+  if (!Number.isInteger(miembroId)) return null;
+  const { data } = await supabase
+    .from("concesionario_miembros")
+    .select("id, user_id, rol, estado")
+    .eq("id", miembroId)
+    .eq("concesionario_id", concesionario.id)
+    .maybeSingle();
+  return data as Pick<MiembroConcesionario, "id" | "user_id" | "rol" | "estado"> | null;
+}
+
+export async function invitarMiembro(
+  request: Request,
+  admin: SessionUser,
+  concesionario: Concesionario,
+  formData: FormData
+): Promise<{ errors?: EquipoErrors }> {
+  const email = String(formData.get("email") || "").trim().toLowerCase();
+  const rol = formData.get("rol");
+
+  const errors: EquipoErrors = {};
+  if (!EMAIL_REGEX.test(email)) errors.email = "Ingresa un email válido.";
+  if (!isRolEquipo(rol)) errors.rol = "Selecciona un rol válido.";
+  if (Object.keys(errors).length > 0 || !isRolEquipo(rol)) return { errors };
+
+  // ¿Ya es miembro activo?
+  const { data: existente } = await supabase
+    .from("users")
+    .select("uuid, concesionario_id")
+    .ilike("email", escapeLike(email))
+    .maybeSingle();
+  if (existente?.concesionario_id === concesionario.id) {
+    return { errors: { email: "Esta persona ya forma parte del equipo." } };
+  }
+
+  // Una invitación nueva reemplaza a la pendiente
+  await supabase
+    .from("concesionario_invitaciones")
+    .update({ estado: "revocada" })
+    .eq("concesionario_id", concesionario.id)
+    .eq("estado", "pendiente")
+    .ilike("email", escapeLike(email));
+
+  const token = randomBytes(32).toString("base64url");
+  const { error } = await supabase.from("concesionario_invitaciones").insert({
+    concesionario_id: concesionario.id,
+    email,
+    rol,
+    token_hash: hashToken(token),
+    invitado_por: admin.uuid,
+    expires_at: new Date(Date.now() + INVITACION_VIGENCIA_MS).toISOString(),
+  });
+  if (error) {
+    console.error("Error creando la invitación:", error);
+    return { errors: { form: "No se pudo crear la invitación." } };
+  }
+
+  await notificarInvitacionEquipo(request, {
+    email,
+    token,
+    concesionario: concesionario.nombre,
+    rol: ROL_EQUIPO_LABELS[rol],
+    invitadoPor: admin.name || admin.email,
+  });
+  return {};
+}
+
+export async function revocarInvitacion(concesionario: Concesionario, invitacionId: number) {
+  const { error } = await supabase
+    .from("concesionario_invitaciones")
+    .update({ estado: "revocada" })
+    .eq("id", invitacionId)
+    .eq("concesionario_id", concesionario.id)
+    .eq("estado", "pendiente");
+  if (error) {
+    console.error("Error revocando la invitación:", error);
+    return { errors: { form: "No se pudo revocar la invitación." } as EquipoErrors };
+  }
+  return {};
+}
+
+// Aprueba o rechaza una solicitud de unión hecha desde completar-perfil
+export async function revisarSolicitud(
+  admin: SessionUser,
+  concesionario: Concesionario,
+  miembroId: number,
+  aprobar: boolean
+): Promise<{ errors?: EquipoErrors }> {
+  const miembro = await findMiembro(concesionario, miembroId);
+  if (!miembro || miembro.estado !== "pendiente") {
+    return { errors: { form: "La solicitud ya no está pendiente." } };
+  }
+
+  const { error } = aprobar
+    ? await activarMembresia(miembro.user_id, concesionario.id, miembro.rol, admin.uuid)
+    : await supabase
+        .from("concesionario_miembros")
+        .update({ estado: "rechazado", revisado_por: admin.uuid, updated_at: new Date().toISOString() })
+        .eq("id", miembro.id);
+  if (error) {
+    console.error("Error revisando la solicitud de unión:", error);
+    return { errors: { form: "No se pudo actualizar la solicitud." } };
+  }
+  return {};
+}
+
+export async function desactivarMiembro(
+  admin: SessionUser,
+  concesionario: Concesionario,
+  miembroId: number
+): Promise<{ errors?: EquipoErrors }> {
+  const miembro = await findMiembro(concesionario, miembroId);
+  if (!miembro || miembro.estado !== "activo") {
+    return { errors: { form: "El miembro no está activo." } };
+  }
+  if (miembro.user_id === concesionario.owner_id) {
+    return { errors: { form: "No se puede desactivar al propietario. Transfiere la propiedad primero." } };
+  }
+  if (miembro.user_id === admin.uuid) {
+    return { errors: { form: "No puedes desactivarte a ti mismo." } };
+  }
+
+  const { error } = await supabase
+    .from("concesionario_miembros")
+    .update({ estado: "inactivo", revisado_por: admin.uuid, updated_at: new Date().toISOString() })
+    .eq("id", miembro.id);
+  if (error) {
+    console.error("Error desactivando al miembro:", error);
+    return { errors: { form: "No se pudo desactivar al miembro." } };
+  }
+
+  // Sin concesionario ni rol del equipo pierde todo acceso de gestión (vuelve a
+  // completar-perfil) y se cierran sus sesiones abiertas
+  const { data: usuario, error: userError } = await supabase
+    .from("users")
+    .update({ concesionario_id: null, rol: null })
+    .eq("uuid", miembro.user_id)
+    .eq("concesionario_id", concesionario.id)
+    .select("auth_id")
+    .maybeSingle();
+  if (userError) {
+    console.error("Error retirando el acceso del miembro:", userError);
+    return { errors: { form: "No se pudo retirar el acceso al miembro." } };
+  }
+  if (usuario?.auth_id) await deleteSesiones(usuario.auth_id as string);
+  return {};
+}
+
+// Solo el propietario puede cederle la propiedad a otro miembro activo, que
+// pasa a ser administrador.
+export async function transferirPropiedad(
+  admin: SessionUser,
+  concesionario: Concesionario,
+  miembroId: number
+): Promise<{ errors?: EquipoErrors }> {
+  if (concesionario.owner_id !== admin.uuid) {
+    return { errors: { form: "Solo el propietario puede transferir la propiedad." } };
+  }
+  const miembro = await findMiembro(concesionario, miembroId);
+  if (!miembro || miembro.estado !== "activo" || miembro.user_id === admin.uuid) {
+    return { errors: { form: "Selecciona otro miembro activo del equipo." } };
+  }
+
+  if (miembro.rol !== "concesionario") {
+    const { error } = await activarMembresia(miembro.user_id, concesionario.id, "concesionario", admin.uuid);
+    if (error) {
+      console.error("Error promoviendo al nuevo propietario:", error);
+      return { errors: { form: "No se pudo transferir la propiedad." } };
+    }
+  }
+
+  const { error } = await supabase
+    .from("concesionario")
+    .update({ owner_id: miembro.user_id })
+    .eq("id", concesionario.id)
+    .eq("owner_id", admin.uuid);
+  if (error) {
+    console.error("Error transfiriendo la propiedad:", error);
+    return { errors: { form: "No se pudo transferir la propiedad." } };
+  }
+  return {};
+}
+
+export type InvitacionDetalle = {
+  id: number;
+  email: string;
+  rol: RolEquipo;
+  concesionario: { id: string; nombre: string };
+  vigente: boolean;
+};
+
+// Invitación a partir del token del enlace, o null si no existe
+export async function loadInvitacion(token: string): Promise<InvitacionDetalle | null> {
+  const { data } = await supabase
+    .from("concesionario_invitaciones")
+    .select("id, email, rol, estado, expires_at, concesionario(id, nombre)")
+    .eq("token_hash", hashToken(token))
+    .maybeSingle();
+  if (!data) return null;
+
+  const row = data as unknown as {
+    id: number;
+    email: string;
+    rol: RolEquipo;
+    estado: string;
+    expires_at: string;
+    concesionario: { id: string; nombre: string };
+  };
+  return {
+    id: row.id,
+    email: row.email,
+    rol: row.rol,
+    concesionario: row.concesionario,
+    vigente: row.estado === "pendiente" && new Date(row.expires_at) > new Date(),
+  };
+}
+
+export async function aceptarInvitacion(user: SessionUser, invitacion: InvitacionDetalle) {
+  if (!invitacion.vigente) {
+    return { error: "La invitación ya no es válida." };
+  }
+  if (invitacion.email.toLowerCase() !== user.email.toLowerCase()) {
+    return { error: `Esta invitación es para ${invitacion.email}. Inicia sesión con esa cuenta para aceptarla.` };
+  }
+
+  // Marcarla primero evita que se use dos veces
+  const { data: reclamada } = await supabase
+    .from("concesionario_invitaciones")
+    .update({ estado: "aceptada", aceptada_at: new Date().toISOString() })
+    .eq("id", invitacion.id)
+    .eq("estado", "pendiente")
+    .select("id");
+  if (!reclamada || reclamada.length === 0) {
+    return { error: "La invitación ya no es válida." };
+  }
+
+  const { error } = await activarMembresia(user.uuid, invitacion.concesionario.id, invitacion.rol, null);
+  if (error) {
+    console.error("Error aceptando la invitación:", error);
+    return { error: "No se pudo completar la invitación." };
+  }
+  return { error: null };
+}
+
+// Solicitud de unión desde completar-perfil: queda pendiente hasta que un
+// administrador del concesionario la apruebe.
+export async function solicitarMembresia(user: SessionUser, concesionarioId: string, rol: RolEquipo) {
+  const { data: actual } = await supabase
+    .from("concesionario_miembros")
+    .select("estado")
+    .eq("concesionario_id", concesionarioId)
+    .eq("user_id", user.uuid)
+    .maybeSingle();
+  if (actual?.estado === "activo") return { error: null };
+
+  const { error } = await supabase.from("concesionario_miembros").upsert(
+    {
+      concesionario_id: concesionarioId,
+      user_id: user.uuid,
+      rol,
+      estado: "pendiente",
+      revisado_por: null,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "concesionario_id,user_id" }
+  );
+  if (error) console.error("Error creando la solicitud de unión:", error);
+  return { error };
+}
+
+export type MembresiaUsuario = {
+  id: number;
+  rol: RolEquipo;
+  estado: EstadoMiembro;
+  concesionario: { id: string; nombre: string } | null;
+};
+
+// Membresías del usuario (para el perfil)
+export async function listMembresias(user: SessionUser): Promise<MembresiaUsuario[]> {
+  const { data, error } = await supabase
+    .from("concesionario_miembros")
+    .select("id, rol, estado, concesionario(id, nombre)")
+    .eq("user_id", user.uuid)
+    .order("updated_at", { ascending: false });
+  if (error) console.error("Error cargando membresías:", error);
+  return (data || []) as unknown as MembresiaUsuario[];
+}
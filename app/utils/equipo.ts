@@ -0,0 +1,27 @@
+import type { Rol } from "~/utils/roles";
+
+// Roles con los que se puede pertenecer al equipo de un concesionario.
+// "concesionario" administra el equipo; "agente" gestiona inventario y leads.
+export const ROLES_EQUIPO = ["concesionario", "agente"] as const satisfies readonly Rol[];
+
+export type RolEquipo = (typeof ROLES_EQUIPO)[number];
+
+export const ROL_EQUIPO_LABELS: Record<RolEquipo, string> = {
+  concesionario: "Administrador",
+  agente: "Agente",
+};
+
+export const ESTADOS_MIEMBRO = ["pendiente", "activo", "rechazado", "inactivo"] as const;
+
+export type EstadoMiembro = (typeof ESTADOS_MIEMBRO)[number];
+
+export const ESTADO_MIEMBRO_LABELS: Record<EstadoMiembro, string> = {
+  pendiente: "Pendiente de aprobación",
+  activo: "Activo",
+  rechazado: "Rechazado",
+  inactivo: "Desactivado",
+};
+
+export function isRolEquipo(value: unknown): value is RolEquipo {
+  return typeof value === "string" && (ROLES_EQUIPO as readonly string[]).includes(value);
+}
@@ -0,0 +1,26 @@
+import { json, type TypedResponse } from "@remix-run/node";
+import { createHash } from "node:crypto";
+
+// ETag débil a partir del contenido serializado
+export function etagDe(contenido: string) {
+  return `W/"${createHash("sha1").update(contenido).digest("base64url")}"`;
+}
+
+function coincide(ifNoneMatch: string | null, etag: string) {
+  if (!ifNoneMatch) return false;
+  // La comparación débil ignora el prefijo W/
+  const limpiar = (valor: string) => valor.trim().replace(/^W\//, "");
+  return ifNoneMatch.split(",").some((valor) => valor.trim() === "*" || limpiar(valor) === limpiar(etag));
+}
+
+// Respuesta JSON con ETag para que el navegador la revalide en lugar de
+// volver a descargarla. Si la petición trae el mismo ETag se responde 304 sin
+// cuerpo y el navegador usa su copia; por eso el 304 se tipa como la respuesta
+// con datos. Las rutas que la usan deben exportar `headers` con los del loader.
+export function jsonConEtag<T>(request: Request, data: T, etag = etagDe(JSON.stringify(data))): TypedResponse<T> {
+  const headers = { ETag: etag, "Cache-Control": "private, no-cache" };
+  if (coincide(request.headers.get("If-None-Match"), etag)) {
+    return new Response(null, { status: 304, headers }) as TypedResponse<T>;
+  }
+  return json(data, { headers });
+}
@@ -0,0 +1,73 @@
+import { supabase } from "~/utils/supabase.server";
+import { FACETAS_VACIAS, FILTROS_CATALOGO, type Facetas, type FiltrosCatalogo } from "~/utils/facetas";
+
+// Alcance de las facetas: inventario de un concesionario o de un vendedor
+// particular, y opcionalmente un estado concreto
+export type AlcanceFacetas = {
+  concesionarioId?: string | null;
+  userId?: string | null;
+  estado?: string | null;
+};
+
+// Consultas de PostgREST a las que se les pueden aplicar los filtros del catálogo
+type ConsultaFiltrable = {
+  eq(column: string, value: unknown): ConsultaFiltrable;
+  gte(column: string, value: unknown): ConsultaFiltrable;
+  lte(column: string, value: unknown): ConsultaFiltrable;
+};
+
+const FILTROS_NUMERICOS = new Set(["anio", "precioMin", "precioMax", "kmMin", "kmMax"]);
+
+// Filtros de la URL; los numéricos inválidos se descartan para no romper las consultas
+export function parseFiltrosCatalogo(searchParams: URLSearchParams): FiltrosCatalogo {
+  return Object.fromEntries(
+    FILTROS_CATALOGO.map((filtro) => {
+      const valor = searchParams.get(filtro)?.trim() || null;
+      return [filtro, valor && FILTROS_NUMERICOS.has(filtro) && !/^\d+$/.test(valor) ? null : valor];
+    })
+  ) as FiltrosCatalogo;
+}
+
+// Aplica a una consulta de vehiculos los mismos filtros que usa catalogo_facetas.
+// Q queda sin restricción: comparar el builder de PostgREST con ConsultaFiltrable
+// excede la profundidad de instanciación de TypeScript.
+export function aplicarFiltrosCatalogo<Q>(query: Q, filtros: FiltrosCatalogo): Q {
+  let q = query as unknown as ConsultaFiltrable;
+  for (const campo of ["marca", "modelo", "combustible", "transmision", "carroceria", "traccion"] as const) {
+    if (filtros[campo]) q = q.eq(campo, filtros[campo]);
+  }
+  if (filtros.anio) q = q.eq("anio", Number(filtros.anio));
+  if (filtros.precioMin) q = q.gte("precio", Number(filtros.precioMin));
+  if (filtros.precioMax) q = q.lte("precio", Number(filtros.precioMax));
+  if (filtros.kmMin) q = q.gte("km", Number(filtros.kmMin));
+  if (filtros.kmMax) q = q.lte("km", Number(filtros.kmMax));
+  return q as unknown as Q;
+}
+
+// Valores con conteo e histogramas calculados en la base de datos. Ante un
+// error devuelve facetas vacías para no bloquear el listado.
+export async function loadFacetas(filtros: FiltrosCatalogo, alcance: AlcanceFacetas = {}): Promise<Facetas> {
+  const { data, error } = await supabase.rpc("catalogo_facetas", {
+    filtros: {
+      concesionario_id: alcance.concesionarioId ?? null,
+      user_id: alcance.userId ?? null,
+      estado: alcance.estado ?? null,
+      marca: filtros.marca,
+      modelo: filtros.modelo,
+      anio: filtros.anio,
+      combustible: filtros.combustible,
+      transmision: filtros.transmision,
+      carroceria: filtros.carroceria,
+      traccion: filtros.traccion,
+      precio_min: filtros.precioMin,
+      precio_max: filtros.precioMax,
+      km_min: filtros.kmMin,
+      km_max: filtros.kmMax,
+    },
+  });
+  if (error) {
+    console.error("Error calculando las facetas del catálogo:", error);
+    return FACETAS_VACIAS;
+  }
+  return data as Facetas;
+}
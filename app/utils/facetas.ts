@@ -0,0 +1,53 @@
+// Facetas del catálogo de vehículos (ver la función SQL catalogo_facetas)
+
+export const FACETAS = ["marca", "modelo", "anio", "combustible", "transmision", "carroceria", "traccion"] as const;
+
+export type Faceta = (typeof FACETAS)[number];
+
+export const FACETA_LABELS: Record<Faceta, string> = {
+  marca: "Marca",
+  modelo: "Modelo",
+  anio: "Año",
+  combustible: "Combustible",
+  transmision: "Transmisión",
+  carroceria: "Carrocería",
+  traccion: "Tracción",
+};
+
+export type FacetaValor = { valor: string; total: number };
+
+export type Histograma = {
+  min: number;
+  max: number;
+  buckets: { desde: number; hasta: number; total: number }[];
+};
+
+export type Facetas = {
+  // Vehículos que cumplen todos los filtros activos
+  total: number;
+  valores: Partial<Record<Faceta, FacetaValor[]>>;
+  histogramas: Partial<Record<"precio" | "km", Histograma>>;
+};
+
+export const FACETAS_VACIAS: Facetas = { total: 0, valores: {}, histogramas: {} };
+
+// Filtros del catálogo tal como llegan en la URL
+export const FILTROS_CATALOGO = [
+  "marca",
+  "modelo",
+  "anio",
+  "precioMin",
+  "precioMax",
+  "kmMin",
+  "kmMax",
+  "combustible",
+  "transmision",
+  "carroceria",
+  "traccion",
+] as const;
+
+export type FiltrosCatalogo = Record<(typeof FILTROS_CATALOGO)[number], string | null>;
+
+export const FILTROS_CATALOGO_VACIOS = Object.fromEntries(
+  FILTROS_CATALOGO.map((filtro) => [filtro, null])
+) as FiltrosCatalogo;
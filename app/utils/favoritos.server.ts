@@ -0,0 +1,54 @@
+import { supabase } from "~/utils/supabase.server";
+import type { SessionUser } from "~/utils/auth.server";
+import { VEHICULO_COLUMNS, type Vehiculo } from "~/utils/vehiculo";
+import { MAX_FAVORITOS, isUuid, limpiarUuids } from "~/utils/favoritos";
+
+export async function listFavoritos(userId: string) {
+  const { data, error } = await supabase
+    .from("favoritos")
+    .select("vehiculo_uuid")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(MAX_FAVORITOS);
+  if (error) console.error("Error cargando los favoritos:", error);
+  return (data || []).map((f) => f.vehiculo_uuid as string);
+}
+
+// Agrega uno o varios vehículos (p. ej. los favoritos del navegador al iniciar sesión)
+export async function agregarFavoritos(user: SessionUser, uuids: unknown[]) {
+  const actuales = await listFavoritos(user.uuid);
+  const nuevos = limpiarUuids(uuids, MAX_FAVORITOS).filter((uuid) => !actuales.includes(uuid));
+  if (nuevos.length === 0) return {};
+  if (actuales.length + nuevos.length > MAX_FAVORITOS) {
+    return { error: `Puedes guardar hasta ${MAX_FAVORITOS} favoritos.` };
+  }
+
+  const { error } = await supabase.from("favoritos").upsert(
+    nuevos.map((vehiculo_uuid) => ({ user_id: user.uuid, vehiculo_uuid })),
+    { onConflict: "user_id,vehiculo_uuid", ignoreDuplicates: true }
+  );
+  if (error) {
+    console.error("Error guardando favoritos:", error);
+    return { error: "No se pudo guardar el favorito." };
+  }
+  return {};
+}
+
+export async function quitarFavorito(user: SessionUser, uuid: string) {
+  if (!isUuid(uuid)) return { error: "Vehículo no válido." };
+  const { error } = await supabase.from("favoritos").delete().eq("user_id", user.uuid).eq("vehiculo_uuid", uuid);
+  if (error) {
+    console.error("Error quitando el favorito:", error);
+    return { error: "No se pudo quitar el favorito." };
+  }
+  return {};
+}
+
+// Fichas de los vehículos en el orden pedido; los que ya no existen se omiten
+export async function loadVehiculosPorUuid(uuids: string[]) {
+  if (uuids.length === 0) return [];
+  const { data, error } = await supabase.from("vehiculos").select(VEHICULO_COLUMNS).in("uuid", uuids);
+  if (error) console.error("Error cargando los vehículos:", error);
+  const porUuid = new Map(((data || []) as Vehiculo[]).map((v) => [v.uuid, v]));
+  return uuids.flatMap((uuid) => porUuid.get(uuid) ?? []);
+}
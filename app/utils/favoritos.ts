@@ -0,0 +1,28 @@
+// Favoritos y comparador de vehículos
+
+// Vehículos que se comparan a la vez
+export const MAX_COMPARACION = 4;
+
+// Favoritos guardados por comprador (y en el navegador sin sesión)
+export const MAX_FAVORITOS = 100;
+
+// Clave de localStorage para los favoritos de visitantes sin sesión
+export const FAVORITOS_STORAGE_KEY = "arrankar:favoritos";
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: unknown): value is string {
+  return typeof value === "string" && UUID_REGEX.test(value);
+}
+
+// uuids válidos, sin repetir y en el orden recibido
+export function limpiarUuids(valores: unknown[], maximo: number) {
+  return Array.from(new Set(valores.filter(isUuid).map((v) => v.toLowerCase()))).slice(0, maximo);
+}
+
+// URL del comparador para una lista de vehículos
+export function urlComparacion(uuids: string[]) {
+  const params = new URLSearchParams();
+  for (const uuid of uuids.slice(0, MAX_COMPARACION)) params.append("v", uuid);
+  return `/comparar?${params}`;
+}
@@ -0,0 +1,101 @@
+import {
+  OPCIONES_CARROCERIA,
+  OPCIONES_COMBUSTIBLE,
+  OPCIONES_PUERTAS,
+  OPCIONES_TRACCION,
+  OPCIONES_TRANSMISION,
+} from "~/utils/vehiculoForm";
+
+// Ficha técnica de una versión del catálogo (columnas de cotizador), con la
+// que el formulario de vehículos autocompleta sus características.
+
+export const CAMPOS_FICHA = [
+  { campo: "puertas", label: "Puertas", opciones: OPCIONES_PUERTAS.map(String) },
+  { campo: "combustible", label: "Combustible", opciones: OPCIONES_COMBUSTIBLE },
+  { campo: "transmision", label: "Transmisión", opciones: OPCIONES_TRANSMISION },
+  { campo: "carroceria", label: "Carrocería", opciones: OPCIONES_CARROCERIA },
+  { campo: "traccion", label: "Tracción", opciones: OPCIONES_TRACCION },
+  { campo: "cilindraje", label: "Cilindraje", opciones: null },
+] as const;
+
+export type CampoFicha = (typeof CAMPOS_FICHA)[number]["campo"];
+
+// Valores como en el formulario (texto); un campo ausente no está en el catálogo
+export type FichaTecnica = Partial<Record<CampoFicha, string>>;
+
+// Escrituras habituales en los catálogos que corresponden a cada opción
+const SINONIMOS: Partial<Record<CampoFicha, Record<string, string>>> = {
+  combustible: {
+    gasolina: "Gasolina",
+    electrico: "EV Electrico",
+    ev: "EV Electrico",
+    hibrido: "Hibrido Gasolina",
+    diesel: "Diesel",
+  },
+  transmision: {
+    automatica: "Automática",
+    automatico: "Automática",
+    at: "Automática",
+    cvt: "Automática",
+    manual: "Manual",
+    mecanica: "Manual",
+    mt: "Manual",
+  },
+  carroceria: {
+    sedan: "Sedan",
+    hatchback: "Hatchback",
+    coupe: "Coupe",
+    pickup: "Pick Up",
+    "pick up": "Pick Up",
+    camioneta: "Camioneta",
+    suv: "SUV",
+    campero: "SUV",
+  },
+  traccion: {
+    "4x2": "4x2",
+    "4x4": "4x4",
+    awd: "4x4",
+    "4wd": "4x4",
+  },
+};
+
+const comparable = (valor: string) =>
+  valor
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[\s_-]+/g, " ")
+    .trim();
+
+// Lleva un valor del catálogo a la opción del formulario ("AUTOMATICA" →
+// "Automática"). null si no corresponde a ninguna opción.
+export function normalizarCampoFicha(campo: CampoFicha, valor: unknown): string | null {
+  if (valor === null || valor === undefined || valor === "") return null;
+  const texto = String(valor).trim();
+  if (campo === "puertas" || campo === "cilindraje") {
+    let numero = Number(texto.replace(/[^\d.]/g, ""));
+    // El cilindraje a veces viene en litros ("1.6")
+    if (campo === "cilindraje" && numero > 0 && numero < 20) numero *= 1000;
+    numero = Math.round(numero);
+    if (!Number.isFinite(numero) || numero <= 0) return null;
+    if (campo === "puertas" && !OPCIONES_PUERTAS.includes(numero)) return null;
+    return String(numero);
+  }
+
+  const buscado = comparable(texto);
+  const { opciones } = CAMPOS_FICHA.find((c) => c.campo === campo)!;
+  const exacta = opciones?.find((opcion) => comparable(opcion) === buscado);
+  if (exacta) return exacta;
+  const sinonimos = SINONIMOS[campo] ?? {};
+  const clave = Object.keys(sinonimos).find((s) => buscado === s || buscado.startsWith(`${s} `));
+  return clave ? sinonimos[clave] : null;
+}
+
+export function normalizarFicha(fila: Partial<Record<CampoFicha, unknown>>): FichaTecnica {
+  const ficha: FichaTecnica = {};
+  for (const { campo } of CAMPOS_FICHA) {
+    const valor = normalizarCampoFicha(campo, fila[campo]);
+    if (valor !== null) ficha[campo] = valor;
+  }
+  return ficha;
+}
@@ -0,0 +1,215 @@
+import { strFromU8, unzipSync } from "fflate";
+
+// Lectura de hojas de cálculo subidas por los usuarios (CSV o XLSX). Solo se
+// lee la primera hoja; las celdas se devuelven como texto.
+
+export type HojaCalculo = {
+  encabezados: string[];
+  // Filas de datos (sin encabezado), con tantas celdas como encabezados
+  filas: string[][];
+};
+
+export const HOJA_CALCULO_MAX_BYTES = 10 * 1024 * 1024;
+
+export const HOJA_CALCULO_ACCEPT =
+  ".csv,.txt,.xlsx,text/csv,text/plain,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// Nombre de columna comparable: minúsculas, sin tildes ni separadores ("Año " → "ano")
+export function normalizarEncabezado(valor: string) {
+  return valor
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+}
+
+// "$ 45.900.000", "45,900,000" o "45900000.50" → número; null si está vacío
+export function parseNumero(texto: string): number | null | undefined {
+  const limpio = texto.replace(/[^\d.,-]/g, "");
+  if (limpio === "") return null;
+  const ultimoPunto = limpio.lastIndexOf(".");
+  const ultimaComa = limpio.lastIndexOf(",");
+  let normalizado: string;
+  if (ultimoPunto >= 0 && ultimaComa >= 0) {
+    // El último separador es el decimal
+    const decimal = ultimoPunto > ultimaComa ? "." : ",";
+    const miles = decimal === "." ? "," : ".";
+    normalizado = limpio.split(miles).join("").replace(decimal, ".");
+  } else {
+    const separador = ultimoPunto >= 0 ? "." : ",";
+    const partes = limpio.split(separador);
+    // Un separador repetido o seguido de tres dígitos es de miles
+    const esMiles = partes.length > 2 || (partes.length === 2 && partes[1].length === 3);
+    normalizado = esMiles ? partes.join("") : partes.join(".");
+  }
+  const valor = Number(normalizado);
+  return Number.isFinite(valor) && valor >= 0 ? valor : undefined;
+}
+
+function detectarSeparador(primeraLinea: string) {
+  const candidatos = [",", ";", "\t"];
+  return candidatos.reduce((mejor, sep) =>
+    primeraLinea.split(sep).length > primeraLinea.split(mejor).length ? sep : mejor
+  );
+}
+
+// CSV con comillas dobles (RFC 4180); el separador se deduce del encabezado
+function parseCsv(texto: string): string[][] {
+  const contenido = texto.replace(/^\uFEFF/, "");
+  const separador = detectarSeparador(contenido.split(/\r?\n/, 1)[0] ?? "");
+  const filas: string[][] = [];
+  let fila: string[] = [];
+  let celda = "";
+  let entreComillas = false;
+
+  for (let i = 0; i < contenido.length; i++) {
+    const c = contenido[i];
+    if (entreComillas) {
+      if (c === '"' && contenido[i + 1] === '"') {
+        celda += '"';
+        i++;
+      } else if (c === '"') {
+        entreComillas = false;
+      } else {
+        celda += c;
+      }
+    } else if (c === '"') {
+      entreComillas = true;
+    } else if (c === separador) {
+      fila.push(celda);
+      celda = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && contenido[i + 1] === "\n") i++;
+      fila.push(celda);
+      filas.push(fila);
+      fila = [];
+      celda = "";
+    } else {
+      celda += c;
+    }
+  }
+  if (celda !== "" || fila.length > 0) {
+    fila.push(celda);
+    filas.push(fila);
+  }
+  return filas;
+}
+
+const decodificarXml = (valor: string) =>
+  valor
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(Number(n)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCodePoint(parseInt(n, 16)))
+    .replace(/&amp;/g, "&");
+
+// Texto de un <si> o <is>: concatena todos los <t> (incluidos los de formato enriquecido)
+const textoDe = (xml: string) =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), (m) => decodificarXml(m[1])).join("");
+
+// "AB12" → 27
+function indiceColumna(referencia: string) {
+  const letras = referencia.replace(/\d+$/, "");
+  let indice = 0;
+  for (const letra of letras) indice = indice * 26 + (letra.charCodeAt(0) - 64);
+  return indice - 1;
+}
+
+// Tamaño máximo de las partes del .xlsx una vez descomprimidas: el archivo
+// cabe en HOJA_CALCULO_MAX_BYTES pero comprimido puede ocupar mucho más
+const XLSX_MAX_DESCOMPRIMIDO_BYTES = 50 * 1024 * 1024;
+
+const XLSX_DEMASIADO_GRANDE = `El Excel descomprimido supera ${XLSX_MAX_DESCOMPRIMIDO_BYTES / 1024 / 1024} MB. Guárdalo como CSV o divídelo en varios archivos.`;
+
+function parseXlsx(datos: Uint8Array): string[][] {
+  // Se comprueba el tamaño declarado de cada parte antes de descomprimirla
+  let descomprimido = 0;
+  const archivos = unzipSync(datos, {
+    filter: (f) => {
+      const necesario = f.name === "xl/workbook.xml" || f.name === "xl/_rels/workbook.xml.rels" || f.name.startsWith("xl/worksheets/") || f.name === "xl/sharedStrings.xml";
+      if (!necesario) return false;
+      descomprimido += f.originalSize;
+      if (descomprimido > XLSX_MAX_DESCOMPRIMIDO_BYTES) throw new Error(XLSX_DEMASIADO_GRANDE);
+      return true;
+    },
+  });
+  const leer = (nombre: string) => (archivos[nombre] ? strFromU8(archivos[nombre]) : null);
+
+  // Primera hoja según el libro (no siempre es sheet1.xml)
+  let rutaHoja = "xl/worksheets/sheet1.xml";
+  const libro = leer("xl/workbook.xml");
+  const relaciones = leer("xl/_rels/workbook.xml.rels");
+  const primeraHoja = libro?.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  if (primeraHoja && relaciones) {
+    const destino = relaciones.match(new RegExp(`<Relationship\\b[^>]*Id="${primeraHoja}"[^>]*Target="([^"]+)"`))?.[1]
+      ?? relaciones.match(new RegExp(`<Relationship\\b[^>]*Target="([^"]+)"[^>]*Id="${primeraHoja}"`))?.[1];
+    if (destino) rutaHoja = destino.startsWith("/") ? destino.slice(1) : `xl/${destino}`;
+  }
+
+  const hoja = leer(rutaHoja);
+  if (!hoja) throw new Error("El libro no tiene hojas.");
+  const compartidos = Array.from((leer("xl/sharedStrings.xml") ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g), (m) =>
+    textoDe(m[1])
+  );
+
+  const filas: string[][] = [];
+  for (const [, contenidoFila] of hoja.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const fila: string[] = [];
+    let siguiente = 0;
+    for (const [, atributos, contenido = ""] of contenidoFila.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const referencia = atributos.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const indice = referencia ? indiceColumna(referencia) : siguiente;
+      const tipo = atributos.match(/\bt="([^"]+)"/)?.[1];
+      const valor = contenido.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let texto = "";
+      if (tipo === "s") texto = compartidos[Number(valor)] ?? "";
+      else if (tipo === "inlineStr") texto = textoDe(contenido);
+      else if (tipo === "b") texto = valor === "1" ? "TRUE" : "FALSE";
+      else if (valor !== undefined) texto = decodificarXml(valor);
+      fila[indice] = texto;
+      siguiente = indice + 1;
+    }
+    filas.push(Array.from(fila, (celda) => celda ?? ""));
+  }
+  return filas;
+}
+
+// Lee un archivo CSV o XLSX. Las filas vacías se descartan.
+export async function leerHojaCalculo(
+  archivo: File
+): Promise<{ hoja: HojaCalculo; error?: undefined } | { hoja?: undefined; error: string }> {
+  if (archivo.size === 0) return { error: "El archivo está vacío." };
+  if (archivo.size > HOJA_CALCULO_MAX_BYTES) {
+    return { error: `El archivo supera el máximo de ${HOJA_CALCULO_MAX_BYTES / 1024 / 1024} MB.` };
+  }
+
+  const nombre = archivo.name.toLowerCase();
+  let filas: string[][];
+  try {
+    if (nombre.endsWith(".xlsx")) {
+      filas = parseXlsx(new Uint8Array(await archivo.arrayBuffer()));
+    } else if (nombre.endsWith(".csv") || nombre.endsWith(".txt")) {
+      filas = parseCsv(await archivo.text());
+    } else {
+      return { error: "El archivo debe ser CSV o Excel (.xlsx)." };
+    }
+  } catch (error) {
+    console.error("Error leyendo la hoja de cálculo:", error);
+    if (error instanceof Error && error.message === XLSX_DEMASIADO_GRANDE) return { error: XLSX_DEMASIADO_GRANDE };
+    return { error: "No se pudo leer el archivo. Revisa que sea un CSV o un Excel (.xlsx) válido." };
+  }
+
+  const noVacias = filas.filter((fila) => fila.some((celda) => celda.trim() !== ""));
+  if (noVacias.length < 2) return { error: "El archivo no tiene filas de datos." };
+
+  const encabezados = noVacias[0].map((celda) => celda.trim());
+  return {
+    hoja: {
+      encabezados,
+      filas: noVacias.slice(1).map((fila) => encabezados.map((_, i) => (fila[i] ?? "").trim())),
+    },
+  };
+}
@@ -0,0 +1,265 @@
+import type { OwnedSolicitud, TenantDb } from "~/utils/tenant.server";
+import { escapeLike, registrarSolicitudEnCliente } from "~/utils/clientes.server";
+import { ETAPAS_LEAD, isEtapaLead, type EtapaLead } from "~/utils/leads";
+
+export type LeadVehiculo = {
+  uuid: string;
+  marca: string | null;
+  modelo: string | null;
+  anio: number | null;
+};
+
+export type Lead = {
+  id: number;
+  nombre: string;
+  email: string;
+  mensaje: string | null;
+  etapa: EtapaLead;
+  asignado_a: string | null;
+  cliente_id: string | null;
+  created_at: string;
+  en_cuarentena: boolean;
+  motivo_cuarentena: string | null;
+  vehiculo: LeadVehiculo | null;
+};
+
+export type MiembroEquipo = {
+  uuid: string;
+  name: string | null;
+  email: string;
+  rol: string | null;
+};
+
+export type LeadFiltros = {
+  etapa: EtapaLead | null;
+  // uuid de un usuario, "sin" (sin asignar) o null (todos)
+  asignado: string | null;
+  q: string;
+  // Solicitudes retenidas por el filtro anti-spam
+  cuarentena: boolean;
+  page: number;
+  limit: number;
+};
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function parseLeadFiltros(searchParams: URLSearchParams): LeadFiltros {
+  const etapa = searchParams.get("etapa");
+  const asignado = searchParams.get("asignado");
+  return {
+    etapa: isEtapaLead(etapa) ? etapa : null,
+    asignado: asignado === "sin" || UUID_REGEX.test(asignado ?? "") ? asignado : null,
+    q: (searchParams.get("q") || "").trim(),
+    cuarentena: searchParams.get("cuarentena") === "1",
+    page: Math.max(1, Number(searchParams.get("page")) || 1),
+    limit: 20,
+  };
+}
+
+const LEAD_COLUMNS =
+  "id, nombre, email, mensaje, etapa, asignado_a, cliente_id, created_at, en_cuarentena, motivo_cuarentena, vehiculo_uuid";
+
+// Igual que LEAD_COLUMNS, con el vehículo embebido para filtrar por su propietario
+const LEAD_LIST_COLUMNS =
+  "id, nombre, email, mensaje, etapa, asignado_a, cliente_id, created_at, en_cuarentena, motivo_cuarentena, vehiculo:vehiculos!inner(uuid, marca, modelo, anio)";
+
+function toLead(row: Record<string, unknown>, vehiculo: LeadVehiculo | null): Lead {
+  return {
+    id: row.id as number,
+    nombre: (row.nombre as string) ?? "",
+    email: (row.email as string) ?? "",
+    mensaje: (row.mensaje as string | null) ?? null,
+    etapa: isEtapaLead(row.etapa) ? row.etapa : "nuevo",
+    asignado_a: (row.asignado_a as string | null) ?? null,
+    cliente_id: (row.cliente_id as string | null) ?? null,
+    created_at: row.created_at as string,
+    en_cuarentena: row.en_cuarentena === true,
+    motivo_cuarentena: (row.motivo_cuarentena as string | null) ?? null,
+    vehiculo,
+  };
+}
+
+// Solicitudes de contacto de los vehículos del tenant, con filtros, paginación
+// y el conteo por etapa para las pestañas de la bandeja. Las solicitudes en
+// cuarentena solo aparecen en su propia pestaña.
+export async function listLeads(db: TenantDb, filtros: LeadFiltros) {
+  const conteoEtapas = Object.fromEntries(ETAPAS_LEAD.map((etapa) => [etapa, 0])) as Record<EtapaLead, number>;
+  // Se quitan los caracteres reservados de la sintaxis de or() y los comodines
+  const texto = filtros.q.replace(/[,()"\\%_*]/g, " ").trim();
+
+  let query = db.solicitudes.list(LEAD_LIST_COLUMNS, { count: "exact" });
+  if (filtros.asignado === "sin") query = query.is("asignado_a", null);
+  else if (filtros.asignado) query = query.eq("asignado_a", filtros.asignado);
+  if (texto) query = query.or(`nombre.ilike.%${texto}%,email.ilike.%${texto}%`);
+  query = query.eq("en_cuarentena", filtros.cuarentena);
+  if (filtros.etapa && !filtros.cuarentena) query = query.eq("etapa", filtros.etapa);
+
+  const offset = (filtros.page - 1) * filtros.limit;
+  const [leadsResult, conteoResult] = await Promise.all([
+    query.order("created_at", { ascending: false }).range(offset, offset + filtros.limit - 1),
+    db.solicitudes.contar({ asignado: filtros.asignado, texto: texto || null }),
+  ]);
+
+  if (leadsResult.error) {
+    console.error("Error cargando solicitudes de contacto:", leadsResult.error);
+    return { leads: [] as Lead[], total: 0, conteoEtapas, enCuarentena: 0, error: "No se pudieron cargar las solicitudes." };
+  }
+  if (conteoResult.error) console.error("Error contando solicitudes por etapa:", conteoResult.error);
+
+  let enCuarentena = 0;
+  for (const row of (conteoResult.data || []) as { etapa: string; en_cuarentena: boolean; total: number }[]) {
+    if (row.en_cuarentena) enCuarentena += Number(row.total);
+    else if (isEtapaLead(row.etapa)) conteoEtapas[row.etapa] += Number(row.total);
+  }
+
+  return {
+    leads: (leadsResult.data || []).map((row) => {
+      const fila = row as unknown as Record<string, unknown>;
+      return toLead(fila, (fila.vehiculo as LeadVehiculo | null) ?? null);
+    }),
+    total: leadsResult.count ?? 0,
+    conteoEtapas,
+    enCuarentena,
+    error: null,
+  };
+}
+
+export async function listEquipo(db: TenantDb): Promise<MiembroEquipo[]> {
+  const { data, error } = await db.equipo();
+  if (error) console.error("Error cargando el equipo de ventas:", error);
+  return (data || []) as MiembroEquipo[];
+}
+
+// Cliente del tenant vinculado al lead o, si aún no tiene, el que coincide por
+// email (sin distinguir mayúsculas)
+export async function findClienteForLead(db: TenantDb, lead: Pick<Lead, "cliente_id" | "email">) {
+  let query = db.clientes.select("id, name, email");
+  if (lead.cliente_id) {
+    query = query.eq("id", lead.cliente_id);
+  } else if (lead.email) {
+    query = query.ilike("email", escapeLike(lead.email.trim()));
+  } else {
+    return null;
+  }
+  const { data, error } = await query.limit(1).maybeSingle();
+  if (error) console.error("Error buscando el cliente del lead:", error);
+  return (data as { id: string; name: string; email: string } | null) ?? null;
+}
+
+export type Nota = {
+  id: number;
+  texto: string;
+  created_at: string;
+  autor: { name: string | null; email: string } | null;
+};
+
+// Datos del detalle de un lead: la solicitud, su vehículo, notas, equipo y cliente asociado
+export async function loadLead(db: TenantDb, solicitud: OwnedSolicitud) {
+  const [leadResult, vehiculoResult, notasResult, equipo] = await Promise.all([
+    db.solicitudes.select(solicitud.vehiculo, LEAD_COLUMNS).eq("id", solicitud.id).single(),
+    db.vehiculos.select("uuid, marca, modelo, anio").eq("id", solicitud.vehiculo.id).single(),
+    db.notas
+      .select(solicitud, "id, texto, created_at, autor:users(name, email)")
+      .order("created_at", { ascending: false }),
+    listEquipo(db),
+  ]);
+
+  if (leadResult.error || !leadResult.data) {
+    console.error("Error cargando la solicitud:", leadResult.error);
+    throw new Response("No se pudo cargar la solicitud", { status: 500 });
+  }
+  if (notasResult.error) console.error("Error cargando notas del lead:", notasResult.error);
+
+  const lead = toLead(leadResult.data as Record<string, unknown>, (vehiculoResult.data as LeadVehiculo | null) ?? null);
+
+  return {
+    lead,
+    notas: (notasResult.data || []) as unknown as Nota[],
+    equipo,
+    cliente: await findClienteForLead(db, lead),
+  };
+}
+
+export type LeadErrors = {
+  etapa?: string;
+  asignado_a?: string;
+  texto?: string;
+  form?: string;
+};
+
+// Cambia etapa y asignación. Solo se puede asignar a miembros del equipo del tenant.
+export async function updateLead(
+  db: TenantDb,
+  solicitud: OwnedSolicitud,
+  formData: FormData
+): Promise<{ errors?: LeadErrors }> {
+  const etapa = formData.get("etapa");
+  const asignadoRaw = ((formData.get("asignado_a") as string | null) ?? "").trim();
+
+  const errors: LeadErrors = {};
+  if (!isEtapaLead(etapa)) errors.etapa = "Selecciona una etapa válida";
+
+  let asignado_a: string | null = null;
+  if (asignadoRaw) {
+    const equipo = await listEquipo(db);
+    if (!equipo.some((miembro) => miembro.uuid === asignadoRaw)) {
+      errors.asignado_a = "El usuario seleccionado no pertenece a tu equipo";
+    }
+    asignado_a = asignadoRaw;
+  }
+  if (Object.keys(errors).length > 0) return { errors };
+
+  const { error } = await db.solicitudes.update(solicitud, { etapa, asignado_a });
+  if (error) {
+    console.error("Error actualizando el lead:", error);
+    return { errors: { form: "No se pudo actualizar la solicitud." } };
+  }
+  return {};
+}
+
+export async function addLeadNota(
+  db: TenantDb,
+  solicitud: OwnedSolicitud,
+  formData: FormData
+): Promise<{ errors?: LeadErrors }> {
+  const texto = ((formData.get("texto") as string | null) ?? "").trim();
+  if (!texto) return { errors: { texto: "La nota no puede estar vacía" } };
+  if (texto.length > 2000) return { errors: { texto: "La nota no puede superar 2000 caracteres" } };
+
+  const { error } = await db.notas.insert(solicitud, { texto });
+  if (error) {
+    console.error("Error guardando la nota:", error);
+    return { errors: { form: "No se pudo guardar la nota." } };
+  }
+  return {};
+}
+
+// Saca una solicitud de la cuarentena: pasa a la bandeja normal y, como
+// cualquier solicitud legítima, se vincula con su cliente.
+export async function aprobarLead(db: TenantDb, solicitud: OwnedSolicitud): Promise<{ errors?: LeadErrors }> {
+  const { data, error } = await db.solicitudes
+    .update(solicitud, { en_cuarentena: false, motivo_cuarentena: null })
+    .select("id, nombre, email, mensaje, vehiculo_uuid")
+    .single();
+  if (error || !data) {
+    console.error("Error aprobando la solicitud:", error);
+    return { errors: { form: "No se pudo aprobar la solicitud." } };
+  }
+  await registrarSolicitudEnCliente({
+    id: data.id as number,
+    nombre: data.nombre as string,
+    email: data.email as string,
+    mensaje: data.mensaje as string,
+    vehiculo_uuid: data.vehiculo_uuid as string,
+  });
+  return {};
+}
+
+export async function descartarLead(db: TenantDb, solicitud: OwnedSolicitud): Promise<{ errors?: LeadErrors }> {
+  const { error } = await db.solicitudes.discard(solicitud);
+  if (error) {
+    console.error("Error descartando la solicitud:", error);
+    return { errors: { form: "No se pudo descartar la solicitud." } };
+  }
+  return {};
+}
@@ -0,0 +1,26 @@
+// Etapas del embudo de ventas para las solicitudes de contacto (columna solicitud_contacto.etapa)
+export const ETAPAS_LEAD = ["nuevo", "contactado", "prueba_manejo", "negociacion", "ganado", "perdido"] as const;
+
+export type EtapaLead = (typeof ETAPAS_LEAD)[number];
+
+export const ETAPA_LABELS: Record<EtapaLead, string> = {
+  nuevo: "Nuevo",
+  contactado: "Contactado",
+  prueba_manejo: "Prueba de manejo",
+  negociacion: "Negociación",
+  ganado: "Ganado",
+  perdido: "Perdido",
+};
+
+export const ETAPA_BADGE_CLASSES: Record<EtapaLead, string> = {
+  nuevo: "bg-blue-100 text-blue-700",
+  contactado: "bg-indigo-100 text-indigo-700",
+  prueba_manejo: "bg-yellow-100 text-yellow-800",
+  negociacion: "bg-orange-100 text-orange-700",
+  ganado: "bg-green-100 text-green-700",
+  perdido: "bg-gray-200 text-gray-600",
+};
+
+export function isEtapaLead(value: unknown): value is EtapaLead {
+  return typeof value === "string" && (ETAPAS_LEAD as readonly string[]).includes(value);
+}
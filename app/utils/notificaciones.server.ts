@@ -0,0 +1,308 @@
+import { supabase } from "~/utils/supabase.server";
+import type { SessionUser } from "~/utils/auth.server";
+import type { OwnedVehiculo } from "~/utils/tenant.server";
+import { VEHICLE_MANAGER_ROLES } from "~/utils/roles";
+import { getEmailTransport } from "~/utils/email.server";
+import {
+  plantillaAlertaBusqueda,
+  plantillaBienvenida,
+  plantillaInvitacionEquipo,
+  plantillaNuevaSolicitud,
+  plantillaVehiculoPublicado,
+  type EmailRenderizado,
+} from "~/utils/emailTemplates.server";
+import { EVENTOS_CONFIGURABLES, type EventoNotificacion } from "~/utils/notificaciones";
+
+const OUTBOX = "notificaciones_outbox";
+// Un envío en estado 'enviando' más tiempo que esto se considera colgado y vuelve a la cola
+const BLOQUEO_MAXIMO_MS = 15 * 60 * 1000;
+
+type Destinatario = { uuid: string; email: string; name: string | null };
+
+// URL pública de la app para los enlaces de los emails
+export function appUrl(request: Request) {
+  return (process.env.APP_URL || new URL(request.url).origin).replace(/\/$/, "");
+}
+
+// Espera antes del siguiente intento: 1, 2, 4, 8... minutos, como máximo una hora
+function backoffMs(intentos: number) {
+  return Math.min(60, 2 ** Math.max(0, intentos - 1)) * 60 * 1000;
+}
+
+// Quita a quienes desactivaron el evento en sus preferencias
+async function filtrarPorPreferencia(destinatarios: Destinatario[], evento: EventoNotificacion) {
+  if (destinatarios.length === 0) return [];
+  const { data, error } = await supabase
+    .from("preferencias_notificacion")
+    .select("user_id")
+    .eq("evento", evento)
+    .eq("activo", false)
+    .in("user_id", destinatarios.map((d) => d.uuid));
+  if (error) console.error("Error leyendo preferencias de notificación:", error);
+  const desactivados = new Set((data || []).map((p) => p.user_id as string));
+  return destinatarios.filter((d) => !desactivados.has(d.uuid));
+}
+
+// Equipo que gestiona un vehículo: roles de gestión del concesionario o el vendedor particular
+async function equipoDelVehiculo(vehiculo: { concesionario_id: string | null; user_id: string | null }) {
+  let query = supabase.from("users").select("uuid, email, name");
+  if (vehiculo.concesionario_id) {
+    query = query.eq("concesionario_id", vehiculo.concesionario_id).in("rol", [...VEHICLE_MANAGER_ROLES]);
+  } else if (vehiculo.user_id) {
+    query = query.eq("uuid", vehiculo.user_id);
+  } else {
+    return [];
+  }
+  const { data, error } = await query;
+  if (error) console.error("Error cargando destinatarios del vehículo:", error);
+  return ((data || []) as Destinatario[]).filter((d) => d.email);
+}
+
+const describirVehiculo = (v: { marca: string | null; modelo: string | null; anio: number | null }) =>
+  [v.marca, v.modelo, v.anio].filter(Boolean).join(" ") || "un vehículo";
+
+// Guarda los mensajes en la cola y lanza un primer intento de envío sin
+// bloquear la respuesta. Lo que falle lo reintenta procesarOutbox.
+async function encolar(evento: EventoNotificacion, destinatarios: string[], email: EmailRenderizado) {
+  const unicos = Array.from(new Set(destinatarios.map((d) => d.trim().toLowerCase()).filter(Boolean)));
+  if (unicos.length === 0) return;
+
+  const { data, error } = await supabase
+    .from(OUTBOX)
+    .insert(
+      unicos.map((destinatario) => ({
+        evento,
+        destinatario,
+        asunto: email.asunto,
+        html: email.html,
+        texto: email.texto,
+      }))
+    )
+    .select("id");
+  if (error) {
+    console.error(`Error encolando notificación ${evento}:`, error);
+    return;
+  }
+
+  const ids = (data || []).map((row) => row.id as number);
+  void procesarOutbox({ ids }).catch((err) => console.error("Error enviando notificaciones:", err));
+}
+
+export async function notificarNuevaSolicitud(
+  request: Request,
+  solicitud: { id: number; nombre: string; email: string; mensaje: string; vehiculo_uuid: string }
+) {
+  try {
+    const { data: vehiculo } = await supabase
+      .from("vehiculos")
+      .select("concesionario_id, user_id, marca, modelo, anio")
+      .eq("uuid", solicitud.vehiculo_uuid)
+      .maybeSingle();
+    if (!vehiculo) return;
+
+    const destinatarios = await filtrarPorPreferencia(await equipoDelVehiculo(vehiculo), "nueva_solicitud");
+    const email = plantillaNuevaSolicitud({
+      nombre: solicitud.nombre,
+      email: solicitud.email,
+      mensaje: solicitud.mensaje,
+      vehiculo: describirVehiculo(vehiculo),
+      url: `${appUrl(request)}/leads/${solicitud.id}`,
+    });
+    await encolar("nueva_solicitud", destinatarios.map((d) => d.email), email);
+  } catch (error) {
+    console.error("Error notificando la nueva solicitud:", error);
+  }
+}
+
+export async function notificarVehiculoPublicado(request: Request, user: SessionUser, vehiculo: OwnedVehiculo) {
+  try {
+    const { data } = await supabase
+      .from("vehiculos")
+      .select("concesionario_id, user_id, marca, modelo, anio")
+      .eq("id", vehiculo.id)
+      .maybeSingle();
+    if (!data) return;
+
+    const destinatarios = await filtrarPorPreferencia(await equipoDelVehiculo(data), "vehiculo_publicado");
+    const email = plantillaVehiculoPublicado({
+      vehiculo: describirVehiculo(data),
+      publicadoPor: user.name || user.email,
+      url: `${appUrl(request)}/vehiculos/${vehiculo.uuid}`,
+    });
+    await encolar("vehiculo_publicado", destinatarios.map((d) => d.email), email);
+  } catch (error) {
+    console.error("Error notificando la publicación del vehículo:", error);
+  }
+}
+
+export async function notificarBienvenida(request: Request, usuario: { nombre: string; email: string }) {
+  try {
+    const email = plantillaBienvenida({ nombre: usuario.nombre, url: `${appUrl(request)}/completar-perfil` });
+    await encolar("bienvenida", [usuario.email], email);
+  } catch (error) {
+    console.error("Error notificando el registro:", error);
+  }
+}
+
+export async function notificarInvitacionEquipo(
+  request: Request,
+  invitacion: { email: string; token: string; concesionario: string; rol: string; invitadoPor: string }
+) {
+  try {
+    const email = plantillaInvitacionEquipo({
+      concesionario: invitacion.concesionario,
+      rol: invitacion.rol,
+      invitadoPor: invitacion.invitadoPor,
+      url: `${appUrl(request)}/invitacion/${invitacion.token}`,
+    });
+    await encolar("invitacion_equipo", [invitacion.email], email);
+  } catch (error) {
+    console.error("Error notificando la invitación al equipo:", error);
+  }
+}
+
+// Avisa a cada comprador de las búsquedas guardadas que cumple un vehículo recién publicado
+export async function notificarAlertaBusqueda(
+  request: Request,
+  vehiculo: { uuid: string; marca: string | null; modelo: string | null; anio: number | null },
+  busquedas: { user_id: string; nombre: string }[]
+) {
+  try {
+    const porUsuario = new Map<string, string[]>();
+    for (const b of busquedas) {
+      porUsuario.set(b.user_id, [...(porUsuario.get(b.user_id) || []), b.nombre]);
+    }
+    if (porUsuario.size === 0) return;
+
+    const { data, error } = await supabase
+      .from("users")
+      .select("uuid, email, name")
+      .in("uuid", Array.from(porUsuario.keys()));
+    if (error) console.error("Error cargando destinatarios de la alerta:", error);
+
+    const destinatarios = await filtrarPorPreferencia(
+      ((data || []) as Destinatario[]).filter((d) => d.email),
+      "alerta_busqueda"
+    );
+    const url = `${appUrl(request)}/vehiculos/${vehiculo.uuid}`;
+    for (const destinatario of destinatarios) {
+      const email = plantillaAlertaBusqueda({
+        busquedas: porUsuario.get(destinatario.uuid) || [],
+        vehiculo: describirVehiculo(vehiculo),
+        url,
+      });
+      await encolar("alerta_busqueda", [destinatario.email], email);
+    }
+  } catch (error) {
+    console.error("Error notificando las búsquedas guardadas:", error);
+  }
+}
+
+type OutboxRow = {
+  id: number;
+  destinatario: string;
+  asunto: string;
+  html: string;
+  texto: string;
+  intentos: number;
+  max_intentos: number;
+};
+
+// Envía los mensajes pendientes cuyo próximo intento ya venció. Cada fila se
+// reclama con un update condicionado al estado, así dos procesos no envían
+// el mismo mensaje.
+export async function procesarOutbox({ ids, limite = 50 }: { ids?: number[]; limite?: number } = {}) {
+  const resultado = { enviados: 0, reintentos: 0, fallidos: 0 };
+  const ahora = new Date();
+
+  await supabase
+    .from(OUTBOX)
+    .update({ estado: "pendiente", bloqueado_at: null })
+    .eq("estado", "enviando")
+    .lt("bloqueado_at", new Date(ahora.getTime() - BLOQUEO_MAXIMO_MS).toISOString());
+
+  let query = supabase
+    .from(OUTBOX)
+    .select("id, destinatario, asunto, html, texto, intentos, max_intentos")
+    .eq("estado", "pendiente")
+    .lte("proximo_intento", ahora.toISOString())
+    .order("proximo_intento")
+    .limit(limite);
+  if (ids) query = query.in("id", ids);
+
+  const { data: pendientes, error } = await query;
+  if (error) {
+    console.error("Error leyendo la cola de notificaciones:", error);
+    return resultado;
+  }
+
+  const transport = getEmailTransport();
+  for (const row of (pendientes || []) as OutboxRow[]) {
+    const { data: reclamada } = await supabase
+      .from(OUTBOX)
+      .update({ estado: "enviando", bloqueado_at: new Date().toISOString() })
+      .eq("id", row.id)
+      .eq("estado", "pendiente")
+      .select("id");
+    if (!reclamada || reclamada.length === 0) continue;
+
+    const intentos = row.intentos + 1;
+    try {
+      await transport.send({ to: row.destinatario, subject: row.asunto, html: row.html, text: row.texto });
+      await supabase
+        .from(OUTBOX)
+        .update({ estado: "enviado", intentos, enviado_at: new Date().toISOString(), bloqueado_at: null, ultimo_error: null })
+        .eq("id", row.id);
+      resultado.enviados += 1;
+    } catch (err) {
+      const agotado = intentos >= row.max_intentos;
+      await supabase
+        .from(OUTBOX)
+        .update({
+          estado: agotado ? "fallido" : "pendiente",
+          intentos,
+          ultimo_error: err instanceof Error ? err.message : String(err),
+          proximo_intento: new Date(Date.now() + backoffMs(intentos)).toISOString(),
+          bloqueado_at: null,
+        })
+        .eq("id", row.id);
+      if (agotado) resultado.fallidos += 1;
+      else resultado.reintentos += 1;
+      console.error(`Error enviando la notificación ${row.id} (intento ${intentos}):`, err);
+    }
+  }
+
+  return resultado;
+}
+
+// Preferencias del usuario para los eventos configurables (activo por defecto)
+export async function cargarPreferencias(userId: string) {
+  const { data, error } = await supabase
+    .from("preferencias_notificacion")
+    .select("evento, activo")
+    .eq("user_id", userId);
+  if (error) console.error("Error cargando preferencias de notificación:", error);
+
+  const guardadas = new Map((data || []).map((p) => [p.evento as string, p.activo as boolean]));
+  return Object.fromEntries(
+    EVENTOS_CONFIGURABLES.map((evento) => [evento, guardadas.get(evento) ?? true])
+  ) as Record<string, boolean>;
+}
+
+export async function guardarPreferencias(userId: string, formData: FormData) {
+  const activos = new Set(formData.getAll("eventos").map(String));
+  const { error } = await supabase.from("preferencias_notificacion").upsert(
+    EVENTOS_CONFIGURABLES.map((evento) => ({
+      user_id: userId,
+      evento,
+      activo: activos.has(evento),
+      updated_at: new Date().toISOString(),
+    })),
+    { onConflict: "user_id,evento" }
+  );
+  if (error) {
+    console.error("Error guardando preferencias de notificación:", error);
+    return { error: "No se pudieron guardar las preferencias." };
+  }
+  return { error: null };
+}
@@ -0,0 +1,38 @@
+// Eventos que generan notificaciones por email
+export const EVENTOS_NOTIFICACION = [
+  "nueva_solicitud",
+  "vehiculo_publicado",
+  "bienvenida",
+  "invitacion_equipo",
+  "alerta_busqueda",
+] as const;
+
+export type EventoNotificacion = (typeof EVENTOS_NOTIFICACION)[number];
+
+// Eventos que cada usuario puede activar o desactivar. La bienvenida y las
+// invitaciones se envían siempre.
+export const EVENTOS_CONFIGURABLES: readonly EventoNotificacion[] = [
+  "nueva_solicitud",
+  "vehiculo_publicado",
+  "alerta_busqueda",
+];
+
+export const EVENTO_LABELS: Record<EventoNotificacion, string> = {
+  nueva_solicitud: "Nueva solicitud de contacto",
+  vehiculo_publicado: "Vehículo publicado",
+  bienvenida: "Bienvenida",
+  invitacion_equipo: "Invitación a un equipo",
+  alerta_busqueda: "Nuevos vehículos para tus búsquedas",
+};
+
+export const EVENTO_DESCRIPCIONES: Record<EventoNotificacion, string> = {
+  nueva_solicitud: "Cuando alguien pregunta por un vehículo de tu inventario.",
+  vehiculo_publicado: "Cuando tú o tu equipo publican un vehículo nuevo.",
+  bienvenida: "Al crear la cuenta.",
+  invitacion_equipo: "Cuando un concesionario te invita a su equipo.",
+  alerta_busqueda: "Cuando se publica un vehículo que coincide con una de tus búsquedas guardadas.",
+};
+
+export function isEventoConfigurable(value: unknown): value is EventoNotificacion {
+  return typeof value === "string" && (EVENTOS_CONFIGURABLES as readonly string[]).includes(value);
+}
@@ -0,0 +1,44 @@
+// Placas colombianas. Se guardan normalizadas: mayúsculas, sin espacios ni guiones.
+
+export const TIPOS_PLACA = ["automovil", "moto", "motocarro"] as const;
+export type TipoPlaca = (typeof TIPOS_PLACA)[number];
+
+export const TIPO_PLACA_LABELS: Record<TipoPlaca, string> = {
+  // Servicio particular y público comparten formato; solo cambia el color de la placa
+  automovil: "Carro (particular o público)",
+  moto: "Moto",
+  motocarro: "Motocarro",
+};
+
+const FORMATOS: Record<TipoPlaca, RegExp> = {
+  automovil: /^[A-Z]{3}\d{3}$/,
+  // Las motos anteriores a 2004 no llevan la letra final
+  moto: /^[A-Z]{3}\d{2}[A-Z]?$/,
+  motocarro: /^\d{3}[A-Z]{3}$/,
+};
+
+export const PLACA_FORMATO_AYUDA = "ABC123 para carros, ABC12D para motos o 123ABC para motocarros";
+
+// "abc-123" o "ABC 123" → "ABC123"
+export function normalizarPlaca(valor: string) {
+  return valor.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+export function tipoPlaca(valor: string): TipoPlaca | null {
+  const placa = normalizarPlaca(valor);
+  return TIPOS_PLACA.find((tipo) => FORMATOS[tipo].test(placa)) ?? null;
+}
+
+// Mensaje de error o null si la placa es válida
+export function validarPlaca(valor: string) {
+  if (!normalizarPlaca(valor)) return "Placa es requerida";
+  if (!tipoPlaca(valor)) return `Placa no válida. Usa el formato ${PLACA_FORMATO_AYUDA}.`;
+  return null;
+}
+
+// Presentación con separador: "ABC 123", "ABC 12D", "123 ABC"
+export function formatearPlaca(valor: string | null) {
+  if (!valor) return "";
+  const placa = normalizarPlaca(valor);
+  return tipoPlaca(placa) ? `${placa.slice(0, 3)} ${placa.slice(3)}` : valor;
+}
@@ -0,0 +1,63 @@
+import { supabase } from "~/utils/supabase.server";
+import type { OwnedVehiculo, TenantDb } from "~/utils/tenant.server";
+
+// Valor de referencia del cotizador para una versión y año. Si hay varias
+// filas (p. ej. por fecha de actualización) se promedian. null si no hay dato.
+export async function loadValorReferencia(vehiculo: {
+  marca: string;
+  modelo: string;
+  anio: number | string;
+  version: string;
+}): Promise<number | null> {
+  if (!vehiculo.marca || !vehiculo.modelo || !vehiculo.version || !vehiculo.anio) return null;
+
+  const { data, error } = await supabase
+    .from("cotizador")
+    .select("valor, fecha")
+    .eq("marca", vehiculo.marca)
+    .eq("modelo", vehiculo.modelo)
+    .eq("version", vehiculo.version)
+    .not("valor", "is", null);
+  if (error) {
+    console.error("Error consultando el valor de referencia:", error);
+    return null;
+  }
+
+  // El año sale de la fecha, igual que en los selectores de vehiculos.nuevo
+  const valores = (data || [])
+    .filter((row) => String(row.fecha).match(/^(\d{4})/)?.[1] === String(vehiculo.anio))
+    .map((row) => Number(row.valor))
+    .filter((valor) => Number.isFinite(valor) && valor > 0);
+  if (valores.length === 0) return null;
+  return Math.round(valores.reduce((total, valor) => total + valor, 0) / valores.length);
+}
+
+const CAMPOS_VERSION = ["marca", "modelo", "anio", "version"] as const;
+
+type VersionVehiculo = { marca: string; modelo: string; anio: number | string; version: string };
+
+// Al editar un vehículo: si cambia la versión (marca, modelo, año o versión)
+// la referencia guardada deja de valer y se vuelve a consultar. Devuelve los
+// campos a actualizar, o un objeto vacío si la versión no cambió.
+export async function referenciaTrasEdicion(
+  db: TenantDb,
+  vehiculo: OwnedVehiculo,
+  values: VersionVehiculo
+): Promise<{ precio_referencia?: number | null; precio_referencia_at?: string | null }> {
+  const { data: anterior, error } = await db.vehiculos
+    .select("marca, modelo, anio, version")
+    .eq("id", vehiculo.id)
+    .maybeSingle();
+  if (error) {
+    console.error("Error consultando la versión del vehículo:", error);
+  }
+  const mismaVersion =
+    anterior && CAMPOS_VERSION.every((campo) => String(anterior[campo] ?? "") === String(values[campo] ?? ""));
+  if (mismaVersion) return {};
+
+  const precioReferencia = await loadValorReferencia(values);
+  return {
+    precio_referencia: precioReferencia,
+    precio_referencia_at: precioReferencia === null ? null : new Date().toISOString(),
+  };
+}
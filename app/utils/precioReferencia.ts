@@ -0,0 +1,81 @@
+// Precio sugerido a partir del valor de referencia del cotizador (columna
+// cotizador.valor), ajustado por el kilometraje del vehículo.
+
+// Recorrido anual que se asume incluido en el valor de referencia
+export const KM_ANUAL_REFERENCIA = 15000;
+
+// El valor baja (o sube) este porcentaje por cada 10.000 km por encima (o por
+// debajo) de lo esperado para el año, hasta AJUSTE_KM_MAXIMO
+const AJUSTE_POR_10000_KM = 0.02;
+const AJUSTE_KM_MAXIMO = 0.2;
+
+// Ancho del rango sugerido alrededor del valor ajustado
+const MARGEN_RANGO = 0.08;
+
+// A partir de esta desviación el precio se marca como muy alto o muy bajo
+export const DESVIACION_ATIPICA = 0.2;
+
+export type SugerenciaPrecio = {
+  // Valor del cotizador para la versión y el año
+  referencia: number;
+  // Referencia ajustada por kilometraje
+  sugerido: number;
+  min: number;
+  max: number;
+  kmEsperado: number;
+};
+
+export type EvaluacionPrecio = {
+  // Diferencia relativa con el precio sugerido (0.25 = 25% por encima)
+  desviacion: number;
+  posicion: "por_debajo" | "en_rango" | "por_encima";
+  atipico: boolean;
+};
+
+const redondear = (valor: number) => Math.round(valor / 100000) * 100000;
+
+export function sugerirPrecio(
+  referencia: number,
+  anio: number,
+  km: number,
+  hoy: Date = new Date()
+): SugerenciaPrecio {
+  const antiguedad = Math.max(1, hoy.getFullYear() - anio + 1);
+  const kmEsperado = antiguedad * KM_ANUAL_REFERENCIA;
+  const diferencia = (Number.isFinite(km) ? km : kmEsperado) - kmEsperado;
+  const ajuste = Math.max(-AJUSTE_KM_MAXIMO, Math.min(AJUSTE_KM_MAXIMO, (-diferencia / 10000) * AJUSTE_POR_10000_KM));
+  const sugerido = referencia * (1 + ajuste);
+
+  return {
+    referencia,
+    sugerido: redondear(sugerido),
+    min: redondear(sugerido * (1 - MARGEN_RANGO)),
+    max: redondear(sugerido * (1 + MARGEN_RANGO)),
+    kmEsperado,
+  };
+}
+
+export function evaluarPrecio(precio: number, sugerencia: SugerenciaPrecio): EvaluacionPrecio {
+  const desviacion = (precio - sugerencia.sugerido) / sugerencia.sugerido;
+  return {
+    desviacion,
+    posicion: precio < sugerencia.min ? "por_debajo" : precio > sugerencia.max ? "por_encima" : "en_rango",
+    atipico: Math.abs(desviacion) >= DESVIACION_ATIPICA,
+  };
+}
+
+// Aviso para publicaciones con precio atípico, o null si el precio es razonable
+export function alertaPrecio(
+  vehiculo: { precio: number | null; anio: number | null; km: number | null; precio_referencia: number | null }
+) {
+  if (!vehiculo.precio || !vehiculo.anio || !vehiculo.precio_referencia) return null;
+  const evaluacion = evaluarPrecio(
+    vehiculo.precio,
+    sugerirPrecio(vehiculo.precio_referencia, vehiculo.anio, vehiculo.km ?? NaN)
+  );
+  if (!evaluacion.atipico) return null;
+  const porcentaje = Math.round(Math.abs(evaluacion.desviacion) * 100);
+  return evaluacion.desviacion > 0
+    ? `${porcentaje}% sobre la referencia`
+    : `${porcentaje}% bajo la referencia`;
+}
@@ -0,0 +1,24 @@
+// Roles disponibles para los usuarios (ver completar-perfil.tsx)
+export const ROLES = ["suscriptor", "concesionario", "vendedor_particular", "agente"] as const;
+
+export type Rol = (typeof ROLES)[number];
+
+export const ROL_LABELS: Record<Rol, string> = {
+  suscriptor: "Suscriptor",
+  concesionario: "Concesionario",
+  vendedor_particular: "Vendedor Particular",
+  agente: "Agente",
+};
+
+// Roles que pueden publicar, editar y eliminar vehículos
+export const VEHICLE_MANAGER_ROLES: readonly Rol[] = ["concesionario", "vendedor_particular", "agente"];
+
+// Roles del equipo de un concesionario (clientes, productos, etc.)
+export const STAFF_ROLES: readonly Rol[] = ["concesionario", "agente"];
+
+export function isRol(value: unknown): value is Rol {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+// Roles a los que se puede asignar una solicitud de contacto (leads)
+export const LEAD_ASSIGNEE_ROLES: readonly Rol[] = ["vendedor_particular", "agente"];
@@ -1,17 +1,124 @@
-import { createCookieSessionStorage } from "@remix-run/node";
-
-export const sessionStorage = createCookieSessionStorage({
-  cookie: {
-    name: "arrankar_session",
-    secure: process.env.NODE_ENV === "production",
-    secrets: [process.env.SESSION_SECRET || "dev_secret"],
-    sameSite: "lax",
-    path: "/",
-    httpOnly: true,
+import { createCookie, createSessionStorage } from "@remix-run/node";
+import { supabase } from "~/utils/supabase.server";
+
+// Secretos de la cookie. SESSION_SECRETS admite varios separados por coma:
+// el primero firma las cookies nuevas y el resto solo se usa para validar las
+// existentes, lo que permite rotar el secreto sin cerrar las sesiones abiertas.
+function sessionSecrets() {
+  const secrets = (process.env.SESSION_SECRETS || process.env.SESSION_SECRET || "")
+    .split(",")
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+  if (secrets.length > 0) return secrets;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("Falta la variable de entorno SESSION_SECRETS");
+  }
+  return ["dev_secret"];
+}
+
+// Duración máxima de la cookie; la inactividad se controla aparte (ver auth.server)
+const SESSION_MAX_AGE = 60 * 60 * 24 * 30;
+
+export type SessionData = {
+  // auth.users.id de Supabase
+  user_id: string;
+  access_token: string;
+  refresh_token: string;
+  // Expiración del access token (segundos desde epoch)
+  expires_at: number;
+  // Última actividad (ms desde epoch)
+  last_seen: number;
+  user_agent?: string;
+  // Momento en que se abrió la sesión desde un enlace de recuperación (ms);
+  // solo entonces se permite cambiar la contraseña sin la actual
+  recovery_at?: number;
+};
+
+const sessionCookie = createCookie("arrankar_session", {
+  secure: process.env.NODE_ENV === "production",
+  secrets: sessionSecrets(),
+  sameSite: "lax",
+  path: "/",
+  httpOnly: true,
+  maxAge: SESSION_MAX_AGE,
+});
+
+function rowFor(data: Partial<SessionData>, expires?: Date) {
+  return {
+    auth_id: data.user_id ?? null,
+    data,
+    user_agent: data.user_agent ?? null,
+    expires_at: expires?.toISOString() ?? null,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+// Sesiones guardadas en la tabla public.sesiones
+export const sessionStorage = createSessionStorage<SessionData>({
+  cookie: sessionCookie,
+  async createData(data, expires) {
+    const { data: row, error } = await supabase.from("sesiones").insert(rowFor(data, expires)).select("id").single();
+    if (error || !row) {
+      throw new Error(`No se pudo crear la sesión: ${error?.message}`);
+    }
+    return row.id as string;
+  },
+  async readData(id) {
+    const { data: row, error } = await supabase
+      .from("sesiones")
+      .select("data, expires_at")
+      .eq("id", id)
+      .maybeSingle();
+    if (error) {
+      // Un id mal formado en la cookie no debe tumbar la petición
+      console.error("Error leyendo la sesión:", error);
+      return null;
+    }
+    if (!row) return null;
+    if (row.expires_at && new Date(row.expires_at) <= new Date()) {
+      await supabase.from("sesiones").delete().eq("id", id);
+      return null;
+    }
+    return row.data as Partial<SessionData>;
+  },
+  async updateData(id, data, expires) {
+    const { error } = await supabase.from("sesiones").update(rowFor(data, expires)).eq("id", id);
+    if (error) console.error("Error actualizando la sesión:", error);
+  },
+  async deleteData(id) {
+    const { error } = await supabase.from("sesiones").delete().eq("id", id);
+    if (error) console.error("Error eliminando la sesión:", error);
   },
 });
 
 export async function getSession(request: Request) {
   const cookie = request.headers.get("Cookie");
   return sessionStorage.getSession(cookie);
-} 
\ No newline at end of file
+}
+
+export type SesionActiva = {
+  id: string;
+  user_agent: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Sesiones abiertas de un usuario (para el perfil)
+export async function listSesiones(authId: string): Promise<SesionActiva[]> {
+  const { data, error } = await supabase
+    .from("sesiones")
+    .select("id, user_agent, created_at, updated_at")
+    .eq("auth_id", authId)
+    .order("updated_at", { ascending: false });
+  if (error) console.error("Error listando sesiones:", error);
+  return (data || []) as SesionActiva[];
+}
+
+// Cierra todas las sesiones de un usuario en este servidor, salvo `except`
+export async function deleteSesiones(authId: string, { except }: { except?: string } = {}) {
+  let query = supabase.from("sesiones").delete().eq("auth_id", authId);
+  if (except) query = query.neq("id", except);
+  const { error } = await query;
+  if (error) console.error("Error cerrando las sesiones del usuario:", error);
+  return { error };
+}
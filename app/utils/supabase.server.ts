@@ -32,3 +32,16 @@ export const clientSupabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
     persistSession: true,
   },
 });
+
+// Cliente efímero para operaciones de Supabase Auth (login, registro, refresh).
+// Un cliente nuevo por operación evita que la sesión de un usuario quede
+// guardada en un cliente compartido entre peticiones.
+export function createAuthClient() {
+  return createClient(SUPABASE_URL!, SUPABASE_ANON_KEY!, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+    },
+  });
+}
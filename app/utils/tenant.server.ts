@@ -0,0 +1,307 @@
+import { json } from "@remix-run/node";
+import { supabase } from "~/utils/supabase.server";
+import type { SessionUser } from "~/utils/auth.server";
+import { LEAD_ASSIGNEE_ROLES } from "~/utils/roles";
+import { loadFacetas } from "~/utils/facetas.server";
+import { sugerirBusqueda } from "~/utils/busqueda.server";
+import type { FiltrosCatalogo } from "~/utils/facetas";
+
+declare const ownedBrand: unique symbol;
+
+// Vehículo cuya pertenencia al tenant ya fue verificada. Solo se obtiene
+// a través de findVehiculo/requireVehiculo/createVehiculo, de modo que las
+// tablas dependientes (images, documentos_vehiculo, solicitud_contacto, ...)
+// nunca se consultan para un vehículo ajeno.
+export type OwnedVehiculo = {
+  id: number;
+  uuid: string;
+  readonly [ownedBrand]: true;
+};
+
+// Solicitud de contacto (lead) sobre un vehículo del tenant
+export type OwnedSolicitud = {
+  id: number;
+  vehiculo: OwnedVehiculo;
+  readonly [ownedBrand]: true;
+};
+
+type Values = Record<string, unknown>;
+
+// Concesionario dueño de los datos o, sin concesionario, el vendedor particular
+export type Propietario = {
+  concesionario_id: string | null;
+  user_id: string | null;
+};
+
+// Clientes de un propietario. Se expone aparte de createTenantDb porque las
+// solicitudes de contacto públicas dan de alta al cliente en el tenant del
+// vehículo, sin una sesión de ese tenant.
+export function clientesDe(propietario: Propietario) {
+  const ownerColumn = propietario.concesionario_id ? "concesionario_id" : "user_id";
+  const ownerValue = propietario.concesionario_id ?? propietario.user_id;
+  const sinConcesionario = !propietario.concesionario_id;
+  const conPropietario = (values: Values) => ({
+    ...values,
+    concesionario_id: propietario.concesionario_id,
+    user_id: propietario.user_id,
+  });
+
+  return {
+    select: <Columns extends string = "*">(
+      columns?: Columns,
+      options?: { count?: "exact" | "planned" | "estimated"; head?: boolean }
+    ) => {
+      const query = supabase.from("clientes").select(columns, options).eq(ownerColumn, ownerValue);
+      return sinConcesionario ? query.is("concesionario_id", null) : query;
+    },
+    insert: (values: Values | Values[]) =>
+      supabase.from("clientes").insert(Array.isArray(values) ? values.map(conPropietario) : [conPropietario(values)]),
+    update: (values: Values) => {
+      const query = supabase.from("clientes").update(values).eq(ownerColumn, ownerValue);
+      return sinConcesionario ? query.is("concesionario_id", null) : query;
+    },
+    delete: () => {
+      const query = supabase.from("clientes").delete().eq(ownerColumn, ownerValue);
+      return sinConcesionario ? query.is("concesionario_id", null) : query;
+    },
+  };
+}
+
+export type ClientesDb = ReturnType<typeof clientesDe>;
+
+// Acceso a datos limitado al concesionario de la sesión. Los vendedores
+// particulares sin concesionario quedan limitados a sus propios vehículos.
+export function createTenantDb(user: SessionUser) {
+  const propietario: Propietario = { concesionario_id: user.concesionario_id, user_id: user.uuid };
+  const ownerColumn = user.concesionario_id ? "concesionario_id" : "user_id";
+  const ownerValue = user.concesionario_id ?? user.uuid;
+  // Sin concesionario, solo lo propio que tampoco es de ningún concesionario:
+  // no lo que el usuario creó mientras formaba parte de un equipo
+  const sinConcesionario = !user.concesionario_id;
+
+  const vehiculos = {
+    select: <Columns extends string = "*">(
+      columns?: Columns,
+      options?: { count?: "exact" | "planned" | "estimated"; head?: boolean }
+    ) => {
+      const query = supabase.from("vehiculos").select(columns, options).eq(ownerColumn, ownerValue);
+      return sinConcesionario ? query.is("concesionario_id", null) : query;
+    },
+    // Búsqueda de texto ordenada por relevancia (función SQL buscar_vehiculos)
+    buscar: (consulta: string, options?: { count?: "exact" | "planned" | "estimated" }) => {
+      const query = supabase
+        .rpc(
+          "buscar_vehiculos",
+          { consulta, concesionario: user.concesionario_id, propietario: user.concesionario_id ? null : user.uuid },
+          options
+        )
+        .eq(ownerColumn, ownerValue);
+      return sinConcesionario ? query.is("concesionario_id", null) : query;
+    },
+    insert: (values: Values) =>
+      supabase
+        .from("vehiculos")
+        .insert([{ ...values, concesionario_id: user.concesionario_id, user_id: user.uuid }]),
+    update: (values: Values) => {
+      const query = supabase.from("vehiculos").update(values).eq(ownerColumn, ownerValue);
+      return sinConcesionario ? query.is("concesionario_id", null) : query;
+    },
+    delete: () => {
+      const query = supabase.from("vehiculos").delete().eq(ownerColumn, ownerValue);
+      return sinConcesionario ? query.is("concesionario_id", null) : query;
+    },
+  };
+
+  async function findVehiculo(uuid: string): Promise<OwnedVehiculo | null> {
+    const { data, error } = await vehiculos.select("id, uuid").eq("uuid", uuid).maybeSingle();
+    if (error) {
+      console.error("Error al verificar la pertenencia del vehículo:", error);
+      return null;
+    }
+    return (data as OwnedVehiculo | null) ?? null;
+  }
+
+  // Igual que findVehiculo pero lanza 404 si el vehículo no pertenece al tenant
+  async function requireVehiculo(uuid: string): Promise<OwnedVehiculo> {
+    const vehiculo = await findVehiculo(uuid);
+    if (!vehiculo) {
+      throw json({ message: "Vehículo no encontrado" }, { status: 404 });
+    }
+    return vehiculo;
+  }
+
+  async function createVehiculo(values: Values) {
+    const { data, error } = await vehiculos.insert(values).select("id, uuid").single();
+    return { data: (data as OwnedVehiculo | null) ?? null, error };
+  }
+
+  const images = {
+    select: <Columns extends string = "*">(vehiculo: OwnedVehiculo, columns?: Columns) =>
+      supabase.from("images").select(columns).eq("vehicle_id", vehiculo.uuid),
+    insert: (vehiculo: OwnedVehiculo, values: Values) =>
+      supabase.from("images").insert({ ...values, vehicle_id: vehiculo.uuid, id_v: String(vehiculo.id) }),
+    update: (vehiculo: OwnedVehiculo, values: Values) =>
+      supabase.from("images").update(values).eq("vehicle_id", vehiculo.uuid),
+    delete: (vehiculo: OwnedVehiculo) =>
+      supabase.from("images").delete().eq("vehicle_id", vehiculo.uuid),
+  };
+
+  const documentos = {
+    select: <Columns extends string = "*">(vehiculo: OwnedVehiculo, columns?: Columns) =>
+      supabase.from("documentos_vehiculo").select(columns).eq("vehiculo_uuid", vehiculo.uuid),
+    insert: (vehiculo: OwnedVehiculo, values: Values) =>
+      supabase.from("documentos_vehiculo").insert({ ...values, vehiculo_uuid: vehiculo.uuid, id_v: vehiculo.id }),
+    delete: (vehiculo: OwnedVehiculo) =>
+      supabase.from("documentos_vehiculo").delete().eq("vehiculo_uuid", vehiculo.uuid),
+  };
+
+  const solicitudes = {
+    select: <Columns extends string = "*">(vehiculo: OwnedVehiculo, columns?: Columns) =>
+      supabase.from("solicitud_contacto").select(columns).eq("vehiculo_uuid", vehiculo.uuid),
+    delete: (vehiculo: OwnedVehiculo) =>
+      supabase.from("solicitud_contacto").delete().eq("vehiculo_uuid", vehiculo.uuid),
+    update: (solicitud: OwnedSolicitud, values: Values) =>
+      supabase
+        .from("solicitud_contacto")
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq("id", solicitud.id),
+    discard: (solicitud: OwnedSolicitud) =>
+      supabase.from("solicitud_contacto").delete().eq("id", solicitud.id),
+    // Solicitudes de los vehículos del tenant, filtradas en la base de datos
+    // por el propietario del vehículo. `columns` debe embeber el vehículo
+    // como `vehiculo:vehiculos!inner(...)`.
+    list: <Columns extends string>(columns: Columns, options?: { count?: "exact" | "planned" | "estimated" }) => {
+      const query = supabase
+        .from("solicitud_contacto")
+        .select(columns, options)
+        .eq(`vehiculo.${ownerColumn}`, ownerValue);
+      return sinConcesionario ? query.is("vehiculo.concesionario_id", null) : query;
+    },
+    // Conteo por etapa y cuarentena (función SQL contar_leads)
+    contar: (filtros: { asignado: string | null; texto: string | null }) =>
+      supabase.rpc("contar_leads", {
+        concesionario: user.concesionario_id,
+        propietario: user.concesionario_id ? null : user.uuid,
+        asignado: filtros.asignado,
+        texto: filtros.texto,
+      }),
+  };
+
+  async function findSolicitud(id: number): Promise<OwnedSolicitud | null> {
+    const { data, error } = await supabase
+      .from("solicitud_contacto")
+      .select("id, vehiculo_uuid")
+      .eq("id", id)
+      .maybeSingle();
+    if (error || !data) {
+      if (error) console.error("Error al cargar la solicitud de contacto:", error);
+      return null;
+    }
+    const vehiculo = await findVehiculo(data.vehiculo_uuid as string);
+    if (!vehiculo) return null;
+    return { id: data.id as number, vehiculo } as OwnedSolicitud;
+  }
+
+  async function requireSolicitud(id: number): Promise<OwnedSolicitud> {
+    const solicitud = Number.isInteger(id) ? await findSolicitud(id) : null;
+    if (!solicitud) {
+      throw json({ message: "Solicitud no encontrada" }, { status: 404 });
+    }
+    return solicitud;
+  }
+
+  const notas = {
+    select: <Columns extends string = "*">(solicitud: OwnedSolicitud, columns?: Columns) =>
+      supabase.from("solicitud_notas").select(columns).eq("solicitud_id", solicitud.id),
+    insert: (solicitud: OwnedSolicitud, values: Values) =>
+      supabase.from("solicitud_notas").insert({ ...values, solicitud_id: solicitud.id, user_id: user.uuid }),
+  };
+
+  // Usuarios a los que se pueden asignar leads: vendedores y agentes del
+  // concesionario. Un vendedor particular solo puede asignárselos a sí mismo.
+  async function equipo() {
+    if (!user.concesionario_id) {
+      return { data: [{ uuid: user.uuid, name: user.name, email: user.email, rol: user.rol }], error: null };
+    }
+    return supabase
+      .from("users")
+      .select("uuid, name, email, rol")
+      .eq("concesionario_id", user.concesionario_id)
+      .in("rol", [...LEAD_ASSIGNEE_ROLES])
+      .order("name");
+  }
+
+  // Importaciones masivas de vehículos (ver vehiculoImportacion.server.ts)
+  const importaciones = {
+    select: <Columns extends string = "*">(columns?: Columns) => {
+      const query = supabase.from("importaciones_vehiculos").select(columns).eq(ownerColumn, ownerValue);
+      return sinConcesionario ? query.is("concesionario_id", null) : query;
+    },
+    insert: (values: Values) =>
+      supabase
+        .from("importaciones_vehiculos")
+        .insert({ ...values, concesionario_id: user.concesionario_id, user_id: user.uuid }),
+    update: (values: Values) => {
+      const query = supabase.from("importaciones_vehiculos").update(values).eq(ownerColumn, ownerValue);
+      return sinConcesionario ? query.is("concesionario_id", null) : query;
+    },
+  };
+
+  const clientes = clientesDe(propietario);
+
+  const historial = {
+    select: <Columns extends string = "*">(vehiculo: OwnedVehiculo, columns?: Columns) =>
+      supabase.from("vehiculo_estado_historial").select(columns).eq("vehiculo_uuid", vehiculo.uuid),
+    insert: (vehiculo: OwnedVehiculo, values: Values) =>
+      supabase
+        .from("vehiculo_estado_historial")
+        .insert({ ...values, vehiculo_uuid: vehiculo.uuid, user_id: user.uuid }),
+  };
+
+  const ventas = {
+    select: <Columns extends string = "*">(vehiculo: OwnedVehiculo, columns?: Columns) =>
+      supabase.from("ventas_vehiculo").select(columns).eq("vehiculo_uuid", vehiculo.uuid),
+    insert: (vehiculo: OwnedVehiculo, values: Values) =>
+      supabase.from("ventas_vehiculo").insert({ ...values, vehiculo_uuid: vehiculo.uuid, user_id: user.uuid }),
+    delete: (vehiculo: OwnedVehiculo) =>
+      supabase.from("ventas_vehiculo").delete().eq("vehiculo_uuid", vehiculo.uuid),
+  };
+
+  // Facetas del inventario propio (todos los estados salvo que se filtre uno)
+  const facetas = (filtros: FiltrosCatalogo, estado?: string | null) =>
+    loadFacetas(filtros, {
+      concesionarioId: user.concesionario_id,
+      userId: user.concesionario_id ? null : user.uuid,
+      estado,
+    });
+
+  // Autocompletado del buscador sobre el inventario propio
+  const sugerencias = (consulta: string) =>
+    sugerirBusqueda(consulta, {
+      concesionarioId: user.concesionario_id,
+      userId: user.concesionario_id ? null : user.uuid,
+    });
+
+  return {
+    user,
+    vehiculos,
+    facetas,
+    sugerencias,
+    findVehiculo,
+    requireVehiculo,
+    createVehiculo,
+    images,
+    documentos,
+    solicitudes,
+    findSolicitud,
+    requireSolicitud,
+    notas,
+    equipo,
+    historial,
+    ventas,
+    importaciones,
+    clientes,
+  };
+}
+
+export type TenantDb = ReturnType<typeof createTenantDb>;
@@ -0,0 +1,58 @@
+import { ESTADO_LABELS, type EstadoVehiculo } from "~/utils/vehiculoEstado";
+
+// Ficha pública de un vehículo (detalle y comparador)
+export type Vehiculo = {
+  uuid: string;
+  marca: string | null;
+  modelo: string | null;
+  anio: number | null;
+  km: number | null;
+  precio: number | null;
+  transmision: string | null;
+  url_img: string | null;
+  version: string | null;
+  puertas: number | null;
+  combustible: string | null;
+  color: string | null;
+  placa: string | null;
+  carroceria: string | null;
+  traccion: string | null;
+  cilindraje: number | null;
+  estado: EstadoVehiculo;
+};
+
+export const VEHICULO_COLUMNS =
+  "uuid, marca, modelo, anio, km, precio, transmision, url_img, version, puertas, combustible, color, placa, carroceria, traccion, cilindraje, estado";
+
+const numero = (valor: number) => new Intl.NumberFormat("es-CO").format(valor);
+
+// Atributos que muestra el comparador, en orden. uuid y url_img van en la
+// cabecera de cada columna. `mejor` indica qué valor destacar entre varios.
+export const ATRIBUTOS_VEHICULO: {
+  campo: Exclude<keyof Vehiculo, "uuid" | "url_img">;
+  label: string;
+  formato?: (valor: never) => string;
+  mejor?: "menor" | "mayor";
+}[] = [
+  {
+    campo: "precio",
+    label: "Precio",
+    formato: (valor: number) =>
+      new Intl.NumberFormat("es-CO", { style: "currency", currency: "COP", maximumFractionDigits: 0 }).format(valor),
+    mejor: "menor",
+  },
+  { campo: "estado", label: "Estado", formato: (valor: EstadoVehiculo) => ESTADO_LABELS[valor] ?? valor },
+  { campo: "marca", label: "Marca" },
+  { campo: "modelo", label: "Modelo" },
+  { campo: "version", label: "Versión" },
+  { campo: "anio", label: "Año", mejor: "mayor" },
+  { campo: "km", label: "Kilometraje", formato: (valor: number) => `${numero(valor)} km`, mejor: "menor" },
+  { campo: "combustible", label: "Combustible" },
+  { campo: "transmision", label: "Transmisión" },
+  { campo: "carroceria", label: "Carrocería" },
+  { campo: "traccion", label: "Tracción" },
+  { campo: "cilindraje", label: "Cilindraje", formato: (valor: number) => `${numero(valor)} cc` },
+  { campo: "puertas", label: "Puertas" },
+  { campo: "color", label: "Color" },
+  { campo: "placa", label: "Placa" },
+];
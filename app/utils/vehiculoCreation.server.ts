@@ -0,0 +1,109 @@
+import type { ImageMetadata } from "~/components/ImageUploader";
+import type { OwnedVehiculo, TenantDb } from "~/utils/tenant.server";
+import type { VehiculoFormValues } from "~/utils/vehiculoForm";
+import { deleteVehiculoCascade } from "~/utils/vehiculoDeletion.server";
+import { loadValorReferencia } from "~/utils/precioReferencia.server";
+import { loadCatalogoVigenteId } from "~/utils/catalogoReferencia.server";
+import { esPlacaDuplicada, PLACA_DUPLICADA } from "~/utils/vehiculoDuplicados.server";
+import {
+  syncFeaturedImage,
+  syncVehiculoImages,
+  uploadVehiculoPdfs,
+  type ArchivoFallido,
+} from "~/utils/vehiculoMedia.server";
+
+export type CreateVehiculoResult =
+  | { ok: true; vehiculo: OwnedVehiculo }
+  | { ok: false; error: string; failures: ArchivoFallido[] };
+
+// Revisa los archivos antes de tocar la base de datos para no crear nada que
+// luego haya que deshacer por un archivo que nunca iba a poder guardarse.
+function preflightArchivos(formData: FormData): ArchivoFallido[] {
+  const failures: ArchivoFallido[] = [];
+  const orderedImagesMetadata: ImageMetadata[] = JSON.parse((formData.get("orderedImagesMetadata") as string) || "[]");
+
+  for (const meta of orderedImagesMetadata.filter((m) => m.isNew)) {
+    const file = formData.get(meta.storage_id);
+    if (!(file instanceof File)) {
+      failures.push({ file: meta.storage_id, error: "Archivo no encontrado en el formulario" });
+    } else if (!file.type.startsWith("image/")) {
+      failures.push({ file: file.name, error: "El archivo no es una imagen" });
+    }
+  }
+
+  for (const file of formData.getAll("documentosPdf")) {
+    if (!(file instanceof File) || file.size === 0) continue;
+    if (file.type !== "application/pdf") {
+      failures.push({ file: file.name, error: "El archivo no es un PDF" });
+    }
+  }
+
+  return failures;
+}
+
+// Crea el vehículo con sus imágenes y PDFs. Si algún archivo falla se elimina
+// todo lo creado y se devuelven los fallos por archivo para mostrarlos en el formulario.
+export async function createVehiculoWithMedia(
+  db: TenantDb,
+  values: VehiculoFormValues,
+  formData: FormData
+): Promise<CreateVehiculoResult> {
+  const invalidos = preflightArchivos(formData);
+  if (invalidos.length > 0) {
+    return { ok: false, error: "Algunos archivos no son válidos. No se creó el vehículo.", failures: invalidos };
+  }
+
+  // Valor y versión del cotizador vigentes al publicar (ver precioReferencia.ts)
+  const [precioReferencia, catalogoVersionId] = await Promise.all([
+    loadValorReferencia(values),
+    loadCatalogoVigenteId(),
+  ]);
+  const { data: vehiculo, error: vehicleError } = await db.createVehiculo({
+    ...values,
+    catalogo_version_id: catalogoVersionId,
+    precio_referencia: precioReferencia,
+    precio_referencia_at: precioReferencia === null ? null : new Date().toISOString(),
+  });
+  if (vehicleError || !vehiculo) {
+    console.error("Error insertando el vehículo:", vehicleError);
+    if (esPlacaDuplicada(vehicleError)) return { ok: false, error: PLACA_DUPLICADA, failures: [] };
+    return { ok: false, error: vehicleError?.message ?? "No se pudo crear el vehículo", failures: [] };
+  }
+
+  try {
+    const [imagenes, pdfs] = await Promise.all([
+      syncVehiculoImages(db, vehiculo, formData),
+      uploadVehiculoPdfs(db, vehiculo, formData),
+    ]);
+    const failures = [...imagenes.failures, ...pdfs.failures];
+
+    if (failures.length === 0) {
+      const { error: urlImgError } = await syncFeaturedImage(db, vehiculo);
+      if (urlImgError) {
+        failures.push({ file: "url_img", error: urlImgError.message });
+      }
+    }
+
+    if (failures.length > 0) {
+      await deleteVehiculoCascade(db, vehiculo);
+      return {
+        ok: false,
+        error: "No se pudieron guardar todos los archivos. No se creó el vehículo.",
+        failures,
+      };
+    }
+
+    const { error: historialError } = await db.historial.insert(vehiculo, {
+      estado_anterior: null,
+      estado_nuevo: "disponible",
+    });
+    if (historialError) {
+      console.error("Error registrando el estado inicial:", historialError);
+    }
+
+    return { ok: true, vehiculo };
+  } catch (err) {
+    await deleteVehiculoCascade(db, vehiculo);
+    throw err;
+  }
+}
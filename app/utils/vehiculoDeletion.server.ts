@@ -0,0 +1,50 @@
+import type { OwnedVehiculo, TenantDb } from "~/utils/tenant.server";
+import { removeVehiculoStorage } from "~/utils/vehiculoMedia.server";
+
+export const VEHICULO_VENDIDO = "Un vehículo vendido no se puede eliminar: conserva el registro de la venta.";
+
+// Elimina un vehículo con todo lo que depende de él: solicitudes de contacto,
+// filas de images y documentos_vehiculo, el propio vehículo y su carpeta en
+// los buckets imagen-vehiculo y documentos-vehiculos.
+//
+// Primero se borran las filas y al final los archivos: si el storage falla
+// solo quedan objetos huérfanos, que recoge `npm run storage:gc`.
+//
+// Un vehículo vendido no se elimina: conserva su venta y su historial de estados.
+export async function deleteVehiculoCascade(db: TenantDb, vehiculo: OwnedVehiculo): Promise<{ error: string | null }> {
+  const [{ data: actual, error: estadoError }, { data: ventas, error: ventasError }] = await Promise.all([
+    db.vehiculos.select("estado").eq("id", vehiculo.id).maybeSingle(),
+    db.ventas.select(vehiculo, "id").limit(1),
+  ]);
+  if (estadoError || ventasError) {
+    console.error(`Error comprobando la venta del vehículo ${vehiculo.uuid}:`, estadoError ?? ventasError);
+    return { error: (estadoError ?? ventasError)!.message };
+  }
+  if (actual?.estado === "vendido" || (ventas && ventas.length > 0)) {
+    return { error: VEHICULO_VENDIDO };
+  }
+
+  const dependientes = await Promise.all([
+    db.solicitudes.delete(vehiculo),
+    db.images.delete(vehiculo),
+    db.documentos.delete(vehiculo),
+  ]);
+  const dependienteError = dependientes.find((result) => result.error)?.error;
+  if (dependienteError) {
+    console.error(`Error eliminando dependientes del vehículo ${vehiculo.uuid}:`, dependienteError);
+    return { error: dependienteError.message };
+  }
+
+  const { error } = await db.vehiculos.delete().eq("id", vehiculo.id);
+  if (error) {
+    console.error(`Error eliminando el vehículo ${vehiculo.uuid}:`, error);
+    return { error: error.message };
+  }
+
+  const { failures } = await removeVehiculoStorage(vehiculo.id);
+  if (failures.length > 0) {
+    console.error(`Archivos del vehículo ${vehiculo.uuid} pendientes de limpieza:`, failures);
+  }
+
+  return { error: null };
+}
@@ -0,0 +1,158 @@
+import { supabase } from "~/utils/supabase.server";
+import type { SessionUser } from "~/utils/auth.server";
+import type { TenantDb } from "~/utils/tenant.server";
+import { normalizarPlaca, tipoPlaca } from "~/utils/placa";
+import type { EstadoVehiculo } from "~/utils/vehiculoEstado";
+
+// Publicación de otro inventario que parece el mismo vehículo
+export type DuplicadoVehiculo = {
+  uuid: string;
+  marca: string | null;
+  modelo: string | null;
+  anio: number | null;
+  estado: EstadoVehiculo;
+  // Misma placa, o misma marca/modelo/año/km/color
+  motivo: "placa" | "caracteristicas";
+};
+
+export type DatosDuplicado = {
+  placa?: string;
+  marca?: string;
+  modelo?: string;
+  anio?: number | string;
+  km?: number | string;
+  color?: string;
+};
+
+const MAX_DUPLICADOS = 5;
+
+export const PLACA_DUPLICADA = "Ya tienes otro vehículo publicado con esta placa.";
+export const PLACA_SIN_VERIFICAR = "No se pudo comprobar la placa. Intenta de nuevo.";
+
+const DUPLICADO_COLUMNS = "uuid, marca, modelo, anio, estado, concesionario_id, user_id";
+
+// Igual que la regla del índice vehiculos_placa_unica: una placa solo puede
+// estar en un vehículo no vendido de cada inventario. Devuelve el mensaje de
+// error o null; si la consulta falla no se da la placa por buena.
+export async function validarPlacaUnica(db: TenantDb, placa: string, excluirUuid?: string) {
+  let query = db.vehiculos.select("uuid").eq("placa", normalizarPlaca(placa)).neq("estado", "vendido");
+  if (excluirUuid) query = query.neq("uuid", excluirUuid);
+  const { data, error } = await query.limit(1);
+  if (error) {
+    console.error("Error comprobando la placa:", error);
+    return PLACA_SIN_VERIFICAR;
+  }
+  return data && data.length > 0 ? PLACA_DUPLICADA : null;
+}
+
+// Violación del índice único (p. ej. dos publicaciones simultáneas)
+export function esPlacaDuplicada(error: { code?: string; message?: string } | null) {
+  return error?.code === "23505" && !!error.message?.includes("vehiculos_placa_unica");
+}
+
+// Publicaciones vigentes de otros concesionarios o vendedores con la misma
+// placa o la misma combinación marca/modelo/año/km/color. Solo sirve de aviso:
+// no impide publicar.
+export async function buscarDuplicados(
+  user: SessionUser,
+  datos: DatosDuplicado,
+  excluirUuid?: string
+): Promise<DuplicadoVehiculo[]> {
+  const propietario = user.concesionario_id ?? user.uuid;
+  const placa = datos.placa ? normalizarPlaca(datos.placa) : "";
+  const conCaracteristicas = !!(datos.marca && datos.modelo && datos.anio && datos.km !== "" && datos.km !== undefined && datos.color);
+
+  const consultas = [
+    tipoPlaca(placa)
+      ? supabase.from("vehiculos").select(DUPLICADO_COLUMNS).eq("placa", placa).in("estado", ["disponible", "reservado"])
+      : null,
+    conCaracteristicas
+      ? supabase
+          .from("vehiculos")
+          .select(DUPLICADO_COLUMNS)
+          .eq("marca", datos.marca!)
+          .eq("modelo", datos.modelo!)
+          .eq("anio", Number(datos.anio))
+          .eq("km", Number(datos.km))
+          .eq("color", datos.color!)
+          .in("estado", ["disponible", "reservado"])
+          .limit(MAX_DUPLICADOS * 2)
+      : null,
+  ];
+
+  const duplicados = new Map<string, DuplicadoVehiculo>();
+  const resultados = await Promise.all(consultas.map((consulta) => consulta ?? Promise.resolve(null)));
+  resultados.forEach((resultado, i) => {
+    if (!resultado) return;
+    if (resultado.error) {
+      console.error("Error buscando publicaciones duplicadas:", resultado.error);
+      return;
+    }
+    for (const fila of resultado.data || []) {
+      if ((fila.concesionario_id ?? fila.user_id) === propietario || fila.uuid === excluirUuid) continue;
+      if (duplicados.has(fila.uuid)) continue;
+      duplicados.set(fila.uuid, {
+        uuid: fila.uuid,
+        marca: fila.marca,
+        modelo: fila.modelo,
+        anio: fila.anio,
+        estado: fila.estado,
+        motivo: i === 0 ? "placa" : "caracteristicas",
+      });
+    }
+  });
+  return Array.from(duplicados.values()).slice(0, MAX_DUPLICADOS);
+}
+
+// Placas por consulta al comprobar muchas a la vez (importación masiva)
+const LOTE_PLACAS = 200;
+
+// Versión por lotes de validarPlacaUnica: placas ya usadas en vehículos no
+// vendidos del inventario propio, o null si alguna consulta falla
+export async function placasEnInventario(db: TenantDb, placas: string[]): Promise<Set<string> | null> {
+  const usadas = new Set<string>();
+  for (let desde = 0; desde < placas.length; desde += LOTE_PLACAS) {
+    const { data, error } = await db.vehiculos
+      .select("placa")
+      .in("placa", placas.slice(desde, desde + LOTE_PLACAS))
+      .neq("estado", "vendido");
+    if (error) {
+      console.error("Error comprobando las placas:", error);
+      return null;
+    }
+    for (const fila of data || []) usadas.add(fila.placa);
+  }
+  return usadas;
+}
+
+// Versión por lotes de buscarDuplicados, solo por placa: publicaciones
+// vigentes de otros inventarios agrupadas por placa
+export async function duplicadosPorPlaca(user: SessionUser, placas: string[]) {
+  const propietario = user.concesionario_id ?? user.uuid;
+  const duplicados = new Map<string, DuplicadoVehiculo[]>();
+  for (let desde = 0; desde < placas.length; desde += LOTE_PLACAS) {
+    const { data, error } = await supabase
+      .from("vehiculos")
+      .select("uuid, placa, marca, modelo, anio, estado, concesionario_id, user_id")
+      .in("placa", placas.slice(desde, desde + LOTE_PLACAS))
+      .in("estado", ["disponible", "reservado"]);
+    if (error) {
+      console.error("Error buscando publicaciones duplicadas:", error);
+      continue;
+    }
+    for (const fila of data || []) {
+      if ((fila.concesionario_id ?? fila.user_id) === propietario) continue;
+      const lista = duplicados.get(fila.placa) ?? [];
+      lista.push({
+        uuid: fila.uuid,
+        marca: fila.marca,
+        modelo: fila.modelo,
+        anio: fila.anio,
+        estado: fila.estado,
+        motivo: "placa",
+      });
+      duplicados.set(fila.placa, lista);
+    }
+  }
+  return duplicados;
+}
@@ -0,0 +1,148 @@
+import type { OwnedVehiculo, TenantDb } from "~/utils/tenant.server";
+import { alertarBusquedasGuardadas } from "~/utils/busquedasGuardadas.server";
+import { canTransition, ESTADO_LABELS, isEstadoVehiculo, type EstadoVehiculo } from "~/utils/vehiculoEstado";
+
+export type CambioEstadoErrors = {
+  estado?: string;
+  cliente_id?: string;
+  precio_final?: string;
+  fecha_venta?: string;
+  form?: string;
+};
+
+type CambioEstado = {
+  estado: EstadoVehiculo;
+  nota: string | null;
+  venta: { cliente_id: string; precio_final: number; fecha_venta: string } | null;
+};
+
+// Valida el formulario de cambio de estado. Los datos de venta solo se exigen
+// cuando el nuevo estado es 'vendido'.
+export function parseCambioEstado(formData: FormData): { cambio?: CambioEstado; errors?: CambioEstadoErrors } {
+  const estado = formData.get("estado");
+  const nota = ((formData.get("nota") as string | null) ?? "").trim() || null;
+
+  if (!isEstadoVehiculo(estado)) {
+    return { errors: { estado: "Selecciona un estado válido" } };
+  }
+  if (estado !== "vendido") {
+    return { cambio: { estado, nota, venta: null } };
+  }
+
+  const cliente_id = ((formData.get("cliente_id") as string | null) ?? "").trim();
+  const precioRaw = formData.get("precio_final");
+  const precio_final = Number(precioRaw);
+  const fecha_venta = ((formData.get("fecha_venta") as string | null) ?? "").trim() || new Date().toISOString().slice(0, 10);
+
+  const errors: CambioEstadoErrors = {};
+  if (!cliente_id) errors.cliente_id = "Selecciona el cliente comprador";
+  if (precioRaw === null || precioRaw === "" || isNaN(precio_final) || precio_final <= 0) {
+    errors.precio_final = "El precio final es requerido";
+  }
+  if (isNaN(Date.parse(fecha_venta))) errors.fecha_venta = "La fecha de venta no es válida";
+  if (Object.keys(errors).length > 0) return { errors };
+
+  return { cambio: { estado, nota, venta: { cliente_id, precio_final, fecha_venta } } };
+}
+
+// Aplica un cambio de estado respetando las transiciones permitidas, registra
+// la venta (si aplica) y deja constancia en vehiculo_estado_historial. Un
+// vehículo que vuelve a estar disponible avisa a las búsquedas guardadas.
+export async function changeVehiculoEstado(
+  request: Request,
+  db: TenantDb,
+  vehiculo: OwnedVehiculo,
+  cambio: CambioEstado
+): Promise<{ errors?: CambioEstadoErrors }> {
+  const { data: actual, error: actualError } = await db.vehiculos.select("estado").eq("id", vehiculo.id).single();
+  if (actualError || !actual) {
+    console.error("Error leyendo el estado del vehículo:", actualError);
+    return { errors: { form: "No se pudo leer el estado actual del vehículo." } };
+  }
+
+  const estadoActual = (isEstadoVehiculo(actual.estado) ? actual.estado : "disponible") as EstadoVehiculo;
+  if (!canTransition(estadoActual, cambio.estado)) {
+    return {
+      errors: {
+        estado: `No se puede pasar de ${ESTADO_LABELS[estadoActual]} a ${ESTADO_LABELS[cambio.estado]}.`,
+      },
+    };
+  }
+
+  if (cambio.venta) {
+    // El comprador tiene que ser un cliente del mismo tenant
+    const { data: cliente } = await db.clientes.select("id").eq("id", cambio.venta.cliente_id).maybeSingle();
+    if (!cliente) {
+      return { errors: { cliente_id: "El cliente seleccionado no existe" } };
+    }
+    const { error: ventaError } = await db.ventas.insert(vehiculo, cambio.venta);
+    if (ventaError) {
+      console.error("Error registrando la venta:", ventaError);
+      return { errors: { form: "No se pudo registrar la venta." } };
+    }
+  }
+
+  // El filtro por estado actual evita pisar un cambio concurrente
+  const { data: actualizados, error: updateError } = await db.vehiculos
+    .update({ estado: cambio.estado })
+    .eq("id", vehiculo.id)
+    .eq("estado", estadoActual)
+    .select("id");
+
+  if (updateError || !actualizados || actualizados.length === 0) {
+    if (updateError) console.error("Error actualizando el estado:", updateError);
+    if (cambio.venta) await db.ventas.delete(vehiculo);
+    return { errors: { form: "El estado del vehículo cambió mientras tanto. Recarga la página e inténtalo de nuevo." } };
+  }
+
+  const { error: historialError } = await db.historial.insert(vehiculo, {
+    estado_anterior: estadoActual,
+    estado_nuevo: cambio.estado,
+    nota: cambio.nota,
+  });
+  if (historialError) {
+    console.error("Error registrando el historial de estado:", historialError);
+  }
+
+  if (cambio.estado === "disponible") {
+    await alertarBusquedasGuardadas(request, vehiculo);
+  }
+
+  return {};
+}
+
+export type HistorialEstado = {
+  id: number;
+  estado_anterior: string | null;
+  estado_nuevo: string;
+  nota: string | null;
+  created_at: string;
+};
+
+export type VentaVehiculo = {
+  cliente_id: string;
+  precio_final: number;
+  fecha_venta: string;
+  cliente: { name: string; email: string } | null;
+};
+
+// Datos del panel de estado en el detalle: historial y venta registrada. El
+// comprador se busca aparte (api.clientes.buscar) entre los clientes del tenant.
+export async function loadGestionEstado(db: TenantDb, vehiculo: OwnedVehiculo) {
+  const [historialResult, ventaResult] = await Promise.all([
+    db.historial
+      .select(vehiculo, "id, estado_anterior, estado_nuevo, nota, created_at")
+      .order("created_at", { ascending: false }),
+    db.ventas.select(vehiculo, "cliente_id, precio_final, fecha_venta, cliente:clientes(name, email)").maybeSingle(),
+  ]);
+
+  if (historialResult.error) console.error("Error cargando historial de estado:", historialResult.error);
+  if (ventaResult.error) console.error("Error cargando la venta:", ventaResult.error);
+
+  return {
+    historial: (historialResult.data || []) as HistorialEstado[],
+    venta: (ventaResult.data ?? null) as VentaVehiculo | null,
+  };
+}
+
+export type GestionEstado = Awaited<ReturnType<typeof loadGestionEstado>>;
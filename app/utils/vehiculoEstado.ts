@@ -0,0 +1,34 @@
+// Ciclo de vida del vehículo (columna vehiculos.estado)
+export const ESTADOS_VEHICULO = ["disponible", "reservado", "vendido", "retirado"] as const;
+
+export type EstadoVehiculo = (typeof ESTADOS_VEHICULO)[number];
+
+export const ESTADO_LABELS: Record<EstadoVehiculo, string> = {
+  disponible: "Disponible",
+  reservado: "Reservado",
+  vendido: "Vendido",
+  retirado: "Retirado",
+};
+
+export const ESTADO_BADGE_CLASSES: Record<EstadoVehiculo, string> = {
+  disponible: "bg-green-100 text-green-700",
+  reservado: "bg-yellow-100 text-yellow-800",
+  vendido: "bg-blue-100 text-blue-700",
+  retirado: "bg-gray-200 text-gray-600",
+};
+
+// Transiciones permitidas. 'vendido' es final: la venta queda registrada en ventas_vehiculo.
+export const TRANSICIONES_ESTADO: Record<EstadoVehiculo, readonly EstadoVehiculo[]> = {
+  disponible: ["reservado", "vendido", "retirado"],
+  reservado: ["disponible", "vendido", "retirado"],
+  vendido: [],
+  retirado: ["disponible"],
+};
+
+export function isEstadoVehiculo(value: unknown): value is EstadoVehiculo {
+  return typeof value === "string" && (ESTADOS_VEHICULO as readonly string[]).includes(value);
+}
+
+export function canTransition(from: EstadoVehiculo, to: EstadoVehiculo) {
+  return TRANSICIONES_ESTADO[from].includes(to);
+}
@@ -0,0 +1,97 @@
+import { normalizarPlaca, validarPlaca } from "~/utils/placa";
+
+// Opciones y validación compartidas por los formularios de creación y edición de vehículos
+
+export const OPCIONES_PUERTAS = [2, 3, 4, 5];
+export const OPCIONES_COMBUSTIBLE = ["Gasolina", "EV Electrico", "Hibrido Gasolina", "Diesel"];
+export const OPCIONES_COLOR = ["Blanco", "Azul", "Plateado", "Negro", "Rojo", "Verde", "Gris", "Zircón Arena", "Beige"];
+export const OPCIONES_TRANSMISION = ["Automática", "Manual"];
+export const OPCIONES_CARROCERIA = ["Camioneta", "Sedan", "Hatchback", "Coupe", "Pick Up", "SUV"];
+export const OPCIONES_TRACCION = ["4x2", "4x4", "4X3"];
+
+export type VehiculoFormValues = {
+  marca: string;
+  modelo: string;
+  anio: number;
+  version: string;
+  puertas: number;
+  combustible: string;
+  color: string;
+  placa: string;
+  km: number;
+  precio: number;
+  transmision: string;
+  carroceria: string;
+  traccion: string;
+  cilindraje: number;
+};
+
+export type VehiculoFormErrors = Partial<Record<keyof VehiculoFormValues | "form", string>>;
+
+function isMissingNumber(raw: FormDataEntryValue | null, value: number) {
+  return raw === null || raw === "" || isNaN(value);
+}
+
+// Extrae y valida los campos del vehículo. Devuelve los valores normalizados y
+// los errores por campo (vacío si el formulario es válido).
+export function validateVehiculoForm(formData: FormData): {
+  values: VehiculoFormValues;
+  errors: VehiculoFormErrors;
+} {
+  const marca = (formData.get("marca") as string | null) ?? "";
+  const modelo = (formData.get("modelo") as string | null) ?? "";
+  const anioRaw = formData.get("anio");
+  const anio = Number(anioRaw);
+  const version = (formData.get("version") as string | null) ?? "";
+  const puertasRaw = formData.get("puertas");
+  const puertas = Number(puertasRaw);
+  const combustible = (formData.get("combustible") as string | null) ?? "";
+  const color = (formData.get("color") as string | null) ?? "";
+  const placa = (formData.get("placa") as string | null) ?? "";
+  const kmRaw = formData.get("km");
+  const km = Number(kmRaw);
+  const precioRaw = formData.get("precio");
+  const precio = Number(precioRaw);
+  const transmision = (formData.get("transmision") as string | null) ?? "";
+  const carroceria = (formData.get("carroceria") as string | null) ?? "";
+  const traccion = (formData.get("traccion") as string | null) ?? "";
+  const cilindrajeRaw = formData.get("cilindraje");
+  const cilindraje = Number(cilindrajeRaw);
+
+  const errors: VehiculoFormErrors = {};
+  if (!marca) errors.marca = "Marca es requerida";
+  if (!modelo) errors.modelo = "Modelo es requerido";
+  if (isMissingNumber(anioRaw, anio)) errors.anio = "Año es requerido";
+  if (!version) errors.version = "Versión es requerida";
+  if (isMissingNumber(puertasRaw, puertas)) errors.puertas = "Puertas es requerido";
+  if (!combustible) errors.combustible = "Combustible es requerido";
+  if (!color) errors.color = "Color es requerido";
+  const placaError = validarPlaca(placa);
+  if (placaError) errors.placa = placaError;
+  if (isMissingNumber(kmRaw, km)) errors.km = "Kilometraje es requerido";
+  if (isMissingNumber(precioRaw, precio)) errors.precio = "Precio es requerido";
+  if (!transmision) errors.transmision = "Transmisión es requerida";
+  if (!carroceria) errors.carroceria = "Carrocería es requerida";
+  if (!traccion) errors.traccion = "Tracción es requerida";
+  if (isMissingNumber(cilindrajeRaw, cilindraje)) errors.cilindraje = "Cilindraje es requerido";
+
+  return {
+    values: {
+      marca,
+      modelo,
+      anio,
+      version,
+      puertas,
+      combustible,
+      color,
+      placa: normalizarPlaca(placa),
+      km,
+      precio,
+      transmision,
+      carroceria,
+      traccion,
+      cilindraje,
+    },
+    errors,
+  };
+}
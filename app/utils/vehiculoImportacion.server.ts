@@ -0,0 +1,627 @@
+import { unzipSync } from "fflate";
+import { supabase } from "~/utils/supabase.server";
+import type { SessionUser } from "~/utils/auth.server";
+import { createTenantDb, type TenantDb } from "~/utils/tenant.server";
+import type { ImageMetadata } from "~/components/ImageUploader";
+import { leerHojaCalculo, normalizarEncabezado, parseNumero } from "~/utils/hojaCalculo.server";
+import {
+  loadAnios,
+  loadFicha,
+  loadModelos,
+  loadOpcionesIniciales,
+  loadVersiones,
+} from "~/utils/catalogoOpciones.server";
+import { CAMPOS_FICHA, normalizarCampoFicha, type FichaTecnica } from "~/utils/fichaTecnica";
+import { normalizarPlaca, tipoPlaca } from "~/utils/placa";
+import { OPCIONES_COLOR, validateVehiculoForm, type VehiculoFormValues } from "~/utils/vehiculoForm";
+import { createVehiculoWithMedia } from "~/utils/vehiculoCreation.server";
+import {
+  duplicadosPorPlaca,
+  PLACA_DUPLICADA,
+  placasEnInventario,
+  PLACA_SIN_VERIFICAR,
+  validarPlacaUnica,
+} from "~/utils/vehiculoDuplicados.server";
+import { alertarBusquedasGuardadas } from "~/utils/busquedasGuardadas.server";
+import { notificarVehiculoPublicado } from "~/utils/notificaciones.server";
+import { descargarPublica, esUrlPublica } from "~/utils/descargaPublica.server";
+import {
+  CAMPOS_IMPORTACION,
+  IMPORTACION_MAX_FILAS,
+  type CampoImportacion,
+  type ImportacionFila,
+  type ImportacionResumen,
+  type ImportacionVehiculos,
+  type MapeoColumnas,
+} from "~/utils/vehiculoImportacion";
+
+export type ImportacionErrors = {
+  archivo?: string;
+  fotos?: string;
+  mapeo?: string;
+  form?: string;
+};
+
+const BUCKET = "importaciones-vehiculos";
+const FILAS = "importaciones_vehiculos_filas";
+
+const IMPORTACION_COLUMNS =
+  "id, archivo, estado, encabezados, mapeo, zip, fotos, resumen, created_at, bloqueada_at, completada_at";
+const FILA_COLUMNS = "id, fila, celdas, estado, datos, imagenes, errores, avisos, vehiculo_uuid, error";
+
+// Sin señal del proceso durante este tiempo se considera detenido y se retoma
+const BLOQUEO_MAXIMO_MS = 5 * 60 * 1000;
+const FOTO_MAX_BYTES = 10 * 1024 * 1024;
+// Fotos por vehículo; las demás se ignoran
+const MAX_FOTOS = 20;
+const DESCARGA_TIMEOUT_MS = 15_000;
+// Nombres de archivos del ZIP que se guardan en el resumen
+const MAX_NOMBRES = 50;
+const EXTENSIONES_IMAGEN = /\.(jpe?g|png|webp)$/i;
+
+// Encabezados aceptados para cada campo (ya normalizados)
+const ALIAS: Record<CampoImportacion, string[]> = {
+  marca: ["marca", "fabricante"],
+  modelo: ["modelo", "linea"],
+  anio: ["anio", "ano", "year", "ano_modelo"],
+  version: ["version", "referencia"],
+  placa: ["placa", "matricula", "patente"],
+  color: ["color"],
+  km: ["km", "kilometraje", "kilometros", "recorrido"],
+  precio: ["precio", "valor", "precio_venta"],
+  puertas: ["puertas", "numero_puertas"],
+  combustible: ["combustible"],
+  transmision: ["transmision", "caja"],
+  carroceria: ["carroceria", "tipo_carroceria"],
+  traccion: ["traccion"],
+  cilindraje: ["cilindraje", "cilindrada"],
+  imagenes: ["imagenes", "fotos", "urls", "url_imagenes", "url_fotos"],
+};
+
+type FilaValidada = Pick<ImportacionFila, "fila" | "celdas" | "imagenes" | "errores" | "avisos"> & {
+  datos: VehiculoFormValues;
+};
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+// Columna sugerida para cada campo según el encabezado
+function sugerirMapeo(encabezados: string[]): MapeoColumnas {
+  const normalizados = encabezados.map(normalizarEncabezado);
+  const mapeo: MapeoColumnas = {};
+  for (const { campo } of CAMPOS_IMPORTACION) {
+    const indice = normalizados.findIndex((e) => ALIAS[campo].includes(e));
+    if (indice >= 0 && !Object.values(mapeo).includes(indice)) mapeo[campo] = indice;
+  }
+  return mapeo;
+}
+
+// Placa a partir de la ruta dentro del ZIP: la carpeta ("ABC123/frente.jpg")
+// o el nombre del archivo ("ABC123.jpg", "ABC-123_2.jpg", "ABC 123 (3).jpg")
+function placaDeArchivo(ruta: string) {
+  const partes = ruta.split("/");
+  const nombre = (partes.pop() ?? "").replace(/\.[^.]+$/, "");
+  const candidatos = [
+    partes.pop() ?? "",
+    nombre.replace(/(?:_\d+|\s*\(\d+\))$/, ""),
+    nombre,
+    nombre.replace(/\s+\d+$/, ""),
+  ];
+  const placa = candidatos.find((candidato) => tipoPlaca(candidato));
+  return placa ? normalizarPlaca(placa) : null;
+}
+
+// Agrupa las fotos del ZIP por placa sin descomprimirlas: el filtro solo
+// registra los nombres y descarta todos los archivos
+function listarFotosZip(zip: Uint8Array) {
+  const porPlaca: Record<string, string[]> = {};
+  const ignoradas: string[] = [];
+  let total = 0;
+  unzipSync(zip, {
+    filter: (archivo) => {
+      const base = archivo.name.split("/").pop() ?? "";
+      if (!base || base.startsWith(".") || archivo.name.startsWith("__MACOSX/")) return false;
+      const placa = EXTENSIONES_IMAGEN.test(base) && archivo.originalSize <= FOTO_MAX_BYTES ? placaDeArchivo(archivo.name) : null;
+      if (placa) {
+        (porPlaca[placa] ??= []).push(archivo.name);
+        total++;
+      } else {
+        ignoradas.push(archivo.name);
+      }
+      return false;
+    },
+  });
+  for (const nombres of Object.values(porPlaca)) {
+    nombres.sort((a, b) => a.localeCompare(b, "es", { numeric: true }));
+  }
+  return { porPlaca, total, ignoradas };
+}
+
+// Detecta el tipo real del archivo; null si no es una imagen
+async function imagenDesdeBytes(bytes: Uint8Array, nombre: string) {
+  const { fileTypeFromBuffer } = await import("file-type");
+  const tipo = await fileTypeFromBuffer(bytes);
+  if (!tipo?.mime.startsWith("image/")) return null;
+  return new File([bytes], nombre.split("/").pop() || `foto.${tipo.ext}`, { type: tipo.mime });
+}
+
+async function descargarImagen(url: string): Promise<{ file: File; error?: undefined } | { file?: undefined; error: string }> {
+  try {
+    const bytes = await descargarPublica(url, { maxBytes: FOTO_MAX_BYTES, timeoutMs: DESCARGA_TIMEOUT_MS });
+    const file = await imagenDesdeBytes(bytes, decodeURIComponent(new URL(url).pathname));
+    return file ? { file } : { error: "el archivo no es una imagen" };
+  } catch (err) {
+    return { error: errorMessage(err) };
+  }
+}
+
+export async function listImportaciones(db: TenantDb) {
+  const { data, error } = await db.importaciones
+    .select(IMPORTACION_COLUMNS)
+    .order("created_at", { ascending: false })
+    .limit(20);
+  if (error) console.error("Error cargando las importaciones de vehículos:", error);
+  return (data || []) as ImportacionVehiculos[];
+}
+
+export async function loadImportacion(db: TenantDb, id: string) {
+  if (!/^\d+$/.test(id)) return null;
+  const { data, error } = await db.importaciones.select(IMPORTACION_COLUMNS).eq("id", id).maybeSingle();
+  if (error) console.error("Error cargando la importación de vehículos:", error);
+  return (data as ImportacionVehiculos | null) ?? null;
+}
+
+export async function loadFilas(importacion: ImportacionVehiculos) {
+  const { data, error } = await supabase
+    .from(FILAS)
+    .select(FILA_COLUMNS)
+    .eq("importacion_id", importacion.id)
+    .order("fila");
+  if (error) console.error("Error cargando las filas de la importación:", error);
+  return (data || []) as ImportacionFila[];
+}
+
+// Guarda el archivo y el ZIP de fotos; las columnas se asignan después
+export async function crearImportacion(
+  user: SessionUser,
+  formData: FormData
+): Promise<{ errors?: ImportacionErrors; importacion?: ImportacionVehiculos }> {
+  const archivo = formData.get("archivo");
+  if (!(archivo instanceof File) || archivo.size === 0) {
+    return { errors: { archivo: "Selecciona el archivo con los vehículos." } };
+  }
+  const { hoja, error: errorLectura } = await leerHojaCalculo(archivo);
+  if (!hoja) return { errors: { archivo: errorLectura } };
+  if (hoja.filas.length > IMPORTACION_MAX_FILAS) {
+    return { errors: { archivo: `El archivo supera el máximo de ${IMPORTACION_MAX_FILAS} vehículos por importación.` } };
+  }
+
+  const fotos = formData.get("fotos");
+  let zip: Uint8Array | null = null;
+  let listado: ReturnType<typeof listarFotosZip> = { porPlaca: {}, total: 0, ignoradas: [] };
+  if (fotos instanceof File && fotos.size > 0) {
+    if (!fotos.name.toLowerCase().endsWith(".zip")) return { errors: { fotos: "Las fotos deben venir en un archivo .zip." } };
+    zip = new Uint8Array(await fotos.arrayBuffer());
+    try {
+      listado = listarFotosZip(zip);
+    } catch (error) {
+      console.error("Error leyendo el ZIP de fotos:", error);
+      return { errors: { fotos: "No se pudo leer el ZIP de fotos." } };
+    }
+    if (listado.total === 0) {
+      return { errors: { fotos: "El ZIP no tiene fotos con la placa en el nombre (por ejemplo ABC123_1.jpg)." } };
+    }
+  }
+
+  const db = createTenantDb(user);
+  const resumen: ImportacionResumen = {
+    total: hoja.filas.length,
+    fotos: listado.total,
+    fotos_ignoradas: listado.ignoradas.slice(0, MAX_NOMBRES),
+  };
+  const { data: importacion, error } = await db.importaciones
+    .insert({
+      archivo: archivo.name,
+      encabezados: hoja.encabezados,
+      mapeo: sugerirMapeo(hoja.encabezados),
+      fotos: listado.porPlaca,
+      resumen,
+    })
+    .select(IMPORTACION_COLUMNS)
+    .single();
+  if (error || !importacion) {
+    console.error("Error creando la importación de vehículos:", error);
+    return { errors: { form: "No se pudo guardar la importación." } };
+  }
+  const deshacer = () => supabase.from("importaciones_vehiculos").delete().eq("id", importacion.id);
+
+  const { error: errorFilas } = await supabase
+    .from(FILAS)
+    .insert(hoja.filas.map((celdas, i) => ({ importacion_id: importacion.id, fila: i + 2, celdas })));
+  if (errorFilas) {
+    console.error("Error guardando las filas de la importación:", errorFilas);
+    await deshacer();
+    return { errors: { form: "No se pudieron guardar las filas del archivo." } };
+  }
+
+  if (zip) {
+    const ruta = `${importacion.id}/fotos.zip`;
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET)
+      .upload(ruta, zip, { contentType: "application/zip", upsert: true });
+    const { error: updateError } = uploadError
+      ? { error: uploadError }
+      : await db.importaciones.update({ zip: ruta }).eq("id", importacion.id);
+    if (updateError) {
+      console.error("Error guardando el ZIP de fotos:", updateError);
+      await supabase.storage.from(BUCKET).remove([ruta]);
+      await deshacer();
+      return { errors: { fotos: "No se pudo guardar el ZIP de fotos." } };
+    }
+    importacion.zip = ruta;
+  }
+
+  return { importacion: importacion as ImportacionVehiculos };
+}
+
+// Valor tal como está escrito en la lista ("chevrolet" → "CHEVROLET"); null si no está
+function enLista(lista: string[], valor: string) {
+  const buscado = normalizarEncabezado(valor);
+  return buscado ? lista.find((opcion) => normalizarEncabezado(opcion) === buscado) ?? null : null;
+}
+
+// Lleva una fila del archivo a los campos del formulario de vehículos. Marca,
+// modelo, año y versión deben estar en el catálogo; la ficha técnica que falte
+// se completa con la de la versión.
+async function validarFila(
+  celdas: string[],
+  mapeo: MapeoColumnas,
+  fichas: Map<string, Promise<FichaTecnica>>
+) {
+  const celda = (campo: CampoImportacion) => {
+    const indice = mapeo[campo];
+    return indice === undefined ? "" : (celdas[indice] ?? "").trim();
+  };
+  const errores: ImportacionFila["errores"] = {};
+  const formData = new FormData();
+
+  const anio = celda("anio").match(/^(\d{4})/)?.[1] ?? "";
+  const marca = enLista((await loadOpcionesIniciales()).marcas, celda("marca"));
+  const modelo = marca ? enLista(await loadModelos(marca), celda("modelo")) : null;
+  const anioEnCatalogo = !!(marca && modelo && anio) && (await loadAnios(marca, modelo)).includes(anio);
+  const version = anioEnCatalogo ? enLista(await loadVersiones(marca!, modelo!, anio), celda("version")) : null;
+
+  if (celda("anio") && !anio) errores.anio = "Año no válido.";
+  if (celda("marca") && !marca) {
+    errores.marca = `"${celda("marca")}" no está en el catálogo.`;
+  } else if (marca && celda("modelo") && !modelo) {
+    errores.modelo = `"${celda("modelo")}" no es un modelo de ${marca} en el catálogo.`;
+  } else if (modelo && anio && !anioEnCatalogo) {
+    errores.anio = `El catálogo no tiene ${marca} ${modelo} ${anio}.`;
+  } else if (anioEnCatalogo && celda("version") && !version) {
+    errores.version = `"${celda("version")}" no es una versión de ${marca} ${modelo} ${anio} en el catálogo.`;
+  }
+  formData.set("marca", marca ?? celda("marca"));
+  formData.set("modelo", modelo ?? celda("modelo"));
+  formData.set("anio", anio);
+  formData.set("version", version ?? celda("version"));
+
+  let ficha: FichaTecnica = {};
+  if (version) {
+    const clave = [marca, modelo, anio, version].join("|");
+    if (!fichas.has(clave)) {
+      fichas.set(
+        clave,
+        loadFicha(marca!, modelo!, anio, version).catch((error) => {
+          console.error("Error cargando la ficha técnica:", error);
+          return {};
+        })
+      );
+    }
+    ficha = await fichas.get(clave)!;
+  }
+  for (const { campo, label } of CAMPOS_FICHA) {
+    const texto = celda(campo);
+    const valor = texto ? normalizarCampoFicha(campo, texto) : ficha[campo] ?? null;
+    if (texto && valor === null) errores[campo] = `"${texto}" no es un valor válido para ${label.toLowerCase()}.`;
+    formData.set(campo, valor ?? "");
+  }
+
+  const color = enLista(OPCIONES_COLOR, celda("color"));
+  if (celda("color") && !color) {
+    errores.color = `"${celda("color")}" no es un color válido. Usa: ${OPCIONES_COLOR.join(", ")}.`;
+  }
+  formData.set("color", color ?? "");
+
+  for (const campo of ["km", "precio"] as const) {
+    const numero = parseNumero(celda(campo));
+    if (numero === undefined) errores[campo] = `"${celda(campo)}" no es un número válido.`;
+    formData.set(campo, numero === null || numero === undefined ? "" : String(numero));
+  }
+  formData.set("placa", celda("placa"));
+
+  const imagenes = celda("imagenes").split(/[\s,;|]+/).filter(Boolean);
+  if (imagenes.some((url) => !esUrlPublica(url))) {
+    errores.imagenes = "Las fotos deben ser direcciones http(s) públicas.";
+  }
+
+  // Los errores de formato propios son más precisos que "es requerido"
+  const { values, errors } = validateVehiculoForm(formData);
+  return { datos: values, imagenes, errores: { ...errors, ...errores } as ImportacionFila["errores"] };
+}
+
+// Valida todas las filas con las columnas elegidas (simulación): nada se
+// crea hasta confirmar. Se puede repetir mientras la importación esté en revisión.
+export async function asignarColumnas(
+  user: SessionUser,
+  importacion: ImportacionVehiculos,
+  formData: FormData
+): Promise<{ errors?: ImportacionErrors }> {
+  if (importacion.estado !== "mapeo" && importacion.estado !== "revision") {
+    return { errors: { form: "Esta importación ya no se puede modificar." } };
+  }
+
+  const mapeo: MapeoColumnas = {};
+  for (const { campo } of CAMPOS_IMPORTACION) {
+    const valor = String(formData.get(`columna_${campo}`) ?? "");
+    const indice = Number(valor);
+    if (valor !== "" && Number.isInteger(indice) && indice >= 0 && indice < importacion.encabezados.length) {
+      mapeo[campo] = indice;
+    }
+  }
+  const faltantes = CAMPOS_IMPORTACION.filter(({ campo, opcional }) => !opcional && mapeo[campo] === undefined);
+  if (faltantes.length > 0) {
+    return { errors: { mapeo: `Elige la columna de: ${faltantes.map((c) => c.label.toLowerCase()).join(", ")}.` } };
+  }
+  const indices = Object.values(mapeo);
+  if (new Set(indices).size !== indices.length) {
+    return { errors: { mapeo: "Cada columna del archivo solo se puede asignar a un campo." } };
+  }
+
+  const fichas = new Map<string, Promise<FichaTecnica>>();
+  const validadas: FilaValidada[] = [];
+  for (const fila of await loadFilas(importacion)) {
+    validadas.push({ fila: fila.fila, celdas: fila.celdas, avisos: [], ...(await validarFila(fila.celdas, mapeo, fichas)) });
+  }
+
+  // Placas repetidas en el archivo o ya publicadas en el inventario propio
+  // (errores) o por otros vendedores (aviso)
+  const placas = Array.from(new Set(validadas.filter((v) => !v.errores.placa).map((v) => v.datos.placa)));
+  const db = createTenantDb(user);
+  const [enInventario, deOtros] = await Promise.all([placasEnInventario(db, placas), duplicadosPorPlaca(user, placas)]);
+  if (!enInventario) return { errors: { form: PLACA_SIN_VERIFICAR } };
+  const primeraFila = new Map<string, number>();
+  for (const fila of validadas) {
+    const { placa } = fila.datos;
+    if (fila.errores.placa) continue;
+    if (primeraFila.has(placa)) {
+      fila.errores.placa = `Placa repetida: ya está en la fila ${primeraFila.get(placa)}.`;
+      continue;
+    }
+    primeraFila.set(placa, fila.fila);
+    if (enInventario.has(placa)) fila.errores.placa = PLACA_DUPLICADA;
+    if (deOtros.has(placa)) fila.avisos.push("Otro vendedor tiene publicado un vehículo con esta placa.");
+
+    const cantidad = (importacion.fotos[placa]?.length ?? 0) + fila.imagenes.length;
+    if (cantidad === 0) fila.avisos.push("Sin fotos.");
+    else if (cantidad > MAX_FOTOS) fila.avisos.push(`Tiene ${cantidad} fotos; solo se usarán las primeras ${MAX_FOTOS}.`);
+  }
+
+  const filas = validadas.map((fila) => {
+    const valida = Object.keys(fila.errores).length === 0;
+    return {
+      importacion_id: importacion.id,
+      fila: fila.fila,
+      celdas: fila.celdas,
+      estado: valida ? "valida" : "invalida",
+      datos: valida ? fila.datos : null,
+      imagenes: fila.imagenes,
+      errores: fila.errores,
+      avisos: fila.avisos,
+    };
+  });
+  const { error } = await supabase.from(FILAS).upsert(filas, { onConflict: "importacion_id,fila" });
+  if (error) {
+    console.error("Error guardando la validación de la importación:", error);
+    return { errors: { form: "No se pudo guardar la revisión de las filas." } };
+  }
+
+  const placasValidas = new Set(filas.filter((f) => f.estado === "valida").map((f) => f.datos!.placa));
+  const resumen: ImportacionResumen = {
+    ...importacion.resumen,
+    validas: filas.filter((f) => f.estado === "valida").length,
+    invalidas: filas.filter((f) => f.estado === "invalida").length,
+    con_avisos: filas.filter((f) => f.estado === "valida" && f.avisos.length > 0).length,
+    fotos_sin_vehiculo: Object.entries(importacion.fotos)
+      .filter(([placa]) => !placasValidas.has(placa))
+      .flatMap(([, nombres]) => nombres)
+      .slice(0, MAX_NOMBRES),
+  };
+  const { data: actualizada, error: updateError } = await db.importaciones
+    .update({ estado: "revision", mapeo, resumen })
+    .eq("id", importacion.id)
+    .in("estado", ["mapeo", "revision"])
+    .select("id");
+  if (updateError || !actualizada?.length) {
+    if (updateError) console.error("Error actualizando la importación:", updateError);
+    return { errors: { form: "Esta importación ya no se puede modificar." } };
+  }
+  return {};
+}
+
+// Crea el vehículo de una fila válida con las fotos del ZIP y de las URLs.
+// Igual que en el formulario, si alguna foto falla no se crea nada.
+async function crearVehiculoDeFila(
+  request: Request,
+  user: SessionUser,
+  db: TenantDb,
+  importacion: ImportacionVehiculos,
+  fila: ImportacionFila,
+  zip: Uint8Array | null
+): Promise<{ vehiculo_uuid: string; error?: undefined } | { vehiculo_uuid?: undefined; error: string }> {
+  const datos = fila.datos!;
+  const placaError = await validarPlacaUnica(db, datos.placa);
+  if (placaError) return { error: placaError };
+
+  const formData = new FormData();
+  const metadata: ImageMetadata[] = [];
+  const agregar = (file: File) => {
+    const storage_id = crypto.randomUUID();
+    metadata.push({ storage_id, order_index: metadata.length, isNew: true, destacada: metadata.length === 0 });
+    formData.append(storage_id, file);
+  };
+
+  const nombres = (importacion.fotos[datos.placa] ?? []).slice(0, MAX_FOTOS);
+  if (nombres.length > 0) {
+    if (!zip) return { error: "No se pudo leer el ZIP de fotos." };
+    const buscados = new Set(nombres);
+    const archivos = unzipSync(zip, { filter: (archivo) => buscados.has(archivo.name) });
+    for (const nombre of nombres) {
+      const file = archivos[nombre] ? await imagenDesdeBytes(archivos[nombre], nombre) : null;
+      if (!file) return { error: `${nombre} no es una imagen válida.` };
+      agregar(file);
+    }
+  }
+  for (const url of fila.imagenes.slice(0, MAX_FOTOS - metadata.length)) {
+    const descarga = await descargarImagen(url);
+    if (!descarga.file) return { error: `No se pudo descargar ${url}: ${descarga.error}.` };
+    agregar(descarga.file);
+  }
+  formData.set("orderedImagesMetadata", JSON.stringify(metadata));
+
+  const result = await createVehiculoWithMedia(db, datos, formData);
+  if (!result.ok) {
+    return { error: [result.error, ...result.failures.map((f) => `${f.file}: ${f.error}`)].join(" ") };
+  }
+  // Igual que al publicar desde el formulario
+  await notificarVehiculoPublicado(request, user, result.vehiculo);
+  await alertarBusquedasGuardadas(request, result.vehiculo);
+  return { vehiculo_uuid: result.vehiculo.uuid };
+}
+
+// Crea los vehículos de las filas válidas, de una en una. Cada fila se reclama
+// con un update condicionado al estado, así dos procesos no crean la misma.
+async function procesarImportacion(request: Request, user: SessionUser, importacionId: number) {
+  const db = createTenantDb(user);
+  const importacion = await loadImportacion(db, String(importacionId));
+  if (!importacion) return;
+
+  let zip: Uint8Array | null = null;
+  if (importacion.zip) {
+    const { data, error } = await supabase.storage.from(BUCKET).download(importacion.zip);
+    if (error || !data) console.error("Error descargando el ZIP de fotos:", error);
+    else zip = new Uint8Array(await data.arrayBuffer());
+  }
+
+  for (;;) {
+    const { data: siguiente, error } = await supabase
+      .from(FILAS)
+      .select(FILA_COLUMNS)
+      .eq("importacion_id", importacion.id)
+      .eq("estado", "valida")
+      .order("fila")
+      .limit(1)
+      .maybeSingle();
+    if (error) {
+      // Lo retoma reanudarImportacion cuando venza el bloqueo
+      console.error("Error leyendo las filas de la importación:", error);
+      return;
+    }
+    if (!siguiente) break;
+
+    const { data: reclamada } = await supabase
+      .from(FILAS)
+      .update({ estado: "creando" })
+      .eq("id", siguiente.id)
+      .eq("estado", "valida")
+      .select("id");
+    if (!reclamada?.length) continue;
+
+    const resultado = await crearVehiculoDeFila(request, user, db, importacion, siguiente as ImportacionFila, zip).catch(
+      (err) => {
+        console.error(`Error creando el vehículo de la fila ${siguiente.fila}:`, err);
+        return { vehiculo_uuid: undefined, error: errorMessage(err) };
+      }
+    );
+    await supabase
+      .from(FILAS)
+      .update(
+        resultado.vehiculo_uuid
+          ? { estado: "creada", vehiculo_uuid: resultado.vehiculo_uuid, error: null }
+          : { estado: "fallida", error: resultado.error }
+      )
+      .eq("id", siguiente.id);
+    await db.importaciones.update({ bloqueada_at: new Date().toISOString() }).eq("id", importacion.id);
+  }
+
+  await db.importaciones
+    .update({ estado: "completada", completada_at: new Date().toISOString(), bloqueada_at: null })
+    .eq("id", importacion.id)
+    .eq("estado", "procesando");
+  if (importacion.zip) await supabase.storage.from(BUCKET).remove([importacion.zip]);
+}
+
+// Sigue en segundo plano después de responder; el progreso queda en cada fila
+function lanzarProceso(request: Request, user: SessionUser, importacionId: number) {
+  void procesarImportacion(request, user, importacionId).catch((err) =>
+    console.error(`Error procesando la importación ${importacionId}:`, err)
+  );
+}
+
+export async function iniciarImportacion(
+  request: Request,
+  user: SessionUser,
+  importacion: ImportacionVehiculos
+): Promise<{ errors?: ImportacionErrors }> {
+  if (!importacion.resumen.validas) {
+    return { errors: { form: "No hay filas válidas para crear." } };
+  }
+  const { data, error } = await createTenantDb(user)
+    .importaciones.update({ estado: "procesando", bloqueada_at: new Date().toISOString() })
+    .eq("id", importacion.id)
+    .eq("estado", "revision")
+    .select("id");
+  if (error || !data?.length) {
+    if (error) console.error("Error iniciando la importación:", error);
+    return { errors: { form: "La importación ya se inició o no está en revisión." } };
+  }
+  lanzarProceso(request, user, importacion.id);
+  return {};
+}
+
+// Retoma una importación cuyo proceso dejó de avanzar (p. ej. si se reinició
+// el servidor). La fila que se estaba creando se reintenta; si su vehículo sí
+// llegó a crearse, la placa repetida lo detecta.
+export async function reanudarImportacion(request: Request, user: SessionUser, importacion: ImportacionVehiculos) {
+  if (importacion.estado !== "procesando") return;
+  const { data } = await createTenantDb(user)
+    .importaciones.update({ bloqueada_at: new Date().toISOString() })
+    .eq("id", importacion.id)
+    .eq("estado", "procesando")
+    .lt("bloqueada_at", new Date(Date.now() - BLOQUEO_MAXIMO_MS).toISOString())
+    .select("id");
+  if (!data?.length) return;
+
+  await supabase.from(FILAS).update({ estado: "valida" }).eq("importacion_id", importacion.id).eq("estado", "creando");
+  lanzarProceso(request, user, importacion.id);
+}
+
+// Una importación descartada conserva su resumen pero no sus filas ni el ZIP
+export async function descartarImportacion(
+  db: TenantDb,
+  importacion: ImportacionVehiculos
+): Promise<{ errors?: ImportacionErrors }> {
+  const { data, error } = await db.importaciones
+    .update({ estado: "descartada" })
+    .eq("id", importacion.id)
+    .in("estado", ["mapeo", "revision"])
+    .select("id");
+  if (error || !data?.length) {
+    if (error) console.error("Error descartando la importación:", error);
+    return { errors: { form: "Solo se pueden descartar importaciones que no se han iniciado." } };
+  }
+
+  const { error: errorFilas } = await supabase.from(FILAS).delete().eq("importacion_id", importacion.id);
+  if (errorFilas) console.error("Error eliminando las filas de la importación descartada:", errorFilas);
+  if (importacion.zip) await supabase.storage.from(BUCKET).remove([importacion.zip]);
+  return {};
+}
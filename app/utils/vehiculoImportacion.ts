@@ -0,0 +1,112 @@
+import type { VehiculoFormValues } from "~/utils/vehiculoForm";
+
+// Importación masiva de vehículos desde CSV/Excel. Ver
+// vehiculoImportacion.server.ts y la migración importacion_vehiculos.
+
+export const IMPORTACION_ESTADOS = ["mapeo", "revision", "procesando", "completada", "descartada"] as const;
+export type ImportacionEstado = (typeof IMPORTACION_ESTADOS)[number];
+
+export const IMPORTACION_ESTADO_LABELS: Record<ImportacionEstado, string> = {
+  mapeo: "Asignar columnas",
+  revision: "En revisión",
+  procesando: "Creando vehículos",
+  completada: "Completada",
+  descartada: "Descartada",
+};
+
+export const IMPORTACION_ESTADO_BADGE_CLASSES: Record<ImportacionEstado, string> = {
+  mapeo: "bg-gray-100 text-gray-700",
+  revision: "bg-yellow-100 text-yellow-800",
+  procesando: "bg-blue-100 text-blue-700",
+  completada: "bg-green-100 text-green-800",
+  descartada: "bg-red-100 text-red-700",
+};
+
+export const FILA_ESTADOS = ["pendiente", "valida", "invalida", "creando", "creada", "fallida"] as const;
+export type FilaEstado = (typeof FILA_ESTADOS)[number];
+
+export const FILA_ESTADO_LABELS: Record<FilaEstado, string> = {
+  pendiente: "Sin revisar",
+  valida: "Lista",
+  invalida: "Con errores",
+  creando: "Creando...",
+  creada: "Creada",
+  fallida: "Falló",
+};
+
+export const FILA_ESTADO_BADGE_CLASSES: Record<FilaEstado, string> = {
+  pendiente: "bg-gray-100 text-gray-700",
+  valida: "bg-green-100 text-green-800",
+  invalida: "bg-red-100 text-red-700",
+  creando: "bg-blue-100 text-blue-700",
+  creada: "bg-green-100 text-green-800",
+  fallida: "bg-red-100 text-red-700",
+};
+
+export const IMPORTACION_MAX_FILAS = 500;
+export const IMPORTACION_ZIP_MAX_BYTES = 100 * 1024 * 1024;
+
+// Columna "imagenes": URLs de fotos separadas por espacios, comas o "|"
+export type CampoImportacion = keyof VehiculoFormValues | "imagenes";
+
+// Campos que se pueden asignar a una columna del archivo. Los de la ficha
+// técnica pueden quedar sin columna: se completan con el catálogo.
+export const CAMPOS_IMPORTACION: { campo: CampoImportacion; label: string; opcional?: "catalogo" | true }[] = [
+  { campo: "marca", label: "Marca" },
+  { campo: "modelo", label: "Modelo" },
+  { campo: "anio", label: "Año" },
+  { campo: "version", label: "Versión" },
+  { campo: "placa", label: "Placa" },
+  { campo: "color", label: "Color" },
+  { campo: "km", label: "Kilometraje" },
+  { campo: "precio", label: "Precio" },
+  { campo: "puertas", label: "Puertas", opcional: "catalogo" },
+  { campo: "combustible", label: "Combustible", opcional: "catalogo" },
+  { campo: "transmision", label: "Transmisión", opcional: "catalogo" },
+  { campo: "carroceria", label: "Carrocería", opcional: "catalogo" },
+  { campo: "traccion", label: "Tracción", opcional: "catalogo" },
+  { campo: "cilindraje", label: "Cilindraje", opcional: "catalogo" },
+  { campo: "imagenes", label: "URLs de fotos", opcional: true },
+];
+
+// Campo → índice de la columna del archivo
+export type MapeoColumnas = Partial<Record<CampoImportacion, number>>;
+
+export type ImportacionResumen = {
+  total?: number;
+  validas?: number;
+  invalidas?: number;
+  con_avisos?: number;
+  // Archivos de imagen del ZIP y los que no corresponden a ninguna fila válida
+  fotos?: number;
+  fotos_sin_vehiculo?: string[];
+  // Archivos del ZIP de cuyo nombre no se pudo sacar una placa
+  fotos_ignoradas?: string[];
+};
+
+export type ImportacionVehiculos = {
+  id: number;
+  archivo: string;
+  estado: ImportacionEstado;
+  encabezados: string[];
+  mapeo: MapeoColumnas;
+  zip: string | null;
+  fotos: Record<string, string[]>;
+  resumen: ImportacionResumen;
+  created_at: string;
+  bloqueada_at: string | null;
+  completada_at: string | null;
+};
+
+export type ImportacionFila = {
+  id: number;
+  fila: number;
+  celdas: string[];
+  estado: FilaEstado;
+  datos: VehiculoFormValues | null;
+  imagenes: string[];
+  errores: Partial<Record<CampoImportacion, string>>;
+  avisos: string[];
+  vehiculo_uuid: string | null;
+  error: string | null;
+};
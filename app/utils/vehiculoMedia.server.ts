@@ -0,0 +1,226 @@
+import type { UploadHandler } from "@remix-run/node";
+import { supabase } from "~/utils/supabase.server";
+import type { ImageMetadata } from "~/components/ImageUploader";
+import type { OwnedVehiculo, TenantDb } from "~/utils/tenant.server";
+
+export const IMAGENES_BUCKET = "imagen-vehiculo";
+export const DOCUMENTOS_BUCKET = "documentos-vehiculos";
+
+// Archivo que no se pudo guardar, para informar al usuario
+export type ArchivoFallido = { file: string; error: string };
+
+// Bufferiza los archivos del formulario y detecta su tipo real a partir del contenido
+export const vehiculoUploadHandler: UploadHandler = async ({ filename, data }) => {
+  const chunks = [];
+  for await (const chunk of data) {
+    chunks.push(chunk);
+  }
+  const buffer = Buffer.concat(chunks);
+
+  // Para campos de formulario que no son archivos
+  if (!filename) {
+    return buffer.toString();
+  }
+
+  const { fileTypeFromBuffer } = await import("file-type");
+  const type = await fileTypeFromBuffer(buffer);
+
+  return new File([buffer], filename, { type: type?.mime });
+};
+
+// Ruta dentro del bucket a partir de la URL pública generada por getPublicUrl
+export function storagePathFromPublicUrl(url: string, bucket: string): string | null {
+  const marker = `/object/public/${bucket}/`;
+  const index = url.indexOf(marker);
+  if (index === -1) return null;
+  return decodeURIComponent(url.slice(index + marker.length));
+}
+
+function errorMessage(err: unknown) {
+  return err instanceof Error ? err.message : String((err as { message?: string })?.message ?? err);
+}
+
+// Aplica los cambios enviados por ImageUploader (orderedImagesMetadata,
+// imageIdsToDelete y un archivo por cada storage_id nuevo) sobre las imágenes
+// de un vehículo existente.
+export async function syncVehiculoImages(
+  db: TenantDb,
+  vehiculo: OwnedVehiculo,
+  formData: FormData
+): Promise<{ failures: ArchivoFallido[] }> {
+  const orderedImagesMetadata: ImageMetadata[] = JSON.parse((formData.get("orderedImagesMetadata") as string) || "[]");
+  const imageIdsToDelete: { id: string; storage_id: string }[] = JSON.parse(
+    (formData.get("imageIdsToDelete") as string) || "[]"
+  );
+  const failures: ArchivoFallido[] = [];
+
+  // 1. Eliminar imágenes marcadas (primero la fila, luego el archivo). El
+  // archivo se toma de la fila borrada, no del storage_id del formulario.
+  for (const image of imageIdsToDelete) {
+    const { data: borradas, error } = await db.images.delete(vehiculo).eq("id", image.id).select("storage_id");
+    if (error) {
+      console.error("Error eliminando imagen:", error);
+      failures.push({ file: image.storage_id, error: error.message });
+      continue;
+    }
+    const paths = borradas.filter((fila) => fila.storage_id).map((fila) => `${vehiculo.id}/${fila.storage_id}`);
+    if (paths.length > 0) await supabase.storage.from(IMAGENES_BUCKET).remove(paths);
+  }
+
+  // 2. Subir imágenes nuevas
+  const uploads = orderedImagesMetadata
+    .filter((meta) => meta.isNew)
+    .map(async (meta) => {
+      const file = formData.get(meta.storage_id);
+      if (!(file instanceof File)) {
+        failures.push({ file: meta.storage_id, error: "Archivo no encontrado en el formulario" });
+        return;
+      }
+      const filePath = `${vehiculo.id}/${meta.storage_id}`;
+      try {
+        const { error: uploadError } = await supabase.storage
+          .from(IMAGENES_BUCKET)
+          .upload(filePath, file, { cacheControl: "3600", upsert: false });
+        if (uploadError) throw uploadError;
+
+        const { data: urlData } = supabase.storage.from(IMAGENES_BUCKET).getPublicUrl(filePath);
+        const { error: insertError } = await db.images.insert(vehiculo, {
+          url: urlData.publicUrl,
+          order_index: String(meta.order_index),
+          storage_id: meta.storage_id,
+          destacada: meta.destacada ? "true" : "false",
+        });
+        if (insertError) {
+          await supabase.storage.from(IMAGENES_BUCKET).remove([filePath]);
+          throw insertError;
+        }
+      } catch (err) {
+        console.error("Error subiendo imagen:", err);
+        failures.push({ file: file.name, error: errorMessage(err) });
+      }
+    });
+
+  // 3. Actualizar orden y estado 'destacada' de las imágenes existentes
+  const updates = orderedImagesMetadata
+    .filter((meta) => !meta.isNew && meta.id)
+    .map(async (meta) => {
+      const { error } = await db.images
+        .update(vehiculo, {
+          order_index: String(meta.order_index),
+          destacada: meta.destacada ? "true" : "false",
+        })
+        .eq("id", meta.id!);
+      if (error) {
+        console.error("Error actualizando imagen:", error);
+        failures.push({ file: meta.storage_id, error: error.message });
+      }
+    });
+
+  await Promise.all([...uploads, ...updates]);
+
+  return { failures };
+}
+
+// Sincroniza vehiculos.url_img con la imagen destacada guardada (o la primera
+// por orden si la destacada no llegó a subirse). Queda en null si no hay imágenes.
+export async function syncFeaturedImage(db: TenantDb, vehiculo: OwnedVehiculo) {
+  const { data: images, error } = await db.images.select(vehiculo, "url, order_index, destacada");
+  if (error) {
+    console.error("Error leyendo imágenes para url_img:", error);
+    return { error };
+  }
+
+  const ordenadas = (images || []).sort(
+    (a, b) => parseInt(a.order_index, 10) - parseInt(b.order_index, 10)
+  );
+  const destacada = ordenadas.find((img) => img.destacada === "true") ?? ordenadas[0];
+
+  return db.vehiculos.update({ url_img: destacada?.url ?? null }).eq("id", vehiculo.id);
+}
+
+// Sube los PDF del campo documentosPdf y los registra en documentos_vehiculo
+export async function uploadVehiculoPdfs(
+  db: TenantDb,
+  vehiculo: OwnedVehiculo,
+  formData: FormData
+): Promise<{ failures: ArchivoFallido[] }> {
+  const failures: ArchivoFallido[] = [];
+
+  for (const file of formData.getAll("documentosPdf")) {
+    if (!(file instanceof File) || file.size === 0) continue;
+    if (file.type !== "application/pdf") {
+      failures.push({ file: file.name, error: "El archivo no es un PDF" });
+      continue;
+    }
+
+    // Usar un nombre único para evitar colisiones
+    const pdfPath = `${vehiculo.id}/${crypto.randomUUID()}_${file.name}`;
+    const { error: uploadError } = await supabase.storage
+      .from(DOCUMENTOS_BUCKET)
+      .upload(pdfPath, file, { cacheControl: "3600", upsert: false });
+    if (uploadError) {
+      console.error("Error subiendo PDF:", uploadError);
+      failures.push({ file: file.name, error: uploadError.message });
+      continue;
+    }
+
+    const { data: urlData } = supabase.storage.from(DOCUMENTOS_BUCKET).getPublicUrl(pdfPath);
+    const { error: dbError } = await db.documentos.insert(vehiculo, {
+      nombre_archivo: file.name,
+      url_documento: urlData.publicUrl,
+      tipo_documento: "general",
+    });
+    if (dbError) {
+      console.error("Error insertando en documentos_vehiculo:", dbError);
+      await supabase.storage.from(DOCUMENTOS_BUCKET).remove([pdfPath]);
+      failures.push({ file: file.name, error: dbError.message });
+    }
+  }
+
+  return { failures };
+}
+
+// Elimina documentos del vehículo (fila y archivo en storage)
+export async function deleteVehiculoDocumentos(db: TenantDb, vehiculo: OwnedVehiculo, ids: string[]) {
+  if (ids.length === 0) return { error: null };
+
+  const { data: borrados, error } = await db.documentos
+    .delete(vehiculo)
+    .in("id", ids)
+    .select("url_documento");
+  if (error) {
+    console.error("Error eliminando documentos:", error);
+    return { error };
+  }
+
+  const paths = (borrados || [])
+    .map((doc) => storagePathFromPublicUrl(doc.url_documento, DOCUMENTOS_BUCKET))
+    .filter((path): path is string => !!path);
+  if (paths.length > 0) {
+    await supabase.storage.from(DOCUMENTOS_BUCKET).remove(paths);
+  }
+  return { error: null };
+}
+
+// Elimina todos los objetos de la carpeta del vehículo ({id}/) en ambos buckets
+export async function removeVehiculoStorage(vehiculoId: number) {
+  const failures: ArchivoFallido[] = [];
+
+  for (const bucket of [IMAGENES_BUCKET, DOCUMENTOS_BUCKET]) {
+    const folder = String(vehiculoId);
+    const { data: objects, error: listError } = await supabase.storage.from(bucket).list(folder, { limit: 1000 });
+    if (listError) {
+      failures.push({ file: `${bucket}/${folder}`, error: listError.message });
+      continue;
+    }
+    const paths = (objects || []).map((object) => `${folder}/${object.name}`);
+    if (paths.length === 0) continue;
+
+    const { error: removeError } = await supabase.storage.from(bucket).remove(paths);
+    if (removeError) {
+      failures.push({ file: `${bucket}/${folder}`, error: removeError.message });
+    }
+  }
+
+  return { failures };
+}
@@ -0,0 +1,121 @@
+// Limpieza de storage: busca objetos en los buckets imagen-vehiculo y
+// documentos-vehiculos que no tienen fila en images / documentos_vehiculo.
+//
+// Uso:
+//   npm run storage:gc            -> solo informa (dry run)
+//   npm run storage:gc -- --apply -> elimina los huérfanos
+//
+// Los objetos con menos de --min-age-minutes (60 por defecto) se ignoran para
+// no borrar archivos de una creación de vehículo que aún está en curso.
+import { createClient } from "@supabase/supabase-js";
+
+const IMAGENES_BUCKET = "imagen-vehiculo";
+const DOCUMENTOS_BUCKET = "documentos-vehiculos";
+const PAGE_SIZE = 1000;
+const REMOVE_BATCH = 100;
+
+const args = process.argv.slice(2);
+const apply = args.includes("--apply");
+const minAgeArg = args.find((arg) => arg.startsWith("--min-age-minutes="));
+const minAgeMinutes = minAgeArg ? Number(minAgeArg.split("=")[1]) : 60;
+
+const SUPABASE_URL = process.env.VITE_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.VITE_SUPABASE_SERVICE_ROLE_KEY;
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  console.error("Faltan las variables de entorno VITE_SUPABASE_URL / VITE_SUPABASE_SERVICE_ROLE_KEY");
+  process.exit(1);
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false, autoRefreshToken: false, detectSessionInUrl: false },
+});
+
+// Ruta dentro del bucket a partir de la URL pública (ver storagePathFromPublicUrl)
+function storagePathFromPublicUrl(url, bucket) {
+  const marker = `/object/public/${bucket}/`;
+  const index = url ? url.indexOf(marker) : -1;
+  if (index === -1) return null;
+  return decodeURIComponent(url.slice(index + marker.length));
+}
+
+async function selectAll(table, columns) {
+  const rows = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Error leyendo ${table}: ${error.message}`);
+    rows.push(...data);
+    if (data.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function listAll(bucket, prefix) {
+  const items = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase.storage.from(bucket).list(prefix, { limit: PAGE_SIZE, offset });
+    if (error) throw new Error(`Error listando ${bucket}/${prefix}: ${error.message}`);
+    items.push(...data);
+    if (data.length < PAGE_SIZE) return items;
+  }
+}
+
+// Objetos del bucket con la estructura {vehiculoId}/{archivo}
+async function listObjects(bucket) {
+  const objects = [];
+  const folders = (await listAll(bucket, "")).filter((item) => item.id === null);
+  for (const folder of folders) {
+    for (const item of await listAll(bucket, folder.name)) {
+      if (item.id === null) continue;
+      objects.push({ path: `${folder.name}/${item.name}`, createdAt: item.created_at });
+    }
+  }
+  return objects;
+}
+
+async function knownPaths() {
+  const images = await selectAll("images", "id_v, storage_id");
+  const documentos = await selectAll("documentos_vehiculo", "url_documento");
+  return {
+    [IMAGENES_BUCKET]: new Set(images.map((img) => `${img.id_v}/${img.storage_id}`)),
+    [DOCUMENTOS_BUCKET]: new Set(
+      documentos.map((doc) => storagePathFromPublicUrl(doc.url_documento, DOCUMENTOS_BUCKET)).filter(Boolean)
+    ),
+  };
+}
+
+async function main() {
+  const known = await knownPaths();
+  const cutoff = Date.now() - minAgeMinutes * 60 * 1000;
+  let total = 0;
+
+  for (const bucket of [IMAGENES_BUCKET, DOCUMENTOS_BUCKET]) {
+    const orphans = (await listObjects(bucket))
+      .filter((object) => !known[bucket].has(object.path))
+      .filter((object) => !object.createdAt || new Date(object.createdAt).getTime() < cutoff)
+      .map((object) => object.path);
+
+    total += orphans.length;
+    console.log(`${bucket}: ${orphans.length} objeto(s) huérfano(s)`);
+    orphans.forEach((path) => console.log(`  ${path}`));
+
+    if (!apply) continue;
+    for (let i = 0; i < orphans.length; i += REMOVE_BATCH) {
+      const { error } = await supabase.storage.from(bucket).remove(orphans.slice(i, i + REMOVE_BATCH));
+      if (error) throw new Error(`Error eliminando en ${bucket}: ${error.message}`);
+    }
+  }
+
+  if (!apply && total > 0) {
+    console.log("\nDry run: vuelve a ejecutar con --apply para eliminarlos.");
+  } else if (apply) {
+    console.log(`\n${total} objeto(s) eliminado(s).`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message ?? error);
+  process.exit(1);
+});
@@ -0,0 +1,33 @@
+-- Ciclo de vida del vehículo: estado actual, historial de cambios y registro de venta
+
+alter table public.vehiculos
+  add column if not exists estado text not null default 'disponible'
+    check (estado in ('disponible', 'reservado', 'vendido', 'retirado'));
+
+create index if not exists vehiculos_estado_idx on public.vehiculos (estado);
+
+create table if not exists public.vehiculo_estado_historial (
+  id bigint generated always as identity primary key,
+  vehiculo_uuid uuid not null references public.vehiculos (uuid) on delete cascade,
+  estado_anterior text,
+  estado_nuevo text not null,
+  user_id uuid references public.users (uuid) on delete set null,
+  nota text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists vehiculo_estado_historial_vehiculo_idx
+  on public.vehiculo_estado_historial (vehiculo_uuid, created_at desc);
+
+create table if not exists public.ventas_vehiculo (
+  id bigint generated always as identity primary key,
+  vehiculo_uuid uuid not null unique references public.vehiculos (uuid) on delete cascade,
+  cliente_id uuid not null references public.clientes (id),
+  precio_final numeric not null check (precio_final > 0),
+  fecha_venta date not null default current_date,
+  user_id uuid references public.users (uuid) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.vehiculo_estado_historial enable row level security;
+alter table public.ventas_vehiculo enable row level security;
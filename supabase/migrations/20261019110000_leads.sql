@@ -0,0 +1,25 @@
+-- Bandeja de leads: etapas, asignación y notas sobre solicitud_contacto
+
+alter table public.solicitud_contacto
+  add column if not exists etapa text not null default 'nuevo'
+    check (etapa in ('nuevo', 'contactado', 'prueba_manejo', 'negociacion', 'ganado', 'perdido')),
+  add column if not exists asignado_a uuid references public.users (uuid) on delete set null,
+  add column if not exists cliente_id uuid references public.clientes (id) on delete set null,
+  add column if not exists created_at timestamptz not null default now(),
+  add column if not exists updated_at timestamptz not null default now();
+
+create index if not exists solicitud_contacto_vehiculo_etapa_idx
+  on public.solicitud_contacto (vehiculo_uuid, etapa);
+
+create table if not exists public.solicitud_notas (
+  id bigint generated always as identity primary key,
+  solicitud_id bigint not null references public.solicitud_contacto (id) on delete cascade,
+  user_id uuid references public.users (uuid) on delete set null,
+  texto text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists solicitud_notas_solicitud_idx
+  on public.solicitud_notas (solicitud_id, created_at desc);
+
+alter table public.solicitud_notas enable row level security;
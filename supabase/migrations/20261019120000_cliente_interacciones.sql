@@ -0,0 +1,44 @@
+-- Conversión de solicitudes de contacto en clientes: email único sin
+-- distinguir mayúsculas e historial de interacciones por cliente.
+
+-- Si hay clientes duplicados por email (p. ej. "Ana@x.com" y "ana@x.com")
+-- hay que fusionarlos antes de aplicar esta migración.
+create unique index if not exists clientes_email_lower_key
+  on public.clientes (lower(email));
+
+create table if not exists public.cliente_interacciones (
+  id bigint generated always as identity primary key,
+  cliente_id uuid not null references public.clientes (id) on delete cascade,
+  tipo text not null default 'solicitud_contacto'
+    check (tipo in ('solicitud_contacto')),
+  -- Se conserva la interacción aunque se elimine la solicitud o el vehículo
+  solicitud_id bigint unique references public.solicitud_contacto (id) on delete set null,
+  vehiculo_uuid uuid references public.vehiculos (uuid) on delete set null,
+  detalle text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists cliente_interacciones_cliente_idx
+  on public.cliente_interacciones (cliente_id, created_at desc);
+
+-- Backfill: clientes e interacciones para las solicitudes ya recibidas
+insert into public.clientes (name, email)
+select distinct on (lower(trim(s.email))) s.nombre, trim(s.email)
+from public.solicitud_contacto s
+where s.email is not null and trim(s.email) <> ''
+order by lower(trim(s.email)), s.created_at desc
+on conflict ((lower(email))) do nothing;
+
+update public.solicitud_contacto s
+set cliente_id = c.id
+from public.clientes c
+where s.cliente_id is null and lower(c.email) = lower(trim(s.email));
+
+insert into public.cliente_interacciones (cliente_id, tipo, solicitud_id, vehiculo_uuid, detalle, created_at)
+select s.cliente_id, 'solicitud_contacto', s.id, v.uuid, s.mensaje, s.created_at
+from public.solicitud_contacto s
+left join public.vehiculos v on v.uuid = s.vehiculo_uuid
+where s.cliente_id is not null
+on conflict (solicitud_id) do nothing;
+
+alter table public.cliente_interacciones enable row level security;
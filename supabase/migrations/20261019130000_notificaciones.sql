@@ -0,0 +1,39 @@
+-- Notificaciones por email: cola persistente (outbox) con reintentos y
+-- preferencias por usuario.
+
+create table if not exists public.notificaciones_outbox (
+  id bigint generated always as identity primary key,
+  evento text not null,
+  destinatario text not null,
+  asunto text not null,
+  html text not null,
+  texto text not null,
+  estado text not null default 'pendiente'
+    check (estado in ('pendiente', 'enviando', 'enviado', 'fallido')),
+  intentos integer not null default 0,
+  max_intentos integer not null default 5,
+  ultimo_error text,
+  proximo_intento timestamptz not null default now(),
+  -- Momento en que un proceso tomó el envío; permite recuperar envíos colgados
+  bloqueado_at timestamptz,
+  enviado_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notificaciones_outbox_pendientes_idx
+  on public.notificaciones_outbox (proximo_intento)
+  where estado = 'pendiente';
+
+-- Sin fila = evento activo. Solo se guardan las preferencias modificadas.
+create table if not exists public.preferencias_notificacion (
+  user_id uuid not null references public.users (uuid) on delete cascade,
+  evento text not null,
+  activo boolean not null default true,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, evento)
+);
+
+-- Solo el servidor (service role) accede: el outbox guarda el contenido de
+-- cada email, con enlaces de invitación y datos de leads
+alter table public.notificaciones_outbox enable row level security;
+alter table public.preferencias_notificacion enable row level security;
@@ -0,0 +1,20 @@
+-- Protección anti-spam del formulario de contacto: huellas para limitar
+-- envíos por IP / email, detección de mensajes duplicados y cuarentena.
+
+alter table public.solicitud_contacto
+  -- SHA-256 de la IP con SESSION_SECRET; no se guarda la IP en claro
+  add column if not exists ip_hash text,
+  -- SHA-256 del mensaje normalizado (minúsculas, espacios colapsados)
+  add column if not exists mensaje_hash text,
+  add column if not exists en_cuarentena boolean not null default false,
+  add column if not exists motivo_cuarentena text;
+
+create index if not exists solicitud_contacto_ip_idx
+  on public.solicitud_contacto (ip_hash, created_at desc);
+
+create index if not exists solicitud_contacto_duplicados_idx
+  on public.solicitud_contacto (vehiculo_uuid, mensaje_hash, created_at desc);
+
+create index if not exists solicitud_contacto_cuarentena_idx
+  on public.solicitud_contacto (vehiculo_uuid)
+  where en_cuarentena;
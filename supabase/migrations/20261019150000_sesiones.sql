@@ -0,0 +1,19 @@
+-- Sesiones del servidor. La cookie solo lleva el id firmado; los tokens de
+-- Supabase (access / refresh) se guardan aquí y se renuevan sin tocar la cookie.
+-- Borrar las filas de un usuario cierra todas sus sesiones.
+
+create table if not exists public.sesiones (
+  id uuid primary key default gen_random_uuid(),
+  auth_id uuid,
+  data jsonb not null default '{}'::jsonb,
+  user_agent text,
+  expires_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists sesiones_auth_id_idx on public.sesiones (auth_id);
+create index if not exists sesiones_expires_at_idx on public.sesiones (expires_at);
+
+-- Solo el servidor (service role) accede a esta tabla
+alter table public.sesiones enable row level security;
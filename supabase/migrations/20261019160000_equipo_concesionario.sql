@@ -0,0 +1,61 @@
+-- Equipo del concesionario: membresías, invitaciones y propietario.
+-- users.concesionario_id sigue indicando el concesionario activo del usuario;
+-- solo se asigna cuando la membresía queda activa.
+
+alter table public.concesionario
+  add column if not exists owner_id uuid references public.users (uuid) on delete set null;
+
+create table if not exists public.concesionario_miembros (
+  id bigint generated always as identity primary key,
+  concesionario_id uuid not null references public.concesionario (id) on delete cascade,
+  user_id uuid not null references public.users (uuid) on delete cascade,
+  rol text not null check (rol in ('concesionario', 'agente')),
+  estado text not null default 'pendiente'
+    check (estado in ('pendiente', 'activo', 'rechazado', 'inactivo')),
+  revisado_por uuid references public.users (uuid) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (concesionario_id, user_id)
+);
+
+create index if not exists concesionario_miembros_estado_idx
+  on public.concesionario_miembros (concesionario_id, estado);
+
+create table if not exists public.concesionario_invitaciones (
+  id bigint generated always as identity primary key,
+  concesionario_id uuid not null references public.concesionario (id) on delete cascade,
+  email text not null,
+  rol text not null check (rol in ('concesionario', 'agente')),
+  -- sha256 del token enviado por email; el token en claro no se guarda
+  token_hash text not null unique,
+  estado text not null default 'pendiente' check (estado in ('pendiente', 'aceptada', 'revocada')),
+  invitado_por uuid references public.users (uuid) on delete set null,
+  expires_at timestamptz not null,
+  aceptada_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- Una sola invitación pendiente por email y concesionario
+create unique index if not exists concesionario_invitaciones_pendiente_key
+  on public.concesionario_invitaciones (concesionario_id, lower(email))
+  where estado = 'pendiente';
+
+-- Los usuarios ya vinculados pasan a ser miembros activos
+insert into public.concesionario_miembros (concesionario_id, user_id, rol, estado)
+select u.concesionario_id, u.uuid, case when u.rol = 'agente' then 'agente' else 'concesionario' end, 'activo'
+from public.users u
+where u.concesionario_id is not null
+on conflict (concesionario_id, user_id) do nothing;
+
+-- Propietario inicial: un usuario con rol concesionario (se puede transferir después)
+update public.concesionario c
+set owner_id = (
+  select u.uuid from public.users u
+  where u.concesionario_id = c.id and u.rol = 'concesionario'
+  order by u.uuid
+  limit 1
+)
+where c.owner_id is null;
+
+alter table public.concesionario_miembros enable row level security;
+alter table public.concesionario_invitaciones enable row level security;
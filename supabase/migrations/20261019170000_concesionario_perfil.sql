@@ -0,0 +1,15 @@
+-- Perfil público y marca del concesionario (/configuracion)
+
+alter table public.concesionario
+  add column if not exists telefono text,
+  add column if not exists whatsapp text,
+  add column if not exists direccion text,
+  add column if not exists horario text,
+  -- { facebook, instagram, tiktok, sitio_web }
+  add column if not exists redes jsonb not null default '{}'::jsonb,
+  add column if not exists updated_at timestamptz not null default now();
+
+-- Bucket público para los logos (ya redimensionados por el servidor)
+insert into storage.buckets (id, name, public)
+values ('logos-concesionario', 'logos-concesionario', true)
+on conflict (id) do nothing;
@@ -0,0 +1,24 @@
+-- URL pública de la vitrina de cada concesionario: /concesionario/:slug
+
+alter table public.concesionario
+  add column if not exists slug text;
+
+-- Slug inicial a partir del nombre (sin tildes, minúsculas, guiones)
+update public.concesionario
+set slug = trim(both '-' from regexp_replace(
+  lower(translate(nombre, 'áéíóúüñÁÉÍÓÚÜÑ', 'aeiouunaeiouun')),
+  '[^a-z0-9]+', '-', 'g'
+))
+where slug is null;
+
+-- Nombres repetidos o sin caracteres válidos: se completa con parte del id
+update public.concesionario c
+set slug = concat_ws('-', nullif(c.slug, ''), left(c.id::text, 8))
+where coalesce(c.slug, '') = ''
+   or exists (select 1 from public.concesionario o where o.slug = c.slug and o.id < c.id);
+
+create unique index if not exists concesionario_slug_key on public.concesionario (slug);
+
+-- Inventario de una vitrina (vehículos disponibles por concesionario)
+create index if not exists vehiculos_concesionario_estado_idx
+  on public.vehiculos (concesionario_id, estado);
@@ -0,0 +1,148 @@
+-- Facetas del catálogo de vehículos calculadas en la base de datos: valores
+-- distintos con conteo e histogramas de precio y kilometraje.
+--
+-- Cada faceta respeta los demás filtros activos pero no el suyo, para mostrar
+-- cuántos vehículos quedarían al cambiar esa selección. Marca, modelo y año
+-- son jerárquicos: la faceta de marca ignora también modelo y año, y la de
+-- modelo ignora el año.
+--
+-- filtros (jsonb, todas las claves opcionales): concesionario_id, user_id, estado,
+-- marca, modelo, anio, combustible, transmision, carroceria, traccion,
+-- precio_min, precio_max, km_min, km_max.
+-- user_id solo incluye los vehículos del usuario que no son de ningún concesionario.
+
+create or replace function public.catalogo_facetas(
+  filtros jsonb default '{}'::jsonb,
+  num_buckets integer default 10
+)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  with f as (
+    select
+      nullif(filtros->>'concesionario_id', '')::uuid as concesionario_id,
+      nullif(filtros->>'user_id', '')::uuid as user_id,
+      nullif(filtros->>'estado', '') as estado,
+      nullif(filtros->>'marca', '') as marca,
+      nullif(filtros->>'modelo', '') as modelo,
+      nullif(filtros->>'anio', '')::integer as anio,
+      nullif(filtros->>'combustible', '') as combustible,
+      nullif(filtros->>'transmision', '') as transmision,
+      nullif(filtros->>'carroceria', '') as carroceria,
+      nullif(filtros->>'traccion', '') as traccion,
+      nullif(filtros->>'precio_min', '')::numeric as precio_min,
+      nullif(filtros->>'precio_max', '')::numeric as precio_max,
+      nullif(filtros->>'km_min', '')::numeric as km_min,
+      nullif(filtros->>'km_max', '')::numeric as km_max
+  ),
+  -- Una sola lectura del inventario: cada columna ok_* indica si el vehículo
+  -- cumple ese filtro
+  base as (
+    select
+      v.marca, v.modelo, v.anio, v.combustible, v.transmision, v.carroceria, v.traccion,
+      v.precio::numeric as precio,
+      v.km::numeric as km,
+      (f.marca is null or v.marca = f.marca) as ok_marca,
+      (f.modelo is null or v.modelo = f.modelo) as ok_modelo,
+      (f.anio is null or v.anio = f.anio) as ok_anio,
+      (f.combustible is null or v.combustible = f.combustible) as ok_combustible,
+      (f.transmision is null or v.transmision = f.transmision) as ok_transmision,
+      (f.carroceria is null or v.carroceria = f.carroceria) as ok_carroceria,
+      (f.traccion is null or v.traccion = f.traccion) as ok_traccion,
+      ((f.precio_min is null or v.precio >= f.precio_min) and (f.precio_max is null or v.precio <= f.precio_max)) as ok_precio,
+      ((f.km_min is null or v.km >= f.km_min) and (f.km_max is null or v.km <= f.km_max)) as ok_km
+    from public.vehiculos v
+    cross join f
+    where (f.concesionario_id is null or v.concesionario_id = f.concesionario_id)
+      and (f.user_id is null or (v.user_id = f.user_id and v.concesionario_id is null))
+      and (f.estado is null or v.estado = f.estado)
+  ),
+  conteos as (
+    select x.faceta, x.valor, count(*) as total
+    from base b
+    cross join lateral (values
+      ('marca', b.marca,
+        b.ok_combustible and b.ok_transmision and b.ok_carroceria and b.ok_traccion and b.ok_precio and b.ok_km),
+      ('modelo', b.modelo,
+        b.ok_marca and b.ok_combustible and b.ok_transmision and b.ok_carroceria and b.ok_traccion and b.ok_precio and b.ok_km),
+      ('anio', b.anio::text,
+        b.ok_marca and b.ok_modelo and b.ok_combustible and b.ok_transmision and b.ok_carroceria and b.ok_traccion and b.ok_precio and b.ok_km),
+      ('combustible', b.combustible,
+        b.ok_marca and b.ok_modelo and b.ok_anio and b.ok_transmision and b.ok_carroceria and b.ok_traccion and b.ok_precio and b.ok_km),
+      ('transmision', b.transmision,
+        b.ok_marca and b.ok_modelo and b.ok_anio and b.ok_combustible and b.ok_carroceria and b.ok_traccion and b.ok_precio and b.ok_km),
+      ('carroceria', b.carroceria,
+        b.ok_marca and b.ok_modelo and b.ok_anio and b.ok_combustible and b.ok_transmision and b.ok_traccion and b.ok_precio and b.ok_km),
+      ('traccion', b.traccion,
+        b.ok_marca and b.ok_modelo and b.ok_anio and b.ok_combustible and b.ok_transmision and b.ok_carroceria and b.ok_precio and b.ok_km)
+    ) as x(faceta, valor, incluido)
+    where x.incluido and coalesce(x.valor, '') <> ''
+    group by x.faceta, x.valor
+  ),
+  medidas as (
+    select x.faceta, x.valor
+    from base b
+    cross join lateral (values
+      ('precio', b.precio,
+        b.ok_marca and b.ok_modelo and b.ok_anio and b.ok_combustible and b.ok_transmision and b.ok_carroceria and b.ok_traccion and b.ok_km),
+      ('km', b.km,
+        b.ok_marca and b.ok_modelo and b.ok_anio and b.ok_combustible and b.ok_transmision and b.ok_carroceria and b.ok_traccion and b.ok_precio)
+    ) as x(faceta, valor, incluido)
+    where x.incluido and x.valor is not null
+  ),
+  rangos as (
+    select faceta, min(valor) as minimo, max(valor) as maximo,
+      case when min(valor) = max(valor) then 1 else greatest(num_buckets, 1) end as n
+    from medidas
+    group by faceta
+  ),
+  buckets as (
+    select m.faceta,
+      case when r.n = 1 then 1 else least(width_bucket(m.valor, r.minimo, r.maximo, r.n), r.n) end as bucket,
+      count(*) as total
+    from medidas m
+    join rangos r using (faceta)
+    group by 1, 2
+  ),
+  histogramas as (
+    select r.faceta, jsonb_build_object(
+      'min', r.minimo,
+      'max', r.maximo,
+      'buckets', (
+        select jsonb_agg(jsonb_build_object(
+          'desde', round(r.minimo + (s.i - 1) * (r.maximo - r.minimo) / r.n),
+          'hasta', round(r.minimo + s.i * (r.maximo - r.minimo) / r.n),
+          'total', coalesce(b.total, 0)
+        ) order by s.i)
+        from generate_series(1, r.n) as s(i)
+        left join buckets b on b.faceta = r.faceta and b.bucket = s.i
+      )
+    ) as histograma
+    from rangos r
+  )
+  select jsonb_build_object(
+    'total', (
+      select count(*) from base
+      where ok_marca and ok_modelo and ok_anio and ok_combustible and ok_transmision
+        and ok_carroceria and ok_traccion and ok_precio and ok_km
+    ),
+    'valores', coalesce((
+      select jsonb_object_agg(faceta, valores)
+      from (
+        select faceta, jsonb_agg(
+          jsonb_build_object('valor', valor, 'total', total)
+          order by case when faceta = 'anio' then valor end desc, valor
+        ) as valores
+        from conteos
+        group by faceta
+      ) t
+    ), '{}'::jsonb),
+    'histogramas', coalesce((select jsonb_object_agg(faceta, histograma) from histogramas), '{}'::jsonb)
+  );
+$$;
+
+-- Filtros más usados en las facetas del catálogo público
+create index if not exists vehiculos_estado_marca_modelo_idx
+  on public.vehiculos (estado, marca, modelo);
@@ -0,0 +1,126 @@
+-- Búsqueda de vehículos sin tildes y tolerante a errores de escritura.
+--
+-- Cada vehículo guarda en `busqueda` su texto normalizado (marca, modelo,
+-- versión, color, año y placa). La consulta se divide en palabras y cada una
+-- debe aparecer en ese texto, literal o parecida (similitud de trigramas), de
+-- modo que "toyta corola 2020" encuentra un "Toyota Corolla 2020".
+
+create extension if not exists unaccent with schema extensions;
+create extension if not exists pg_trgm with schema extensions;
+
+-- Minúsculas, sin tildes y solo letras y números separados por un espacio.
+-- Se declara immutable (con diccionario explícito) para poder usarla en la
+-- columna generada.
+create or replace function public.normalizar_busqueda(texto text)
+returns text
+language sql
+immutable
+parallel safe
+as $$
+  select trim(regexp_replace(
+    lower(extensions.unaccent('extensions.unaccent'::regdictionary, coalesce(texto, ''))),
+    '[^a-z0-9]+', ' ', 'g'
+  ))
+$$;
+
+alter table public.vehiculos
+  add column if not exists busqueda text generated always as (
+    public.normalizar_busqueda(concat_ws(' ',
+      marca, modelo, version, color, anio::text, placa,
+      -- Placa también sin separadores: "ABC-123" se encuentra como "abc123"
+      regexp_replace(placa, '[^[:alnum:]]', '', 'g')
+    ))
+  ) stored;
+
+create index if not exists vehiculos_busqueda_trgm_idx
+  on public.vehiculos using gin (busqueda extensions.gin_trgm_ops);
+
+-- Vehículos que coinciden con todas las palabras de la consulta, del más al
+-- menos relevante. Los números (año, placa) deben coincidir literalmente; las
+-- palabras de 3 o más letras admiten errores de escritura. El alcance es
+-- opcional: quien llama debe filtrar igualmente por su tenant.
+create or replace function public.buscar_vehiculos(
+  consulta text,
+  concesionario uuid default null,
+  propietario uuid default null
+)
+returns setof public.vehiculos
+language sql
+stable
+set search_path = public, extensions
+set pg_trgm.word_similarity_threshold = 0.5
+as $$
+  with tokens as (
+    select distinct token
+    from regexp_split_to_table(public.normalizar_busqueda(consulta), ' ') as token
+    where token <> ''
+  ),
+  puntajes as (
+    select v.uuid,
+      sum(
+        word_similarity(t.token, v.busqueda)
+        + case when v.busqueda like '%' || t.token || '%' then 0.5 else 0 end
+      ) as relevancia
+    from public.vehiculos v
+    join tokens t
+      on v.busqueda like '%' || t.token || '%'
+      or (t.token !~ '^[0-9]+$' and length(t.token) >= 3 and t.token <% v.busqueda)
+    where (concesionario is null or v.concesionario_id = concesionario)
+      and (propietario is null or (v.user_id = propietario and v.concesionario_id is null))
+    group by v.uuid
+    having count(*) = (select count(*) from tokens)
+  )
+  select v.*
+  from puntajes p
+  join public.vehiculos v on v.uuid = p.uuid
+  order by p.relevancia desc, v.uuid
+$$;
+
+-- Sugerencias para el autocompletado: marcas, modelos, versiones y placas del
+-- inventario que empiezan por la consulta o se le parecen.
+-- alcance (jsonb, opcional): concesionario_id, user_id, estado.
+-- user_id solo incluye los vehículos del usuario que no son de ningún concesionario.
+create or replace function public.sugerir_busqueda(
+  consulta text,
+  alcance jsonb default '{}'::jsonb,
+  limite integer default 8
+)
+returns table (sugerencia text, tipo text, total bigint)
+language sql
+stable
+set search_path = public, extensions
+as $$
+  with q as (
+    select public.normalizar_busqueda(consulta) as texto
+  ),
+  candidatos as (
+    select x.tipo, x.sugerencia, public.normalizar_busqueda(x.sugerencia) as normalizada, count(*) as total
+    from public.vehiculos v
+    cross join lateral (values
+      ('marca', v.marca),
+      ('modelo', concat_ws(' ', v.marca, v.modelo)),
+      ('version', case when coalesce(v.version, '') <> '' then concat_ws(' ', v.marca, v.modelo, v.version) end),
+      ('placa', upper(v.placa))
+    ) as x(tipo, sugerencia)
+    where coalesce(x.sugerencia, '') <> ''
+      and (alcance->>'concesionario_id' is null or v.concesionario_id = (alcance->>'concesionario_id')::uuid)
+      and (alcance->>'user_id' is null or (v.user_id = (alcance->>'user_id')::uuid and v.concesionario_id is null))
+      and (alcance->>'estado' is null or v.estado = alcance->>'estado')
+    group by x.tipo, x.sugerencia
+  )
+  select c.sugerencia, c.tipo, c.total
+  from candidatos c
+  cross join q
+  where length(q.texto) >= 2
+    and (
+      c.normalizada like q.texto || '%'
+      or c.normalizada like '% ' || q.texto || '%'
+      or word_similarity(q.texto, c.normalizada) >= 0.5
+    )
+  order by
+    (c.normalizada like q.texto || '%') desc,
+    word_similarity(q.texto, c.normalizada) desc,
+    c.total desc,
+    c.sugerencia
+  limit greatest(limite, 1)
+$$;
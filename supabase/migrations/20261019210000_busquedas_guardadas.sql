@@ -0,0 +1,60 @@
+-- Búsquedas guardadas de los compradores (suscriptores) y alertas de
+-- inventario nuevo que coincide con ellas.
+
+create table if not exists public.busquedas_guardadas (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (uuid) on delete cascade,
+  nombre text not null,
+  -- Filtros del catálogo con las mismas claves que la URL (marca, precioMin, ...)
+  filtros jsonb not null default '{}'::jsonb,
+  -- false = la búsqueda se guarda pero no genera alertas
+  alertas boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists busquedas_guardadas_user_idx
+  on public.busquedas_guardadas (user_id, created_at desc);
+
+-- Alertas dentro de la app; el email se envía por notificaciones_outbox
+create table if not exists public.alertas_busqueda (
+  id bigint generated always as identity primary key,
+  busqueda_id uuid not null references public.busquedas_guardadas (id) on delete cascade,
+  user_id uuid not null references public.users (uuid) on delete cascade,
+  vehiculo_uuid uuid not null references public.vehiculos (uuid) on delete cascade,
+  leida_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (busqueda_id, vehiculo_uuid)
+);
+
+create index if not exists alertas_busqueda_sin_leer_idx
+  on public.alertas_busqueda (user_id, created_at desc)
+  where leida_at is null;
+
+-- Búsquedas con alertas activas cuyos filtros cumple un vehículo disponible
+create or replace function public.busquedas_para_vehiculo(vehiculo uuid)
+returns setof public.busquedas_guardadas
+language sql
+stable
+set search_path = public
+as $$
+  select b.*
+  from public.busquedas_guardadas b
+  join public.vehiculos v on v.uuid = vehiculo
+  where b.alertas
+    and v.estado = 'disponible'
+    and (b.filtros->>'marca' is null or v.marca = b.filtros->>'marca')
+    and (b.filtros->>'modelo' is null or v.modelo = b.filtros->>'modelo')
+    and (b.filtros->>'anio' is null or v.anio = (b.filtros->>'anio')::integer)
+    and (b.filtros->>'combustible' is null or v.combustible = b.filtros->>'combustible')
+    and (b.filtros->>'transmision' is null or v.transmision = b.filtros->>'transmision')
+    and (b.filtros->>'carroceria' is null or v.carroceria = b.filtros->>'carroceria')
+    and (b.filtros->>'traccion' is null or v.traccion = b.filtros->>'traccion')
+    and (b.filtros->>'precioMin' is null or v.precio >= (b.filtros->>'precioMin')::numeric)
+    and (b.filtros->>'precioMax' is null or v.precio <= (b.filtros->>'precioMax')::numeric)
+    and (b.filtros->>'kmMin' is null or v.km >= (b.filtros->>'kmMin')::numeric)
+    and (b.filtros->>'kmMax' is null or v.km <= (b.filtros->>'kmMax')::numeric)
+$$;
+
+alter table public.busquedas_guardadas enable row level security;
+alter table public.alertas_busqueda enable row level security;
@@ -0,0 +1,14 @@
+-- Vehículos favoritos de los compradores (suscriptores). Los visitantes sin
+-- sesión los guardan en el navegador y se importan al iniciar sesión.
+
+create table if not exists public.favoritos (
+  user_id uuid not null references public.users (uuid) on delete cascade,
+  vehiculo_uuid uuid not null references public.vehiculos (uuid) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (user_id, vehiculo_uuid)
+);
+
+create index if not exists favoritos_user_idx
+  on public.favoritos (user_id, created_at desc);
+
+alter table public.favoritos enable row level security;
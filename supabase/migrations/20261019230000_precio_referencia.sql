@@ -0,0 +1,12 @@
+-- Precio de referencia del cotizador.
+--
+-- cotizador.valor es el valor comercial de referencia (COP) de cada versión y
+-- año. Al publicar un vehículo se guarda el valor usado, así la sugerencia y
+-- las alertas de precio no cambian cuando se actualiza el cotizador.
+
+alter table public.cotizador
+  add column if not exists valor numeric;
+
+alter table public.vehiculos
+  add column if not exists precio_referencia numeric,
+  add column if not exists precio_referencia_at timestamptz;
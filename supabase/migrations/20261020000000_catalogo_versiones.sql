@@ -0,0 +1,99 @@
+-- Versiones del catálogo de referencia (cotizador).
+--
+-- Cada importación crea una versión en borrador con todas sus filas en
+-- catalogo_filas. Al publicarla, sus filas reemplazan el contenido de
+-- cotizador; las versiones anteriores se conservan como historial y cada
+-- vehículo guarda la versión vigente cuando se publicó.
+
+create table if not exists public.catalogo_versiones (
+  id bigint generated always as identity primary key,
+  nombre text not null,
+  archivo text,
+  -- borrador → publicada → reemplazada; un borrador también puede descartarse
+  estado text not null default 'borrador'
+    check (estado in ('borrador', 'publicada', 'reemplazada', 'descartada')),
+  -- Conteos y muestras del diff con el catálogo vigente al importar
+  resumen jsonb not null default '{}'::jsonb,
+  creada_por uuid references public.users (uuid) on delete set null,
+  created_at timestamptz not null default now(),
+  publicada_at timestamptz
+);
+
+-- Solo una versión vigente
+create unique index if not exists catalogo_versiones_publicada_key
+  on public.catalogo_versiones (estado) where estado = 'publicada';
+
+create table if not exists public.catalogo_filas (
+  id bigint generated always as identity primary key,
+  version_id bigint not null references public.catalogo_versiones (id) on delete cascade,
+  marca text not null,
+  modelo text not null,
+  anio integer not null,
+  version text not null,
+  valor numeric,
+  unique (version_id, marca, modelo, anio, version)
+);
+
+alter table public.vehiculos
+  add column if not exists catalogo_version_id bigint references public.catalogo_versiones (id) on delete set null;
+
+-- marcas_unicas se mantiene a partir de cotizador, sea tabla o vista materializada
+create or replace function public.sincronizar_marcas_unicas()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  tipo "char";
+begin
+  select c.relkind into tipo
+  from pg_class c
+  join pg_namespace n on n.oid = c.relnamespace
+  where n.nspname = 'public' and c.relname = 'marcas_unicas';
+
+  if tipo = 'r' then
+    delete from public.marcas_unicas m
+    where not exists (select 1 from public.cotizador c where c.marca = m.marca);
+    insert into public.marcas_unicas (marca)
+    select distinct c.marca
+    from public.cotizador c
+    where coalesce(c.marca, '') <> ''
+      and not exists (select 1 from public.marcas_unicas m where m.marca = c.marca);
+  elsif tipo = 'm' then
+    refresh materialized view public.marcas_unicas;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists cotizador_marcas_unicas on public.cotizador;
+create trigger cotizador_marcas_unicas
+  after insert or update or delete or truncate on public.cotizador
+  for each statement execute function public.sincronizar_marcas_unicas();
+
+-- Publica un borrador: reemplaza cotizador con sus filas (fecha = 1 de enero
+-- del año, como las filas existentes) en una sola transacción
+create or replace function public.publicar_catalogo(id_version bigint)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  perform 1 from public.catalogo_versiones where id = id_version and estado = 'borrador' for update;
+  if not found then
+    raise exception 'La versión % del catálogo no es un borrador', id_version;
+  end if;
+
+  delete from public.cotizador where true;
+  insert into public.cotizador (marca, modelo, version, fecha, valor)
+  select f.marca, f.modelo, f.version, make_date(f.anio, 1, 1), f.valor
+  from public.catalogo_filas f
+  where f.version_id = id_version;
+
+  update public.catalogo_versiones set estado = 'reemplazada' where estado = 'publicada';
+  update public.catalogo_versiones set estado = 'publicada', publicada_at = now() where id = id_version;
+end;
+$$;
+
+alter table public.catalogo_versiones enable row level security;
+alter table public.catalogo_filas enable row level security;
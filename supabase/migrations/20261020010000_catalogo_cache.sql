@@ -0,0 +1,75 @@
+-- Árbol marca → modelo → año → versiones del cotizador, precalculado.
+--
+-- Los selectores del formulario de vehículos leen este árbol (una sola fila)
+-- en lugar de consultar cotizador en cada selección. Se recalcula con cada
+-- cambio en cotizador (p. ej. al publicar una versión del catálogo) y la
+-- revisión sirve a la app para invalidar su caché y como ETag.
+
+create table if not exists public.catalogo_cache (
+  id boolean primary key default true check (id),
+  revision bigint not null default 1,
+  -- {"Mazda": {"3": {"2020": ["Grand Touring", ...]}}}
+  arbol jsonb not null default '{}'::jsonb,
+  actualizado_at timestamptz not null default now()
+);
+
+create or replace function public.calcular_catalogo_arbol()
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  with filas as (
+    select distinct marca, modelo, substring(fecha::text from '^(\d{4})') as anio, version
+    from public.cotizador
+    where coalesce(marca, '') <> ''
+      and coalesce(modelo, '') <> ''
+      and coalesce(version, '') <> ''
+      and fecha is not null
+  ),
+  anios as (
+    select marca, modelo, anio, jsonb_agg(version order by version) as versiones
+    from filas
+    where anio is not null
+    group by marca, modelo, anio
+  ),
+  modelos as (
+    select marca, modelo, jsonb_object_agg(anio, versiones) as anios
+    from anios
+    group by marca, modelo
+  ),
+  marcas as (
+    select marca, jsonb_object_agg(modelo, anios) as modelos
+    from modelos
+    group by marca
+  )
+  select coalesce(jsonb_object_agg(marca, modelos), '{}'::jsonb) from marcas;
+$$;
+
+create or replace function public.refrescar_catalogo_cache()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  insert into public.catalogo_cache (id, revision, arbol, actualizado_at)
+  values (true, 1, public.calcular_catalogo_arbol(), now())
+  on conflict (id) do update
+    set revision = public.catalogo_cache.revision + 1,
+        arbol = excluded.arbol,
+        actualizado_at = now();
+  return null;
+end;
+$$;
+
+drop trigger if exists cotizador_catalogo_cache on public.cotizador;
+create trigger cotizador_catalogo_cache
+  after insert or update or delete or truncate on public.cotizador
+  for each statement execute function public.refrescar_catalogo_cache();
+
+-- Estado inicial con el cotizador actual
+insert into public.catalogo_cache (id, revision, arbol)
+values (true, 1, public.calcular_catalogo_arbol())
+on conflict (id) do update set arbol = excluded.arbol, revision = public.catalogo_cache.revision + 1, actualizado_at = now();
+
+alter table public.catalogo_cache enable row level security;
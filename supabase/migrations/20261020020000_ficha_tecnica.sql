@@ -0,0 +1,44 @@
+-- Ficha técnica por versión del catálogo: el formulario de vehículos
+-- autocompleta estas características al elegir la versión.
+
+alter table public.cotizador
+  add column if not exists puertas integer,
+  add column if not exists combustible text,
+  add column if not exists transmision text,
+  add column if not exists carroceria text,
+  add column if not exists traccion text,
+  add column if not exists cilindraje integer;
+
+alter table public.catalogo_filas
+  add column if not exists puertas integer,
+  add column if not exists combustible text,
+  add column if not exists transmision text,
+  add column if not exists carroceria text,
+  add column if not exists traccion text,
+  add column if not exists cilindraje integer;
+
+-- Igual que en 20261020000000_catalogo_versiones.sql, copiando también la ficha
+create or replace function public.publicar_catalogo(id_version bigint)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  perform 1 from public.catalogo_versiones where id = id_version and estado = 'borrador' for update;
+  if not found then
+    raise exception 'La versión % del catálogo no es un borrador', id_version;
+  end if;
+
+  delete from public.cotizador where true;
+  insert into public.cotizador (
+    marca, modelo, version, fecha, valor, puertas, combustible, transmision, carroceria, traccion, cilindraje
+  )
+  select f.marca, f.modelo, f.version, make_date(f.anio, 1, 1), f.valor,
+         f.puertas, f.combustible, f.transmision, f.carroceria, f.traccion, f.cilindraje
+  from public.catalogo_filas f
+  where f.version_id = id_version;
+
+  update public.catalogo_versiones set estado = 'reemplazada' where estado = 'publicada';
+  update public.catalogo_versiones set estado = 'publicada', publicada_at = now() where id = id_version;
+end;
+$$;
@@ -0,0 +1,39 @@
+-- Placas normalizadas (mayúsculas, sin espacios ni guiones; ver app/utils/placa.ts)
+-- y únicas dentro del inventario de cada concesionario (o de cada vendedor
+-- particular). Los vehículos vendidos no cuentan: el mismo carro puede volver
+-- a publicarse si el concesionario lo recompra.
+
+update public.vehiculos
+set placa = upper(regexp_replace(placa, '[^A-Za-z0-9]', '', 'g'))
+where placa is not null
+  and placa <> upper(regexp_replace(placa, '[^A-Za-z0-9]', '', 'g'));
+
+-- Si ya hay placas repetidas en un mismo inventario la migración falla: hay
+-- que depurarlas (marcar como vendido o retirado, o corregir la placa) antes
+-- de volver a aplicarla.
+do $$
+declare
+  repetidas text;
+begin
+  select string_agg(format('%s (%s vehículos)', placa, total), ', ')
+  into repetidas
+  from (
+    select placa, count(*) as total
+    from public.vehiculos
+    where coalesce(placa, '') <> '' and estado <> 'vendido'
+    group by coalesce(concesionario_id, user_id), placa
+    having count(*) > 1
+  ) duplicadas;
+
+  if repetidas is not null then
+    raise exception 'Hay placas repetidas en un mismo inventario: %', repetidas;
+  end if;
+end;
+$$;
+
+create unique index if not exists vehiculos_placa_unica
+  on public.vehiculos ((coalesce(concesionario_id, user_id)), placa)
+  where coalesce(placa, '') <> '' and estado <> 'vendido';
+
+-- Búsqueda de publicaciones duplicadas en otros inventarios
+create index if not exists vehiculos_placa_idx on public.vehiculos (placa);
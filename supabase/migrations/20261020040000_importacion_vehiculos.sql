@@ -0,0 +1,63 @@
+-- Importación masiva de vehículos desde CSV/Excel (ver vehiculoImportacion.server.ts).
+--
+-- Cada importación guarda las celdas del archivo y pasa por
+-- mapeo (columnas) → revision (simulación) → procesando → completada.
+-- El ZIP de fotos se guarda en el bucket privado importaciones-vehiculos
+-- hasta terminar de crear los vehículos.
+
+create table if not exists public.importaciones_vehiculos (
+  id bigint generated always as identity primary key,
+  concesionario_id uuid references public.concesionario (id) on delete cascade,
+  user_id uuid not null references public.users (uuid) on delete cascade,
+  archivo text not null,
+  estado text not null default 'mapeo'
+    check (estado in ('mapeo', 'revision', 'procesando', 'completada', 'descartada')),
+  encabezados jsonb not null default '[]'::jsonb,
+  -- Campo del vehículo → índice de la columna del archivo
+  mapeo jsonb not null default '{}'::jsonb,
+  -- Ruta del ZIP en el bucket y, por placa, los archivos del ZIP con sus fotos
+  zip text,
+  fotos jsonb not null default '{}'::jsonb,
+  -- Conteos de la simulación y del proceso, y archivos del ZIP sin vehículo
+  resumen jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  -- Última señal del proceso en segundo plano; si se detiene se reanuda
+  bloqueada_at timestamptz,
+  completada_at timestamptz
+);
+
+create index if not exists importaciones_vehiculos_concesionario_idx
+  on public.importaciones_vehiculos (concesionario_id, created_at desc);
+create index if not exists importaciones_vehiculos_user_idx
+  on public.importaciones_vehiculos (user_id, created_at desc);
+
+create table if not exists public.importaciones_vehiculos_filas (
+  id bigint generated always as identity primary key,
+  importacion_id bigint not null references public.importaciones_vehiculos (id) on delete cascade,
+  -- Número de fila en la hoja (el encabezado es la fila 1)
+  fila integer not null,
+  celdas jsonb not null,
+  -- pendiente → valida | invalida; valida → creando → creada | fallida
+  estado text not null default 'pendiente'
+    check (estado in ('pendiente', 'valida', 'invalida', 'creando', 'creada', 'fallida')),
+  -- Valores validados, como los guarda el formulario de vehículos
+  datos jsonb,
+  -- URLs de fotos indicadas en el archivo
+  imagenes jsonb not null default '[]'::jsonb,
+  errores jsonb not null default '{}'::jsonb,
+  avisos jsonb not null default '[]'::jsonb,
+  vehiculo_uuid uuid,
+  error text,
+  unique (importacion_id, fila)
+);
+
+create index if not exists importaciones_vehiculos_filas_estado_idx
+  on public.importaciones_vehiculos_filas (importacion_id, estado, fila);
+
+alter table public.importaciones_vehiculos enable row level security;
+alter table public.importaciones_vehiculos_filas enable row level security;
+
+-- Bucket privado para los ZIP de fotos mientras dura la importación
+insert into storage.buckets (id, name, public)
+values ('importaciones-vehiculos', 'importaciones-vehiculos', false)
+on conflict (id) do nothing;
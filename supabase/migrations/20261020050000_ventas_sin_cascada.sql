@@ -0,0 +1,9 @@
+-- La venta de un vehículo no se borra con él: la app ya no elimina vehículos
+-- vendidos y la base de datos lo impide mientras exista su venta.
+
+alter table public.ventas_vehiculo
+  drop constraint if exists ventas_vehiculo_vehiculo_uuid_fkey;
+
+alter table public.ventas_vehiculo
+  add constraint ventas_vehiculo_vehiculo_uuid_fkey
+    foreign key (vehiculo_uuid) references public.vehiculos (uuid) on delete restrict;
@@ -0,0 +1,101 @@
+-- Clientes por concesionario (o vendedor particular), igual que los
+-- vehículos: cada inventario tiene su propia ficha de cliente y el mismo
+-- email puede existir una vez en cada uno. La app filtra siempre por
+-- propietario (clientesDe en tenant.server.ts).
+
+alter table public.clientes
+  add column if not exists concesionario_id uuid references public.concesionario (id) on delete cascade,
+  add column if not exists user_id uuid references public.users (uuid) on delete set null;
+
+drop index if exists public.clientes_email_lower_key;
+
+-- Propietarios de los clientes existentes: los de los vehículos por los que
+-- preguntaron o que compraron. Un cliente con solicitudes en varios
+-- inventarios se reparte: el primero se queda con la ficha y cada uno de los
+-- demás recibe una copia.
+create temp table clientes_propietarios as
+select
+  cliente_id,
+  concesionario_id,
+  user_id,
+  gen_random_uuid() as nuevo_id,
+  row_number() over (partition by cliente_id order by concesionario_id nulls last, user_id) as orden
+from (
+  select s.cliente_id, v.concesionario_id, case when v.concesionario_id is null then v.user_id end as user_id
+  from public.solicitud_contacto s
+  join public.vehiculos v on v.uuid = s.vehiculo_uuid
+  where s.cliente_id is not null
+  union
+  select vv.cliente_id, v.concesionario_id, case when v.concesionario_id is null then v.user_id end
+  from public.ventas_vehiculo vv
+  join public.vehiculos v on v.uuid = vv.vehiculo_uuid
+) propietarios
+where concesionario_id is not null or user_id is not null;
+
+update public.clientes c
+set concesionario_id = p.concesionario_id, user_id = p.user_id
+from clientes_propietarios p
+where p.cliente_id = c.id and p.orden = 1;
+
+insert into public.clientes (id, name, email, created_at, concesionario_id, user_id)
+select p.nuevo_id, c.name, c.email, c.created_at, p.concesionario_id, p.user_id
+from clientes_propietarios p
+join public.clientes c on c.id = p.cliente_id
+where p.orden > 1;
+
+-- Las solicitudes, interacciones y ventas de cada inventario pasan a su copia
+update public.solicitud_contacto s
+set cliente_id = p.nuevo_id
+from clientes_propietarios p, public.vehiculos v
+where p.orden > 1
+  and s.cliente_id = p.cliente_id
+  and v.uuid = s.vehiculo_uuid
+  and v.concesionario_id is not distinct from p.concesionario_id
+  and (p.concesionario_id is not null or v.user_id = p.user_id);
+
+update public.cliente_interacciones i
+set cliente_id = p.nuevo_id
+from clientes_propietarios p, public.vehiculos v
+where p.orden > 1
+  and i.cliente_id = p.cliente_id
+  and v.uuid = i.vehiculo_uuid
+  and v.concesionario_id is not distinct from p.concesionario_id
+  and (p.concesionario_id is not null or v.user_id = p.user_id);
+
+update public.ventas_vehiculo vv
+set cliente_id = p.nuevo_id
+from clientes_propietarios p, public.vehiculos v
+where p.orden > 1
+  and vv.cliente_id = p.cliente_id
+  and v.uuid = vv.vehiculo_uuid
+  and v.concesionario_id is not distinct from p.concesionario_id
+  and (p.concesionario_id is not null or v.user_id = p.user_id);
+
+drop table clientes_propietarios;
+
+-- Los clientes sin solicitudes ni ventas (altas manuales o por archivo) no
+-- dicen de qué inventario son. Hasta ahora la lista de clientes era común a
+-- todos los equipos, así que cada concesionario conserva los que ya veía: el
+-- primero se queda con la ficha y los demás reciben una copia.
+create temp table clientes_sin_propietario as
+select c.id as cliente_id, k.id as concesionario_id, gen_random_uuid() as nuevo_id,
+  row_number() over (partition by c.id order by k.id) as orden
+from public.clientes c
+cross join public.concesionario k
+where c.concesionario_id is null and c.user_id is null;
+
+update public.clientes c
+set concesionario_id = p.concesionario_id
+from clientes_sin_propietario p
+where p.cliente_id = c.id and p.orden = 1;
+
+insert into public.clientes (id, name, email, created_at, concesionario_id)
+select p.nuevo_id, c.name, c.email, c.created_at, p.concesionario_id
+from clientes_sin_propietario p
+join public.clientes c on c.id = p.cliente_id
+where p.orden > 1;
+
+drop table clientes_sin_propietario;
+
+create index if not exists clientes_concesionario_idx
+  on public.clientes (concesionario_id, created_at desc);
@@ -0,0 +1,33 @@
+-- Conteo de la bandeja de leads por etapa y cuarentena, con los mismos
+-- filtros de asignación y texto que el listado (ver listLeads).
+--
+-- concesionario / propietario: alcance del tenant; sin concesionario solo
+-- cuentan los vehículos del usuario que no son de ningún concesionario.
+-- asignado: uuid del usuario, 'sin' (sin asignar) o null (todos).
+
+create or replace function public.contar_leads(
+  concesionario uuid default null,
+  propietario uuid default null,
+  asignado text default null,
+  texto text default null
+)
+returns table (etapa text, en_cuarentena boolean, total bigint)
+language sql
+stable
+set search_path = public
+as $$
+  select s.etapa, s.en_cuarentena, count(*) as total
+  from public.solicitud_contacto s
+  join public.vehiculos v on v.uuid = s.vehiculo_uuid
+  where (
+      (concesionario is not null and v.concesionario_id = concesionario)
+      or (concesionario is null and v.user_id = propietario and v.concesionario_id is null)
+    )
+    and (
+      asignado is null
+      or (asignado = 'sin' and s.asignado_a is null)
+      or s.asignado_a::text = asignado
+    )
+    and (texto is null or s.nombre ilike '%' || texto || '%' or s.email ilike '%' || texto || '%')
+  group by s.etapa, s.en_cuarentena
+$$;
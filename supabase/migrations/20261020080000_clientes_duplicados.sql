@@ -0,0 +1,44 @@
+-- Fusiona los clientes de un mismo inventario con el mismo email en distinta
+-- capitalización ("Ana@x.com" y "ana@x.com"): se conserva el más antiguo y
+-- sus solicitudes, interacciones y ventas pasan a él. Después, email único
+-- dentro de cada inventario.
+create temp table clientes_duplicados as
+select
+  id,
+  first_value(id) over (
+    partition by concesionario_id, case when concesionario_id is null then user_id end, lower(email)
+    order by created_at, id
+  ) as conservar
+from public.clientes
+where email is not null;
+
+delete from clientes_duplicados where id = conservar;
+
+update public.solicitud_contacto s
+set cliente_id = d.conservar
+from clientes_duplicados d
+where s.cliente_id = d.id;
+
+update public.cliente_interacciones i
+set cliente_id = d.conservar
+from clientes_duplicados d
+where i.cliente_id = d.id;
+
+update public.ventas_vehiculo v
+set cliente_id = d.conservar
+from clientes_duplicados d
+where v.cliente_id = d.id;
+
+delete from public.clientes c
+using clientes_duplicados d
+where c.id = d.id;
+
+drop table clientes_duplicados;
+
+create unique index if not exists clientes_concesionario_email_key
+  on public.clientes (concesionario_id, lower(email))
+  where concesionario_id is not null;
+
+create unique index if not exists clientes_usuario_email_key
+  on public.clientes (user_id, lower(email))
+  where concesionario_id is null;